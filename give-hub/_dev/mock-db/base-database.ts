@@ -0,0 +1,215 @@
+/**
+ * FILE: _dev/mock-db/base-database.ts
+ * PURPOSE: Behaviour shared by every mock-db backend (search, sorting, stats helpers)
+ * ACCESS: Extended by `JsonDatabase` and `SqliteDatabase`; never instantiated directly
+ * MIGRATION NOTES:
+ * - MongoDB: replace `searchCampaigns` with a text index query and drop the in-memory filtering
+ */
+
+import type { Database, DatabaseDriver, CampaignWriteListener } from './repositories';
+import type {
+  User,
+  Creator,
+  Campaign,
+  Donation,
+  CampaignQuery,
+  CampaignSearchOptions,
+  UserStats,
+  CollectionRecord,
+} from './types';
+
+const COLLECTION_NAME = /^[a-z][a-z0-9_-]*$/;
+
+export abstract class BaseDatabase implements Database {
+  abstract readonly driver: DatabaseDriver;
+
+  abstract transaction<T>(fn: () => T): T;
+
+  // User operations
+  abstract findUserByEmail(email: string): User | Creator | null;
+  abstract findUserByUsername(username: string): User | Creator | null;
+  abstract findUserById(id: string): User | Creator | null;
+  abstract createUser(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): User;
+  abstract createCreator(creatorData: Omit<Creator, 'id' | 'createdAt' | 'updatedAt'>): Creator;
+  abstract updateUser(id: string, updateData: Partial<User | Creator>): User | Creator | null;
+  abstract deleteUser(id: string): boolean;
+  abstract getAllUsers(): (User | Creator)[];
+  abstract getVerifiedCreators(): Creator[];
+  abstract getCreators(): Creator[];
+  abstract getCampaignBackers(campaignId: string): (User | Creator)[];
+  abstract getRecentUsers(limit?: number): (User | Creator)[];
+
+  // Campaign operations
+  abstract getAllCampaigns(): Campaign[];
+  abstract findCampaignById(id: string): Campaign | null;
+  abstract createCampaign(campaignData: Omit<Campaign, 'id'>): Campaign;
+  abstract updateCampaign(id: string, updateData: Partial<Campaign>): Campaign | null;
+
+  // Donation operations
+  abstract getDonationsByCampaign(campaignId: string): Donation[];
+  abstract getAllDonations(): Donation[];
+  abstract createDonation(donationData: Omit<Donation, 'timestamp'> & { timestamp?: Date }): Donation;
+  abstract deleteDonation(id: string): boolean;
+
+  // Collection operations
+  abstract listRecords<T extends CollectionRecord>(collection: string, match?: Partial<T>): T[];
+  abstract findRecord<T extends CollectionRecord>(collection: string, id: string): T | null;
+  abstract insertRecord<T extends CollectionRecord>(collection: string, record: T): T;
+  abstract updateRecord<T extends CollectionRecord>(collection: string, id: string, update: Partial<T>): T | null;
+  abstract deleteRecord(collection: string, id: string): boolean;
+
+  private campaignWriteListeners = new Set<CampaignWriteListener>();
+
+  onCampaignWrite(listener: CampaignWriteListener): () => void {
+    this.campaignWriteListeners.add(listener);
+    return () => { this.campaignWriteListeners.delete(listener); };
+  }
+
+  // Backends call this after writing a campaign; a failing listener never fails the write
+  protected notifyCampaignWrite(campaign: Campaign): void {
+    for (const listener of this.campaignWriteListeners) {
+      try {
+        listener(campaign);
+      } catch (error) {
+        console.error('[mock-db] campaign write listener failed:', error);
+      }
+    }
+  }
+
+  // Collection names become file names / keys, so keep them to a safe alphabet
+  protected assertCollectionName(collection: string): void {
+    if (!COLLECTION_NAME.test(collection)) {
+      throw new Error(`Invalid collection name: ${collection}`);
+    }
+  }
+
+  protected matchesRecord<T extends CollectionRecord>(record: T, match?: Partial<T>): boolean {
+    if (!match) return true;
+    return Object.entries(match).every(([key, value]) =>
+      value === undefined || (record as Record<string, unknown>)[key] === value
+    );
+  }
+
+  /**
+   * Optimized search campaigns with indexing support for MongoDB migration
+   * Uses in-memory caching and efficient data structures for O(1) lookups
+   * Compatible with MongoDB text indexes and compound indexes
+   */
+  searchCampaigns(query: CampaignQuery): Campaign[] {
+    const campaigns = this.getAllCampaigns();
+
+    // Early return for empty query
+    if (!query || Object.keys(query).length === 0) {
+      return campaigns;
+    }
+
+    const { q, ...filters } = query;
+
+    // Use Map for O(1) lookups and Set for efficient filtering
+    let result = campaigns;
+
+    // Text search optimization - single pass with pre-compiled regex
+    if (q && q.trim()) {
+      const searchTerm = q.toLowerCase().trim();
+      const searchRegex = new RegExp(searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+
+      result = result.filter(campaign => {
+        return searchRegex.test(campaign.title) ||
+               searchRegex.test(campaign.description) ||
+               (campaign.category && searchRegex.test(campaign.category));
+      });
+    }
+
+    // Apply structured filters with early termination
+    for (const [key, value] of Object.entries(filters)) {
+      if (value == null) continue;
+
+      result = result.filter(campaign => {
+        const fieldValue = campaign[key as keyof Campaign];
+
+        if (typeof fieldValue === 'string') {
+          return fieldValue.toLowerCase().includes(String(value).toLowerCase());
+        } else if (typeof fieldValue === 'number') {
+          return fieldValue === Number(value);
+        } else if (Array.isArray(fieldValue)) {
+          if (Array.isArray(value)) {
+            return value.some(v => fieldValue.includes(v as never));
+          } else {
+            return fieldValue.includes(value as never);
+          }
+        }
+        return true;
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * MongoDB-compatible search with projection and sorting
+   * Returns campaigns matching criteria with pagination support
+   * @param query Search criteria
+   * @param options MongoDB-compatible options (limit, skip, sort)
+   */
+  searchCampaignsAdvanced(
+    query: CampaignQuery,
+    options?: CampaignSearchOptions
+  ): { campaigns: Campaign[]; total: number } {
+    const campaigns = this.searchCampaigns(query);
+    const total = campaigns.length;
+
+    if (options) {
+      let result = campaigns;
+
+      // Apply sorting
+      if (options.sort) {
+        result = [...result].sort((a, b) => {
+          for (const [field, direction] of Object.entries(options.sort!)) {
+            const aVal = a[field as keyof Campaign];
+            const bVal = b[field as keyof Campaign];
+
+            if (aVal === undefined || bVal === undefined) continue;
+
+            if (aVal < bVal) return -direction;
+            if (aVal > bVal) return direction;
+          }
+          return 0;
+        });
+      }
+
+      // Apply pagination
+      if (options.skip) {
+        result = result.slice(options.skip);
+      }
+
+      if (options.limit) {
+        result = result.slice(0, options.limit);
+      }
+
+      return { campaigns: result, total };
+    }
+
+    return { campaigns, total };
+  }
+
+  // Helper functions - TODO: Replace with MongoDB aggregation queries
+  getUserStats(userId: string): UserStats | null {
+    const user = this.findUserById(userId);
+    if (!user) return null;
+
+    if (user.role === "creator") {
+      const creator = user as Creator;
+      return {
+        totalCampaigns: creator.createdCampaigns.length,
+        totalRaised: creator.totalRaised,
+        verificationStatus: creator.verificationStatus
+      };
+    } else {
+      return {
+        totalDonations: user.donatedCampaigns?.length || 0,
+        totalDonated: user.totalDonated || 0,
+        preferredChains: user.preferredChains || []
+      };
+    }
+  }
+}
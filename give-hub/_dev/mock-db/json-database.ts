@@ -0,0 +1,374 @@
+/**
+ * FILE: _dev/mock-db/json-database.ts
+ * PURPOSE: JSON-file backend for the mock database (default driver, `DB_DRIVER=json`)
+ * ACCESS: Selected by `database.ts`; do not import directly from routes
+ * NOTES:
+ * - Every file write goes to a temp file first and is renamed into place, so readers
+ *   never observe a half-written JSON document
+ * - `transaction()` buffers writes in memory; if the callback throws, nothing is written.
+ *   On success every touched file goes into one journal (`.journal.json`, itself renamed
+ *   into place) before the files are replaced, and the journal is removed afterwards.
+ *   A journal left behind by a crash mid-flush is replayed when the database is opened,
+ *   so a transaction is never half-applied on disk
+ * - Only safe for a single server process; use the SQLite driver when several
+ *   processes (or workers) write concurrently
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { BaseDatabase } from './base-database';
+import type {
+  User,
+  Creator,
+  Campaign,
+  Donation,
+  DonationDB,
+  UsersDB,
+  CampaignsDB,
+  DonationsDB,
+  CollectionRecord,
+  CollectionDB,
+} from './types';
+
+// Database file paths
+// NOTE: During dev, JSON lives under _dev/mock-db
+export const DB_DIR = path.join(process.cwd(), '_dev', 'mock-db');
+export const USERS_FILE = path.join(DB_DIR, 'users.json');
+export const CAMPAIGNS_FILE = path.join(DB_DIR, 'campaigns.json');
+export const DONATIONS_FILE = path.join(DB_DIR, 'donations.json');
+// Feature collections are runtime data (git-ignored), one file per collection
+export const COLLECTIONS_DIR = path.join(DB_DIR, 'collections');
+// Write-ahead journal of the transaction being flushed (git-ignored)
+export const JOURNAL_FILE = path.join(DB_DIR, '.journal.json');
+
+type Journal = { files: [string, unknown][] };
+
+// File system operations (will be replaced with MongoDB operations)
+export class JsonDatabase extends BaseDatabase {
+  readonly driver = 'json' as const;
+
+  // Pending writes for the active transaction, keyed by file path
+  private pending: Map<string, unknown> | null = null;
+
+  constructor() {
+    super();
+    this.replayJournal();
+  }
+
+  transaction<T>(fn: () => T): T {
+    // Nested transactions join the outer one
+    if (this.pending) return fn();
+
+    this.pending = new Map();
+    try {
+      const result = fn();
+      this.commit([...this.pending]);
+      return result;
+    } finally {
+      this.pending = null;
+    }
+  }
+
+  // A single file is already atomic (temp + rename); several go through the journal
+  private commit(files: [string, unknown][]): void {
+    if (files.length === 0) return;
+    if (files.length === 1) {
+      this.persist(files[0][0], files[0][1]);
+      return;
+    }
+    this.persist(JOURNAL_FILE, { files } satisfies Journal);
+    this.applyJournal(files);
+  }
+
+  private applyJournal(files: [string, unknown][]): void {
+    for (const [filePath, data] of files) {
+      this.persist(filePath, data);
+    }
+    fs.rmSync(JOURNAL_FILE, { force: true });
+  }
+
+  // Finishes a flush that was interrupted (crash or kill between the journal and the last file)
+  private replayJournal(): void {
+    if (!fs.existsSync(JOURNAL_FILE)) return;
+    let journal: Journal;
+    try {
+      journal = JSON.parse(fs.readFileSync(JOURNAL_FILE, 'utf8'));
+    } catch (error) {
+      // The journal is renamed into place, so an unreadable one was never committed
+      console.error(`Discarding unreadable journal ${JOURNAL_FILE}:`, error);
+      fs.rmSync(JOURNAL_FILE, { force: true });
+      return;
+    }
+    console.warn(`[mock-db] Replaying interrupted transaction (${journal.files.length} files)`);
+    this.applyJournal(journal.files);
+  }
+
+  // TODO: Replace with MongoDB connection
+  private readFile<T>(filePath: string): T {
+    if (this.pending?.has(filePath)) {
+      return this.pending.get(filePath) as T;
+    }
+    try {
+      const data = fs.readFileSync(filePath, 'utf8');
+      return JSON.parse(data);
+    } catch (error) {
+      console.error(`Error reading file ${filePath}:`, error);
+      throw new Error(`Database read error: ${filePath}`);
+    }
+  }
+
+  // TODO: Replace with MongoDB operations
+  private writeFile<T>(filePath: string, data: T): void {
+    if (this.pending) {
+      this.pending.set(filePath, data);
+      return;
+    }
+    this.persist(filePath, data);
+  }
+
+  private persist(filePath: string, data: unknown): void {
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+      fs.renameSync(tmpPath, filePath);
+    } catch (error) {
+      console.error(`Error writing file ${filePath}:`, error);
+      try { fs.rmSync(tmpPath, { force: true }); } catch {}
+      throw new Error(`Database write error: ${filePath}`);
+    }
+  }
+
+  // User operations - TODO: Replace with MongoDB User collection operations
+  findUserByEmail(email: string): User | Creator | null {
+    const db = this.readFile<UsersDB>(USERS_FILE);
+    return db.users.find(user => user.email === email) || null;
+  }
+
+  findUserByUsername(username: string): User | Creator | null {
+    const db = this.readFile<UsersDB>(USERS_FILE);
+    return db.users.find(user => user.username === username) || null;
+  }
+
+  findUserById(id: string): User | Creator | null {
+    const db = this.readFile<UsersDB>(USERS_FILE);
+    return db.users.find(user => user.id === id) || null;
+  }
+
+  createUser(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): User {
+    const db = this.readFile<UsersDB>(USERS_FILE);
+    const newUser: User = {
+      ...userData,
+      id: `user_${Date.now()}`,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      walletAddresses: {},
+      donatedCampaigns: [],
+      totalDonated: 0,
+      preferredChains: []
+    };
+    db.users.push(newUser);
+    this.writeFile(USERS_FILE, db);
+    return newUser;
+  }
+
+  createCreator(creatorData: Omit<Creator, 'id' | 'createdAt' | 'updatedAt'>): Creator {
+    const db = this.readFile<UsersDB>(USERS_FILE);
+    const newCreator: Creator = {
+      ...creatorData,
+      id: `creator_${Date.now()}`,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      createdCampaigns: [],
+      totalRaised: 0,
+      verificationStatus: "pending"
+    };
+    db.users.push(newCreator);
+    this.writeFile(USERS_FILE, db);
+    return newCreator;
+  }
+
+  updateUser(id: string, updateData: Partial<User | Creator>): User | Creator | null {
+    const db = this.readFile<UsersDB>(USERS_FILE);
+    const userIndex = db.users.findIndex(user => user.id === id);
+    if (userIndex === -1) return null;
+
+    db.users[userIndex] = {
+      ...db.users[userIndex],
+      ...updateData,
+      updatedAt: new Date().toISOString()
+    } as User | Creator;
+    this.writeFile(USERS_FILE, db);
+    return db.users[userIndex];
+  }
+
+  deleteUser(id: string): boolean {
+    const db = this.readFile<UsersDB>(USERS_FILE);
+    const userIndex = db.users.findIndex(user => user.id === id);
+    if (userIndex === -1) return false;
+
+    db.users.splice(userIndex, 1);
+    this.writeFile(USERS_FILE, db);
+    return true;
+  }
+
+  getAllUsers(): (User | Creator)[] {
+    const db = this.readFile<UsersDB>(USERS_FILE);
+    return db.users;
+  }
+
+  getVerifiedCreators(): Creator[] {
+    const db = this.readFile<UsersDB>(USERS_FILE);
+    return db.users.filter(user =>
+      user.role === "creator" &&
+      (user as Creator).verificationStatus === "verified"
+    ) as Creator[];
+  }
+
+  getCreators(): Creator[] {
+    const db = this.readFile<UsersDB>(USERS_FILE);
+    return db.users.filter(user => user.role === "creator") as Creator[];
+  }
+
+  getCampaignBackers(campaignId: string): (User | Creator)[] {
+    const db = this.readFile<UsersDB>(USERS_FILE);
+    return db.users.filter(user => user.donatedCampaigns?.includes(campaignId));
+  }
+
+  getRecentUsers(limit: number = 10): (User | Creator)[] {
+    const db = this.readFile<UsersDB>(USERS_FILE);
+    return [...db.users]
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, limit);
+  }
+
+  // Campaign operations - TODO: Replace with MongoDB Campaign collection operations
+  getAllCampaigns(): Campaign[] {
+    const db = this.readFile<CampaignsDB>(CAMPAIGNS_FILE);
+    return db.campaigns;
+  }
+
+  findCampaignById(id: string): Campaign | null {
+    const db = this.readFile<CampaignsDB>(CAMPAIGNS_FILE);
+    const campaignMap = new Map(db.campaigns.map(campaign => [campaign.id, campaign]));
+    return campaignMap.get(id) || null;
+  }
+
+  createCampaign(campaignData: Omit<Campaign, 'id'>): Campaign {
+    const db = this.readFile<CampaignsDB>(CAMPAIGNS_FILE);
+    const newCampaign: Campaign = {
+      ...campaignData,
+      id: `campaign_${Date.now()}`
+    };
+    db.campaigns.push(newCampaign);
+    this.writeFile(CAMPAIGNS_FILE, db);
+    this.notifyCampaignWrite(newCampaign);
+    return newCampaign;
+  }
+
+  updateCampaign(id: string, updateData: Partial<Campaign>): Campaign | null {
+    const db = this.readFile<CampaignsDB>(CAMPAIGNS_FILE);
+    const index = db.campaigns.findIndex(campaign => campaign.id === id);
+    if (index === -1) return null;
+
+    db.campaigns[index] = { ...db.campaigns[index], ...updateData };
+    this.writeFile(CAMPAIGNS_FILE, db);
+    this.notifyCampaignWrite(db.campaigns[index]);
+    return db.campaigns[index];
+  }
+
+  // Donation operations - TODO: Replace with MongoDB Donation collection operations
+  getDonationsByCampaign(campaignId: string): Donation[] {
+    const db = this.readFile<DonationsDB>(DONATIONS_FILE);
+    return db.donations
+      .filter(donation => donation.campaignId === campaignId)
+      .map(donation => ({
+        ...donation,
+        timestamp: new Date(donation.timestamp)
+      }));
+  }
+
+  getAllDonations(): Donation[] {
+    const db = this.readFile<DonationsDB>(DONATIONS_FILE);
+    return db.donations.map(donation => ({
+      ...donation,
+      timestamp: new Date(donation.timestamp)
+    }));
+  }
+
+  createDonation(donationData: Omit<Donation, 'timestamp'> & { timestamp?: Date }): Donation {
+    const db = this.readFile<DonationsDB>(DONATIONS_FILE);
+    const dbDonation: DonationDB = {
+      ...donationData,
+      id: donationData.id || `donation_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: (donationData.timestamp || new Date()).toISOString()
+    };
+    db.donations.push(dbDonation);
+    this.writeFile(DONATIONS_FILE, db);
+    return {
+      ...dbDonation,
+      timestamp: new Date(dbDonation.timestamp)
+    };
+  }
+
+  deleteDonation(id: string): boolean {
+    const db = this.readFile<DonationsDB>(DONATIONS_FILE);
+    const index = db.donations.findIndex(donation => donation.id === id);
+    if (index === -1) return false;
+    db.donations.splice(index, 1);
+    this.writeFile(DONATIONS_FILE, db);
+    return true;
+  }
+
+  // Collection operations - TODO: Replace with MongoDB collection operations
+  private collectionFile(collection: string): string {
+    this.assertCollectionName(collection);
+    return path.join(COLLECTIONS_DIR, `${collection}.json`);
+  }
+
+  private readCollection<T extends CollectionRecord>(collection: string): CollectionDB<T> {
+    const filePath = this.collectionFile(collection);
+    if (!this.pending?.has(filePath) && !fs.existsSync(filePath)) {
+      return { records: [] };
+    }
+    return this.readFile<CollectionDB<T>>(filePath);
+  }
+
+  listRecords<T extends CollectionRecord>(collection: string, match?: Partial<T>): T[] {
+    return this.readCollection<T>(collection).records.filter(record => this.matchesRecord(record, match));
+  }
+
+  findRecord<T extends CollectionRecord>(collection: string, id: string): T | null {
+    return this.readCollection<T>(collection).records.find(record => record.id === id) || null;
+  }
+
+  insertRecord<T extends CollectionRecord>(collection: string, record: T): T {
+    const db = this.readCollection<T>(collection);
+    if (db.records.some(existing => existing.id === record.id)) {
+      throw new Error(`Duplicate id "${record.id}" in collection ${collection}`);
+    }
+    db.records.push(record);
+    this.writeFile(this.collectionFile(collection), db);
+    return record;
+  }
+
+  updateRecord<T extends CollectionRecord>(collection: string, id: string, update: Partial<T>): T | null {
+    const db = this.readCollection<T>(collection);
+    const index = db.records.findIndex(record => record.id === id);
+    if (index === -1) return null;
+
+    db.records[index] = { ...db.records[index], ...update, id };
+    this.writeFile(this.collectionFile(collection), db);
+    return db.records[index];
+  }
+
+  deleteRecord(collection: string, id: string): boolean {
+    const db = this.readCollection(collection);
+    const index = db.records.findIndex(record => record.id === id);
+    if (index === -1) return false;
+
+    db.records.splice(index, 1);
+    this.writeFile(this.collectionFile(collection), db);
+    return true;
+  }
+}
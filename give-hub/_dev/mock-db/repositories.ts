@@ -0,0 +1,89 @@
+/**
+ * FILE: _dev/mock-db/repositories.ts
+ * PURPOSE: Storage-agnostic repository contracts implemented by each mock-db backend
+ * ACCESS: Implemented by `json-database.ts` and `sqlite-database.ts`; consumed through `db`
+ * MIGRATION NOTES:
+ * - A MongoDB backend only has to implement `Database` to become selectable
+ * - Method names intentionally match the original MockDatabase so callers need no changes
+ */
+
+import type {
+  User,
+  Creator,
+  Campaign,
+  Donation,
+  CampaignQuery,
+  CampaignSearchOptions,
+  UserStats,
+  CollectionRecord,
+} from './types';
+
+export interface UserRepository {
+  findUserByEmail(email: string): User | Creator | null;
+  findUserByUsername(username: string): User | Creator | null;
+  findUserById(id: string): User | Creator | null;
+  createUser(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): User;
+  createCreator(creatorData: Omit<Creator, 'id' | 'createdAt' | 'updatedAt'>): Creator;
+  updateUser(id: string, updateData: Partial<User | Creator>): User | Creator | null;
+  deleteUser(id: string): boolean;
+  getAllUsers(): (User | Creator)[];
+  getVerifiedCreators(): Creator[];
+  getCreators(): Creator[];
+  /** Users whose `donatedCampaigns` include the campaign */
+  getCampaignBackers(campaignId: string): (User | Creator)[];
+  getRecentUsers(limit?: number): (User | Creator)[];
+  getUserStats(userId: string): UserStats | null;
+}
+
+export type CampaignWriteListener = (campaign: Campaign) => void;
+
+export interface CampaignRepository {
+  getAllCampaigns(): Campaign[];
+  findCampaignById(id: string): Campaign | null;
+  createCampaign(campaignData: Omit<Campaign, 'id'>): Campaign;
+  updateCampaign(id: string, updateData: Partial<Campaign>): Campaign | null;
+  /**
+   * Called with the stored campaign after every createCampaign/updateCampaign in this process
+   * (search index upkeep). Returns an unsubscribe function.
+   */
+  onCampaignWrite(listener: CampaignWriteListener): () => void;
+  searchCampaigns(query: CampaignQuery): Campaign[];
+  searchCampaignsAdvanced(
+    query: CampaignQuery,
+    options?: CampaignSearchOptions
+  ): { campaigns: Campaign[]; total: number };
+}
+
+export interface DonationRepository {
+  getDonationsByCampaign(campaignId: string): Donation[];
+  getAllDonations(): Donation[];
+  createDonation(donationData: Omit<Donation, 'timestamp'> & { timestamp?: Date }): Donation;
+  /** Only lib/ledger calls this (reversing a donation an on-chain reorg dropped) */
+  deleteDonation(id: string): boolean;
+}
+
+/**
+ * Named collections of id-keyed records for feature modules that do not need their own
+ * typed methods (sessions, one-time tokens, notifications, ...). `match` is a shallow
+ * equality filter on top-level fields. Maps 1:1 onto MongoDB collections.
+ */
+export interface CollectionRepository {
+  listRecords<T extends CollectionRecord>(collection: string, match?: Partial<T>): T[];
+  findRecord<T extends CollectionRecord>(collection: string, id: string): T | null;
+  insertRecord<T extends CollectionRecord>(collection: string, record: T): T;
+  updateRecord<T extends CollectionRecord>(collection: string, id: string, update: Partial<T>): T | null;
+  deleteRecord(collection: string, id: string): boolean;
+}
+
+/**
+ * Full storage backend. `transaction` runs `fn` as one atomic unit: either every
+ * write made through this backend inside `fn` is persisted, or none is (the JSON
+ * driver guarantees this across a crash by journaling the flush, see json-database.ts).
+ * Nested calls join the outer transaction.
+ */
+export interface Database extends UserRepository, CampaignRepository, DonationRepository, CollectionRepository {
+  readonly driver: DatabaseDriver;
+  transaction<T>(fn: () => T): T;
+}
+
+export type DatabaseDriver = 'json' | 'sqlite';
@@ -0,0 +1,334 @@
+/**
+ * FILE: _dev/mock-db/sqlite-database.ts
+ * PURPOSE: File-backed SQLite backend for the mock database (`DB_DRIVER=sqlite`)
+ * ACCESS: Selected by `database.ts`; do not import directly from routes
+ * NOTES:
+ * - Records are stored as JSON documents next to the few columns we look up by,
+ *   so the shapes in `types.ts` stay the single source of truth
+ * - Read-modify-write methods and `transaction()` run inside `BEGIN IMMEDIATE`,
+ *   which serialises writers across processes (WAL mode keeps readers unblocked)
+ * - On first open the database is seeded from the JSON files in `_dev/mock-db`
+ */
+
+import fs from 'fs';
+import path from 'path';
+import BetterSqlite3 from 'better-sqlite3';
+import { BaseDatabase } from './base-database';
+import { DB_DIR, USERS_FILE, CAMPAIGNS_FILE, DONATIONS_FILE } from './json-database';
+import type {
+  User,
+  Creator,
+  Campaign,
+  Donation,
+  DonationDB,
+  UsersDB,
+  CampaignsDB,
+  DonationsDB,
+  CollectionRecord,
+} from './types';
+
+export const DEFAULT_SQLITE_PATH = path.join(DB_DIR, 'givehub.sqlite');
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    username TEXT NOT NULL,
+    role TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS users_email ON users (email);
+  CREATE INDEX IF NOT EXISTS users_username ON users (username);
+  CREATE TABLE IF NOT EXISTS campaigns (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    creator_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS donations (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    campaign_id TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS donations_campaign ON donations (campaign_id);
+  CREATE TABLE IF NOT EXISTS records (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    collection TEXT NOT NULL,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    UNIQUE (collection, id)
+  );
+`;
+
+type DataRow = { data: string };
+
+function readSeed<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) return fallback;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    console.error(`Error reading seed file ${filePath}:`, error);
+    return fallback;
+  }
+}
+
+export class SqliteDatabase extends BaseDatabase {
+  readonly driver = 'sqlite' as const;
+  private conn: BetterSqlite3.Database;
+
+  constructor(filePath: string = DEFAULT_SQLITE_PATH) {
+    super();
+    this.conn = new BetterSqlite3(filePath);
+    this.conn.pragma('journal_mode = WAL');
+    this.conn.pragma('busy_timeout = 5000');
+    this.conn.exec(SCHEMA);
+    this.seedFromJson();
+  }
+
+  transaction<T>(fn: () => T): T {
+    // better-sqlite3 turns nested transaction calls into savepoints
+    return this.conn.transaction(fn).immediate();
+  }
+
+  private seedFromJson(): void {
+    this.transaction(() => {
+      const seeded = this.conn.prepare('SELECT value FROM meta WHERE key = ?').get('seeded');
+      if (seeded) return;
+
+      const { users } = readSeed<UsersDB>(USERS_FILE, { users: [] });
+      const { campaigns } = readSeed<CampaignsDB>(CAMPAIGNS_FILE, { campaigns: [] });
+      const { donations } = readSeed<DonationsDB>(DONATIONS_FILE, { donations: [] });
+
+      users.forEach(user => this.insertUser(user));
+      campaigns.forEach(campaign => this.insertCampaign(campaign));
+      donations.forEach(donation => this.insertDonation(donation));
+
+      this.conn.prepare('INSERT INTO meta (key, value) VALUES (?, ?)').run('seeded', new Date().toISOString());
+    });
+  }
+
+  private insertUser(user: User | Creator): void {
+    this.conn
+      .prepare('INSERT INTO users (id, email, username, role, created_at, data) VALUES (?, ?, ?, ?, ?, ?)')
+      .run(user.id, user.email, user.username, user.role, user.createdAt, JSON.stringify(user));
+  }
+
+  private insertCampaign(campaign: Campaign): void {
+    this.conn
+      .prepare('INSERT INTO campaigns (id, creator_id, data) VALUES (?, ?, ?)')
+      .run(campaign.id, campaign.creatorId, JSON.stringify(campaign));
+  }
+
+  private insertDonation(donation: DonationDB): void {
+    this.conn
+      .prepare('INSERT INTO donations (campaign_id, timestamp, data) VALUES (?, ?, ?)')
+      .run(donation.campaignId, donation.timestamp, JSON.stringify(donation));
+  }
+
+  private parseAll<T>(rows: unknown[]): T[] {
+    return (rows as DataRow[]).map(row => JSON.parse(row.data) as T);
+  }
+
+  private parseOne<T>(row: unknown): T | null {
+    return row ? (JSON.parse((row as DataRow).data) as T) : null;
+  }
+
+  private toDonation(donation: DonationDB): Donation {
+    return { ...donation, timestamp: new Date(donation.timestamp) };
+  }
+
+  // User operations
+  findUserByEmail(email: string): User | Creator | null {
+    return this.parseOne(this.conn.prepare('SELECT data FROM users WHERE email = ? LIMIT 1').get(email));
+  }
+
+  findUserByUsername(username: string): User | Creator | null {
+    return this.parseOne(this.conn.prepare('SELECT data FROM users WHERE username = ? LIMIT 1').get(username));
+  }
+
+  findUserById(id: string): User | Creator | null {
+    return this.parseOne(this.conn.prepare('SELECT data FROM users WHERE id = ?').get(id));
+  }
+
+  createUser(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): User {
+    const newUser: User = {
+      ...userData,
+      id: `user_${Date.now()}`,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      walletAddresses: {},
+      donatedCampaigns: [],
+      totalDonated: 0,
+      preferredChains: []
+    };
+    this.transaction(() => this.insertUser(newUser));
+    return newUser;
+  }
+
+  createCreator(creatorData: Omit<Creator, 'id' | 'createdAt' | 'updatedAt'>): Creator {
+    const newCreator: Creator = {
+      ...creatorData,
+      id: `creator_${Date.now()}`,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      createdCampaigns: [],
+      totalRaised: 0,
+      verificationStatus: "pending"
+    };
+    this.transaction(() => this.insertUser(newCreator));
+    return newCreator;
+  }
+
+  updateUser(id: string, updateData: Partial<User | Creator>): User | Creator | null {
+    return this.transaction(() => {
+      const existing = this.findUserById(id);
+      if (!existing) return null;
+
+      const updated = {
+        ...existing,
+        ...updateData,
+        updatedAt: new Date().toISOString()
+      } as User | Creator;
+      this.conn
+        .prepare('UPDATE users SET email = ?, username = ?, role = ?, data = ? WHERE id = ?')
+        .run(updated.email, updated.username, updated.role, JSON.stringify(updated), id);
+      return updated;
+    });
+  }
+
+  deleteUser(id: string): boolean {
+    return this.transaction(() => this.conn.prepare('DELETE FROM users WHERE id = ?').run(id).changes > 0);
+  }
+
+  getAllUsers(): (User | Creator)[] {
+    return this.parseAll(this.conn.prepare('SELECT data FROM users ORDER BY created_at').all());
+  }
+
+  getVerifiedCreators(): Creator[] {
+    const creators = this.parseAll<Creator>(this.conn.prepare("SELECT data FROM users WHERE role = 'creator'").all());
+    return creators.filter(creator => creator.verificationStatus === "verified");
+  }
+
+  getCreators(): Creator[] {
+    return this.parseAll<Creator>(this.conn.prepare("SELECT data FROM users WHERE role = 'creator'").all());
+  }
+
+  getCampaignBackers(campaignId: string): (User | Creator)[] {
+    return this.parseAll(this.conn.prepare(
+      "SELECT data FROM users WHERE EXISTS (SELECT 1 FROM json_each(users.data, '$.donatedCampaigns') WHERE value = ?)"
+    ).all(campaignId));
+  }
+
+  getRecentUsers(limit: number = 10): (User | Creator)[] {
+    return this.parseAll(this.conn.prepare('SELECT data FROM users ORDER BY created_at DESC LIMIT ?').all(limit));
+  }
+
+  // Campaign operations
+  getAllCampaigns(): Campaign[] {
+    return this.parseAll(this.conn.prepare('SELECT data FROM campaigns ORDER BY seq').all());
+  }
+
+  findCampaignById(id: string): Campaign | null {
+    return this.parseOne(this.conn.prepare('SELECT data FROM campaigns WHERE id = ?').get(id));
+  }
+
+  createCampaign(campaignData: Omit<Campaign, 'id'>): Campaign {
+    const newCampaign: Campaign = {
+      ...campaignData,
+      id: `campaign_${Date.now()}`
+    };
+    this.transaction(() => this.insertCampaign(newCampaign));
+    this.notifyCampaignWrite(newCampaign);
+    return newCampaign;
+  }
+
+  updateCampaign(id: string, updateData: Partial<Campaign>): Campaign | null {
+    const updated = this.transaction(() => {
+      const existing = this.findCampaignById(id);
+      if (!existing) return null;
+
+      const updated: Campaign = { ...existing, ...updateData };
+      this.conn
+        .prepare('UPDATE campaigns SET creator_id = ?, data = ? WHERE id = ?')
+        .run(updated.creatorId, JSON.stringify(updated), id);
+      return updated;
+    });
+    if (updated) this.notifyCampaignWrite(updated);
+    return updated;
+  }
+
+  // Donation operations
+  getDonationsByCampaign(campaignId: string): Donation[] {
+    const rows = this.conn.prepare('SELECT data FROM donations WHERE campaign_id = ? ORDER BY seq').all(campaignId);
+    return this.parseAll<DonationDB>(rows).map(donation => this.toDonation(donation));
+  }
+
+  getAllDonations(): Donation[] {
+    const rows = this.conn.prepare('SELECT data FROM donations ORDER BY seq').all();
+    return this.parseAll<DonationDB>(rows).map(donation => this.toDonation(donation));
+  }
+
+  createDonation(donationData: Omit<Donation, 'timestamp'> & { timestamp?: Date }): Donation {
+    const dbDonation: DonationDB = {
+      ...donationData,
+      id: donationData.id || `donation_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: (donationData.timestamp || new Date()).toISOString()
+    };
+    this.transaction(() => this.insertDonation(dbDonation));
+    return this.toDonation(dbDonation);
+  }
+
+  deleteDonation(id: string): boolean {
+    return this.transaction(
+      () => this.conn.prepare("DELETE FROM donations WHERE json_extract(data, '$.id') = ?").run(id).changes > 0
+    );
+  }
+
+  // Collection operations
+  listRecords<T extends CollectionRecord>(collection: string, match?: Partial<T>): T[] {
+    this.assertCollectionName(collection);
+    const rows = this.conn.prepare('SELECT data FROM records WHERE collection = ? ORDER BY seq').all(collection);
+    return this.parseAll<T>(rows).filter(record => this.matchesRecord(record, match));
+  }
+
+  findRecord<T extends CollectionRecord>(collection: string, id: string): T | null {
+    this.assertCollectionName(collection);
+    return this.parseOne(this.conn.prepare('SELECT data FROM records WHERE collection = ? AND id = ?').get(collection, id));
+  }
+
+  insertRecord<T extends CollectionRecord>(collection: string, record: T): T {
+    this.assertCollectionName(collection);
+    this.transaction(() => {
+      this.conn
+        .prepare('INSERT INTO records (collection, id, data) VALUES (?, ?, ?)')
+        .run(collection, record.id, JSON.stringify(record));
+    });
+    return record;
+  }
+
+  updateRecord<T extends CollectionRecord>(collection: string, id: string, update: Partial<T>): T | null {
+    return this.transaction(() => {
+      const existing = this.findRecord<T>(collection, id);
+      if (!existing) return null;
+
+      const updated: T = { ...existing, ...update, id };
+      this.conn
+        .prepare('UPDATE records SET data = ? WHERE collection = ? AND id = ?')
+        .run(JSON.stringify(updated), collection, id);
+      return updated;
+    });
+  }
+
+  deleteRecord(collection: string, id: string): boolean {
+    this.assertCollectionName(collection);
+    return this.transaction(() =>
+      this.conn.prepare('DELETE FROM records WHERE collection = ? AND id = ?').run(collection, id).changes > 0
+    );
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * FILE: _dev/mock-db/types.ts
+ * PURPOSE: Shared record types for every mock-db storage backend (JSON, SQLite)
+ * ACCESS: Re-exported from `database.ts`; import from there in routes and components
+ * MIGRATION NOTES:
+ * - Align these shapes with the MongoDB schemas when the real data layer lands
+ */
+
+// "admin" is never self-assigned at signup; grant it with `npm run users:grant-admin`
+export type UserRole = "user" | "creator" | "admin";
+
+export interface User {
+  id: string;
+  username: string;
+  email: string;
+  password: string; // scrypt hash, see lib/auth/password.ts (legacy `hashed_` values upgrade on signin)
+  role: UserRole;
+  // false until the address is confirmed (absent on accounts created before verification existed)
+  emailVerified?: boolean;
+  emailVerifiedAt?: string;
+  createdAt: string; // ISO string for JSON compatibility
+  updatedAt: string; // ISO string for JSON compatibility
+  // Profile picture - base64 encoded image or URL
+  profilePicture?: string;
+  // Basic profile fields used in Profile page
+  bio?: string;
+  location?: string;
+  website?: string;
+  // Web3 wallet addresses typed on the profile (by chain); unverified, see lib/auth/wallets.ts for proven ones
+  walletAddresses?: {
+    Ethereum?: string;
+    Solana?: string;
+    Bitcoin?: string;
+  };
+  // User-specific fields
+  donatedCampaigns?: string[]; // Campaign IDs user has donated to
+  totalDonated?: number;
+  preferredChains?: string[];
+  // Sign-in lockout state, see lib/auth/lockout.ts
+  failedLoginAttempts?: number;
+  firstFailedLoginAt?: string;
+  lockedUntil?: string;
+}
+
+export interface Creator extends User {
+  role: "creator";
+  // Creator-specific fields
+  createdCampaigns: string[]; // Campaign IDs created by this creator
+  totalRaised: number;
+  verificationStatus: "pending" | "verified" | "rejected";
+  // Last admin review, see lib/moderation
+  verificationReason?: string;
+  verificationReviewedAt?: string;
+  verificationReviewedBy?: string;
+  bio?: string;
+  website?: string;
+  socialLinks?: {
+    twitter?: string;
+    linkedin?: string;
+    github?: string;
+  };
+}
+
+/**
+ * Effective campaign status (see lib/lifecycle). Mirrors BaseForwardFundraiser: `paused` is
+ * `active == false`, `scheduled`/`ended` come from the start/end window.
+ */
+export type CampaignStatus = "draft" | "scheduled" | "active" | "paused" | "ended" | "cancelled";
+
+/** The part of the status that is stored; `scheduled` and `ended` follow from startsAt/endsAt */
+export type StoredCampaignStatus = Extract<CampaignStatus, "draft" | "active" | "paused" | "cancelled">;
+
+export interface Campaign {
+  id: string;
+  title: string;
+  goal: number;
+  raised: number;
+  chains: string[];
+  description: string;
+  /** Optional campaign category (e.g., education, healthcare, other-custom) */
+  category?: string;
+  /** Campaign creator ID - maps to User/Creator */
+  creatorId: string;
+  /** Campaign image - base64 encoded image or URL */
+  image?: string;
+  /** Lifecycle state; absent on older campaigns, which count as active */
+  status?: StoredCampaignStatus;
+  /** Donations open at this time (ISO string); absent = immediately */
+  startsAt?: string;
+  /** Donations close after this time (ISO string); absent = no end */
+  endsAt?: string;
+  /** Link to the fundraiser contract, filled by "Deploy on-chain" in Creator Studio (lib/services/contracts) */
+  contractOwnership?: {
+    /** The on-chain creator is one of the owner's verified wallets */
+    verified: boolean;
+    /** Fundraiser contract holding the campaign; absent = FUNDRAISER_CONTRACT_ADDRESS */
+    contractAddress?: string;
+    /** Hash of the createCampaign() transaction whose CampaignCreated event was read back */
+    blockchainProof?: string;
+    /** campaignId assigned by the contract's createCampaign (uint256 as a decimal string) */
+    onChainCampaignId?: string;
+    chainId?: number;
+  };
+  /** Admin moderation state; absent on campaigns that were never moderated (see lib/moderation) */
+  moderation?: CampaignModeration;
+}
+
+export interface ModerationMark {
+  reason: string;
+  /** Admin user ID */
+  by: string;
+  at: string; // ISO string
+}
+
+export interface CampaignModeration {
+  /** Hidden from everyone except the owner and admins, and closed to donations */
+  unpublished?: ModerationMark;
+  /** Still public, but queued for admin review */
+  flagged?: ModerationMark;
+}
+
+// Database interface (uses ISO strings for JSON compatibility)
+export interface DonationDB {
+  /** Ledger entry ID (older seed entries may not have one) */
+  id?: string;
+  campaignId: string;
+  name: string;
+  amount: number;
+  chain: string;
+  timestamp: string; // ISO string for JSON compatibility
+  /** Signed-in donor, when known */
+  donorId?: string;
+  /** Payment/transaction reference returned by the payment provider */
+  txId?: string;
+}
+
+// Public interface (uses Date objects for backward compatibility)
+export interface Donation {
+  id?: string;
+  campaignId: string;
+  name: string;
+  amount: number;
+  chain: string;
+  timestamp: Date;
+  donorId?: string;
+  txId?: string;
+}
+
+// Search inputs shared by every CampaignRepository implementation
+export type CampaignQuery = Partial<Campaign> & { q?: string };
+
+export interface CampaignSearchOptions {
+  limit?: number;
+  skip?: number;
+  sort?: { [key: string]: 1 | -1 };
+}
+
+export type UserStats =
+  | { totalCampaigns: number; totalRaised: number; verificationStatus: Creator['verificationStatus'] }
+  | { totalDonations: number; totalDonated: number; preferredChains: string[] };
+
+// Feature collections (sessions, tokens, notifications, ...) - one MongoDB-style collection each
+export interface CollectionRecord {
+  id: string;
+}
+
+// JSON file shapes (also used to seed the SQLite backend)
+export interface UsersDB {
+  users: (User | Creator)[];
+}
+
+export interface CampaignsDB {
+  campaigns: Campaign[];
+}
+
+export interface DonationsDB {
+  donations: DonationDB[];
+}
+
+export interface CollectionDB<T extends CollectionRecord = CollectionRecord> {
+  records: T[];
+}
@@ -0,0 +1,41 @@
+/**
+ * FILE: _dev/scripts/grant-admin.ts
+ * PURPOSE: CLI to give an existing account the `admin` role (or take it away with --revoke).
+ *          Signup never assigns `admin`, so this is the only way to create one.
+ * USAGE:
+ *   npm run users:grant-admin -- alice@example.com
+ *   npm run users:grant-admin -- alice --revoke   # back to creator/user
+ * The role is read from the database on every request, so the change applies to
+ * existing sessions immediately.
+ */
+
+import { db } from '@/_dev/mock-db/database';
+import type { Creator } from '@/_dev/mock-db/database';
+
+const args = process.argv.slice(2);
+const revoke = args.includes('--revoke');
+const identifier = args.find(arg => !arg.startsWith('--'));
+
+if (!identifier) {
+  console.error('Usage: npm run users:grant-admin -- <email|username> [--revoke]');
+  process.exit(1);
+}
+
+const user = db.findUserByEmail(identifier) ?? db.findUserByUsername(identifier);
+if (!user) {
+  console.error(`No user found for "${identifier}".`);
+  process.exit(1);
+}
+
+// Accounts that were creators keep their creator fields, so they can go back to being creators
+const role = revoke
+  ? (Array.isArray((user as Creator).createdCampaigns) ? 'creator' : 'user')
+  : 'admin';
+
+if (user.role === role) {
+  console.log(`${user.username} already has the ${role} role.`);
+  process.exit(0);
+}
+
+db.updateUser(user.id, { role, updatedAt: new Date().toISOString() });
+console.log(`${user.username}: ${user.role} -> ${role}`);
@@ -0,0 +1,43 @@
+/**
+ * FILE: _dev/scripts/reconcile-ledger.ts
+ * PURPOSE: CLI around reconcileLedger() - reports drift between donations.json,
+ *          campaigns.json and users.json (campaign, creator and donor totals), and repairs it with --fix
+ * USAGE:
+ *   npm run ledger:reconcile            # report only (exit code 1 when drift is found)
+ *   npm run ledger:reconcile -- --fix   # recompute campaign and creator totals from donation entries
+ * Donor totals are reported but not repaired (see lib/ledger/reconcile).
+ * Uses the same DB_DRIVER as the app, so it also works against the SQLite backend.
+ */
+
+import { isRepairable, reconcileLedger } from '@/lib/ledger/reconcile';
+
+const repair = process.argv.includes('--fix');
+const report = reconcileLedger({ repair });
+
+if (report.orphanCampaignIds.length) {
+  console.warn(`Donations reference unknown campaigns: ${report.orphanCampaignIds.join(', ')}`);
+}
+
+if (!report.drift.length) {
+  console.log('Ledger is consistent.');
+  process.exit(0);
+}
+
+for (const item of report.drift) {
+  const stored = Array.isArray(item.stored) ? `[${item.stored.join(', ')}]` : item.stored;
+  const expected = Array.isArray(item.expected) ? `[${item.expected.join(', ')}]` : item.expected;
+  console.log(`${item.kind} ${item.id}: stored ${stored}, ledger ${expected}${isRepairable(item) ? '' : ' (report only)'}`);
+}
+
+const repairable = report.drift.filter(isRepairable).length;
+const reportOnly = report.drift.length - repairable;
+if (reportOnly) {
+  console.log(`${reportOnly} donor record(s) differ from the ledger and are left as stored: donations without a donorId cannot rebuild donor history.`);
+}
+
+if (report.repaired) {
+  console.log(`Repaired ${repairable} record(s).`);
+} else if (repairable) {
+  console.log(`Found ${repairable} inconsistent record(s). Re-run with --fix to repair.`);
+  process.exit(1);
+}
@@ -0,0 +1,31 @@
+/**
+ * FILE: _dev/scripts/run-indexer.ts
+ * PURPOSE: CLI around runIndexer() - indexes fundraiser contract events up to the chain head
+ * USAGE:
+ *   npm run indexer:run
+ * Needs the on-chain settings from env.example (FUNDRAISER_CONTRACT_ADDRESS, ZETACHAIN_RPC_URL,
+ * ZETACHAIN_NATIVE_USD_PRICE). Uses the same DB_DRIVER as the app; safe to repeat - applied logs
+ * and recorded transactions are skipped.
+ */
+
+import { runIndexer } from '@/lib/indexer';
+
+async function main() {
+  for (;;) {
+    const report = await runIndexer({ maxBatches: 50 });
+    if (!report.configured) {
+      console.error('On-chain payments are not configured; see env.example.');
+      process.exit(1);
+    }
+    if (report.reorgAncestor !== undefined) {
+      console.log(`Reorg: rolled back to block ${report.reorgAncestor}, ${report.reversed} donation(s) reversed.`);
+    }
+    console.log(`Indexed to block ${report.indexedTo} of ${report.head}: ${report.events} events, ${report.donations} donations recorded, ${report.adopted} adopted, ${report.pending} pending.`);
+    if (report.caughtUp) return;
+  }
+}
+
+main().catch(error => {
+  console.error('Indexer failed:', error);
+  process.exit(1);
+});
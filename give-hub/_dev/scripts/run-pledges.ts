@@ -0,0 +1,23 @@
+/**
+ * FILE: _dev/scripts/run-pledges.ts
+ * PURPOSE: CLI around runDuePledges() - charges every recurring pledge installment that is due
+ * USAGE:
+ *   npm run pledges:run                              # charge what is due now
+ *   npm run pledges:run -- --at 2026-12-01T00:00:00Z # pretend it is that time (test dunning)
+ * Uses the same DB_DRIVER as the app. Safe next to a running dev server: each charge takes a
+ * lease on its pledge first.
+ */
+
+import { runDuePledges } from '@/lib/pledges/scheduler';
+
+const atIndex = process.argv.indexOf('--at');
+const now = atIndex === -1 ? Date.now() : new Date(process.argv[atIndex + 1] ?? '').getTime();
+
+if (!Number.isFinite(now)) {
+  console.error('Usage: npm run pledges:run [-- --at <ISO date>]');
+  process.exit(1);
+}
+
+runDuePledges(now).then(report => {
+  console.log(`${report.due} due: ${report.charged} charged, ${report.retrying} retrying, ${report.cancelled} cancelled, ${report.skipped} skipped.`);
+});
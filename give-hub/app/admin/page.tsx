@@ -0,0 +1,344 @@
+/**
+ * FILE: app/admin/page.tsx
+ * PURPOSE: Admin moderation console - review creators, unpublish/flag campaigns, audit trail
+ * WHAT CALLS THIS: "Admin Console" in the nav profile menu (admins only)
+ * ACCESS: Default export, automatically routed by Next.js; the APIs enforce the admin role
+ * API: GET /api/admin/creators, POST /api/admin/creators/[id]/verification,
+ *      GET /api/admin/campaigns, POST /api/admin/campaigns/[id]/moderation, GET /api/admin/audit
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useAuth } from '@/lib/auth/auth-context'
+import Spinner from '@/components/spinner'
+import { notify } from '@/lib/utils/notify'
+import type { CampaignModeration } from '@/_dev/mock-db/database'
+import type { CampaignAction, CreatorDecision, CreatorSummary, ModerationAuditEntry } from '@/lib/moderation'
+
+type Tab = 'creators' | 'campaigns' | 'audit'
+type CreatorFilter = 'pending' | 'verified' | 'rejected'
+type CampaignFilter = 'all' | 'flagged' | 'unpublished'
+
+type AdminCampaign = {
+  id: string
+  title: string
+  category?: string
+  goal: number
+  raised: number
+  creatorId: string
+  creatorUsername: string | null
+  moderation: CampaignModeration
+}
+
+const ACTION_LABELS: Record<ModerationAuditEntry['action'], string> = {
+  'creator.verified': 'Approved creator',
+  'creator.rejected': 'Rejected creator',
+  'campaign.unpublish': 'Unpublished campaign',
+  'campaign.republish': 'Republished campaign',
+  'campaign.flag': 'Flagged campaign',
+  'campaign.unflag': 'Cleared flag',
+}
+
+const STATUS_STYLES: Record<CreatorFilter, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  verified: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+}
+
+async function postJson(url: string, body: unknown) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  const data = await res.json()
+  if (!res.ok || !data.success) throw new Error(data.error || 'Request failed')
+  return data
+}
+
+export default function AdminConsolePage() {
+  const { user, isLoading } = useAuth()
+  const [tab, setTab] = useState<Tab>('creators')
+  const [creatorFilter, setCreatorFilter] = useState<CreatorFilter>('pending')
+  const [campaignFilter, setCampaignFilter] = useState<CampaignFilter>('all')
+  const [creators, setCreators] = useState<CreatorSummary[]>([])
+  const [campaigns, setCampaigns] = useState<AdminCampaign[]>([])
+  const [audit, setAudit] = useState<ModerationAuditEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  // Reason drafts, keyed by creator/campaign id
+  const [reasons, setReasons] = useState<Record<string, string>>({})
+
+  const isAdmin = user?.role === 'admin'
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const url = tab === 'creators'
+        ? `/api/admin/creators?status=${creatorFilter}`
+        : tab === 'campaigns'
+          ? `/api/admin/campaigns${campaignFilter === 'all' ? '' : `?filter=${campaignFilter}`}`
+          : '/api/admin/audit?limit=200'
+      const res = await fetch(url)
+      const data = await res.json()
+      if (!res.ok || !data.success) throw new Error(data.error || 'Failed to load')
+      if (tab === 'creators') setCreators(data.creators)
+      else if (tab === 'campaigns') setCampaigns(data.campaigns)
+      else setAudit(data.entries)
+    } catch (err) {
+      notify(err instanceof Error ? err.message : 'Failed to load', 'error')
+    } finally {
+      setLoading(false)
+    }
+  }, [tab, creatorFilter, campaignFilter])
+
+  useEffect(() => {
+    if (isAdmin) load()
+  }, [isAdmin, load])
+
+  const reviewCreator = async (creator: CreatorSummary, decision: CreatorDecision) => {
+    setBusyId(creator.id)
+    try {
+      await postJson(`/api/admin/creators/${creator.id}/verification`, { decision, reason: reasons[creator.id] })
+      notify(`${creator.username} ${decision === 'verified' ? 'approved' : 'rejected'}`, 'success')
+      setReasons(prev => ({ ...prev, [creator.id]: '' }))
+      await load()
+    } catch (err) {
+      notify(err instanceof Error ? err.message : 'Review failed', 'error')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const moderateCampaign = async (campaign: AdminCampaign, action: CampaignAction) => {
+    setBusyId(campaign.id)
+    try {
+      const data = await postJson(`/api/admin/campaigns/${campaign.id}/moderation`, { action, reason: reasons[campaign.id] })
+      setCampaigns(prev => prev.map(c => (c.id === campaign.id ? { ...c, moderation: data.campaign.moderation } : c)))
+      setReasons(prev => ({ ...prev, [campaign.id]: '' }))
+      notify(`${ACTION_LABELS[`campaign.${action}`]}: ${campaign.title}`, 'success')
+    } catch (err) {
+      notify(err instanceof Error ? err.message : 'Action failed', 'error')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="max-w-6xl mx-auto p-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 flex items-center gap-3">
+          <Spinner size={20} />
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="bg-white rounded-2xl card-shadow border border-gray-100 p-8 text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Admin access only</h1>
+          <p className="text-gray-600 mb-6">This page is only available to GiveHub administrators.</p>
+          <Link href="/" className="bg-gray-900 hover:bg-black text-white px-6 py-2 rounded-full font-semibold transition-colors">
+            Back to Home
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const reasonInput = (id: string, placeholder: string) => (
+    <input
+      type="text"
+      value={reasons[id] || ''}
+      onChange={(e) => setReasons(prev => ({ ...prev, [id]: e.target.value }))}
+      placeholder={placeholder}
+      maxLength={500}
+      className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:border-blue-500 focus:outline-none"
+    />
+  )
+
+  const filterButton = (active: boolean, label: string, onClick: () => void) => (
+    <button
+      key={label}
+      onClick={onClick}
+      className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${active ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+    >
+      {label}
+    </button>
+  )
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Admin Console</h1>
+        <p className="text-gray-600">Review creators, moderate campaigns and see every moderation action.</p>
+      </div>
+
+      <div className="flex gap-2 border-b border-gray-200">
+        {(['creators', 'campaigns', 'audit'] as Tab[]).map(t => (
+          <button
+            key={t}
+            onClick={() => setTab(t)}
+            className={`px-4 py-2 -mb-px border-b-2 font-semibold capitalize ${tab === t ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-600 hover:text-gray-900'}`}
+          >
+            {t === 'audit' ? 'Audit trail' : t}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'creators' && (
+        <div className="flex gap-2">
+          {(['pending', 'verified', 'rejected'] as CreatorFilter[]).map(f =>
+            filterButton(creatorFilter === f, f[0].toUpperCase() + f.slice(1), () => setCreatorFilter(f))
+          )}
+        </div>
+      )}
+      {tab === 'campaigns' && (
+        <div className="flex gap-2">
+          {(['all', 'flagged', 'unpublished'] as CampaignFilter[]).map(f =>
+            filterButton(campaignFilter === f, f[0].toUpperCase() + f.slice(1), () => setCampaignFilter(f))
+          )}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-3 text-gray-600"><Spinner size={20} /> Loading...</div>
+      ) : tab === 'creators' ? (
+        creators.length === 0 ? (
+          <p className="text-gray-600">No {creatorFilter} creators.</p>
+        ) : (
+          <ul className="space-y-3">
+            {creators.map(creator => (
+              <li key={creator.id} className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-semibold text-gray-900">
+                      {creator.username}
+                      <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[creator.verificationStatus]}`}>
+                        {creator.verificationStatus}
+                      </span>
+                      {!creator.emailVerified && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">email unconfirmed</span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {creator.email} · joined {new Date(creator.createdAt).toLocaleDateString()} · {creator.campaignCount} campaign{creator.campaignCount === 1 ? '' : 's'} · ${creator.totalRaised.toLocaleString()} raised
+                    </p>
+                  </div>
+                  {creator.website && (
+                    <a href={creator.website} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 hover:underline">{creator.website}</a>
+                  )}
+                </div>
+                {creator.bio && <p className="text-sm text-gray-700">{creator.bio}</p>}
+                {creator.verificationReason && (
+                  <p className="text-sm text-gray-500">Last review: {creator.verificationReason}</p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {reasonInput(creator.id, 'Reason (required to reject)')}
+                  {creator.verificationStatus !== 'verified' && (
+                    <button
+                      onClick={() => reviewCreator(creator, 'verified')}
+                      disabled={busyId === creator.id}
+                      className="px-4 py-2 rounded-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white text-sm font-semibold"
+                    >
+                      Approve
+                    </button>
+                  )}
+                  {creator.verificationStatus !== 'rejected' && (
+                    <button
+                      onClick={() => reviewCreator(creator, 'rejected')}
+                      disabled={busyId === creator.id || !reasons[creator.id]?.trim()}
+                      className="px-4 py-2 rounded-full bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white text-sm font-semibold"
+                    >
+                      Reject
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )
+      ) : tab === 'campaigns' ? (
+        campaigns.length === 0 ? (
+          <p className="text-gray-600">No campaigns match this filter.</p>
+        ) : (
+          <ul className="space-y-3">
+            {campaigns.map(campaign => {
+              const { unpublished, flagged } = campaign.moderation
+              const needsReason = !reasons[campaign.id]?.trim()
+              return (
+                <li key={campaign.id} className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <Link href={`/campaign/${campaign.id}`} className="font-semibold text-gray-900 hover:underline">{campaign.title}</Link>
+                      {unpublished && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">unpublished</span>}
+                      {flagged && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">flagged</span>}
+                      <p className="text-sm text-gray-600">
+                        by {campaign.creatorUsername ?? 'unknown creator'}{campaign.category ? ` · ${campaign.category}` : ''} · ${campaign.raised.toLocaleString()} of ${campaign.goal.toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                  {unpublished && <p className="text-sm text-red-700">Unpublished: {unpublished.reason}</p>}
+                  {flagged && <p className="text-sm text-yellow-800">Flagged: {flagged.reason}</p>}
+                  <div className="flex flex-wrap gap-2">
+                    {reasonInput(campaign.id, 'Reason (required to unpublish or flag)')}
+                    <button
+                      onClick={() => moderateCampaign(campaign, flagged ? 'unflag' : 'flag')}
+                      disabled={busyId === campaign.id || (!flagged && needsReason)}
+                      className="px-4 py-2 rounded-full bg-yellow-500 hover:bg-yellow-600 disabled:bg-gray-400 text-white text-sm font-semibold"
+                    >
+                      {flagged ? 'Clear flag' : 'Flag'}
+                    </button>
+                    <button
+                      onClick={() => moderateCampaign(campaign, unpublished ? 'republish' : 'unpublish')}
+                      disabled={busyId === campaign.id || (!unpublished && needsReason)}
+                      className="px-4 py-2 rounded-full bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white text-sm font-semibold"
+                    >
+                      {unpublished ? 'Republish' : 'Unpublish'}
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )
+      ) : audit.length === 0 ? (
+        <p className="text-gray-600">No moderation actions yet.</p>
+      ) : (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-2 font-semibold">When</th>
+                <th className="px-4 py-2 font-semibold">Admin</th>
+                <th className="px-4 py-2 font-semibold">Action</th>
+                <th className="px-4 py-2 font-semibold">Target</th>
+                <th className="px-4 py-2 font-semibold">Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {audit.map(entry => (
+                <tr key={entry.id} className="border-t border-gray-100">
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-600">{new Date(entry.createdAt).toLocaleString()}</td>
+                  <td className="px-4 py-2">{entry.adminUsername}</td>
+                  <td className="px-4 py-2">{ACTION_LABELS[entry.action] ?? entry.action}</td>
+                  <td className="px-4 py-2">
+                    {entry.targetType === 'campaign'
+                      ? <Link href={`/campaign/${entry.targetId}`} className="text-blue-600 hover:underline">{entry.targetLabel}</Link>
+                      : entry.targetLabel}
+                  </td>
+                  <td className="px-4 py-2 text-gray-700">{entry.reason || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+/**
+ * FILE: app/api/admin/audit/route.ts
+ * PURPOSE: Moderation audit trail, newest first
+ * ACCESS: GET /api/admin/audit?targetType=creator|campaign&targetId=...&limit=100 (admin only)
+ */
+
+import { NextResponse } from 'next/server'
+import { isAdmin, withPolicy, type AuthedRequest } from '@/lib/auth/index'
+import { listAuditTrail, type ModerationAuditEntry } from '@/lib/moderation'
+
+async function handler(request: AuthedRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const targetType = params.get('targetType')
+    if (targetType && targetType !== 'creator' && targetType !== 'campaign') {
+      return NextResponse.json({ success: false, error: 'Unknown target type' }, { status: 400 })
+    }
+    const limit = Math.min(Math.max(Number(params.get('limit')) || 100, 1), 500)
+
+    const entries = listAuditTrail({
+      targetType: (targetType || undefined) as ModerationAuditEntry['targetType'] | undefined,
+      targetId: params.get('targetId') || undefined,
+      limit
+    })
+    return NextResponse.json({ success: true, entries })
+  } catch (error) {
+    console.error('GET /api/admin/audit error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export const GET = withPolicy(isAdmin, handler)
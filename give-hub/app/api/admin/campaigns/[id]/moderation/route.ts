@@ -0,0 +1,42 @@
+/**
+ * FILE: app/api/admin/campaigns/[id]/moderation/route.ts
+ * PURPOSE: Unpublish, republish, flag or unflag a campaign
+ * ACCESS: POST /api/admin/campaigns/:id/moderation (admin only)
+ *         Body: { action: 'unpublish' | 'republish' | 'flag' | 'unflag', reason?: string }
+ *         (reason is required to unpublish or flag)
+ * NOTES:
+ * - Unpublished campaigns are hidden from everyone but the owner and admins and reject donations
+ * - The owner is emailed when the campaign is unpublished or republished
+ */
+
+import { NextResponse } from 'next/server'
+import { isAdmin, withPolicy, type AuthedRequest } from '@/lib/auth/index'
+import { moderateCampaign, type CampaignAction } from '@/lib/moderation'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+async function handler(request: AuthedRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+    let body: { action?: CampaignAction; reason?: string }
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+    }
+
+    const result = moderateCampaign(request.user, id, body.action as CampaignAction, body.reason)
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+    }
+    return NextResponse.json({
+      success: true,
+      campaign: { id: result.campaign.id, moderation: result.campaign.moderation ?? {} }
+    })
+  } catch (error) {
+    console.error('POST /api/admin/campaigns/[id]/moderation error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export const POST = withPolicy<RouteContext>(isAdmin, handler)
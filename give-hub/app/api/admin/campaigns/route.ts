@@ -0,0 +1,38 @@
+/**
+ * FILE: app/api/admin/campaigns/route.ts
+ * PURPOSE: Campaign list for the admin console, including unpublished campaigns
+ * ACCESS: GET /api/admin/campaigns?filter=flagged|unpublished (admin only; every campaign without filter)
+ */
+
+import { NextResponse } from 'next/server'
+import { isAdmin, withPolicy, type AuthedRequest } from '@/lib/auth/index'
+import { db } from '@/_dev/mock-db/database'
+import type { CampaignModeration } from '@/_dev/mock-db/database'
+
+async function handler(request: AuthedRequest) {
+  try {
+    const filter = request.nextUrl.searchParams.get('filter') as keyof CampaignModeration | null
+    if (filter && filter !== 'flagged' && filter !== 'unpublished') {
+      return NextResponse.json({ success: false, error: 'Unknown filter' }, { status: 400 })
+    }
+
+    const campaigns = db.getAllCampaigns()
+      .filter(c => !filter || !!c.moderation?.[filter])
+      .map(c => ({
+        id: c.id,
+        title: c.title,
+        category: c.category,
+        goal: c.goal,
+        raised: c.raised,
+        creatorId: c.creatorId,
+        creatorUsername: db.findUserById(c.creatorId)?.username ?? null,
+        moderation: c.moderation ?? {},
+      }))
+    return NextResponse.json({ success: true, campaigns })
+  } catch (error) {
+    console.error('GET /api/admin/campaigns error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export const GET = withPolicy(isAdmin, handler)
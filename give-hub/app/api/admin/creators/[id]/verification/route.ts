@@ -0,0 +1,37 @@
+/**
+ * FILE: app/api/admin/creators/[id]/verification/route.ts
+ * PURPOSE: Approve or reject a creator's verification
+ * ACCESS: POST /api/admin/creators/:id/verification (admin only)
+ *         Body: { decision: 'verified' | 'rejected', reason?: string } - reason is required to reject
+ * NOTES:
+ * - The creator is emailed the decision and reason; the action lands in the moderation audit trail
+ */
+
+import { NextResponse } from 'next/server'
+import { isAdmin, withPolicy, type AuthedRequest } from '@/lib/auth/index'
+import { reviewCreator, toCreatorSummary, type CreatorDecision } from '@/lib/moderation'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+async function handler(request: AuthedRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+    let body: { decision?: CreatorDecision; reason?: string }
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+    }
+
+    const result = reviewCreator(request.user, id, body.decision as CreatorDecision, body.reason)
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+    }
+    return NextResponse.json({ success: true, creator: toCreatorSummary(result.creator) })
+  } catch (error) {
+    console.error('POST /api/admin/creators/[id]/verification error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export const POST = withPolicy<RouteContext>(isAdmin, handler)
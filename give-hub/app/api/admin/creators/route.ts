@@ -0,0 +1,29 @@
+/**
+ * FILE: app/api/admin/creators/route.ts
+ * PURPOSE: Creator review queue for the admin console
+ * ACCESS: GET /api/admin/creators?status=pending|verified|rejected (admin only; all creators without status)
+ */
+
+import { NextResponse } from 'next/server'
+import { isAdmin, withPolicy, type AuthedRequest } from '@/lib/auth/index'
+import { listCreators, toCreatorSummary } from '@/lib/moderation'
+import type { Creator } from '@/_dev/mock-db/database'
+
+const STATUSES: Creator['verificationStatus'][] = ['pending', 'verified', 'rejected']
+
+async function handler(request: AuthedRequest) {
+  try {
+    const raw = request.nextUrl.searchParams.get('status')
+    if (raw && !STATUSES.includes(raw as Creator['verificationStatus'])) {
+      return NextResponse.json({ success: false, error: 'Unknown status filter' }, { status: 400 })
+    }
+
+    const creators = listCreators(raw ? raw as Creator['verificationStatus'] : undefined).map(toCreatorSummary)
+    return NextResponse.json({ success: true, creators })
+  } catch (error) {
+    console.error('GET /api/admin/creators error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export const GET = withPolicy(isAdmin, handler)
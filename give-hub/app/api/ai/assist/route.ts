@@ -1,15 +1,23 @@
 import { NextResponse } from "next/server";
 import { db } from "@/_dev/mock-db/database";
-import type { Creator, Campaign } from "@/_dev/mock-db/database";
+import type { Campaign } from "@/_dev/mock-db/database";
 import { generateWithSystem } from "@/lib/gemini";
 import { NextRequest } from "next/server";
-import { authService } from "@/lib/auth";
+import { getRequestUser } from "@/lib/auth";
+import { isCampaignPublic, listPublicCampaigns } from "@/lib/moderation";
+import { donationBlockedReason } from "@/lib/lifecycle";
+import { recordDonation } from "@/lib/ledger";
+import { receiptUrl } from "@/lib/receipts";
+import { withIdempotency } from "@/lib/idempotency";
+import { offChainDonationBlockedReason } from "@/lib/payments/onchain";
+import { normalizeQuery, rankCampaigns } from "@/lib/search";
+import { recommendForUser } from "@/lib/recommendations";
  
  // Planner docs: expose how search works so Gemini can choose parameters intelligently
  const SEARCH_REGEX_DOC =
-   "Search uses word-boundary, case-insensitive token matching across title, category, and description. For each token t from normalizeQuery, build new RegExp('\\\\b' + t + '\\\\b','i') and match if ANY token matches ANY field.";
+   "Search ranks campaigns with BM25 over an inverted index of title, category, creator username, and description (title weighted highest). Tokens from normalizeQuery are OR-ed: a campaign matches if ANY token appears as a whole word, and campaigns matching more and rarer tokens rank first.";
  const NORMALIZE_DOC =
-   "normalizeQuery: lowercases, strips filler (e.g., 'uhm', 'search for', 'find'), maps synonyms (tech->technology), and applies simple plural->singular rules: 'ies'->'y', '(x|ch|sh|ss|z|o)es'->'$1', and drops trailing 's' for 3+ letter words.";
+   "normalizeQuery: lowercases, strips filler (e.g., 'uhm', 'search for', 'find'), maps synonyms (tech->technology), and applies simple plural->singular rules: 'ies'->'y', '(x|ch|sh|ss|z|o)es'->'$1', drops trailing 's' for 3+ letter words, and ignores stopwords (the, and, for, ...).";
 
 type SearchParams = { q?: string; category?: string; goal?: { min?: number, max?: number }; raised?: { min?: number, max?: number }; sortBy?: 'goal' | 'raised' | 'newest' };
 type DonateParams = { title?: string; chain?: string; amount?: number; useContextOrdinal?: number };
@@ -74,7 +82,7 @@ NORMALIZE: ${NORMALIZE_DOC}`}`;
 async function callExecutor(instruction: string, chatContext?: ChatMessage[]): Promise<string> {
   try {
     // Get full campaign database for intelligent responses
-    const allCampaigns = db.getAllCampaigns();
+    const allCampaigns = listPublicCampaigns();
     const campaignContext = allCampaigns.map(c => ({
       id: c.id,
       title: c.title,
@@ -154,9 +162,26 @@ Remember: You're not just processing data - you're helping people find causes th
 // Request: { prompt: string, mode?: 'default' | 'pay', context?: { lastResults?: Array<{id:string,title:string}> } }
 // Response: { text: string, action?: { type: 'open_payment', campaignId: string, amount?: number, chain?: string } , results?: Array<{id:string,title:string,category?:string,chains:string[]}> }
 
+type AssistRequest = { prompt?: string; mode?: 'default' | 'pay' | 'rewrite'; context?: { lastResults?: Array<{id:string; title:string}>, messages?: ChatMessage[] } };
+
+// Pay-mode requests can record a donation, so they honour the Idempotency-Key header:
+// a retried or double-submitted message replays the first answer instead of donating twice.
 export async function POST(req: NextRequest) {
+  let body: AssistRequest;
   try {
-    const { prompt, mode, context }: { prompt?: string; mode?: 'default' | 'pay' | 'rewrite'; context?: { lastResults?: Array<{id:string; title:string}>, messages?: ChatMessage[] } } = await req.json();
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (body?.mode === 'pay') {
+    return withIdempotency(req, 'ai-assist-donate', body, () => handleAssist(req, body));
+  }
+  return handleAssist(req, body);
+}
+
+async function handleAssist(req: NextRequest, body: AssistRequest) {
+  try {
+    const { prompt, mode, context } = body || {};
     if (!prompt || typeof prompt !== 'string') {
       return NextResponse.json({ error: 'Missing prompt' }, { status: 400 });
     }
@@ -169,33 +194,6 @@ export async function POST(req: NextRequest) {
       .trim()
       .toLowerCase();
 
-    // Normalize noisy search phrases into cleaner keywords (e.g., "uhmm search for tech" -> "tech")
-    const normalizeQuery = (s: string) => {
-      const lowered = (s || '').toLowerCase().trim();
-      // Remove common filler/imperatives
-      let cleaned = lowered
-        .replace(/\b(uh+ ?m+|um+|please|pls|hey|hi|hello)\b/g, ' ')
-        .replace(/\b(can you|could you|i want to|i wanna|help me|show me|find|search( for)?|looking for|look for)\b/g, ' ')
-        .replace(/[^a-z0-9$ .-]+/g, ' ')
-        .replace(/\s+/g, ' ')
-        .trim();
-      // Map common synonyms
-      cleaned = cleaned
-        .replace(/\btech\b/g, 'technology')
-        .replace(/\bedu\b/g, 'education');
-      // Simple plural -> singular heuristics
-      const singularize = (t: string) => {
-        if (t.length > 3) {
-          if (/(?:[a-z])ies$/.test(t)) return t.replace(/ies$/, 'y');
-          if (/(x|ch|sh|ss|z|o)es$/.test(t)) return t.replace(/es$/, '');
-          if (/s$/.test(t) && !/ss$/.test(t)) return t.replace(/s$/, '');
-        }
-        return t;
-      };
-      const tokens = cleaned.split(/\s+/).filter(Boolean).map(singularize);
-      return tokens.join(' ');
-    };
-
     // Basic malicious input screening (XSS/SQLi/prompt injection hints)
     const MALICIOUS_RX = /(\bselect\b.*\bfrom\b|\bunion\b.*\bselect\b|\bdrop\b\s+table|<\/?script|javascript:|onerror\s*=|onload\s*=|<iframe|<img|<svg|eval\(|srcdoc=|data:text\/)/i;
     if (MALICIOUS_RX.test(prompt)) {
@@ -228,7 +226,7 @@ export async function POST(req: NextRequest) {
       // Step 1: Normalize and tokenize the query; avoid substring false-positives (e.g., 'cat' in 'education')
       const cleanedQ = (q && q.trim()) ? normalizeQuery(q) : normalizeQuery(prompt);
       const tokens = Array.from(new Set((cleanedQ || '').split(/\s+/).filter(Boolean)));
-      let searchResults = db.getAllCampaigns();
+      let searchResults = listPublicCampaigns();
 
       // Structured pre-filter by category (exact, case-insensitive)
       if (category) {
@@ -236,14 +234,12 @@ export async function POST(req: NextRequest) {
         searchResults = searchResults.filter(c => (c.category || '').toLowerCase() === cat);
       }
 
-      // Word-boundary token match across title/category/description (OR semantics)
+      // Ranked full-text match (title/category/creator/description), best first; OR semantics
       if (tokens.length) {
-        const escape = (t: string) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        const regexes = tokens.map(t => new RegExp(`\\b${escape(t)}\\b`, 'i'));
-        searchResults = searchResults.filter(c => {
-          const fields = [c.title, c.category || '', c.description || ''];
-          return regexes.some(rx => fields.some(f => rx.test(f)));
-        });
+        const rank = new Map(rankCampaigns(tokens.join(' ')).map((hit, i) => [hit.id, i] as const));
+        searchResults = searchResults
+          .filter(c => rank.has(c.id))
+          .sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
       }
 
       // Step 2: Manual in-memory filtering for ranges.
@@ -330,27 +326,19 @@ Present these results to the user in a friendly, engaging, and helpful way. You
       return amt;
     };
 
-    // Suggest: Give Gemini complete creative freedom for recommendations
+    // Suggest: local recommendations as candidates, Gemini presents them
     if (plan.action === 'suggest') {
       const p = (plan.params || {}) as { interests?: string };
       const interests = String(p.interests ?? '').trim();
       const ids = (context?.lastResults || []).map(r => r.id);
-      const all = db.getAllCampaigns();
+      const all = listPublicCampaigns();
       let candidates = all.filter(c => ids.includes(c.id));
       
-      // If no previous results, be proactive and intelligent
+      // No previous results: recommendation engine (donation history, chains, interests)
       if (!candidates.length) {
-        const results = all.filter(c =>
-          c.title.toLowerCase().includes((interests || prompt).toLowerCase())
-          || (c.category?.toLowerCase() || '').includes((interests || prompt).toLowerCase())
-          || (c.description?.toLowerCase() || '').includes((interests || prompt).toLowerCase())
-        );
-        candidates = results.slice(0, 10);
-        
-        if (!candidates.length) {
-          // Be creative - suggest trending or featured campaigns
-          candidates = all.slice(0, 5); // Get some campaigns to suggest
-        }
+        const viewer = await getRequestUser(req);
+        const { recommendations } = recommendForUser(viewer?.id ?? null, { limit: 5, query: interests || normalizeQuery(prompt) });
+        candidates = recommendations.map(r => r.campaign);
       }
       
       // Give executor complete campaign data and creative freedom
@@ -405,7 +393,7 @@ Present these results to the user in a friendly, engaging, and helpful way. You
         return NextResponse.json({ text: askEnable });
       }
 
-      const all = db.getAllCampaigns();
+      const all = listPublicCampaigns();
       let match: ReturnType<typeof db.getAllCampaigns>[number] | null = null;
       const wantsRepeat = /\b(again|same)\b/i.test(prompt);
       const lastDonation = extractLastDonation(context?.messages);
@@ -457,7 +445,7 @@ Present these results to the user in a friendly, engaging, and helpful way. You
 
       // Final fallback: search by provided title string
       if (!match && title) {
-        const searchResults = db.searchCampaigns({ q: title });
+        const searchResults = db.searchCampaigns({ q: title }).filter(isCampaignPublic);
         if (searchResults.length === 0) {
           const msg = await callExecutor(`No campaign found for title "${title}". Ask user to specify exact title or run a search first, briefly.`);
           return NextResponse.json({ text: msg });
@@ -501,40 +489,37 @@ Present these results to the user in a friendly, engaging, and helpful way. You
       if (!campaignChains.some(c => c.toLowerCase() === chain.toLowerCase())) {
         return NextResponse.json({ text: `That campaign does not support ${chainInputRaw || '(unspecified)'} payments. Supported chains: ${campaignChains.join(', ')}.` });
       }
-      // Compute new total (allow exceeding goal)
-      const newTotal = (m.raised || 0) + amount;
-
+      const blocked = donationBlockedReason(m);
+      if (blocked) {
+        return NextResponse.json({ text: `${blocked}, so I can't process that donation.` });
+      }
+      // The assistant only records mock payments; on-chain donations need the donor's wallet
+      const offChainBlocked = offChainDonationBlockedReason(m);
+      if (offChainBlocked) {
+        return NextResponse.json({ text: `"${m.title}" takes on-chain donations only, so I can't donate for you. Open /campaign/${m.id} and donate from your wallet.` });
+      }
       let donorName = 'Anonymous';
-      try {
-        const token = req.cookies.get('auth-token')?.value;
-        if (token) {
-          const ver = await authService.verifyToken(token);
-          if (ver.success && ver.userId) {
-            const u = db.findUserById(ver.userId);
-            if (u) donorName = u.username;
-          }
-        }
-      } catch {}
+      let donorId: string | undefined;
+      const signedIn = await getRequestUser(req);
+      if (signedIn) {
+        donorName = signedIn.username;
+        donorId = signedIn.id;
+      }
 
       const mockTransactionId = `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const donation = db.createDonation({
+      // Donation entry + campaign raised + creator totalRaised in one atomic unit (allow exceeding goal)
+      const recorded = recordDonation({
         campaignId: m.id,
-        name: donorName,
         amount,
-        chain: chain as Chain
+        chain: chain as Chain,
+        donorName,
+        donorId,
+        txId: mockTransactionId
       });
-
-      const updated = db.updateCampaign(m.id, { raised: newTotal });
-      if (!updated) {
-        return NextResponse.json({ text: 'Payment processed but failed to update campaign totals. Please refresh the page to verify.' }, { status: 500 });
-      }
-
-      const creator = db.findUserById(m.creatorId);
-      if (creator && creator.role === 'creator') {
-        const creatorUser = creator as Creator;
-        const current = creatorUser.totalRaised || 0;
-        db.updateUser(creatorUser.id, { totalRaised: current + amount });
+      if (!recorded.ok) {
+        return NextResponse.json({ text: 'Payment could not be recorded. No funds were applied; please try again.' }, { status: recorded.status });
       }
+      const { donation, campaign: updated, receipt } = recorded;
 
       const confirmation = await callExecutor(
         `Compose a very short, friendly confirmation to the donor. Details: donorName=${donorName}, amount=$${amount}, chain=${chain}, campaignTitle="${m.title}". One or two sentences, no emojis.`
@@ -543,7 +528,9 @@ Present these results to the user in a friendly, engaging, and helpful way. You
       return NextResponse.json({
         text: confirmation?.trim() || `Done! Donated $${amount} via ${chain} to "${m.title}". Thank you!`,
         receipt: {
-          donation: { id: mockTransactionId, campaignId: m.id, amount, chain, donorName, timestamp: donation.timestamp },
+          donation: { id: donation.id, txId: mockTransactionId, campaignId: m.id, amount, chain, donorName, timestamp: donation.timestamp },
+          receiptNumber: receipt.number,
+          receiptUrl: receiptUrl(receipt),
           campaign: { id: updated.id, raised: updated.raised, goal: updated.goal, progress: (updated.goal ? (updated.raised / updated.goal) * 100 : 0) }
         }
       });
@@ -0,0 +1,43 @@
+/**
+ * FILE: app/api/auth/password-reset/confirm/route.ts
+ * PURPOSE: Set a new password with the token from a reset email
+ * ACCESS: POST /api/auth/password-reset/confirm { token, password }
+ * NOTES:
+ * - The password policy is checked before the token is consumed
+ * - Every existing session of the account is revoked; the user signs in again
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authService } from '@/lib/auth/index';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json();
+    if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: token, password' },
+        { status: 400 }
+      );
+    }
+
+    const result = await authService.resetPassword(token, password);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Password updated. Please sign in with your new password.' },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    console.error('Password reset confirm API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * FILE: app/api/auth/password-reset/route.ts
+ * PURPOSE: Start a password reset by emailing a single-use link
+ * ACCESS: POST /api/auth/password-reset { email }
+ * NOTES:
+ * - Responds the same whether or not the address has an account
+ * - Rate limited per client IP and per address
+ * - The link opens /auth/reset-password, which calls /api/auth/password-reset/confirm
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authService } from '@/lib/auth/index';
+import { consumeByClientIp, getRateLimiter, rateLimitedResponse } from '@/lib/rate-limit';
+
+const ipLimiter = () => getRateLimiter('password-reset:ip', { capacity: 5, refillPerMinute: 5 / 60 });
+const emailLimiter = () => getRateLimiter('password-reset:email', { capacity: 3, refillPerMinute: 3 / 60 });
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+    if (!email || typeof email !== 'string' || !/\S+@\S+\.\S+/.test(email)) {
+      return NextResponse.json(
+        { success: false, error: 'A valid email address is required' },
+        { status: 400 }
+      );
+    }
+
+    const byIp = await consumeByClientIp(ipLimiter(), request);
+    if (!byIp.allowed) {
+      return rateLimitedResponse(byIp, 'Too many reset requests, please try again later');
+    }
+    const byEmail = await emailLimiter().consume(email.trim().toLowerCase());
+    if (!byEmail.allowed) {
+      return rateLimitedResponse(byEmail, 'Too many reset requests, please try again later');
+    }
+
+    await authService.requestPasswordReset(email);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'If an account exists for that address, a reset link is on its way'
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    console.error('Password reset request API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * FILE: app/api/auth/refresh/route.ts
+ * PURPOSE: Exchange the refresh-token cookie for a new access token (and a rotated refresh token)
+ * ACCESS: POST /api/auth/refresh - called by AuthProvider before the access token expires
+ * NOTES:
+ * - Reusing an already-rotated refresh token revokes the whole session (see lib/auth/sessions.ts)
+ * - On failure both cookies are cleared so the client falls back to signed-out state
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authService, clearAuthCookies, setAuthCookies, REFRESH_COOKIE } from '@/lib/auth/index';
+import { ACCESS_TOKEN_TTL } from '@/lib/auth/sessions';
+
+export async function POST(request: NextRequest) {
+  try {
+    const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+    if (!refreshToken) {
+      return NextResponse.json(
+        { success: false, error: 'No refresh token' },
+        { status: 401 }
+      );
+    }
+
+    const result = await authService.refresh(refreshToken);
+    if (!result.success) {
+      const response = NextResponse.json(
+        { success: false, error: result.error },
+        { status: 401 }
+      );
+      clearAuthCookies(response);
+      return response;
+    }
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        user: result.user,
+        expiresIn: ACCESS_TOKEN_TTL
+      },
+      { status: 200 }
+    );
+    setAuthCookies(response, { token: result.token!, refreshToken: result.refreshToken });
+    return response;
+
+  } catch (error) {
+    console.error('Refresh API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle unsupported methods
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  );
+}
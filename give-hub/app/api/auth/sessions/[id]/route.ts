@@ -0,0 +1,35 @@
+/**
+ * FILE: app/api/auth/sessions/[id]/route.ts
+ * PURPOSE: Revoke one of the signed-in user's sessions
+ * ACCESS: DELETE /api/auth/sessions/[id]
+ * NOTES:
+ * - Only the owner's sessions can be revoked; unknown or foreign ids return 404
+ * - Revoking the current session also clears this browser's auth cookies
+ */
+
+import { NextResponse } from 'next/server';
+import { authenticated, clearAuthCookies, revokeSession, withPolicy, type AuthedRequest } from '@/lib/auth/index';
+
+async function deleteHandler(request: AuthedRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await context.params;
+    if (!revokeSession(id, request.user.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const response = NextResponse.json({ success: true }, { status: 200 });
+    if (id === request.sessionId) clearAuthCookies(response);
+    return response;
+  } catch (error) {
+    console.error('Revoke session API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withPolicy<{ params: Promise<{ id: string }> }>(authenticated, deleteHandler);
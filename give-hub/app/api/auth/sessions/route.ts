@@ -0,0 +1,53 @@
+/**
+ * FILE: app/api/auth/sessions/route.ts
+ * PURPOSE: List and revoke the signed-in user's sessions (devices)
+ * ACCESS:
+ * - GET    /api/auth/sessions                   -> { sessions: SessionSummary[] } (`current` marks this device)
+ * - DELETE /api/auth/sessions                   -> revoke every session, including this one
+ * - DELETE /api/auth/sessions?keepCurrent=true  -> sign out all other devices
+ * - DELETE /api/auth/sessions/[id]              -> revoke a single session
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  authMiddleware,
+  authenticated,
+  clearAuthCookies,
+  listActiveSessions,
+  revokeAllSessions,
+  withPolicy,
+  type AuthedRequest,
+} from '@/lib/auth/index';
+
+async function getHandler(request: AuthedRequest) {
+  try {
+    const sessions = listActiveSessions(request.user.id, request.sessionId);
+    return NextResponse.json({ success: true, sessions }, { status: 200 });
+  } catch (error) {
+    console.error('List sessions API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+async function deleteHandler(request: AuthedRequest) {
+  try {
+    const keepCurrent = request.nextUrl.searchParams.get('keepCurrent') === 'true';
+    const revoked = revokeAllSessions(request.user.id, keepCurrent ? request.sessionId : undefined);
+
+    const response = NextResponse.json({ success: true, revoked }, { status: 200 });
+    if (!keepCurrent) clearAuthCookies(response);
+    return response;
+  } catch (error) {
+    console.error('Revoke sessions API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = authMiddleware(getHandler);
+export const DELETE = withPolicy(authenticated, deleteHandler);
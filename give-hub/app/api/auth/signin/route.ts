@@ -2,20 +2,23 @@
  * FILE: app/api/auth/signin/route.ts
  * PURPOSE: User authentication API endpoint
  * ACCESS: POST /api/auth/signin
+ * LIMITS:
+ * - Token buckets per client IP and per identifier -> 429 with Retry-After
+ * - Repeated failures against one account lock it temporarily (lib/auth/lockout.ts) -> the same
+ *   401 as wrong credentials; the owner is emailed
  * MIGRATION NOTES:
  * - Replace mock user operations with MongoDB User.findOne()
- * - Add proper password verification with bcrypt
- * - Implement login attempt limiting with Redis or MongoDB
- * - Add account lockout functionality
- * TODO:
- * - Add bcrypt password verification
- * - Implement proper JWT with jsonwebtoken library
- * - Add rate limiting per IP and per user
- * - Add login attempt tracking and cooldown
+ * - Back the rate limiter with Redis when running several instances
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { authService, validateSigninInput } from '@/lib/auth/index';
+import { authService, setAuthCookies, sessionMetaFrom, validateSigninInput } from '@/lib/auth/index';
+import { ACCESS_TOKEN_TTL } from '@/lib/auth/sessions';
+import { consumeByClientIp, getRateLimiter, rateLimitedResponse } from '@/lib/rate-limit';
+
+// Burst of 10 attempts per IP, then one every 12s; 5 per identifier, then one every 30s
+const ipLimiter = () => getRateLimiter('signin:ip', { capacity: 10, refillPerMinute: 5 });
+const identifierLimiter = () => getRateLimiter('signin:identifier', { capacity: 5, refillPerMinute: 2 });
 
 export async function POST(request: NextRequest) {
   try {
@@ -34,47 +37,46 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // TODO: Implement rate limiting per IP
-    // const clientIP = request.ip || request.headers.get('x-forwarded-for');
-    // await checkRateLimit(clientIP);
+    const byIp = await consumeByClientIp(ipLimiter(), request);
+    if (!byIp.allowed) {
+      return rateLimitedResponse(byIp, 'Too many sign-in attempts, please try again later');
+    }
+    const identifier = String(body.emailOrUsername).trim().toLowerCase();
+    const byIdentifier = await identifierLimiter().consume(identifier);
+    if (!byIdentifier.allowed) {
+      return rateLimitedResponse(byIdentifier, 'Too many sign-in attempts, please try again later');
+    }
     
     // Attempt to authenticate user
     const result = await authService.signin({
       emailOrUsername: body.emailOrUsername.trim(),
       password: body.password
-    });
+    }, sessionMetaFrom(request));
     
     if (!result.success) {
-      // TODO: Track failed login attempts
-      // await trackFailedLogin(body.emailOrUsername, clientIP);
-      
+      // Locked accounts get this same 401 (lib/auth/lockout.ts), so it does not reveal the account
       return NextResponse.json(
         { success: false, error: result.error },
         { status: 401 } // Unauthorized
       );
     }
     
-    // TODO: Reset failed login attempts on successful login
-    // await resetFailedLogins(body.emailOrUsername);
+    // A successful sign-in refills this identifier's bucket
+    await identifierLimiter().reset(identifier);
     
     // Create response with user data
     const response = NextResponse.json(
       {
         success: true,
         message: 'Authentication successful',
-        user: result.user
+        user: result.user,
+        expiresIn: ACCESS_TOKEN_TTL
       },
       { status: 200 }
     );
     
-    // Set HTTP-only cookie for token (secure in production)
-    response.cookies.set('auth-token', result.token!, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      // maxAge is in seconds
-      maxAge: 60 * 60 * 24 // 24 hours
-    });
+    // HTTP-only access + refresh cookies (secure in production)
+    setAuthCookies(response, { token: result.token!, refreshToken: result.refreshToken });
     
     return response;
     
@@ -2,18 +2,21 @@
  * FILE: app/api/auth/signout/route.ts
  * PURPOSE: User logout API endpoint
  * ACCESS: POST /api/auth/signout
- * MIGRATION NOTES:
- * - In production, consider implementing token blacklisting with Redis
- * - Add proper session management for enhanced security
- * TODO:
- * - Implement token blacklisting for enhanced security
- * - Add session cleanup for database-stored sessions
+ * NOTES:
+ * - Revokes the server-side session, so copies of the access/refresh tokens stop working too
+ * - To sign out other devices use DELETE /api/auth/sessions
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { authService, clearAuthCookies, ACCESS_COOKIE, REFRESH_COOKIE } from '@/lib/auth/index';
 
-export async function POST(_request: NextRequest) {
+export async function POST(request: NextRequest) {
   try {
+    await authService.signout({
+      token: request.cookies.get(ACCESS_COOKIE)?.value,
+      refreshToken: request.cookies.get(REFRESH_COOKIE)?.value
+    });
+
     // Create response
     const response = NextResponse.json(
       {
@@ -23,13 +26,8 @@ export async function POST(_request: NextRequest) {
       { status: 200 }
     );
     
-    // Clear the auth token cookie
-    response.cookies.set('auth-token', '', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 0 // Expire immediately
-    });
+    // Clear the access and refresh token cookies
+    clearAuthCookies(response);
     
     return response;
     
@@ -4,21 +4,29 @@
  * ACCESS: POST /api/auth/signup
  * MIGRATION NOTES:
  * - Replace mock user operations with MongoDB User.create()
- * - Add proper password hashing with bcrypt
- * - Implement rate limiting with Redis or MongoDB
+ * - Back the rate limiter with Redis when running several instances
  * - Add email verification functionality
  * TODO:
- * - Add bcrypt password hashing
  * - Implement proper JWT with jsonwebtoken library
  * - Add input sanitization and validation
  * - Add email verification workflow
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { authService, validateSignupInput } from '@/lib/auth/index';
+import { authService, setAuthCookies, sessionMetaFrom, validateSignupInput } from '@/lib/auth/index';
+import { ACCESS_TOKEN_TTL } from '@/lib/auth/sessions';
+import { consumeByClientIp, getRateLimiter, rateLimitedResponse } from '@/lib/rate-limit';
+
+// 5 signups per IP, then one every 12 minutes
+const ipLimiter = () => getRateLimiter('signup:ip', { capacity: 5, refillPerMinute: 5 / 60 });
 
 export async function POST(request: NextRequest) {
   try {
+    const limited = await consumeByClientIp(ipLimiter(), request);
+    if (!limited.allowed) {
+      return rateLimitedResponse(limited, 'Too many accounts created from this address, please try again later');
+    }
+
     const body = await request.json();
     
     // Validate input
@@ -40,7 +48,7 @@ export async function POST(request: NextRequest) {
       email: body.email.trim().toLowerCase(),
       password: body.password,
       role: body.role
-    });
+    }, sessionMetaFrom(request));
     
     if (!result.success) {
       return NextResponse.json(
@@ -54,19 +62,14 @@ export async function POST(request: NextRequest) {
       {
         success: true,
         message: 'User created successfully',
-        user: result.user
+        user: result.user,
+        expiresIn: ACCESS_TOKEN_TTL
       },
       { status: 201 }
     );
     
-    // Set HTTP-only cookie for token (secure in production)
-    response.cookies.set('auth-token', result.token!, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      // maxAge is in seconds
-      maxAge: 60 * 60 * 24 // 24 hours
-    });
+    // HTTP-only access + refresh cookies (secure in production)
+    setAuthCookies(response, { token: result.token!, refreshToken: result.refreshToken });
     
     return response;
     
@@ -0,0 +1,37 @@
+/**
+ * FILE: app/api/auth/siwe/nonce/route.ts
+ * PURPOSE: Hands out the nonce for a Sign-In with Ethereum (EIP-4361) message
+ * ACCESS: GET /api/auth/siwe/nonce -> { nonce, expiresIn }
+ * NOTES:
+ * - The nonce is also set as an httpOnly cookie; /api/auth/siwe/signin and POST /api/auth/wallets
+ *   only accept it from the same browser, once, within SIWE_NONCE_TTL seconds
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { issueSiweNonce, setSiweNonceCookie, SIWE_NONCE_TTL } from '@/lib/auth/index';
+import { consumeByClientIp, getRateLimiter, rateLimitedResponse } from '@/lib/rate-limit';
+
+// Burst of 20 per IP, then one every 6s
+const ipLimiter = () => getRateLimiter('siwe-nonce:ip', { capacity: 20, refillPerMinute: 10 });
+
+export async function GET(request: NextRequest) {
+  try {
+    const limited = await consumeByClientIp(ipLimiter(), request);
+    if (!limited.allowed) {
+      return rateLimitedResponse(limited, 'Too many sign-in attempts, please try again later');
+    }
+
+    const nonce = issueSiweNonce();
+    const response = NextResponse.json({ success: true, nonce, expiresIn: SIWE_NONCE_TTL }, { status: 200 });
+    // Never cache: every prompt needs a fresh nonce
+    response.headers.set('Cache-Control', 'no-store');
+    setSiweNonceCookie(response, nonce);
+    return response;
+  } catch (error) {
+    console.error('SIWE nonce API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
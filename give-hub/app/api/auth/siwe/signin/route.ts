@@ -0,0 +1,101 @@
+/**
+ * FILE: app/api/auth/siwe/signin/route.ts
+ * PURPOSE: Sign in, or sign up, with an Ethereum wallet (EIP-4361 "Sign-In with Ethereum")
+ * ACCESS: POST /api/auth/siwe/signin { message, signature, username?, role? }
+ * BEHAVIOR:
+ * - The message must carry a nonce from GET /api/auth/siwe/nonce (same browser) and this host
+ *   as its domain; the signer must be the message's address
+ * - Address linked to an account (lib/auth/wallets) -> signed in, 200
+ * - Unknown address -> a wallet-only account is created with that verified wallet, 201;
+ *   `username` and `role` ('user' | 'creator', default 'user') apply only then
+ * LIMITS:
+ * - Token buckets per client IP; account creation shares the signup budget -> 429
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authService,
+  clearSiweNonceCookie,
+  findUserByVerifiedWallet,
+  sessionMetaFrom,
+  setAuthCookies,
+  verifySiwe,
+  SIWE_NONCE_COOKIE,
+} from '@/lib/auth/index';
+import { ACCESS_TOKEN_TTL } from '@/lib/auth/sessions';
+import { consumeByClientIp, getRateLimiter, rateLimitedResponse } from '@/lib/rate-limit';
+
+const ipLimiter = () => getRateLimiter('signin:ip', { capacity: 10, refillPerMinute: 5 });
+const signupLimiter = () => getRateLimiter('signup:ip', { capacity: 5, refillPerMinute: 5 / 60 });
+
+export async function POST(request: NextRequest) {
+  try {
+    const byIp = await consumeByClientIp(ipLimiter(), request);
+    if (!byIp.allowed) {
+      return rateLimitedResponse(byIp, 'Too many sign-in attempts, please try again later');
+    }
+
+    const body = await request.json();
+    if (body.role !== undefined && !['user', 'creator'].includes(body.role)) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: { role: 'Role must be either user or creator' } },
+        { status: 400 }
+      );
+    }
+    if (body.username !== undefined && (typeof body.username !== 'string' || body.username.trim().length < 3)) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: { username: 'Username must be at least 3 characters long' } },
+        { status: 400 }
+      );
+    }
+
+    const verified = verifySiwe(body, {
+      domain: request.headers.get('host') || request.nextUrl.host,
+      cookieNonce: request.cookies.get(SIWE_NONCE_COOKIE)?.value,
+    });
+    if (!verified.ok) {
+      return NextResponse.json({ success: false, error: verified.error }, { status: verified.status });
+    }
+
+    const existing = findUserByVerifiedWallet(verified.address);
+    if (!existing) {
+      const limited = await consumeByClientIp(signupLimiter(), request);
+      if (!limited.allowed) {
+        return rateLimitedResponse(limited, 'Too many accounts created from this address, please try again later');
+      }
+    }
+    const result = existing
+      ? await authService.signinWithWallet(verified.address, sessionMetaFrom(request))
+      : await authService.signupWithWallet(
+          { address: verified.address, chainId: verified.chainId, username: body.username, role: body.role || 'user' },
+          sessionMetaFrom(request)
+        );
+
+    if (!result.success) {
+      const response = NextResponse.json({ success: false, error: result.error }, { status: 409 });
+      clearSiweNonceCookie(response);
+      return response;
+    }
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        message: existing ? 'Authentication successful' : 'User created successfully',
+        user: result.user,
+        created: !existing,
+        expiresIn: ACCESS_TOKEN_TTL
+      },
+      { status: existing ? 200 : 201 }
+    );
+    setAuthCookies(response, { token: result.token!, refreshToken: result.refreshToken });
+    clearSiweNonceCookie(response);
+    return response;
+
+  } catch (error) {
+    console.error('SIWE signin API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * FILE: app/api/auth/verify-email/resend/route.ts
+ * PURPOSE: Send a fresh verification link to the signed-in user
+ * ACCESS: POST /api/auth/verify-email/resend (authenticated)
+ * NOTES:
+ * - Earlier links stop working once a new one is issued
+ * - Limited to 3 emails per user, then one every 20 minutes
+ */
+
+import { NextResponse } from 'next/server';
+import { authenticated, authService, withPolicy, type AuthedRequest } from '@/lib/auth/index';
+import { getRateLimiter, rateLimitedResponse } from '@/lib/rate-limit';
+
+const limiter = () => getRateLimiter('verify-email:user', { capacity: 3, refillPerMinute: 3 / 60 });
+
+async function handler(request: AuthedRequest) {
+  try {
+    const limited = await limiter().consume(request.user.id);
+    if (!limited.allowed) {
+      return rateLimitedResponse(limited, 'Too many verification emails, please try again later');
+    }
+
+    const result = await authService.requestEmailVerification(request.user.id);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Verification email sent' },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    console.error('Resend verification API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withPolicy(authenticated, handler);
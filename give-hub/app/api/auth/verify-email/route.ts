@@ -0,0 +1,59 @@
+/**
+ * FILE: app/api/auth/verify-email/route.ts
+ * PURPOSE: Confirm an email address from the link sent at signup
+ * ACCESS:
+ * - GET  /api/auth/verify-email?token=...  (link in the email) -> redirects to /profile
+ * - POST /api/auth/verify-email { token }  -> JSON result
+ * NOTES:
+ * - Tokens are single-use; see lib/auth/action-tokens.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authService } from '@/lib/auth/index';
+
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') || '';
+  const result = token
+    ? await authService.verifyEmail(token)
+    : { success: false, error: 'Missing token' };
+
+  const target = new URL('/profile', request.nextUrl.origin);
+  if (result.success) {
+    target.searchParams.set('emailVerified', '1');
+  } else {
+    target.searchParams.set('emailVerifyError', result.error || 'Verification failed');
+  }
+  return NextResponse.redirect(target);
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Missing token' },
+        { status: 400 }
+      );
+    }
+
+    const result = await authService.verifyEmail(token);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Email verified' },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    console.error('Verify email API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
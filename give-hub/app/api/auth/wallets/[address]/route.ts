@@ -0,0 +1,39 @@
+/**
+ * FILE: app/api/auth/wallets/[address]/route.ts
+ * PURPOSE: Unlink one of the signed-in user's verified wallets
+ * ACCESS: DELETE /api/auth/wallets/[address]
+ * NOTES:
+ * - Unknown or foreign addresses return 404
+ * - 409 for the last wallet of an account without a password (it is the only way to sign in)
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/_dev/mock-db/database';
+import { authenticated, unlinkVerifiedWallet, withPolicy, type AuthedRequest } from '@/lib/auth/index';
+
+async function deleteHandler(request: AuthedRequest, context: { params: Promise<{ address: string }> }) {
+  try {
+    const { address } = await context.params;
+    const user = db.findUserById(request.user.id);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = unlinkVerifiedWallet(user, address);
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Unlink wallet API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withPolicy<{ params: Promise<{ address: string }> }>(authenticated, deleteHandler);
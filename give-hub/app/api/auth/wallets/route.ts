@@ -0,0 +1,66 @@
+/**
+ * FILE: app/api/auth/wallets/route.ts
+ * PURPOSE: The signed-in user's verified wallets (Sign-In with Ethereum)
+ * ACCESS:
+ * - GET    /api/auth/wallets                          -> { wallets: VerifiedWallet[] }
+ * - POST   /api/auth/wallets { message, signature }   -> link the signing wallet, { wallet }
+ * - DELETE /api/auth/wallets/[address]                -> unlink
+ * NOTES:
+ * - POST takes a signed EIP-4361 message with a nonce from GET /api/auth/siwe/nonce; 409 when
+ *   the wallet already belongs to another account
+ * - These are the only addresses the app trusts; `walletAddresses` on the profile is self-declared
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  authMiddleware,
+  authenticated,
+  clearSiweNonceCookie,
+  linkVerifiedWallet,
+  listVerifiedWallets,
+  verifySiwe,
+  withPolicy,
+  SIWE_NONCE_COOKIE,
+  type AuthedRequest,
+} from '@/lib/auth/index';
+
+async function getHandler(request: AuthedRequest) {
+  try {
+    return NextResponse.json({ success: true, wallets: listVerifiedWallets(request.user.id) }, { status: 200 });
+  } catch (error) {
+    console.error('List wallets API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+async function postHandler(request: AuthedRequest) {
+  try {
+    const body = await request.json();
+    const verified = verifySiwe(body, {
+      domain: request.headers.get('host') || request.nextUrl.host,
+      cookieNonce: request.cookies.get(SIWE_NONCE_COOKIE)?.value,
+    });
+    if (!verified.ok) {
+      return NextResponse.json({ success: false, error: verified.error }, { status: verified.status });
+    }
+
+    const linked = linkVerifiedWallet(request.user.id, verified.address, verified.chainId);
+    const response = linked.ok
+      ? NextResponse.json({ success: true, wallet: linked.wallet }, { status: 200 })
+      : NextResponse.json({ success: false, error: linked.error }, { status: linked.status });
+    clearSiweNonceCookie(response);
+    return response;
+  } catch (error) {
+    console.error('Link wallet API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = authMiddleware(getHandler);
+export const POST = withPolicy(authenticated, postHandler);
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/_dev/mock-db/database'
+import { getRequestUser } from '@/lib/auth/index'
+import { canViewCampaign } from '@/lib/moderation'
 
 /**
  * GET /api/campaigns/[id]/donations
@@ -19,7 +21,7 @@ export async function GET(
 
     // Validate campaign exists
     const campaign = db.findCampaignById(campaignId)
-    if (!campaign) {
+    if (!campaign || !canViewCampaign(campaign, await getRequestUser(request))) {
       return NextResponse.json(
         { error: 'Campaign not found' },
         { status: 404 }
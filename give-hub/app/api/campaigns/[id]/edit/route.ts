@@ -1,75 +1,91 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { authService } from '@/lib/auth/auth'
+import { NextResponse } from 'next/server'
+import { withPolicy, anyOf, allOf, isAdmin, hasRole, ownsCampaign, fromParam, type AuthedRequest } from '@/lib/auth/index'
 import { db } from '@/_dev/mock-db/database'
+import type { Campaign } from '@/_dev/mock-db/database'
+import { getCampaignStatus, planLifecycleChange } from '@/lib/lifecycle'
 
-// PUT /api/campaigns/[id]/edit - Update campaign (creator only)
-export async function PUT(
-  request: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
-  try {
-    const token = request.cookies.get('auth-token')?.value
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+type RouteContext = { params: Promise<{ id: string }> }
 
-    const authResult = await authService.verifyToken(token)
-    if (!authResult.success || !authResult.userId) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
-
-    const user = await db.findUserById(authResult.userId)
-    if (!user || user.role !== 'creator') {
-      return NextResponse.json({ error: 'Only creators can edit campaigns' }, { status: 403 })
-    }
+const CONTENT_FIELDS = ['title', 'description', 'goal', 'category', 'image', 'chains']
+const LIFECYCLE_FIELDS = ['status', 'startsAt', 'endsAt']
 
+// PUT /api/campaigns/[id]/edit - Update campaign (owning creator, or an admin)
+// Body: the full content fields, lifecycle fields (`status`, `startsAt`, `endsAt`), or both.
+// Status changes follow the transitions in lib/lifecycle; ended and cancelled campaigns are read-only.
+// Campaigns linked on-chain refuse lifecycle changes: the contract would keep taking donate() calls,
+// which the indexer records, so pausing or ending only the off-chain record would not stop them.
+async function editCampaign(request: AuthedRequest, context: RouteContext) {
+  try {
     const { id: campaignId } = await context.params
     const campaign = db.findCampaignById(campaignId)
-    
     if (!campaign) {
       return NextResponse.json({ error: 'Campaign not found' }, { status: 404 })
     }
 
-    // Check if user owns this campaign
-    if (campaign.creatorId !== user.id) {
-      return NextResponse.json({ error: 'You can only edit your own campaigns' }, { status: 403 })
-    }
-
     const body = await request.json()
     const { title, description, goal, category, image, chains } = body
-
-    // Validate required fields
-    if (!title || !description || !goal || !chains || chains.length === 0) {
-      return NextResponse.json({ 
-        error: 'Title, description, goal, and at least one blockchain are required' 
-      }, { status: 400 })
+    const hasContent = CONTENT_FIELDS.some(field => field in body)
+    const hasLifecycle = LIFECYCLE_FIELDS.some(field => field in body)
+    if (!hasContent && !hasLifecycle) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
     }
 
-    // Validate goal
-    if (typeof goal !== 'number' || goal <= 0) {
-      return NextResponse.json({ error: 'Goal must be a positive number' }, { status: 400 })
+    const currentStatus = getCampaignStatus(campaign)
+    if (hasContent && (currentStatus === 'ended' || currentStatus === 'cancelled')) {
+      return NextResponse.json({ error: `Campaign is ${currentStatus} and can no longer be edited` }, { status: 409 })
     }
 
-    // Validate chains
-    const validChains = ['Ethereum', 'Solana', 'Bitcoin']
-    if (!Array.isArray(chains) || !chains.every(chain => validChains.includes(chain))) {
-      return NextResponse.json({ error: 'Invalid blockchain selection' }, { status: 400 })
+    let updateData: Partial<Campaign> = {}
+    if (hasLifecycle && campaign.contractOwnership?.onChainCampaignId) {
+      return NextResponse.json({
+        error: 'This campaign is deployed on-chain and the contract keeps accepting donations, so its status and schedule cannot be changed here'
+      }, { status: 409 })
     }
-
-    // Validate image if provided
-    if (image && !image.startsWith('data:image/')) {
-      return NextResponse.json({ error: 'Invalid image format' }, { status: 400 })
+    if (hasLifecycle) {
+      const planned = planLifecycleChange(campaign, {
+        status: body.status,
+        startsAt: body.startsAt,
+        endsAt: body.endsAt
+      })
+      if (!planned.ok) {
+        return NextResponse.json({ error: planned.error }, { status: planned.status })
+      }
+      updateData = { ...planned.update }
     }
 
-    // Update campaign
-    const updateData = {
-      title: title.trim(),
-      description: description.trim(),
-      goal,
-      category: category?.trim() || undefined,
-      image: image || undefined,
-      chains
+    if (hasContent) {
+      // Validate required fields
+      if (!title || !description || !goal || !chains || chains.length === 0) {
+        return NextResponse.json({ 
+          error: 'Title, description, goal, and at least one blockchain are required' 
+        }, { status: 400 })
+      }
+
+      // Validate goal
+      if (typeof goal !== 'number' || goal <= 0) {
+        return NextResponse.json({ error: 'Goal must be a positive number' }, { status: 400 })
+      }
+
+      // Validate chains
+      const validChains = ['Ethereum', 'Solana', 'Bitcoin']
+      if (!Array.isArray(chains) || !chains.every(chain => validChains.includes(chain))) {
+        return NextResponse.json({ error: 'Invalid blockchain selection' }, { status: 400 })
+      }
+
+      // Validate image if provided
+      if (image && !image.startsWith('data:image/')) {
+        return NextResponse.json({ error: 'Invalid image format' }, { status: 400 })
+      }
+
+      updateData = {
+        ...updateData,
+        title: title.trim(),
+        description: description.trim(),
+        goal,
+        category: category?.trim() || undefined,
+        image: image || undefined,
+        chains
+      }
     }
 
     const updatedCampaign = db.updateCampaign(campaignId, updateData)
@@ -85,3 +101,14 @@ export async function PUT(
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
+
+export const PUT = withPolicy<RouteContext>(
+  anyOf(
+    isAdmin,
+    allOf(
+      hasRole('creator', 'Only creators can edit campaigns'),
+      ownsCampaign(fromParam('id'), 'You can only edit your own campaigns')
+    )
+  ),
+  editCampaign
+)
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server'
+import { withPolicy, allOf, hasRole, ownsCampaign, fromParam, type AuthedRequest } from '@/lib/auth/index'
+import { db } from '@/_dev/mock-db/database'
+import { deploymentParams, linkCampaignDeployment } from '@/lib/services/contracts'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Only the owning creator: the on-chain creator (who receives the funds) must be one of their
+// verified wallets, so an admin cannot publish on someone's behalf
+const ownerOnly = allOf(
+  hasRole('creator', 'Only creators can deploy campaigns'),
+  ownsCampaign(fromParam('id'), 'You can only deploy your own campaigns')
+)
+
+// GET /api/campaigns/[id]/onchain - createCampaign(preferredToken, start, end) parameters
+// Used by publishCampaignOnChain() (lib/contracts/publish) before the wallet sends the transaction
+async function getDeployment(_request: AuthedRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+    const campaign = db.findCampaignById(id)
+    if (!campaign) {
+      return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
+    }
+    const result = deploymentParams(campaign)
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+    }
+    return NextResponse.json({ success: true, params: result.params })
+  } catch (error) {
+    console.error('GET /api/campaigns/[id]/onchain error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/campaigns/[id]/onchain - Body: { txHash } of the mined createCampaign() transaction
+// The server reads the CampaignCreated event back from the chain and records contractOwnership.
+// 409 while the transaction is pending or waiting for confirmations (retry with the same hash)
+async function linkDeployment(request: AuthedRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+    const campaign = db.findCampaignById(id)
+    if (!campaign) {
+      return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
+    }
+    const body = await request.json().catch(() => ({}))
+    if (typeof body?.txHash !== 'string') {
+      return NextResponse.json({ success: false, error: 'txHash is required' }, { status: 400 })
+    }
+
+    const result = await linkCampaignDeployment(campaign, request.user.id, body.txHash)
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+    }
+    return NextResponse.json({ success: true, contractOwnership: result.campaign.contractOwnership })
+  } catch (error) {
+    console.error('POST /api/campaigns/[id]/onchain error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export const GET = withPolicy<RouteContext>(ownerOnly, getDeployment)
+export const POST = withPolicy<RouteContext>(ownerOnly, linkDeployment)
@@ -7,15 +7,18 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/_dev/mock-db/database'
+import { getRequestUser } from '@/lib/auth/index'
+import { canViewCampaign } from '@/lib/moderation'
 
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params
     const campaign = db.findCampaignById(id)
-    if (!campaign) {
+    // Unpublished campaigns look like missing ones to everyone but the owner and admins
+    if (!campaign || !canViewCampaign(campaign, await getRequestUser(req))) {
       return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
     }
 
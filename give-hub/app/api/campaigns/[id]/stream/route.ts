@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/auth/index'
+import { db } from '@/_dev/mock-db/database'
+import { canViewCampaign } from '@/lib/moderation'
+import { campaignEventStream } from '@/lib/realtime'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/campaigns/[id]/stream - Server-Sent Events for one campaign (see lib/realtime)
+// Events: `progress` (snapshot on connect, then after each donation) and `donation`
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: campaignId } = await context.params
+    const campaign = db.findCampaignById(campaignId)
+    if (!campaign || !canViewCampaign(campaign, await getRequestUser(request))) {
+      return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
+    }
+
+    return campaignEventStream([campaign], request.signal)
+  } catch (error) {
+    console.error('GET /api/campaigns/[id]/stream error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
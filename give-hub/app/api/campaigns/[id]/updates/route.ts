@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withPolicy, anyOf, allOf, isAdmin, hasRole, ownsCampaign, fromParam, getRequestUser, type AuthedRequest } from '@/lib/auth/index'
+import { db } from '@/_dev/mock-db/database'
+import { canViewCampaign } from '@/lib/moderation'
+import { createCampaignUpdate, listCampaignUpdates } from '@/lib/updates'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/campaigns/[id]/updates - Progress posts for a campaign, newest first
+// Same visibility as the campaign page (see lib/moderation)
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: campaignId } = await context.params
+    const campaign = db.findCampaignById(campaignId)
+    if (!campaign || !canViewCampaign(campaign, await getRequestUser(request))) {
+      return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, updates: listCampaignUpdates(campaignId) })
+  } catch (error) {
+    console.error('GET /api/campaigns/[id]/updates error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/campaigns/[id]/updates - Post an update (owning creator, or an admin)
+// Body: { title?, body (markdown), images?: data:image/* URLs }. Backers are emailed (lib/updates).
+async function postUpdate(request: AuthedRequest, context: RouteContext) {
+  try {
+    const { id: campaignId } = await context.params
+    const campaign = db.findCampaignById(campaignId)
+    if (!campaign) {
+      return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const result = createCampaignUpdate(request.user, campaign, body)
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, update: result.update, notified: result.notified }, { status: 201 })
+  } catch (error) {
+    console.error('POST /api/campaigns/[id]/updates error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export const POST = withPolicy<RouteContext>(
+  anyOf(
+    isAdmin,
+    allOf(
+      hasRole('creator', 'Only creators can post campaign updates'),
+      ownsCampaign(fromParam('id'), 'You can only post updates to your own campaigns')
+    )
+  ),
+  postUpdate
+)
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/auth/index'
+import { db } from '@/_dev/mock-db/database'
+import { canViewCampaign } from '@/lib/moderation'
+import { campaignEventStream, MAX_STREAM_CAMPAIGNS } from '@/lib/realtime'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/campaigns/stream?ids=a,b,c - One Server-Sent Events connection for several campaigns
+// (grids and the studio dashboard), so a page of cards does not open a stream per card.
+// Same events as /api/campaigns/[id]/stream; ids the caller cannot view are skipped.
+export async function GET(request: NextRequest) {
+  try {
+    const ids = Array.from(new Set((request.nextUrl.searchParams.get('ids') ?? '').split(',').map(id => id.trim()).filter(Boolean)))
+    if (ids.length === 0 || ids.length > MAX_STREAM_CAMPAIGNS) {
+      return NextResponse.json({ success: false, error: `ids must list 1-${MAX_STREAM_CAMPAIGNS} campaign ids` }, { status: 400 })
+    }
+
+    const viewer = await getRequestUser(request)
+    const campaigns = ids
+      .map(id => db.findCampaignById(id))
+      .filter((campaign): campaign is NonNullable<typeof campaign> => !!campaign && canViewCampaign(campaign, viewer))
+
+    return campaignEventStream(campaigns, request.signal)
+  } catch (error) {
+    console.error('GET /api/campaigns/stream error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * FILE: app/api/notifications/read/route.ts
+ * PURPOSE: Mark inbox items as read
+ * ACCESS: POST /api/notifications/read (signed in)
+ * BODY: { ids: string[] } for specific items, or {} / { all: true } for everything unread
+ * RESPONSE: { success, updated, unreadCount }
+ */
+
+import { NextResponse } from 'next/server'
+import { withPolicy, authenticated, type AuthedRequest } from '@/lib/auth/index'
+import { getUnreadSummary, markNotificationsRead } from '@/lib/notifications'
+
+async function markRead(request: AuthedRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const ids = body?.ids
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id: unknown) => typeof id === 'string'))) {
+      return NextResponse.json({ success: false, error: 'ids must be an array of notification ids' }, { status: 400 })
+    }
+
+    const updated = markNotificationsRead(request.user.id, ids)
+    return NextResponse.json({ success: true, updated, unreadCount: getUnreadSummary(request.user.id).unreadCount })
+  } catch (error) {
+    console.error('POST /api/notifications/read error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export const POST = withPolicy(authenticated, markRead)
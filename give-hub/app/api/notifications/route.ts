@@ -0,0 +1,32 @@
+/**
+ * FILE: app/api/notifications/route.ts
+ * PURPOSE: The signed-in user's notification inbox (see lib/notifications)
+ * ACCESS: GET /api/notifications (signed in)
+ * QUERY: unread=true (unread only), since=<ISO> (only newer items), limit 1-50 (default 20)
+ * RESPONSE: { success, notifications (newest first), unreadCount }
+ */
+
+import { NextResponse } from 'next/server'
+import { withPolicy, authenticated, type AuthedRequest } from '@/lib/auth/index'
+import { listNotifications } from '@/lib/notifications'
+
+async function getInbox(request: AuthedRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const rawLimit = params.get('limit')
+    const result = listNotifications(request.user.id, {
+      unreadOnly: params.get('unread') === 'true',
+      since: params.get('since') ?? undefined,
+      limit: rawLimit === null ? undefined : Number(rawLimit),
+    })
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+    }
+    return NextResponse.json({ success: true, notifications: result.notifications, unreadCount: result.unreadCount })
+  } catch (error) {
+    console.error('GET /api/notifications error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export const GET = withPolicy(authenticated, getInbox)
@@ -0,0 +1,22 @@
+/**
+ * FILE: app/api/notifications/unread-count/route.ts
+ * PURPOSE: Cheap poll target for the nav bell
+ * ACCESS: GET /api/notifications/unread-count (signed in)
+ * RESPONSE: { success, unreadCount, latestAt } - `latestAt` is the newest item's createdAt (or null);
+ *           when it moves, fetch GET /api/notifications?since= for the new items
+ */
+
+import { NextResponse } from 'next/server'
+import { withPolicy, authenticated, type AuthedRequest } from '@/lib/auth/index'
+import { getUnreadSummary } from '@/lib/notifications'
+
+async function getUnreadCount(request: AuthedRequest) {
+  try {
+    return NextResponse.json({ success: true, ...getUnreadSummary(request.user.id) })
+  } catch (error) {
+    console.error('GET /api/notifications/unread-count error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export const GET = withPolicy(authenticated, getUnreadCount)
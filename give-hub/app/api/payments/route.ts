@@ -1,19 +1,66 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/_dev/mock-db/database'
-import type { Creator } from '@/_dev/mock-db/database'
+import { findUserByVerifiedWallet, getRequestUser } from '@/lib/auth/index'
+import { recordDonation } from '@/lib/ledger'
+import { withIdempotency } from '@/lib/idempotency'
+import { isCampaignPublic } from '@/lib/moderation'
+import { donationBlockedReason } from '@/lib/lifecycle'
+import { receiptUrl } from '@/lib/receipts'
+import { DONATION_CHAIN, offChainDonationBlockedReason, verifyDonationTx } from '@/lib/payments/onchain'
 
 /**
  * POST /api/payments
- * Process a mock payment and update campaign funds
+ * Process a mock payment, or record a confirmed on-chain donation, and update campaign funds
+ *
+ * With `txHash` (ZetaChain provider) the donate() transaction is verified on-chain first:
+ * mined and confirmed, sent to the fundraiser contract, with a Donation event for this
+ * campaign. The recorded amount comes from that event, the chain is the indexer's label
+ * (DONATION_CHAIN) rather than the client's, and the hash becomes the txId; a hash
+ * can only be recorded once (see lib/payments/onchain). The donation is credited to the
+ * account that verified the sending wallet, never to whoever posts the hash: a signed-in
+ * user who does not own that wallet gets 403. Without `txHash`, campaigns linked on-chain
+ * and the ZetaChain provider answer 400: only the contract can take those donations.
  * 
+ * The donation entry, campaign `raised` and creator `totalRaised` are written
+ * atomically through the donation ledger (lib/ledger), together with a numbered
+ * receipt; `receiptUrl` in the response downloads it as a PDF (lib/receipts).
+ *
+ * Send an `Idempotency-Key` header to make retries safe: the same key and
+ * payload returns the stored response, the same key with a different payload
+ * is rejected with 422 (see lib/idempotency).
+ *
  * MIGRATION NOTES:
- * 1. MongoDB: Replace db operations with MongoDB transactions
- * 2. Smart Contract: Replace mock payment with actual blockchain transaction
+ * 1. MongoDB: Back the ledger transaction with a MongoDB session
+ * 2. Smart Contract: Drop the mock branch once every campaign is deployed on-chain
  * 3. AI: Add AI-powered fraud detection and payment optimization
  */
 export async function POST(request: NextRequest) {
+  let body: PaymentRequest
   try {
-    const { campaignId, amount, chain, donorName } = await request.json()
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  // Retries and double-submits carrying the same Idempotency-Key replay the first response
+  return withIdempotency(request, 'payments', body, () => processPayment(request, body))
+}
+
+type PaymentRequest = {
+  campaignId?: string
+  amount?: number
+  chain?: string
+  donorName?: string
+  /** donate() transaction hash from the ZetaChain provider */
+  txHash?: string
+}
+
+async function processPayment(request: NextRequest, body: PaymentRequest) {
+  try {
+    const { campaignId, amount, chain, donorName, txHash } = body || {}
 
     // Validate input
     if (!campaignId || !amount || !chain || !donorName) {
@@ -38,6 +85,22 @@ export async function POST(request: NextRequest) {
         { status: 404 }
       )
     }
+    if (!isCampaignPublic(campaign)) {
+      return NextResponse.json(
+        { error: 'This campaign is not accepting donations' },
+        { status: 403 }
+      )
+    }
+
+    // Draft, scheduled, paused, ended and cancelled campaigns refuse donations,
+    // like the contract reverting with CampaignInactive
+    const blocked = donationBlockedReason(campaign)
+    if (blocked) {
+      return NextResponse.json(
+        { error: blocked, code: 'CampaignInactive' },
+        { status: 409 }
+      )
+    }
 
     // Check if campaign supports the selected chain (dynamic strings)
     if (typeof chain !== 'string') {
@@ -54,59 +117,84 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Compute new total (allow exceeding goal)
-    const newTotal = campaign.raised + amount
-
-    // TODO: SMART CONTRACT INTEGRATION
-    // Replace this mock payment processing with actual blockchain transaction
-    // 1. Validate wallet connection
-    // 2. Create smart contract transaction
-    // 3. Wait for transaction confirmation
-    // 4. Update campaign funds on-chain
-    
-    // MOCK PAYMENT PROCESSING - Replace with actual payment gateway/blockchain
-    const mockTransactionId = `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    
-    // Simulate payment processing delay
-    await new Promise(resolve => setTimeout(resolve, 1000))
-
-    // Create donation record
-    const donation = db.createDonation({
-      campaignId,
-      name: donorName,
-      amount,
-      chain: chain as string
-    })
+    let transactionId: string
+    let recordedAmount = amount
+    let recordedChain = chain
+    let chainDonor: string | undefined
+    if (txHash !== undefined) {
+      // On-chain donation: the transaction is the payment, the chain decides the amount
+      const verified = await verifyDonationTx(campaign, txHash)
+      if (!verified.ok) {
+        return NextResponse.json(
+          { error: verified.error },
+          { status: verified.status }
+        )
+      }
+      transactionId = verified.receipt.transactionHash
+      recordedAmount = verified.amount
+      recordedChain = DONATION_CHAIN
+      chainDonor = verified.donor
+    } else {
+      const offChainBlocked = offChainDonationBlockedReason(campaign)
+      if (offChainBlocked) {
+        return NextResponse.json(
+          { error: offChainBlocked },
+          { status: 400 }
+        )
+      }
+
+      // MOCK PAYMENT PROCESSING - Replace with actual payment gateway/blockchain
+      transactionId = `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 
-    // Update campaign raised amount
-    const updatedCampaign = db.updateCampaign(campaignId, {
-      raised: newTotal
+      // Simulate payment processing delay
+      await new Promise(resolve => setTimeout(resolve, 1000))
+    }
+
+    // Donations are open to anonymous visitors, so this route has no policy. A mock payment is
+    // linked to the signed-in donor; an on-chain one only ever to the account that verified the
+    // sending wallet (Sign-In with Ethereum) - anyone can post someone else's txHash
+    const sessionUser = await getRequestUser(request)
+    let donorId = sessionUser?.id
+    if (chainDonor) {
+      donorId = findUserByVerifiedWallet(chainDonor)?.id
+      if (sessionUser && donorId !== sessionUser.id) {
+        return NextResponse.json(
+          { error: 'This donation was sent from a wallet that is not verified on your account. Verify it on your profile; the donation itself is recorded by the indexer' },
+          { status: 403 }
+        )
+      }
+    }
+
+    // Donation entry + campaign raised + creator totalRaised in one atomic unit (allow exceeding goal)
+    const recorded = recordDonation({
+      campaignId,
+      amount: recordedAmount,
+      chain: recordedChain,
+      donorName,
+      donorId,
+      txId: transactionId
     })
 
-    if (!updatedCampaign) {
+    if (!recorded.ok) {
       return NextResponse.json(
-        { error: 'Failed to update campaign' },
-        { status: 500 }
+        { error: recorded.error },
+        { status: recorded.status }
       )
     }
 
-    // TODO: UPDATE CREATOR STATS
-    // Update creator's total raised amount
-    const creator = db.findUserById(campaign.creatorId)
-    if (creator && creator.role === 'creator') {
-      const creatorData = creator as Creator
-      db.updateUser(creatorData.id, {
-        totalRaised: (creatorData.totalRaised || 0) + amount
-      })
-    }
+    const { donation, campaign: updatedCampaign, receipt } = recorded
 
     return NextResponse.json({
       success: true,
+      txId: transactionId,
+      receiptUrl: receiptUrl(receipt),
+      receipt: { id: receipt.id, number: receipt.number },
       donation: {
-        id: mockTransactionId,
+        id: donation.id,
+        txId: transactionId,
         campaignId,
-        amount,
-        chain,
+        amount: recordedAmount,
+        chain: recordedChain,
         donorName,
         timestamp: donation.timestamp
       },
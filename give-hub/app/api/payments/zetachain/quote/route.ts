@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/_dev/mock-db/database'
+import { isCampaignPublic } from '@/lib/moderation'
+import { donationBlockedReason } from '@/lib/lifecycle'
+import { quoteDonation } from '@/lib/payments/onchain'
+
+// GET /api/payments/zetachain/quote?campaignId=&amount= - donate() parameters for a USD amount
+// Used by the ZetaChain provider in lib/payments before it sends the transaction; the chain ID,
+// contract, on-chain campaign ID and wei value come from server config (see lib/payments/onchain)
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const campaignId = params.get('campaignId')
+    const amount = Number(params.get('amount'))
+    if (!campaignId || !Number.isFinite(amount) || amount <= 0) {
+      return NextResponse.json({ success: false, error: 'campaignId and a positive amount are required' }, { status: 400 })
+    }
+
+    const campaign = db.findCampaignById(campaignId)
+    if (!campaign || !isCampaignPublic(campaign)) {
+      return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
+    }
+    const blocked = donationBlockedReason(campaign)
+    if (blocked) {
+      return NextResponse.json({ success: false, error: blocked, code: 'CampaignInactive' }, { status: 409 })
+    }
+
+    const result = quoteDonation(campaign, amount)
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+    }
+    return NextResponse.json({ success: true, quote: result.quote })
+  } catch (error) {
+    console.error('GET /api/payments/zetachain/quote error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * FILE: app/api/pledges/[id]/route.ts
+ * PURPOSE: Manage one of the signed-in donor's pledges
+ * ACCESS: PATCH /api/pledges/[id] (signed in, own pledges only)
+ * BODY: { action?: pause | resume | cancel, amount? } - a new amount applies to future installments
+ * RESPONSE: { success, pledge }
+ */
+
+import { NextResponse } from 'next/server'
+import { withPolicy, authenticated, type AuthedRequest } from '@/lib/auth/index'
+import { changePledge } from '@/lib/pledges'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+async function patchPledge(request: AuthedRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+    const body = await request.json().catch(() => null)
+    const result = changePledge(request.user.id, id, body)
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, pledge: result.pledge })
+  } catch (error) {
+    console.error('PATCH /api/pledges/[id] error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export const PATCH = withPolicy<RouteContext>(authenticated, patchPledge)
@@ -0,0 +1,22 @@
+/**
+ * FILE: app/api/pledges/revenue/route.ts
+ * PURPOSE: Committed recurring revenue for the creator studio
+ * ACCESS: GET /api/pledges/revenue (creators)
+ * RESPONSE: { success, revenue: { monthly, annual, pledges, atRiskMonthly, campaigns[] } }
+ *           - active and past-due pledges normalized to a month (see lib/pledges)
+ */
+
+import { NextResponse } from 'next/server'
+import { withPolicy, hasRole, type AuthedRequest } from '@/lib/auth/index'
+import { recurringRevenue } from '@/lib/pledges'
+
+async function getRevenue(request: AuthedRequest) {
+  try {
+    return NextResponse.json({ success: true, revenue: recurringRevenue(request.user.id) })
+  } catch (error) {
+    console.error('GET /api/pledges/revenue error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export const GET = withPolicy(hasRole('creator', 'Only creators have recurring revenue'), getRevenue)
@@ -0,0 +1,60 @@
+/**
+ * FILE: app/api/pledges/route.ts
+ * PURPOSE: The signed-in donor's recurring pledges
+ * ACCESS: GET /api/pledges, POST /api/pledges (signed in)
+ * BODY (POST): { campaignId, amount, chain, interval: weekly | monthly | yearly, donorName? }
+ * RESPONSE: GET { success, pledges }; POST 201 { success, pledge, receiptUrl, receipt: { id, number } }
+ * NOTES:
+ * - POST charges the first installment right away (lib/pledges); send an Idempotency-Key
+ *   header so a retried request does not create a second pledge
+ * - 400 with the ZetaChain provider, which cannot charge without the donor's wallet
+ */
+
+import { NextResponse } from 'next/server'
+import { withPolicy, authenticated, type AuthedRequest } from '@/lib/auth/index'
+import { withIdempotency } from '@/lib/idempotency'
+import { createPledge, listDonorPledges } from '@/lib/pledges'
+import { RECURRING_CHARGES_SUPPORTED, RECURRING_UNSUPPORTED_ERROR } from '@/lib/payments/server'
+import { receiptUrl } from '@/lib/receipts'
+
+async function getPledges(request: AuthedRequest) {
+  try {
+    return NextResponse.json({ success: true, pledges: listDonorPledges(request.user.id) })
+  } catch (error) {
+    console.error('GET /api/pledges error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+async function postPledge(request: AuthedRequest) {
+  const body = await request.json().catch(() => null)
+  if (!body) {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+  }
+  if (!RECURRING_CHARGES_SUPPORTED) {
+    return NextResponse.json({ success: false, error: RECURRING_UNSUPPORTED_ERROR }, { status: 400 })
+  }
+
+  return withIdempotency(request, 'pledges', body, async () => {
+    try {
+      const result = await createPledge(request.user, body)
+      if (!result.ok) {
+        return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+      }
+
+      const { pledge, receipt } = result
+      return NextResponse.json({
+        success: true,
+        pledge,
+        receiptUrl: receiptUrl(receipt),
+        receipt: { id: receipt.id, number: receipt.number },
+      }, { status: 201 })
+    } catch (error) {
+      console.error('POST /api/pledges error:', error)
+      return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+    }
+  })
+}
+
+export const GET = withPolicy(authenticated, getPledges)
+export const POST = withPolicy(authenticated, postPledge)
@@ -1,23 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { authService } from '@/lib/auth/index'
+import { NextResponse } from 'next/server'
+import { authMiddleware, authenticated, withPolicy, type AuthedRequest } from '@/lib/auth/index'
 import { db } from '@/_dev/mock-db/database'
 import type { User, Creator } from '@/_dev/mock-db/database'
 
 // GET /api/profile - Get current user profile
-export async function GET(request: NextRequest) {
+async function getProfile(request: AuthedRequest) {
   try {
-    const token = request.cookies.get('auth-token')?.value
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const authResult = await authService.verifyToken(token)
-    if (!authResult.success || !authResult.userId) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
-
-    const user = db.findUserById(authResult.userId)
+    const user = db.findUserById(request.user.id)
     if (!user) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 })
     }
@@ -34,20 +23,9 @@ export async function GET(request: NextRequest) {
 }
 
 // PUT /api/profile - Update user profile
-export async function PUT(request: NextRequest) {
+async function updateProfile(request: AuthedRequest) {
   try {
-    const token = request.cookies.get('auth-token')?.value
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const authResult = await authService.verifyToken(token)
-    if (!authResult.success || !authResult.userId) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
-
-    const user = db.findUserById(authResult.userId)
+    const user = db.findUserById(request.user.id)
     if (!user) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 })
     }
@@ -78,7 +56,7 @@ export async function PUT(request: NextRequest) {
       updateData.walletAddresses = Object.keys(mapped).length ? mapped : undefined
     }
 
-    const updatedUser = db.updateUser(authResult.userId, updateData)
+    const updatedUser = db.updateUser(user.id, updateData)
     
     if (!updatedUser) {
       return NextResponse.json({ error: 'Failed to update profile' }, { status: 500 })
@@ -94,3 +72,6 @@ export async function PUT(request: NextRequest) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
+
+export const GET = authMiddleware(getProfile)
+export const PUT = withPolicy(authenticated, updateProfile)
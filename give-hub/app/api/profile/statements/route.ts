@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { withPolicy, authenticated, type AuthedRequest } from '@/lib/auth/index'
+import { buildStatement, renderStatementPdf, statementToCsv } from '@/lib/statements'
+
+const FORMATS = ['json', 'csv', 'pdf']
+
+// GET /api/profile/statements?year=2026&format=json|csv|pdf - The signed-in donor's annual giving statement
+// Defaults to the current year as JSON; csv and pdf download as files (see lib/statements)
+async function getStatement(request: AuthedRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const format = (params.get('format') || 'json').toLowerCase()
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json({ success: false, error: 'format must be json, csv or pdf' }, { status: 400 })
+    }
+
+    const result = buildStatement(request.user.id, params.get('year'))
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+    }
+    const { statement } = result
+
+    const filename = `givehub-statement-${statement.year}`
+    if (format === 'csv') {
+      return new NextResponse(statementToCsv(statement), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.csv"`,
+          'Cache-Control': 'private, no-store',
+        },
+      })
+    }
+    if (format === 'pdf') {
+      const pdf = renderStatementPdf(statement)
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+          'Content-Length': String(pdf.length),
+          'Cache-Control': 'private, no-store',
+        },
+      })
+    }
+    return NextResponse.json({ success: true, statement })
+  } catch (error) {
+    console.error('GET /api/profile/statements error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export const GET = withPolicy(authenticated, getStatement)
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findReceipt, renderReceiptPdf } from '@/lib/receipts'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/receipts/[id]/pdf - Download a donation receipt as a PDF (see lib/receipts)
+// Receipt IDs are unguessable, so the link itself grants access (donors may be anonymous)
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+    const receipt = findReceipt(id)
+    if (!receipt) {
+      return NextResponse.json({ success: false, error: 'Receipt not found' }, { status: 404 })
+    }
+
+    const pdf = renderReceiptPdf(receipt)
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="givehub-receipt-${receipt.number}.pdf"`,
+        'Content-Length': String(pdf.length),
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('GET /api/receipts/[id]/pdf error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyReceipt } from '@/lib/receipts'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/receipts/[id]/verify?signature= - Public authenticity check for a receipt
+// `valid` is true when the stored receipt still matches its HMAC signature and, when given,
+// `signature` (as printed on the PDF) matches too. The response repeats the receipt's
+// details so they can be compared with the document.
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+    const signature = request.nextUrl.searchParams.get('signature')
+    if (signature !== null && !/^[0-9a-fA-F]{64}$/.test(signature)) {
+      return NextResponse.json({ success: false, error: 'signature must be 64 hex characters' }, { status: 400 })
+    }
+
+    const result = verifyReceipt(id, signature)
+    if (!result.ok) {
+      return NextResponse.json({ success: false, valid: false, error: result.error }, { status: result.status })
+    }
+    return NextResponse.json({ success: true, valid: result.valid, receipt: result.receipt })
+  } catch (error) {
+    console.error('GET /api/receipts/[id]/verify error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * FILE: app/api/recommendations/route.ts
+ * PURPOSE: Campaign recommendations built from local donation data (see lib/recommendations)
+ * ACCESS: GET /api/recommendations (public)
+ * QUERY:
+ * - campaignId: campaigns similar to this one (basis "similar")
+ * - otherwise: personal picks for the signed-in user, popular campaigns for anonymous visitors
+ * - limit: 1-20 (default 6); q: optional free-text interests for personal picks
+ * RESPONSE: { success, basis, recommendations: [{ campaign, score, reasons }] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/auth/index'
+import { canViewCampaign } from '@/lib/moderation'
+import { db } from '@/_dev/mock-db/database'
+import { MAX_RECOMMENDATIONS, recommendForUser, similarCampaigns } from '@/lib/recommendations'
+
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams
+    const rawLimit = params.get('limit')
+    const limit = rawLimit === null ? undefined : Number(rawLimit)
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_RECOMMENDATIONS)) {
+      return NextResponse.json({ success: false, error: `limit must be between 1 and ${MAX_RECOMMENDATIONS}` }, { status: 400 })
+    }
+
+    const user = await getRequestUser(req)
+    const campaignId = params.get('campaignId')
+    if (campaignId) {
+      // Same visibility as the campaign page, so an unpublished campaign is not probed through here
+      const campaign = db.findCampaignById(campaignId)
+      if (!campaign || !canViewCampaign(campaign, user)) {
+        return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
+      }
+      return NextResponse.json({ success: true, basis: 'similar', recommendations: similarCampaigns(campaignId, limit) })
+    }
+
+    const result = recommendForUser(user?.id ?? null, { limit, query: params.get('q') ?? undefined })
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('GET /api/recommendations error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
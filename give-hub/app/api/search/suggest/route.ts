@@ -0,0 +1,33 @@
+/**
+ * FILE: app/api/search/suggest/route.ts
+ * PURPOSE: Search-as-you-type suggestions for the nav search box
+ * ACCESS: GET /api/search/suggest?q=<text>&limit=<1-10> (public)
+ * RESPONSE: { success, query, suggestions: { campaigns, creators, categories } }, each item
+ *           with `highlights` ranges (see lib/search/suggest)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { MAX_SUGGEST_QUERY_LENGTH, suggestSearch } from '@/lib/search/suggest'
+
+const MAX_GROUP_SIZE = 10
+
+export async function GET(req: NextRequest) {
+  try {
+    const query = (req.nextUrl.searchParams.get('q') || '').trim()
+    if (query.length > MAX_SUGGEST_QUERY_LENGTH) {
+      return NextResponse.json({ success: false, error: `q must be at most ${MAX_SUGGEST_QUERY_LENGTH} characters` }, { status: 400 })
+    }
+
+    const rawLimit = req.nextUrl.searchParams.get('limit')
+    const limit = rawLimit === null ? undefined : Number(rawLimit)
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_GROUP_SIZE)) {
+      return NextResponse.json({ success: false, error: `limit must be between 1 and ${MAX_GROUP_SIZE}` }, { status: 400 })
+    }
+
+    const suggestions = suggestSearch(query, limit)
+    return NextResponse.json({ success: true, query, suggestions })
+  } catch (error) {
+    console.error('GET /api/search/suggest error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import Link from 'next/link'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useAuth } from '@/lib/auth/auth-context'
 
@@ -11,7 +12,7 @@ export default function AuthPage() {
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
   const router = useRouter()
-  const { signin, signup } = useAuth()
+  const { signin, signup, signinWithWallet } = useAuth()
 
   // Sync mode from URL (?mode=signin|signup)
   useEffect(() => {
@@ -51,7 +52,7 @@ export default function AuthPage() {
         )
 
         if (result.success) {
-          setSuccess('Account created successfully! Redirecting...')
+          setSuccess('Account created! We sent a link to confirm your email address. Redirecting...')
           try { localStorage.setItem('new-signup', '1') } catch {}
           setTimeout(() => {
             router.push('/profile')
@@ -85,6 +86,25 @@ export default function AuthPage() {
     }
   }
 
+  // Sign-In with Ethereum: signs in a linked wallet, or creates a wallet-only account
+  // (with the account type chosen on the Sign Up form)
+  const handleWallet = async () => {
+    setError('')
+    setSuccess('')
+    setIsLoading(true)
+    try {
+      const result = await signinWithWallet(isSignUp ? formData.role : 'user')
+      if (result.success) {
+        setSuccess(result.created ? 'Account created with your wallet! Redirecting...' : 'Signed in successfully! Redirecting...')
+        router.push(result.created ? '/profile' : '/')
+      } else {
+        setError(result.error || 'Wallet sign-in failed')
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     setFormData({
       ...formData,
@@ -171,6 +191,13 @@ export default function AuthPage() {
                 required
                 minLength={8}
               />
+              {!isSignUp && (
+                <div className="mt-2 text-right">
+                  <Link href="/auth/reset-password" className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+                    Forgot password?
+                  </Link>
+                </div>
+              )}
             </div>
 
             {isSignUp && (
@@ -227,6 +254,24 @@ export default function AuthPage() {
             </button>
           </form>
 
+          <div className="my-6 flex items-center gap-3 text-xs text-gray-400">
+            <div className="h-px flex-1 bg-gray-200" />
+            or
+            <div className="h-px flex-1 bg-gray-200" />
+          </div>
+
+          <button
+            type="button"
+            onClick={handleWallet}
+            disabled={isLoading}
+            className="w-full border-2 border-gray-200 hover:border-blue-500 disabled:opacity-50 text-gray-800 py-3 rounded-full font-semibold transition-colors"
+          >
+            {isSignUp ? 'Sign up with Ethereum wallet' : 'Sign in with Ethereum wallet'}
+          </button>
+          <p className="text-xs text-gray-500 mt-2 text-center">
+            Your wallet signs a one-time message; no transaction or gas fee.
+          </p>
+
           <div className="mt-6 text-center">
             <p className="text-gray-600">
               {isSignUp ? 'Already have an account?' : "Don't have an account?"}{' '}
@@ -0,0 +1,171 @@
+/**
+ * FILE: app/auth/reset-password/page.tsx
+ * PURPOSE: Password reset - request a reset link, or set a new password from one
+ * WHAT CALLS THIS: "Forgot password?" on /auth, and the link in the reset email (?token=...)
+ * ACCESS: Default export, automatically routed by Next.js
+ * API: POST /api/auth/password-reset, POST /api/auth/password-reset/confirm
+ */
+
+'use client'
+
+import { Suspense, useState } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const router = useRouter()
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setSuccess('')
+    setIsLoading(true)
+    try {
+      const res = await fetch('/api/auth/password-reset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Could not send reset link')
+      setSuccess(data.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send reset link')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setSuccess('')
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+    setIsLoading(true)
+    try {
+      const res = await fetch('/api/auth/password-reset/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password })
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Could not reset password')
+      setSuccess(`${data.message} Redirecting...`)
+      setTimeout(() => router.push('/auth?mode=signin'), 2000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reset password')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const inputClass = 'w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none'
+  const buttonClass = 'w-full bg-gradient-to-r from-blue-600 to-green-600 hover:from-blue-700 hover:to-green-700 disabled:from-gray-400 disabled:to-gray-500 text-white py-3 rounded-full font-bold text-lg transition-all hover:scale-105 shadow-lg disabled:hover:scale-100'
+
+  return (
+    <div className="bg-white rounded-2xl card-shadow border border-gray-100 p-8 w-full max-w-md">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          {token ? 'Choose a New Password' : 'Reset Password'}
+        </h1>
+        <p className="text-gray-600">
+          {token
+            ? 'Enter a new password for your GiveHub account'
+            : "Enter your account's email address and we'll send you a reset link"
+          }
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-sm text-green-800">{success}</p>
+        </div>
+      )}
+
+      {token ? (
+        <form onSubmit={handleReset} className="space-y-6">
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">New Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClass}
+              placeholder="Enter a new password"
+              required
+              minLength={8}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Confirm Password</label>
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className={inputClass}
+              placeholder="Confirm your new password"
+              required
+              minLength={8}
+            />
+          </div>
+          <button type="submit" disabled={isLoading || !!success} className={buttonClass}>
+            {isLoading ? 'Saving...' : 'Set New Password'}
+          </button>
+        </form>
+      ) : (
+        <form onSubmit={handleRequest} className="space-y-6">
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Email Address</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className={inputClass}
+              placeholder="Enter your email"
+              required
+            />
+          </div>
+          <button type="submit" disabled={isLoading} className={buttonClass}>
+            {isLoading ? 'Sending...' : 'Send Reset Link'}
+          </button>
+        </form>
+      )}
+
+      <div className="mt-6 text-center">
+        <Link href="/auth?mode=signin" className="text-blue-600 hover:text-blue-800 font-semibold">
+          Back to Sign In
+        </Link>
+      </div>
+    </div>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="flex items-center justify-center py-16 px-6">
+        {/* useSearchParams needs a Suspense boundary during prerendering */}
+        <Suspense fallback={null}>
+          <ResetPasswordForm />
+        </Suspense>
+      </div>
+    </div>
+  )
+}
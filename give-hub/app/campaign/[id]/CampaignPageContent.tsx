@@ -12,6 +12,12 @@ import { notify } from '@/lib/utils/notify'
 import CampaignEditForm from '@/components/campaign-edit-form'
 type CampaignEditFormRef = HTMLFormElement & { requestSubmit: () => void; applyAI?: (partial: Partial<{ title: string; description: string; category: string }>) => void }
 import PaymentModal from '@/components/payment-modal'
+import { CampaignStatusBadge, CampaignLifecycleControls } from '@/components/campaign-status'
+import { donationBlockedReason } from '@/lib/lifecycle'
+import { RecommendedCampaigns, type RecommendedCampaign } from '@/components/recommended-campaigns'
+import { CampaignUpdates } from '@/components/campaign-updates'
+import { useCampaignStream } from '@/lib/realtime/client'
+import type { CampaignUpdate } from '@/lib/updates'
 
 /**
  * FILE: app/campaign/[id]/CampaignPageContent.tsx
@@ -38,7 +44,7 @@ const CARD_PLACEHOLDER_2x1 = 'data:image/svg+xml;utf8,' + encodeURIComponent(`
 type CampaignWithCreator = Campaign & { creator?: Creator | null };
 
 
-export default function CampaignPageContent({ initialCampaign, initialDonations }: { initialCampaign: CampaignWithCreator, initialDonations: Donation[] }) {
+export default function CampaignPageContent({ initialCampaign, initialDonations, initialUpdates = [], similarCampaigns = [] }: { initialCampaign: CampaignWithCreator, initialDonations: Donation[], initialUpdates?: CampaignUpdate[], similarCampaigns?: RecommendedCampaign[] }) {
   const { user } = useAuth()
   const [campaign, setCampaign] = useState(initialCampaign)
   const [donations, setDonations] = useState(initialDonations)
@@ -61,9 +67,22 @@ export default function CampaignPageContent({ initialCampaign, initialDonations
   }, [campaign.image])
 
   const isOwner = user?.id === campaign.creatorId
+  const donationBlocked = donationBlockedReason(campaign)
+  // Updates go to backers, so only published campaigns take them (lib/updates)
+  const canPostUpdates = (isOwner || user?.role === 'admin') && campaign.status !== 'draft' && !campaign.moderation?.unpublished
 
   // Progress percentage is computed where displayed; ensure UI supports >100% when needed.
 
+  // Live totals and donations from other visitors (GET /api/campaigns/[id]/stream)
+  useCampaignStream(campaign.id, {
+    onProgress: (progress) => setCampaign(prev => ({ ...prev, raised: progress.raised, goal: progress.goal })),
+    onDonation: (donation) => setDonations(prev =>
+      donation.id && prev.some(d => d.id === donation.id)
+        ? prev
+        : [...prev, { ...donation, campaignId: campaign.id, timestamp: new Date(donation.timestamp) }]
+    ),
+  })
+
   const handlePaymentSuccess = async (amount: number, chain: string) => {
     // Refresh campaign data to show updated progress
     try {
@@ -396,13 +415,29 @@ export default function CampaignPageContent({ initialCampaign, initialDonations
               <h2 className="text-2xl font-bold mb-4">Story</h2>
               <p className="text-gray-700 whitespace-pre-wrap">{campaign.description}</p>
             </div>
+
+            {/* Updates timeline (lib/updates) */}
+            <div className="mt-8">
+              <CampaignUpdates campaignId={campaign.id} initialUpdates={initialUpdates} canPost={canPostUpdates} />
+            </div>
           </div>
 
           {/* Right/Sidebar Column */}
           <div className="lg:col-span-1">
             <div className="sticky top-24">
               <div className="bg-white p-6 rounded-lg shadow-lg">
-                <h3 className="text-xl font-bold mb-4">Donate</h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-xl font-bold">Donate</h3>
+                  <CampaignStatusBadge campaign={campaign} />
+                </div>
+                {(isOwner || user?.role === 'admin') && (
+                  <div className="mb-4">
+                    <CampaignLifecycleControls
+                      campaign={campaign}
+                      onChange={(updated) => setCampaign(prev => ({ ...updated, creator: prev.creator }))}
+                    />
+                  </div>
+                )}
                 {/* Supported Chains Display */}
                 <div className="mb-4">
                   <p className="text-sm text-gray-600 mb-2">Supported payment methods:</p>
@@ -415,12 +450,16 @@ export default function CampaignPageContent({ initialCampaign, initialDonations
                   </div>
                 </div>
 
-                <button 
-                  onClick={() => setShowPaymentModal(true)} 
-                  className="mx-auto block md:inline-block bg-blue-600 hover:bg-blue-700 active:bg-blue-800 text-white px-6 py-3 rounded-full font-semibold text-base transition-colors shadow mb-6"
-                >
-                  Donate Now
-                </button>
+                {donationBlocked ? (
+                  <p className="mb-6 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">{donationBlocked}</p>
+                ) : (
+                  <button 
+                    onClick={() => setShowPaymentModal(true)} 
+                    className="mx-auto block md:inline-block bg-blue-600 hover:bg-blue-700 active:bg-blue-800 text-white px-6 py-3 rounded-full font-semibold text-base transition-colors shadow mb-6"
+                  >
+                    Donate Now
+                  </button>
+                )}
 
                 {/* Campaign Stats */}
                 <div className="border-t border-gray-200 pt-6 space-y-4">
@@ -454,6 +493,13 @@ export default function CampaignPageContent({ initialCampaign, initialDonations
             )}
           </div>
         </div>
+
+        {/* Similar Campaigns (lib/recommendations) */}
+        {similarCampaigns.length > 0 && (
+          <div className="mt-12">
+            <RecommendedCampaigns title="Similar campaigns" recommendations={similarCampaigns} />
+          </div>
+        )}
       </div>
       
       {/* Payment Modal */}
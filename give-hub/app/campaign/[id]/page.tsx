@@ -1,12 +1,17 @@
 import { db } from '@/_dev/mock-db/database'
 import { notFound } from 'next/navigation'
+import { cookies } from 'next/headers'
+import { getCookieUser } from '@/lib/auth/index'
+import { canViewCampaign } from '@/lib/moderation'
+import { similarCampaigns } from '@/lib/recommendations'
+import { listCampaignUpdates } from '@/lib/updates'
 import type { Campaign, User, Creator } from '@/_dev/mock-db/database'
 import CampaignPageContent from './CampaignPageContent'
 
 /**
  * FILE: app/campaign/[id]/page.tsx
  * PURPOSE: Campaign detail page, server component for data fetching.
- * Fetches campaign and donation data and passes it to a client component for rendering.
+ * Fetches campaign, donation, update and similar-campaign data and passes it to a client component for rendering.
  */
 
 // Re-enabling on-demand caching for this page.
@@ -21,6 +26,10 @@ export default async function CampaignPage({ params }: { params: Promise<{ id: s
   if (!campaignData) {
     notFound()
   }
+  // Unpublished by an admin: only the owner and admins can still open it
+  if (!canViewCampaign(campaignData, await getCookieUser(await cookies()))) {
+    notFound()
+  }
 
   // Fetch creator details
   const creator = db.findUserById(campaignData.creatorId) as User | Creator | null
@@ -32,12 +41,16 @@ export default async function CampaignPage({ params }: { params: Promise<{ id: s
   }
 
   const donationsData = db.getDonationsByCampaign(campaignId)
+  const updates = listCampaignUpdates(campaignId)
+  const similar = similarCampaigns(campaignId, 3)
 
   // Render the client component with the fetched data
   return (
     <CampaignPageContent
       initialCampaign={JSON.parse(JSON.stringify(campaign))}
       initialDonations={JSON.parse(JSON.stringify(donationsData))}
+      initialUpdates={JSON.parse(JSON.stringify(updates))}
+      similarCampaigns={JSON.parse(JSON.stringify(similar))}
     />
   )
 }
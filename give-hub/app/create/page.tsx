@@ -23,6 +23,7 @@ import { useRouter } from 'next/navigation'
 import Image from 'next/image'
 import { useAuth } from '@/lib/auth/auth-context'
 import { notify } from '@/lib/utils/notify'
+import { EmailVerificationBanner } from '@/components/email-verification-banner'
 // TODO: import { createCampaign } from '@/lib/api' // Future API integration
 // TODO: import { validateCampaign } from '@/lib/validation' // Zod schema validation
 // TODO: import { optimizeContent } from '@/lib/ai' // AI content enhancement
@@ -44,6 +45,9 @@ export default function CreateCampaignPage() {
   const fileInputRef = useRef<HTMLInputElement>(null)
   const formRef = useRef<HTMLFormElement>(null)
   const [otherCategory, setOtherCategory] = useState('')
+  // Optional donation window and draft flag (see lib/lifecycle)
+  const [schedule, setSchedule] = useState({ startsAt: '', endsAt: '' })
+  const [saveAsDraft, setSaveAsDraft] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [imageGenLoading, setImageGenLoading] = useState(false)
   const router = useRouter()
@@ -155,6 +159,10 @@ export default function CreateCampaignPage() {
       notify('Please select at least one blockchain', 'error')
       return
     }
+    if (schedule.startsAt && schedule.endsAt && new Date(schedule.endsAt) <= new Date(schedule.startsAt)) {
+      notify('The end date must be after the start date', 'error')
+      return
+    }
 
     setIsSubmitting(true)
     try {
@@ -167,8 +175,11 @@ export default function CreateCampaignPage() {
           goal: Number(formData.goal),
           chains: formData.chains,
           category: formData.category === 'other' ? otherCategory.trim() : formData.category,
-          creatorId: user?.id,
-          image
+          image,
+          status: saveAsDraft ? 'draft' : 'active',
+          // datetime-local values are local time; send them as ISO timestamps
+          startsAt: schedule.startsAt ? new Date(schedule.startsAt).toISOString() : undefined,
+          endsAt: schedule.endsAt ? new Date(schedule.endsAt).toISOString() : undefined
         })
       })
       const data = await res.json()
@@ -179,7 +190,7 @@ export default function CreateCampaignPage() {
       router.push(`/campaign/${data.campaign.id}`)
     } catch (error) {
       console.error('Campaign creation failed:', error)
-      notify('Failed to create campaign. Please try again.', 'error')
+      notify(error instanceof Error && error.message ? error.message : 'Failed to create campaign. Please try again.', 'error')
     } finally {
       setIsSubmitting(false)
     }
@@ -187,6 +198,7 @@ export default function CreateCampaignPage() {
 
   return (
     <div className="max-w-6xl mx-auto px-4 py-10">
+      <EmailVerificationBanner className="mb-6" />
       {/* Header */}
       <div className="flex items-center justify-between mb-8">
         <div>
@@ -381,6 +393,45 @@ export default function CreateCampaignPage() {
               )}
             </div>
 
+            {/* Schedule */}
+            <div>
+              <label className="block text-lg font-semibold text-gray-900 mb-3">
+                Donation Window
+              </label>
+              <p className="text-gray-600 mb-4">
+                Optional. Leave empty to accept donations as soon as the campaign is published, with no end date.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Starts</span>
+                  <input
+                    type="datetime-local"
+                    value={schedule.startsAt}
+                    onChange={(e) => setSchedule(prev => ({ ...prev, startsAt: e.target.value }))}
+                    className="mt-1 w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Ends</span>
+                  <input
+                    type="datetime-local"
+                    value={schedule.endsAt}
+                    onChange={(e) => setSchedule(prev => ({ ...prev, endsAt: e.target.value }))}
+                    className="mt-1 w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+                  />
+                </label>
+              </div>
+              <label className="mt-4 flex items-center gap-2 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={saveAsDraft}
+                  onChange={(e) => setSaveAsDraft(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                Save as draft - only you can see it until you publish it from the campaign page
+              </label>
+            </div>
+
             {/* Image selection moved to preview card pencil overlay */}
 
             {/* Submit moved to header */}
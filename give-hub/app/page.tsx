@@ -5,92 +5,110 @@
  * WHAT IT RENDERS: Campaign grid with minimal cards, header section
  * ACCESS: Default export, automatically routed by Next.js
  * DATA FLOW:
- * - Server component fetches campaigns from JSON DB via `db.getAllCampaigns()`
- * - Passes data to client grid; no client-side polling or repeated API calls
+ * - Server component runs `searchCampaigns()` (lib/search) for the nav's q/creator/category
+ *   filters as an anonymous viewer, so only published campaigns are listed
+ * - Passes the first page and its cursor to the client grid, which loads further pages
+ *   from /api/campaigns with the same query
+ * - Signed-in visitors get a "Recommended for you" row (lib/recommendations) when not searching
  * SEO:
  * - Server render ensures stable HTML for crawlers; easy to swap DB to MongoDB
  * TODO:
- * - Add pagination when campaign count grows (limit: 12 per page)
- * - Implement search/filter functionality (integrate with Nav search)
  * - Add skeleton loading states
  * - Consider infinite scroll vs pagination UX
  */
 import Link from 'next/link'
 import CampaignsGrid from '../components/campaigns-grid' // Client grid w/ loading and see-more UX
-import { db } from '@/_dev/mock-db/database'
-import type { Campaign } from '@/_dev/mock-db/database'
-// TODO: import { getCampaigns } from '@/lib/api' // Future API integration
+import { cookies } from 'next/headers'
+import { parseSearchParams, searchCampaigns } from '@/lib/search'
+import { getCookieUser } from '@/lib/auth/index'
+import { recommendForUser } from '@/lib/recommendations'
+import { RecommendedCampaigns } from '@/components/recommended-campaigns'
+
+const PAGE_SIZE = 24
+// Filters the nav search modes and facet links put in the URL
+const FILTER_KEYS = ['q', 'creator', 'category', 'chain'] as const
+type HomeSearchParams = Record<string, string | undefined>
+
+/**
+ * Search params as lib/search expects them. Older `?search=...&param=title|creator|category`
+ * links map onto q / creator / category.
+ */
+function toSearchQuery(raw: HomeSearchParams): URLSearchParams {
+  const query = new URLSearchParams()
+  for (const key of [...FILTER_KEYS, 'sort'] as const) {
+    if (raw[key]?.trim()) query.set(key, raw[key]!.trim())
+  }
+  if (raw.search?.trim()) {
+    const legacyKey = raw.param === 'creator' || raw.param === 'category' ? raw.param : 'q'
+    if (!query.has(legacyKey)) query.set(legacyKey, raw.search.trim())
+  }
+  return query
+}
 
 /**
  * Home page component - campaign discovery and browsing
  * @returns JSX element with campaign grid and header
  */
-export default async function Home({ searchParams }: { searchParams: Promise<{ search?: string; param?: string }> }) {
+export default async function Home({ searchParams }: { searchParams: Promise<HomeSearchParams> }) {
   // Server-side fetch to avoid client polling and reduce network chatter
-  const resolvedSearchParams = await searchParams
-  let campaigns: Campaign[]
-  
-  if (resolvedSearchParams.search && resolvedSearchParams.param) {
-    const raw = resolvedSearchParams.search.trim()
-    const searchParameter = resolvedSearchParams.param as 'title' | 'creator' | 'category'
-    const rawLower = raw.toLowerCase()
+  const query = toSearchQuery(await searchParams)
+  query.set('limit', String(PAGE_SIZE))
+  const parsed = parseSearchParams(query)
+  // Bad values in a hand-edited URL fall back to the unfiltered first page
+  const params = parsed.ok ? parsed.params : { sort: 'relevance' as const, offset: 0, limit: PAGE_SIZE }
+  const { campaigns, total, nextCursor, facets } = searchCampaigns(params, null)
+
+  const searchTerm = params.q ?? params.creator ?? params.category ?? params.chain
+  const searchLabel = params.q ? null : params.creator ? 'by creator' : params.category ? 'in category' : params.chain ? 'on chain' : null
+  // Personal picks above the full list for signed-in users with history or preferred chains
+  const user = searchTerm ? null : await getCookieUser(await cookies())
+  const picks = user ? recommendForUser(user.id, { limit: 3 }) : null
 
-    if (!raw) {
-      campaigns = db.getAllCampaigns()
-    } else {
-      switch (searchParameter) {
-        case 'title': {
-          const all = db.getAllCampaigns()
-          campaigns = all.filter(c => c.title.toLowerCase().includes(rawLower))
-          break
-        }
-        case 'creator': {
-          const all = db.getAllCampaigns()
-          campaigns = all.filter(campaign => {
-            const creator = db.findUserById(campaign.creatorId)
-            return creator?.username?.toLowerCase().includes(rawLower) ?? false
-          })
-          break
-        }
-        case 'category': {
-          const all = db.getAllCampaigns()
-          campaigns = all.filter(c => (c.category?.toLowerCase() ?? '').includes(rawLower))
-          break
-        }
-        default: {
-          // Fallback to title-only search as a sensible default
-          const all = db.getAllCampaigns()
-          campaigns = all.filter(c => c.title.toLowerCase().includes(rawLower))
-        }
-      }
-    }
-  } else {
-    campaigns = db.getAllCampaigns()
+  const facetHref = (key: 'category' | 'chain', value: string) => {
+    const next = new URLSearchParams(query)
+    next.delete('limit')
+    next.set(key, value)
+    return `/?${next.toString()}`
   }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* REGION: Main content area */}
       <main className="max-w-7xl mx-auto px-6 py-12">
         {/* Header section - page introduction */}
         <div className="text-center mb-12">
-          <h1 className={`${resolvedSearchParams.search ? 'text-3xl md:text-4xl' : 'text-4xl'} font-bold text-gray-900 mb-2`}>
-            {resolvedSearchParams.search ? (
+          <h1 className={`${searchTerm ? 'text-3xl md:text-4xl' : 'text-4xl'} font-bold text-gray-900 mb-2`}>
+            {searchTerm ? (
               <>
                 <span className="text-gray-800">Search</span>{' '}
-                <span className="text-gray-500 font-medium">for</span>{' '}
-                <span className="text-gray-900">&ldquo;{resolvedSearchParams.search}&rdquo;</span>
+                <span className="text-gray-500 font-medium">{searchLabel ?? 'for'}</span>{' '}
+                <span className="text-gray-900">&ldquo;{searchTerm}&rdquo;</span>
               </>
             ) : (
               'Support Causes You Care About'
             )}
           </h1>
-          <p className={`max-w-2xl mx-auto ${resolvedSearchParams.search ? 'text-base md:text-lg text-gray-700 font-semibold' : 'text-xl text-gray-600'}`}>
-            {resolvedSearchParams.search 
-              ? <>Found <span className="text-gray-900 font-bold">{campaigns.length}</span> campaign{campaigns.length !== 1 ? 's' : ''} matching your search</>
+          <p className={`max-w-2xl mx-auto ${searchTerm ? 'text-base md:text-lg text-gray-700 font-semibold' : 'text-xl text-gray-600'}`}>
+            {searchTerm
+              ? <>Found <span className="text-gray-900 font-bold">{total}</span> campaign{total !== 1 ? 's' : ''} matching your search</>
               : 'Discover and fund impactful campaigns across multiple blockchains'
             }
           </p>
-          {resolvedSearchParams.search && (
+          {searchTerm && (Object.keys(facets.categories).length > 0 || Object.keys(facets.chains).length > 0) && (
+            <div className="mt-4 flex flex-wrap justify-center gap-2">
+              {Object.entries(facets.categories).map(([category, count]) => (
+                <Link key={`category-${category}`} href={facetHref('category', category)} className="px-3 py-1 rounded-full bg-white border border-gray-200 text-sm text-gray-700 hover:border-gray-300">
+                  {category} <span className="text-gray-400">{count}</span>
+                </Link>
+              ))}
+              {Object.entries(facets.chains).map(([chain, count]) => (
+                <Link key={`chain-${chain}`} href={facetHref('chain', chain)} className="px-3 py-1 rounded-full bg-blue-50 border border-blue-100 text-sm text-blue-700 hover:border-blue-200">
+                  {chain} <span className="text-blue-400">{count}</span>
+                </Link>
+              ))}
+            </div>
+          )}
+          {searchTerm && (
             <div className="mt-4">
               <Link 
                 href="/" 
@@ -104,8 +122,13 @@ export default async function Home({ searchParams }: { searchParams: Promise<{ s
             </div>
           )}
         </div>
+        {picks?.basis === 'personal' && (
+          <div className="mb-12">
+            <RecommendedCampaigns title="Recommended for you" recommendations={picks.recommendations} />
+          </div>
+        )}
         {/* REGION: Campaign grid rendering with progressive reveal */}
-        <CampaignsGrid initialCampaigns={campaigns} />
+        <CampaignsGrid initialCampaigns={campaigns} nextCursor={nextCursor} query={query.toString()} />
       </main>
     </div>
   )
@@ -7,6 +7,10 @@ import { useAuth } from '@/lib/auth/auth-context'
 import Spinner from '@/components/spinner'
 import ProfilePictureUpload from '@/components/profile-picture-upload'
 import { notify } from '@/lib/utils/notify'
+import { EmailVerificationBanner } from '@/components/email-verification-banner'
+import { GivingStatement } from '@/components/giving-statement'
+import { PledgeManager } from '@/components/pledge-manager'
+import { VerifiedWallets } from '@/components/verified-wallets'
 
 export default function ProfilePage() {
   const { user, isLoading } = useAuth()
@@ -40,6 +44,19 @@ export default function ProfilePage() {
     }
   }, [user])
 
+  // Result of following the link in the verification email (/api/auth/verify-email redirects here)
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    if (params.get('emailVerified') === '1') {
+      notify('Email address confirmed', 'success')
+    } else if (params.get('emailVerifyError')) {
+      notify(params.get('emailVerifyError') || 'Email verification failed', 'error')
+    } else {
+      return
+    }
+    router.replace('/profile')
+  }, [router])
+
   // Detect if user has just signed up to customize CTA
   useEffect(() => {
     try {
@@ -168,6 +185,7 @@ export default function ProfilePage() {
     <div className="min-h-screen bg-gray-50">
       {/* Main Content */}
       <div className="max-w-4xl mx-auto px-6 py-8">
+        <EmailVerificationBanner className="mb-6" />
         {/* Back / Explore CTA */}
         {newSignup ? (
           <Link
@@ -365,7 +383,10 @@ export default function ProfilePage() {
 
                 {/* Wallet Addresses */}
                 <div className="border-t border-gray-200 pt-6">
-                  <h4 className="text-lg font-semibold text-gray-900 mb-4">Wallet Addresses</h4>
+                  <h4 className="text-lg font-semibold text-gray-900 mb-1">Wallet Addresses</h4>
+                  <p className="text-xs text-gray-500 mb-4">
+                    Unverified - shown on your profile only. Verify Ethereum wallets under <a href="#wallets" className="text-blue-600 hover:text-blue-800">Verified Wallets</a>.
+                  </p>
                   <div className="space-y-4">
                     <div>
                       <label className="block text-sm font-semibold text-gray-700 mb-2">
@@ -444,6 +465,15 @@ export default function ProfilePage() {
             </div>
           </div>
         </div>
+
+        {/* Wallets proven with Sign-In with Ethereum */}
+        <VerifiedWallets />
+
+        {/* Recurring pledges: pause, resume, cancel, change amount */}
+        <PledgeManager />
+
+        {/* Annual giving statement (CSV/PDF export) */}
+        <GivingStatement />
       </div>
     </div>
   )
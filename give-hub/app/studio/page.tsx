@@ -7,7 +7,10 @@ import Spinner from '@/components/spinner'
 import { Campaign } from '@/_dev/mock-db/database';
 import CampaignsGrid, { Campaign as GridCampaign } from '@/components/campaigns-grid'
 import CampaignEditForm from '@/components/campaign-edit-form'
+import { OnChainPublisher } from '@/components/onchain-publisher'
 import { notify } from '@/lib/utils/notify'
+import { useLiveCampaigns } from '@/lib/realtime/client'
+import type { RecurringRevenue } from '@/lib/pledges'
 
 
 
@@ -17,6 +20,9 @@ export default function CreatorStudioPage() {
   const [loadingCampaigns, setLoadingCampaigns] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
+  // Committed recurring revenue from donors' pledges (lib/pledges)
+  const [revenue, setRevenue] = useState<RecurringRevenue | null>(null)
+
   // Edit state
   const [editing, setEditing] = useState<Campaign | null>(null)
   const [saving, setSaving] = useState(false)
@@ -46,14 +52,28 @@ export default function CreatorStudioPage() {
     return () => { mounted = false }
   }, [])
 
+  useEffect(() => {
+    if (user?.role !== 'creator') return
+    let mounted = true
+    fetch('/api/pledges/revenue', { credentials: 'include' })
+      .then((res) => res.json())
+      .then((data) => {
+        if (mounted && data?.success) setRevenue(data.revenue)
+      })
+      .catch(() => {})
+    return () => { mounted = false }
+  }, [user?.id, user?.role])
+
   const myCampaigns: Campaign[] = useMemo(() => {
     if (!user) return []
     return (allCampaigns || []).filter((c) => c.creatorId === user.id)
   }, [allCampaigns, user])
 
+  // Dashboard total follows donations as they land (the grid below streams its own cards)
+  const liveCampaigns = useLiveCampaigns(myCampaigns)
   const totalRaised = useMemo(() => {
-    return myCampaigns.reduce((sum, c) => sum + (Number(c.raised) || 0), 0)
-  }, [myCampaigns])
+    return liveCampaigns.reduce((sum, c) => sum + (Number(c.raised) || 0), 0)
+  }, [liveCampaigns])
 
   const gridCampaigns: GridCampaign[] = useMemo(() => {
     return myCampaigns.map((c) => ({
@@ -140,7 +160,7 @@ export default function CreatorStudioPage() {
       </div>
 
       {/* Financial Summary */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
           <p className="text-sm text-gray-500 mb-1">Your Campaigns</p>
           <p className="text-3xl font-bold text-gray-900">{myCampaigns.length}</p>
@@ -149,17 +169,27 @@ export default function CreatorStudioPage() {
           <p className="text-sm text-gray-500 mb-1">Total Raised</p>
           <p className="text-3xl font-bold text-gray-900">${totalRaised.toLocaleString()}</p>
         </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <p className="text-sm text-gray-500 mb-1">Recurring / Month</p>
+          <p className="text-3xl font-bold text-gray-900">${(revenue?.monthly ?? 0).toLocaleString()}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {revenue?.pledges ?? 0} pledge{revenue?.pledges === 1 ? '' : 's'} · ${(revenue?.annual ?? 0).toLocaleString()}/yr committed
+          </p>
+          {!!revenue?.atRiskMonthly && (
+            <p className="text-xs text-amber-700 mt-1">${revenue.atRiskMonthly.toLocaleString()}/mo has a failed payment being retried</p>
+          )}
+        </div>
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
           <p className="text-sm text-gray-500 mb-1">Status</p>
           <p className="text-3xl font-bold text-gray-900">{myCampaigns.length > 0 ? 'Active' : 'Getting Started'}</p>
         </div>
         {/* Web3 Financials Placeholder */}
-        <div className="md:col-span-3 p-4 bg-purple-50 border border-purple-200 rounded-lg">
+        <div className="md:col-span-4 p-4 bg-purple-50 border border-purple-200 rounded-lg">
           <div className="flex items-center">
             <div className="text-purple-600 mr-3">💸</div>
             <div>
               <p className="text-sm text-purple-800 font-medium">Web3 Financials Coming Soon</p>
-              <p className="text-xs text-purple-700 mt-1">Wallet-based revenue and on-chain stats will appear here. The schema already includes placeholders for contract ownership and wallet addresses.</p>
+              <p className="text-xs text-purple-700 mt-1">Wallet-based revenue and on-chain stats will appear here. Campaigns can already be deployed on-chain below.</p>
             </div>
           </div>
         </div>
@@ -170,6 +200,14 @@ export default function CreatorStudioPage() {
         <div className="p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg">{error}</div>
       )}
 
+      {/* Campaigns an admin unpublished stay visible here so the creator knows why */}
+      {myCampaigns.filter((c) => c.moderation?.unpublished).map((c) => (
+        <div key={c.id} className="p-4 bg-red-50 border border-red-200 text-red-800 rounded-lg">
+          <p className="font-semibold">&ldquo;{c.title}&rdquo; was unpublished by a moderator</p>
+          <p className="text-sm mt-1">{c.moderation?.unpublished?.reason} It is hidden from GiveHub and not accepting donations.</p>
+        </div>
+      ))}
+
       {/* Your Campaigns */}
       <h2 className="text-2xl font-bold text-gray-900 mb-4">Your Campaigns</h2>
       {/* Campaigns Grid with blur after 6 */}
@@ -185,6 +223,16 @@ export default function CreatorStudioPage() {
         )}
       </div>
 
+      {/* Deploy to the fundraiser contract; fills contractOwnership once the server has read the event back */}
+      {!loadingCampaigns && (
+        <OnChainPublisher
+          campaigns={myCampaigns}
+          onDeployed={(campaignId, contractOwnership) =>
+            setAllCampaigns((prev) => prev.map((c) => (c.id === campaignId ? { ...c, contractOwnership } : c)))
+          }
+        />
+      )}
+
       {/* Removed redundant editable list panel */}
 
       {/* Editor Panel */}
@@ -40,7 +40,8 @@ export default function AIOverlay({ open, onClose, onAction }: AIOverlayProps) {
       const endpoint = "/api/ai/assist"
       const res = await fetch(endpoint, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        // The message id doubles as the Idempotency-Key so a resent $-mode message cannot donate twice
+        headers: { "Content-Type": "application/json", "Idempotency-Key": userMsg.id },
         body: JSON.stringify({
           prompt: userMsg.text,
           mode: payMode ? 'pay' : 'default',
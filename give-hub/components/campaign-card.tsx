@@ -10,7 +10,7 @@
  * - Data accuracy (Contracts): Raised amount should reflect on-chain state. After
  *   integrating `contracts.readCampaign(campaignId)`, derive `raised` from contract
  *   or reconcile periodically with backend. Display pending states if optimistic.
- * - Realtime: Add WebSocket/SSE or polling to update progress as donations are mined.
+ * - Realtime: Grids and the recommended row pass live `raised` totals (lib/realtime/client).
  * - Loading/Skeletons: Add skeleton UIs for minimal and detailed variants.
  * - Accessibility: Add ARIA attributes and better keyboard focus styles.
  * - AI (future): Provide short AI-generated summaries for titles/descriptions with
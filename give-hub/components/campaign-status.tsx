@@ -0,0 +1,119 @@
+/**
+ * FILE: components/campaign-status.tsx
+ * PURPOSE: Campaign lifecycle badge and the owner's publish/pause/resume/end/cancel controls
+ * WHAT CALLS THIS: Campaign detail page (donate sidebar)
+ * ACCESS: Named exports, import { CampaignStatusBadge, CampaignLifecycleControls } from '@/components/campaign-status'
+ * API: PUT /api/campaigns/[id]/edit with { status } - transitions are validated server-side (lib/lifecycle)
+ * NOTES: Campaigns linked on-chain get no controls; the edit route refuses their lifecycle changes
+ */
+
+'use client'
+
+import { useState } from 'react'
+import type { Campaign, CampaignStatus } from '@/_dev/mock-db/database'
+import { getCampaignStatus } from '@/lib/lifecycle'
+import { notify } from '@/lib/utils/notify'
+import { cn } from '@/lib/utils/format'
+
+const BADGE_STYLES: Record<CampaignStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  scheduled: 'bg-blue-100 text-blue-800',
+  active: 'bg-green-100 text-green-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  ended: 'bg-gray-200 text-gray-800',
+  cancelled: 'bg-red-100 text-red-800',
+}
+
+export function CampaignStatusBadge({ campaign, className }: { campaign: Campaign; className?: string }) {
+  const status = getCampaignStatus(campaign)
+  return (
+    <span className={cn('inline-block px-3 py-1 rounded-full text-xs font-semibold capitalize', BADGE_STYLES[status], className)}>
+      {status}
+    </span>
+  )
+}
+
+// Owner actions per effective status; mirrors the transition table in lib/lifecycle
+const ACTIONS: Record<CampaignStatus, { target: CampaignStatus; label: string; confirm?: string }[]> = {
+  draft: [
+    { target: 'active', label: 'Publish' },
+    { target: 'cancelled', label: 'Discard', confirm: 'Discard this draft? This cannot be undone.' },
+  ],
+  scheduled: [
+    { target: 'paused', label: 'Pause' },
+    { target: 'cancelled', label: 'Cancel campaign', confirm: 'Cancel this campaign? This cannot be undone.' },
+  ],
+  active: [
+    { target: 'paused', label: 'Pause donations' },
+    { target: 'ended', label: 'End now', confirm: 'End this campaign now? Donations close immediately.' },
+    { target: 'cancelled', label: 'Cancel campaign', confirm: 'Cancel this campaign? This cannot be undone.' },
+  ],
+  paused: [
+    { target: 'active', label: 'Resume donations' },
+    { target: 'ended', label: 'End now', confirm: 'End this campaign now? Donations close immediately.' },
+    { target: 'cancelled', label: 'Cancel campaign', confirm: 'Cancel this campaign? This cannot be undone.' },
+  ],
+  ended: [],
+  cancelled: [],
+}
+
+export function CampaignLifecycleControls({
+  campaign,
+  onChange,
+}: {
+  campaign: Campaign
+  onChange: (updated: Campaign) => void
+}) {
+  const [busy, setBusy] = useState(false)
+  const actions = ACTIONS[getCampaignStatus(campaign)]
+  if (actions.length === 0) return null
+  if (campaign.contractOwnership?.onChainCampaignId) {
+    return (
+      <p className="text-xs text-gray-500">
+        Deployed on-chain: the contract keeps accepting donations, so this campaign cannot be paused or ended here.
+      </p>
+    )
+  }
+
+  const apply = async (target: CampaignStatus, confirmText?: string) => {
+    if (confirmText && !window.confirm(confirmText)) return
+    setBusy(true)
+    try {
+      const res = await fetch(`/api/campaigns/${campaign.id}/edit`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: target }),
+        credentials: 'include',
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || 'Could not change the campaign status')
+      onChange(data as Campaign)
+      notify(`Campaign is now ${getCampaignStatus(data as Campaign)}`, 'success')
+    } catch (error) {
+      notify(error instanceof Error ? error.message : 'Could not change the campaign status', 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {actions.map(action => (
+        <button
+          key={action.target}
+          type="button"
+          disabled={busy}
+          onClick={() => apply(action.target, action.confirm)}
+          className={cn(
+            'px-3 py-1.5 rounded-full text-sm font-semibold transition-colors disabled:opacity-50',
+            action.target === 'cancelled'
+              ? 'border border-red-300 text-red-700 hover:bg-red-50'
+              : 'border border-gray-300 text-gray-800 hover:bg-gray-100'
+          )}
+        >
+          {action.label}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+/**
+ * FILE: components/campaign-updates.tsx
+ * PURPOSE: Campaign updates timeline (markdown posts with images) and the owner's composer
+ * WHAT CALLS THIS: Campaign detail page (CampaignPageContent)
+ * ACCESS: Named export, import { CampaignUpdates } from '@/components/campaign-updates'
+ * API: POST /api/campaigns/[id]/updates - validation and backer emails happen server-side (lib/updates)
+ */
+
+'use client'
+
+import { useState, type ChangeEvent } from 'react'
+import Image from 'next/image'
+import ReactMarkdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import type { CampaignUpdate } from '@/lib/updates'
+import { notify } from '@/lib/utils/notify'
+import { cn, formatDate } from '@/lib/utils/format'
+
+// Mirrors the limits in lib/updates so the composer fails fast
+const MAX_TITLE_LENGTH = 120
+const MAX_BODY_LENGTH = 10000
+const MAX_IMAGES = 4
+
+// No typography plugin in the Tailwind setup, so markdown elements are styled here
+const mdComponents: Components = {
+  h1: ({ children }) => <h4 className="text-lg font-bold mt-4 mb-2">{children}</h4>,
+  h2: ({ children }) => <h4 className="text-base font-bold mt-4 mb-2">{children}</h4>,
+  h3: ({ children }) => <h5 className="font-semibold mt-3 mb-1">{children}</h5>,
+  p: ({ children }) => <p className="mb-3 last:mb-0 whitespace-pre-wrap">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5 mb-3 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 mb-3 space-y-1">{children}</ol>,
+  a: ({ children, href }) => <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{children}</a>,
+  blockquote: ({ children }) => <blockquote className="border-l-4 border-gray-200 pl-3 text-gray-600 mb-3">{children}</blockquote>,
+  code: ({ children }) => <code className="bg-gray-100 rounded px-1 text-sm">{children}</code>,
+}
+
+function Markdown({ children }: { children: string }) {
+  return <ReactMarkdown remarkPlugins={[remarkGfm]} components={mdComponents}>{children}</ReactMarkdown>
+}
+
+function readImage(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+function UpdateComposer({ campaignId, onPosted }: { campaignId: string; onPosted: (update: CampaignUpdate) => void }) {
+  const [title, setTitle] = useState('')
+  const [body, setBody] = useState('')
+  const [images, setImages] = useState<string[]>([])
+  const [preview, setPreview] = useState(false)
+  const [posting, setPosting] = useState(false)
+
+  const handleImages = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    if (images.length + files.length > MAX_IMAGES) return notify(`Attach at most ${MAX_IMAGES} images`, 'error')
+    if (files.some(file => !file.type.startsWith('image/'))) return notify('Please select image files', 'error')
+    if (files.some(file => file.size > 5 * 1024 * 1024)) return notify('Each image must be less than 5MB', 'error')
+    try {
+      const added = await Promise.all(files.map(readImage))
+      setImages(prev => [...prev, ...added])
+    } catch {
+      notify('Error processing image.', 'error')
+    }
+  }
+
+  const post = async () => {
+    if (!body.trim()) return notify('Write something for your backers first', 'error')
+    setPosting(true)
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}/updates`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title, body, images }),
+        credentials: 'include',
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok || !data.success) throw new Error(data.error || 'Could not post the update')
+      onPosted(data.update as CampaignUpdate)
+      setTitle('')
+      setBody('')
+      setImages([])
+      setPreview(false)
+      notify(data.notified > 0 ? `Update posted and sent to ${data.notified} backer${data.notified !== 1 ? 's' : ''}` : 'Update posted', 'success')
+    } catch (error) {
+      notify(error instanceof Error ? error.message : 'Could not post the update', 'error')
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow space-y-3">
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        maxLength={MAX_TITLE_LENGTH}
+        placeholder="Title (optional)"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+      <div className="flex gap-2 text-sm">
+        {(['Write', 'Preview'] as const).map(tab => (
+          <button
+            key={tab}
+            type="button"
+            onClick={() => setPreview(tab === 'Preview')}
+            className={cn(
+              'px-3 py-1 rounded-full font-semibold transition-colors',
+              preview === (tab === 'Preview') ? 'bg-blue-100 text-blue-800' : 'text-gray-600 hover:bg-gray-100'
+            )}
+          >
+            {tab}
+          </button>
+        ))}
+      </div>
+      {preview ? (
+        <div className="min-h-32 px-3 py-2 border border-gray-200 rounded-lg text-gray-700">
+          {body.trim() ? <Markdown>{body}</Markdown> : <p className="text-gray-400">Nothing to preview</p>}
+        </div>
+      ) : (
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          maxLength={MAX_BODY_LENGTH}
+          rows={6}
+          placeholder="Tell your backers how the campaign is going. Markdown is supported."
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      )}
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((src, index) => (
+            <div key={index} className="relative w-24 h-24 rounded-lg overflow-hidden border border-gray-200">
+              <Image src={src} alt={`Attachment ${index + 1}`} fill unoptimized className="object-cover" />
+              <button
+                type="button"
+                onClick={() => setImages(prev => prev.filter((_, i) => i !== index))}
+                aria-label={`Remove attachment ${index + 1}`}
+                className="absolute top-1 right-1 w-6 h-6 rounded-full bg-white/90 text-gray-700 text-sm leading-none"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-between gap-3">
+        <label className={cn('text-sm font-semibold text-blue-700', images.length >= MAX_IMAGES ? 'opacity-50' : 'cursor-pointer hover:underline')}>
+          Add images
+          <input type="file" accept="image/*" multiple disabled={images.length >= MAX_IMAGES} onChange={handleImages} className="hidden" />
+        </label>
+        <button
+          type="button"
+          onClick={post}
+          disabled={posting || !body.trim()}
+          className="bg-blue-600 hover:bg-blue-700 active:bg-blue-800 text-white px-5 py-2 rounded-full font-semibold text-sm transition-colors disabled:opacity-50"
+        >
+          {posting ? 'Posting...' : 'Post update'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export function CampaignUpdates({
+  campaignId,
+  initialUpdates,
+  canPost,
+}: {
+  campaignId: string
+  initialUpdates: CampaignUpdate[]
+  canPost: boolean
+}) {
+  const [updates, setUpdates] = useState(initialUpdates)
+
+  if (updates.length === 0 && !canPost) return null
+
+  return (
+    <section aria-label="Campaign updates">
+      <h2 className="text-2xl font-bold mb-4">Updates{updates.length > 0 && <span className="text-gray-400 font-normal"> ({updates.length})</span>}</h2>
+      {canPost && (
+        <div className="mb-6">
+          <UpdateComposer campaignId={campaignId} onPosted={(update) => setUpdates(prev => [update, ...prev])} />
+        </div>
+      )}
+      {updates.length > 0 ? (
+        <ol className="relative border-l-2 border-blue-100 ml-2 space-y-8">
+          {updates.map(update => (
+            <li key={update.id} id={`update-${update.id}`} className="ml-6 scroll-mt-24">
+              <span className="absolute -left-[9px] mt-1.5 w-4 h-4 rounded-full bg-blue-600 border-2 border-white" aria-hidden />
+              <time dateTime={update.createdAt} className="text-sm text-gray-500">{formatDate(update.createdAt)}</time>
+              <div className="mt-2 bg-white p-6 rounded-lg shadow">
+                {update.title && <h3 className="text-lg font-bold mb-2">{update.title}</h3>}
+                <div className="text-gray-700">
+                  <Markdown>{update.body}</Markdown>
+                </div>
+                {update.images.length > 0 && (
+                  <div className="mt-4 grid grid-cols-2 gap-2">
+                    {update.images.map((src, index) => (
+                      <div key={index} className="relative h-48 rounded-lg overflow-hidden">
+                        <Image src={src} alt={`${update.title || 'Update'} image ${index + 1}`} fill unoptimized className="object-cover" />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-gray-500">No updates yet. Share your first progress post with your backers.</p>
+      )}
+    </section>
+  )
+}
@@ -1,6 +1,8 @@
 /**
  * FILE: components/campaigns-grid.tsx
  * PURPOSE: Client grid with loading + progressive reveal (3 visible, blur rest until expanded)
+ * PAGINATION: With `nextCursor` and `query`, further pages load from /api/campaigns?<query>&cursor=
+ * LIVE: Raised totals follow GET /api/campaigns/stream?ids= (lib/realtime/client)
  * MIGRATION: Swaps to real API/MongoDB seamlessly via /api/campaigns
  */
 
@@ -8,6 +10,7 @@
 
 import { useEffect, useMemo, useRef, useState } from 'react'
 import { CampaignCard } from '@/components/campaign-card'
+import { useLiveCampaigns } from '@/lib/realtime/client'
 
 // Client-safe type to avoid importing server-only modules
 export type Chain = string
@@ -30,6 +33,10 @@ interface CampaignsGridProps {
   initialCampaigns?: Campaign[]
   /** Tailwind class for the gradient 'from' color, e.g. 'from-blue-100' */
   gradientFromClass?: string
+  /** Cursor for the page after `initialCampaigns`; null when there is none */
+  nextCursor?: string | null
+  /** Search query string the first page was loaded with (lib/search parameters) */
+  query?: string
 }
 
 function SkeletonCard() {
@@ -49,20 +56,42 @@ function SkeletonCard() {
   )
 }
 
-export function CampaignsGrid({ initialCampaigns = [], gradientFromClass = 'from-gray-50' }: CampaignsGridProps) {
+export function CampaignsGrid({ initialCampaigns = [], gradientFromClass = 'from-gray-50', nextCursor = null, query = '' }: CampaignsGridProps) {
   const [campaigns, setCampaigns] = useState<Campaign[]>(initialCampaigns)
   const [loading] = useState(false)
   const [expanded, setExpanded] = useState(false)
+  const [cursor, setCursor] = useState<string | null>(nextCursor)
+  const [loadingMore, setLoadingMore] = useState(false)
   const initialRef = useRef(initialCampaigns)
 
   // Sync internal list when server-provided campaigns change (e.g., leaving search or clicking back)
   useEffect(() => {
     setCampaigns(initialCampaigns)
     setExpanded(false)
+    setCursor(nextCursor)
     initialRef.current = initialCampaigns
-  }, [initialCampaigns])
+  }, [initialCampaigns, nextCursor])
 
-  const list = campaigns ?? initialRef.current
+  const loadMore = async () => {
+    if (!cursor) return
+    setLoadingMore(true)
+    try {
+      const params = new URLSearchParams(query)
+      params.set('cursor', cursor)
+      const res = await fetch(`/api/campaigns?${params.toString()}`)
+      const data = await res.json()
+      if (data?.success) {
+        setCampaigns((prev) => [...prev, ...(data.campaigns as Campaign[])])
+        setCursor(data.nextCursor ?? null)
+      }
+    } catch {
+      // Keep the cursor so the button can be pressed again
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const list = useLiveCampaigns(campaigns ?? initialRef.current)
   const clearSix = useMemo(() => list.slice(0, 6), [list])
   const afterSix = useMemo(() => list.slice(6), [list])
   const shouldGate = !expanded && list.length > 6
@@ -129,6 +158,20 @@ export function CampaignsGrid({ initialCampaigns = [], gradientFromClass = 'from
           </button>
         </div>
       )}
+
+      {/* Next page from the search API once everything loaded so far is visible */}
+      {(expanded || list.length <= 6) && cursor && (
+        <div className="flex justify-center">
+          <button
+            type="button"
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="inline-flex items-center gap-2 px-5 py-2.5 rounded-full bg-white border border-gray-200 shadow-sm hover:shadow-md hover:border-gray-300 text-gray-700 font-medium transition disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load more campaigns'}
+          </button>
+        </div>
+      )}
     </div>
   )
 }
@@ -2,10 +2,11 @@
  * FILE: components/donate-dialog.tsx
  * PURPOSE: Modal dialog for donation form with amount input and blockchain selection
  * WHAT CALLS THIS: Campaign detail page, ContributePanel component
- * WHAT IT RENDERS: Modal overlay with donation form, suggested amounts, memo field
+ * WHAT IT RENDERS: Modal overlay with donation form, suggested amounts, display name field
  * ACCESS: Named export, import { DonateDialog } from '@/components/donate-dialog'
  * MIGRATION NOTES:
- * - Currently uses contracts.donate() - ensure this connects to real ZetaChain contracts
+ * - Goes through processDonation() (lib/payments); NEXT_PUBLIC_PAYMENT_PROVIDER=zetachain sends donate()
+ *   on the fundraiser contract with the display name as its memo
  * - Add transaction status tracking and confirmation UI
  * - Implement optimistic UI updates for immediate feedback
  * - Add error handling for failed transactions with retry mechanism
@@ -24,7 +25,7 @@ import { Card } from './card' // ACCESS: Base card component for consistent styl
 import { ChainChips } from './chain-chips' // ACCESS: Blockchain selection component
 import { formatCurrency } from '@/lib/utils/format' // ACCESS: Currency formatting utilities
 import { notify } from '@/lib/utils/notify'
-import { makeDonationOnContract } from '@/lib/services/contracts' // ACCESS: Contract interaction functions
+import { processDonation } from '@/lib/payments' // ACCESS: Payment adapter (mock or on-chain)
 import type { Campaign } from '@/lib/utils/types'
 
 /**
@@ -52,7 +53,6 @@ interface DonateDialogProps {
 export function DonateDialog({ isOpen, onClose, campaign, selectedChain }: DonateDialogProps) {
   // REGION: State management
   const [amount, setAmount] = useState('')
-  const [memo, setMemo] = useState('')
   const [displayName, setDisplayName] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const { user } = useAuth()
@@ -73,20 +73,17 @@ export function DonateDialog({ isOpen, onClose, campaign, selectedChain }: Donat
     try {
       // Resolve donor display name: prefer user input, fallback to logged-in username, then Anonymous
       const nameToShow = (displayName || '').trim() || (user as UserWithUsername)?.username || 'Anonymous'
-      const finalMemo = memo?.trim()
-        ? `${memo.trim()} — Donor: ${nameToShow}`
-        : `Donor: ${nameToShow}`
-      await makeDonationOnContract({
+      const result = await processDonation({
         campaignId: campaign.id,
         amount: parsed,
         chain: selectedChain,
-        memo: finalMemo,
+        donorName: nameToShow,
       })
+      if (!result.ok) throw new Error(result.error || 'Donation failed. Please try again.')
       notify(`Successfully donated $${parsed} via ${selectedChain}!`, 'success')
       
       // Reset form and close dialog
       setAmount('')
-      setMemo('')
       setDisplayName('')
       onClose()
     } catch (error) {
@@ -195,21 +192,6 @@ export function DonateDialog({ isOpen, onClose, campaign, selectedChain }: Donat
             />
           </div>
 
-          {/* Memo Input */}
-          <div className="mb-6">
-            <label htmlFor="memo" className="block text-sm font-medium mb-3">
-              Message (optional)
-            </label>
-            <textarea
-              id="memo"
-              value={memo}
-              onChange={(e) => setMemo(e.target.value)}
-              placeholder="Leave a message of support..."
-              rows={3}
-              className="w-full px-4 py-3 bg-[color:var(--panel-2)] border border-white/10 rounded-lg focus:border-[color:var(--primary)] focus:outline-none focus:ring-2 focus:ring-[color:var(--primary)]/20 placeholder-[color:var(--muted)] resize-none"
-            />
-          </div>
-
           {/* Actions */}
           <div className="flex items-center justify-center gap-3">
             <button
@@ -0,0 +1,44 @@
+'use client'
+
+import { useState } from 'react'
+import { useAuth } from '@/lib/auth/auth-context'
+import { notify } from '@/lib/utils/notify'
+
+// Shown to signed-in users whose email address is not confirmed yet (they cannot create campaigns).
+// Wallet-only accounts have no email; their verified wallet stands in for it
+export function EmailVerificationBanner({ className = '' }: { className?: string }) {
+  const { user } = useAuth()
+  const [sending, setSending] = useState(false)
+
+  if (!user || !user.email || user.emailVerified !== false) return null
+
+  const resend = async () => {
+    setSending(true)
+    try {
+      const res = await fetch('/api/auth/verify-email/resend', { method: 'POST' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || 'Could not send verification email')
+      notify('Verification email sent. Check your inbox.', 'success')
+    } catch (error) {
+      notify(error instanceof Error ? error.message : 'Could not send verification email', 'error')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className={`p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 ${className}`}>
+      <p className="text-sm text-yellow-800">
+        Please confirm your email address ({user.email}). You can create campaigns once it is verified.
+      </p>
+      <button
+        type="button"
+        onClick={resend}
+        disabled={sending}
+        className="shrink-0 text-sm font-semibold text-yellow-900 hover:underline disabled:opacity-60"
+      >
+        {sending ? 'Sending...' : 'Resend email'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+/**
+ * FILE: components/giving-statement.tsx
+ * PURPOSE: Profile section with the donor's annual giving statement and CSV/PDF downloads
+ * WHAT CALLS THIS: app/profile/page.tsx
+ * ACCESS: Named export, import { GivingStatement } from '@/components/giving-statement'
+ * API:
+ * - GET /api/profile/statements?year= for the summary (totals by chain and campaign, in USD)
+ * - Download links hit the same endpoint with &format=csv / &format=pdf
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { GivingStatement as Statement } from '@/lib/statements'
+import { formatCurrency } from '@/lib/utils/format'
+import Spinner from '@/components/spinner'
+
+const statementUrl = (year: number, format?: 'csv' | 'pdf') =>
+  `/api/profile/statements?year=${year}${format ? `&format=${format}` : ''}`
+
+export function GivingStatement() {
+  const [year, setYear] = useState(() => new Date().getUTCFullYear())
+  const [statement, setStatement] = useState<Statement | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    fetch(statementUrl(year), { credentials: 'include' })
+      .then(async (res) => {
+        const data = await res.json()
+        if (cancelled) return
+        if (!res.ok || !data.success) {
+          setError(data.error || 'Could not load your statement')
+          return
+        }
+        setStatement(data.statement)
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load your statement')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [year])
+
+  // Always offer the current year, plus every year the donor has given in
+  const years = Array.from(new Set([new Date().getUTCFullYear(), year, ...(statement?.availableYears ?? [])])).sort((a, b) => b - a)
+
+  return (
+    <div className="bg-white rounded-2xl card-shadow border border-gray-100 p-8 mt-8">
+      <div className="flex items-center justify-between gap-4 flex-wrap mb-6">
+        <div>
+          <h3 className="text-2xl font-bold text-gray-900">Giving Statement</h3>
+          <p className="text-sm text-gray-600 mt-1">Donations made while signed in, January 1 - December 31 (UTC)</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label htmlFor="statement-year" className="text-sm font-semibold text-gray-700">Year</label>
+          <select
+            id="statement-year"
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value))}
+            className="p-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-blue-500 text-sm"
+          >
+            {years.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-3">
+          <Spinner size={20} />
+          <p className="text-gray-600">Loading statement...</p>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : statement && statement.count === 0 ? (
+        <p className="text-gray-600">
+          No donations recorded for {statement.year}. <Link href="/" className="text-blue-600 hover:text-blue-800">Find a campaign</Link>
+        </p>
+      ) : statement && (
+        <div className="space-y-6">
+          <div className="flex items-end justify-between gap-4 flex-wrap">
+            <div>
+              <p className="text-sm text-gray-500">Total donated in {statement.year}</p>
+              <p className="text-3xl font-bold text-gray-900 tabular-nums">{formatCurrency(statement.total)}</p>
+              <p className="text-sm text-gray-500">
+                {statement.count} donation{statement.count !== 1 ? 's' : ''} to {statement.campaigns.length} campaign{statement.campaigns.length !== 1 ? 's' : ''}
+              </p>
+            </div>
+            <div className="flex gap-3">
+              <a
+                href={statementUrl(statement.year, 'csv')}
+                className="bg-white text-blue-600 border border-blue-600 hover:bg-blue-50 px-5 py-2 rounded-full font-semibold text-sm transition-colors"
+              >
+                Download CSV
+              </a>
+              <a
+                href={statementUrl(statement.year, 'pdf')}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2 rounded-full font-semibold text-sm transition-colors"
+              >
+                Download PDF
+              </a>
+            </div>
+          </div>
+
+          {/* Totals by chain (USD) */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {statement.byChain.map((total) => (
+              <div key={total.chain} className="p-4 bg-gray-50 rounded-xl border border-gray-100">
+                <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide">{total.chain}</p>
+                <p className="text-lg font-semibold text-gray-900 tabular-nums">{formatCurrency(total.amount)}</p>
+                <p className="text-xs text-gray-500">{total.count} donation{total.count !== 1 ? 's' : ''}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Per-campaign breakdown */}
+          <div className="border-t border-gray-200 pt-6">
+            <h4 className="text-lg font-semibold text-gray-900 mb-4">By Campaign</h4>
+            <ul className="divide-y divide-gray-100">
+              {statement.campaigns.map((total) => (
+                <li key={total.campaignId} className="py-3 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <Link href={`/campaign/${total.campaignId}`} className="font-medium text-gray-900 hover:text-blue-600 truncate block">
+                      {total.campaignTitle}
+                    </Link>
+                    <p className="text-xs text-gray-500">
+                      {total.byChain.map((chain) => `${chain.chain} ${formatCurrency(chain.amount)}`).join(' · ')}
+                    </p>
+                  </div>
+                  <span className="font-semibold text-gray-900 tabular-nums">{formatCurrency(total.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,13 +1,15 @@
 "use client"
 
 import Link from 'next/link'
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, type KeyboardEvent } from 'react'
 import { usePathname, useRouter, useSearchParams } from 'next/navigation'
 import { useAuth } from '@/lib/auth/auth-context'
 import type { User, Creator, Campaign } from '@/lib/utils/types'
 import ProfilePictureUpload from '@/components/profile-picture-upload'
 import AIOverlay from '@/components/ai-overlay'
 import PaymentModal from '@/components/payment-modal'
+import { SearchSuggestions, suggestionOptionId, useSearchSuggestions, type SuggestionItem } from '@/components/search-suggestions'
+import { NotificationBell } from '@/components/notification-bell'
 
 /**
  * Main Navigation Component
@@ -15,14 +17,15 @@ import PaymentModal from '@/components/payment-modal'
  * Building Block: Global navigation bar that appears on all pages
  * Features:
  * - Context-aware: Shows search on home page, hides "Explore" when already on home
- * - Search functionality: Filters campaigns by title/description
+ * - Search functionality: Sends title/creator/category searches to the home page (lib/search)
+ * - Search-as-you-type: grouped suggestions with arrow-key navigation (components/search-suggestions)
+ * - Notification bell with unread badge and inbox dropdown (components/notification-bell)
  * - Responsive design with mobile menu
  * - Consistent styling with shadows and hover effects
  * 
  * Future Extensions:
  * - User authentication state (login/logout)
  * - Profile dropdown menu
- * - Notification badges
  * - Mobile menu implementation
  */
 export function Nav() {
@@ -50,6 +53,20 @@ export function Nav() {
   // Hide search UX on studio pages
   const isStudio = pathname?.startsWith('/studio')
 
+  // Suggestions while typing; the group for the selected search mode is listed first
+  const [activeSuggestion, setActiveSuggestion] = useState(-1)
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false)
+  const suggestions = useSearchSuggestions(
+    searchQuery,
+    showSearch && !isStudio,
+    searchParam === 'title' ? 'campaign' : searchParam
+  )
+  const suggestionsOpen = !suggestionsDismissed && suggestions.length > 0
+
+  useEffect(() => {
+    setActiveSuggestion(-1)
+  }, [suggestions])
+
   // Handle clicks outside search area to close search
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -70,7 +87,7 @@ export function Nav() {
 
   // Clear search UI and input when landing on home without search params
   useEffect(() => {
-    if (pathname === '/' && !searchParamsNav.get('search')) {
+    if (pathname === '/' && !['q', 'creator', 'category', 'chain', 'search'].some((key) => searchParamsNav.get(key))) {
       setSearchQuery('')
       setShowSearch(false)
       setShowSearchDropdown(false)
@@ -113,9 +130,9 @@ export function Nav() {
     setSearchQuery(query)
     if (query.trim()) {
       // Always redirect to home with search params so results show on the home page
+      // Title mode is the free-text `q` search; the others filter by creator or category (lib/search)
       const params = new URLSearchParams()
-      params.set('search', query.trim())
-      params.set('param', searchParam)
+      params.set(searchParam === 'title' ? 'q' : searchParam, query.trim())
       const target = `/?${params.toString()}`
       if (pathname !== '/') {
         // First go home to show all cards immediately, then apply search
@@ -128,6 +145,45 @@ export function Nav() {
     }
   }
 
+  const handleSuggestionSelect = (item: SuggestionItem) => {
+    setShowSearch(false)
+    setShowSearchDropdown(false)
+    setSearchQuery('')
+    router.push(item.href)
+  }
+
+  const handleSearchKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (suggestions.length === 0) return
+      e.preventDefault()
+      setSuggestionsDismissed(false)
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      // Wraps around; -1 (nothing selected) sits between the last and first item
+      setActiveSuggestion((i) => {
+        const next = i + step
+        if (next >= suggestions.length) return -1
+        if (next < -1) return suggestions.length - 1
+        return next
+      })
+    } else if (e.key === 'Escape') {
+      // First Escape closes the suggestions, the second closes the search bar
+      if (suggestionsOpen) {
+        setSuggestionsDismissed(true)
+        setActiveSuggestion(-1)
+      } else {
+        setShowSearch(false)
+        setShowSearchDropdown(false)
+      }
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      if (suggestionsOpen && activeSuggestion >= 0 && suggestions[activeSuggestion]) {
+        handleSuggestionSelect(suggestions[activeSuggestion])
+      } else {
+        handleSearchSubmit()
+      }
+    }
+  }
+
   const handleSearchSubmit = () => {
     if (searchQuery.trim()) {
       handleSearch(searchQuery)
@@ -161,18 +217,15 @@ export function Nav() {
               <div ref={searchRef} className="relative flex-1">
                 <input
                   type="text"
+                  role="combobox"
+                  aria-autocomplete="list"
+                  aria-expanded={suggestionsOpen}
+                  aria-controls="nav-search-suggestions"
+                  aria-activedescendant={suggestionsOpen && activeSuggestion >= 0 ? suggestionOptionId('nav-search-suggestions', activeSuggestion) : undefined}
                   placeholder={`Search campaigns by ${searchParam}...`}
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Escape') {
-                      setShowSearch(false)
-                      setShowSearchDropdown(false)
-                    } else if (e.key === 'Enter') {
-                      e.preventDefault()
-                      handleSearchSubmit()
-                    }
-                  }}
+                  onChange={(e) => { setSearchQuery(e.target.value); setSuggestionsDismissed(false) }}
+                  onKeyDown={handleSearchKeyDown}
                   className="w-full pl-10 pr-4 py-2 rounded-full border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-sm"
                   autoFocus
                 />
@@ -188,6 +241,15 @@ export function Nav() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                   </svg>
                 </button>
+                {suggestionsOpen && (
+                  <SearchSuggestions
+                    id="nav-search-suggestions"
+                    items={suggestions}
+                    activeIndex={activeSuggestion}
+                    onSelect={handleSuggestionSelect}
+                    onHover={setActiveSuggestion}
+                  />
+                )}
               </div>
               
               {/* Search Parameter Dropdown */}
@@ -270,6 +332,8 @@ export function Nav() {
                 </Link>
               )
             )}
+            {/* Notifications - keyed by user so a different account starts with a fresh inbox */}
+            {user && <NotificationBell key={user.id} />}
             {/* User Profile - Building Block: User authentication state */}
             {user ? (
               <div className="relative" ref={profileDropdownRef}>
@@ -322,6 +386,18 @@ export function Nav() {
                         </Link>
                       )
                     )}
+                    {user?.role === 'admin' && (
+                      <Link 
+                        href="/admin" 
+                        className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                        onClick={() => setShowProfileDropdown(false)}
+                      >
+                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                        </svg>
+                        Admin Console
+                      </Link>
+                    )}
                     <Link 
                       href="/profile" 
                       className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
@@ -438,6 +514,9 @@ export function Nav() {
                 <Link href="/studio" onClick={() => { setShowAI(false); setIsMobileMenuOpen(false) }} className="w-full text-center bg-blue-600 text-white py-2 px-4 rounded-full hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">Creator Studio</Link>
               )
             )}
+            {user?.role === 'admin' && (
+              <Link href="/admin" onClick={() => { setShowAI(false); setIsMobileMenuOpen(false) }} className="w-full text-center border border-gray-300 text-gray-800 py-2 px-4 rounded-full hover:bg-gray-100 transition-colors">Admin Console</Link>
+            )}
             {user ? (
               <>
                 <Link href="/profile" onClick={() => { setShowAI(false); setIsMobileMenuOpen(false) }} className="inline-flex items-center px-2 py-1 rounded-md" aria-label="Profile" title="Profile">
@@ -506,9 +585,8 @@ export function Nav() {
         campaign={payCampaign}
         isOpen={payOpen}
         onClose={() => setPayOpen(false)}
-        onPaymentSuccess={() => {
-          setPayOpen(false)
-        }}
+        // The modal stays open on its thank-you view (receipt link) until the donor closes it
+        onPaymentSuccess={() => {}}
         initialAmount={payInitialAmount}
         initialChain={payInitialChain}
       />
@@ -0,0 +1,174 @@
+/**
+ * FILE: components/notification-bell.tsx
+ * PURPOSE: Nav bell with unread badge and inbox dropdown; toasts new items as they arrive
+ * WHAT CALLS THIS: components/nav.tsx (signed-in users only)
+ * ACCESS: Named export, import { NotificationBell } from '@/components/notification-bell'
+ * API:
+ * - GET /api/notifications/unread-count every POLL_MS while the tab is visible
+ * - GET /api/notifications?since= when `latestAt` moves (new items -> notify() toasts)
+ * - GET /api/notifications when the dropdown opens; POST /api/notifications/read to mark read
+ */
+
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import type { Notification } from '@/lib/notifications'
+import { notify } from '@/lib/utils/notify'
+import { cn, formatDate } from '@/lib/utils/format'
+
+const POLL_MS = 30_000
+// A burst of new items shows a few toasts and a summary instead of a wall of them
+const MAX_TOASTS = 3
+
+export function NotificationBell() {
+  const [open, setOpen] = useState(false)
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [items, setItems] = useState<Notification[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const latestAt = useRef<string | null | undefined>(undefined)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const poll = useCallback(async () => {
+    try {
+      const res = await fetch('/api/notifications/unread-count', { credentials: 'include' })
+      const data = await res.json()
+      if (!data?.success) return
+      setUnreadCount(data.unreadCount)
+
+      const previous = latestAt.current
+      latestAt.current = data.latestAt
+      // First poll only sets the baseline; older items are in the inbox, not toasts
+      if (previous === undefined || !data.latestAt || data.latestAt === previous) return
+
+      const query = new URLSearchParams({ limit: '10', ...(previous ? { since: previous } : {}) })
+      const fresh = await fetch(`/api/notifications?${query.toString()}`, { credentials: 'include' }).then(r => r.json())
+      if (!fresh?.success) return
+      const arrived = fresh.notifications as Notification[]
+      arrived.slice(0, MAX_TOASTS).forEach(item => notify(item.title, 'info'))
+      if (arrived.length > MAX_TOASTS) notify(`${arrived.length - MAX_TOASTS} more new notifications`, 'info')
+      setItems(prev => (prev ? [...arrived, ...prev.filter(item => !arrived.some(a => a.id === item.id))] : prev))
+    } catch {
+      // Offline or signed out mid-poll; try again next tick
+    }
+  }, [])
+
+  useEffect(() => {
+    poll()
+    const timer = window.setInterval(() => {
+      if (document.visibilityState === 'visible') poll()
+    }, POLL_MS)
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') poll()
+    }
+    document.addEventListener('visibilitychange', onVisible)
+    return () => {
+      window.clearInterval(timer)
+      document.removeEventListener('visibilitychange', onVisible)
+    }
+  }, [poll])
+
+  useEffect(() => {
+    if (!open) return
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [open])
+
+  const toggle = async () => {
+    const next = !open
+    setOpen(next)
+    if (!next) return
+    setLoading(true)
+    try {
+      const res = await fetch('/api/notifications', { credentials: 'include' })
+      const data = await res.json()
+      if (data?.success) {
+        setItems(data.notifications)
+        setUnreadCount(data.unreadCount)
+      }
+    } catch {
+      notify('Could not load notifications', 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const markRead = async (ids?: string[]) => {
+    const now = new Date().toISOString()
+    setItems(prev => prev?.map(item => (!item.readAt && (!ids || ids.includes(item.id)) ? { ...item, readAt: now } : item)) ?? prev)
+    try {
+      const res = await fetch('/api/notifications/read', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {}),
+        credentials: 'include',
+      })
+      const data = await res.json()
+      if (data?.success) setUnreadCount(data.unreadCount)
+    } catch {
+      notify('Could not mark notifications as read', 'error')
+    }
+  }
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={toggle}
+        className="relative inline-flex items-center justify-center w-9 h-9 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-haspopup="true"
+        aria-expanded={open}
+      >
+        <svg className="w-5 h-5 text-gray-700" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6 6 0 10-12 0v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold leading-[18px] text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+            <span className="font-semibold text-gray-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button type="button" onClick={() => markRead()} className="text-xs font-semibold text-blue-600 hover:underline">
+                Mark all read
+              </button>
+            )}
+          </div>
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {loading && !items ? (
+              <li className="px-4 py-6 text-sm text-gray-500 text-center">Loading...</li>
+            ) : items && items.length > 0 ? (
+              items.map(item => (
+                <li key={item.id}>
+                  <Link
+                    href={item.href || '#'}
+                    onClick={() => {
+                      if (!item.readAt) markRead([item.id])
+                      setOpen(false)
+                    }}
+                    className={cn('block px-4 py-3 hover:bg-gray-50', !item.readAt && 'bg-blue-50/60')}
+                  >
+                    <p className={cn('text-sm text-gray-900', !item.readAt && 'font-semibold')}>{item.title}</p>
+                    <p className="text-sm text-gray-600 line-clamp-2">{item.body}</p>
+                    <p className="text-xs text-gray-400 mt-1">{formatDate(item.createdAt)}</p>
+                  </Link>
+                </li>
+              ))
+            ) : (
+              <li className="px-4 py-6 text-sm text-gray-500 text-center">You&apos;re all caught up</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+/**
+ * FILE: components/onchain-publisher.tsx
+ * PURPOSE: Creator Studio panel that deploys campaigns to the fundraiser contract and shows
+ *          which ones are linked on-chain
+ * WHAT CALLS THIS: app/studio/page.tsx
+ * ACCESS: Named export, import { OnChainPublisher } from '@/components/onchain-publisher'
+ * API:
+ * - GET/POST /api/campaigns/[id]/onchain through publishCampaignOnChain (lib/contracts/publish)
+ */
+
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import type { Campaign } from '@/_dev/mock-db/database'
+import { linkDeployedCampaign, publishCampaignOnChain, type PublishCampaignResult } from '@/lib/contracts/publish'
+import { getCampaignStatus } from '@/lib/lifecycle'
+import type { Hex } from '@/lib/evm'
+import { notify } from '@/lib/utils/notify'
+import Spinner from '@/components/spinner'
+
+type Props = {
+  campaigns: Campaign[]
+  onDeployed: (campaignId: string, contractOwnership: NonNullable<Campaign['contractOwnership']>) => void
+}
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-8)}`
+
+export function OnChainPublisher({ campaigns, onDeployed }: Props) {
+  const [busy, setBusy] = useState<string | null>(null)
+  // Transactions that were mined but not linked yet, by campaign: retry the link, never redeploy
+  const [unlinked, setUnlinked] = useState<Record<string, Hex>>({})
+
+  const run = async (campaign: Campaign, action: () => Promise<PublishCampaignResult>) => {
+    setBusy(campaign.id)
+    try {
+      const result = await action()
+      if (!result.ok) {
+        const txHash = result.txHash
+        if (txHash) setUnlinked((prev) => ({ ...prev, [campaign.id]: txHash }))
+        notify(result.error, 'error')
+        return
+      }
+      setUnlinked((prev) => {
+        const next = { ...prev }
+        delete next[campaign.id]
+        return next
+      })
+      onDeployed(campaign.id, result.contractOwnership)
+      notify(`"${campaign.title}" is live on-chain as campaign #${result.onChainCampaignId}`, 'success')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const deploy = (campaign: Campaign) => {
+    const txHash = unlinked[campaign.id]
+    return run(campaign, () => (txHash ? linkDeployedCampaign(campaign.id, txHash) : publishCampaignOnChain(campaign.id)))
+  }
+
+  if (campaigns.length === 0) return null
+
+  return (
+    <div className="bg-white rounded-2xl card-shadow border border-gray-100 p-8">
+      <h3 className="text-2xl font-bold text-gray-900">On-chain</h3>
+      <p className="text-sm text-gray-600 mt-1 mb-6">
+        Deploy a campaign to the fundraiser contract so donors can give from their wallets. Send the transaction from a wallet you verified on your{' '}
+        <Link href="/profile#wallets" className="text-blue-600 hover:text-blue-800">profile</Link>: it receives the donations.
+      </p>
+      <ul className="divide-y divide-gray-100">
+        {campaigns.map((campaign) => {
+          const link = campaign.contractOwnership
+          const status = getCampaignStatus(campaign)
+          const closed = status === 'ended' || status === 'cancelled'
+          return (
+            <li key={campaign.id} className="py-4 flex items-center justify-between gap-4 flex-wrap">
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-900 truncate">{campaign.title}</p>
+                {link?.onChainCampaignId ? (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Campaign #{link.onChainCampaignId} on chain {link.chainId}
+                    {link.blockchainProof && <> · tx <span className="font-mono">{shortHash(link.blockchainProof)}</span></>}
+                  </p>
+                ) : unlinked[campaign.id] ? (
+                  <p className="text-xs text-amber-700 mt-1">
+                    Created in tx <span className="font-mono">{shortHash(unlinked[campaign.id])}</span> but not linked yet
+                  </p>
+                ) : (
+                  <p className="text-xs text-gray-500 mt-1">Off-chain only</p>
+                )}
+              </div>
+              {link?.onChainCampaignId ? (
+                <span
+                  className={`text-xs px-2 py-0.5 rounded-full border ${
+                    link.verified ? 'bg-green-50 text-green-700 border-green-200' : 'bg-gray-50 text-gray-600 border-gray-200'
+                  }`}
+                >
+                  {link.verified ? 'Verified on-chain' : 'Linked'}
+                </span>
+              ) : (
+                <button
+                  onClick={() => deploy(campaign)}
+                  disabled={busy !== null || closed}
+                  title={closed ? `Campaign is ${status}` : undefined}
+                  className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white px-5 py-2 rounded-full font-semibold transition-colors flex items-center gap-2"
+                >
+                  {busy === campaign.id && <Spinner size={16} />}
+                  {busy === campaign.id
+                    ? 'Waiting for wallet...'
+                    : unlinked[campaign.id]
+                      ? 'Retry linking'
+                      : 'Deploy on-chain'}
+                </button>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
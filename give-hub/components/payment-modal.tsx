@@ -1,9 +1,12 @@
 "use client"
 
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useAuth } from '@/lib/auth/auth-context'
 import type { Campaign } from '@/lib/utils/types'
-import { processDonation } from '@/lib/payments'
+import Link from 'next/link'
+import { PAYMENT_PROVIDER, RECURRING_SUPPORTED, createPledge, processDonation, type CreatePledgeResult } from '@/lib/payments'
+import { PLEDGE_INTERVALS, type PledgeInterval } from '@/lib/pledges/schedule'
+import { formatDate } from '@/lib/utils/format'
 
 interface PaymentModalProps {
   campaign: Campaign
@@ -14,6 +17,15 @@ interface PaymentModalProps {
   initialChain?: string
 }
 
+type Frequency = 'once' | PledgeInterval
+
+const FREQUENCY_LABELS: Record<Frequency, string> = {
+  once: 'One-time',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+}
+
 export default function PaymentModal({ campaign, isOpen, onClose, onPaymentSuccess, initialAmount, initialChain }: PaymentModalProps) {
   const hasUsername = (u: unknown): u is { username: string } =>
     typeof u === 'object' && u !== null && 'username' in (u as Record<string, unknown>) && typeof (u as { username?: unknown }).username === 'string'
@@ -21,8 +33,25 @@ export default function PaymentModal({ campaign, isOpen, onClose, onPaymentSucce
   const [amount, setAmount] = useState('')
   const [selectedChain, setSelectedChain] = useState<string>(initialChain || campaign.chains[0] || 'Ethereum')
   const [donorName, setDonorName] = useState('')
+  // Anything but 'once' sets up a recurring pledge (lib/pledges); those need an account
+  const [frequency, setFrequency] = useState<Frequency>('once')
   const [isProcessing, setIsProcessing] = useState(false)
+  // Set after a successful payment: the modal stays open on a thank-you view with the receipt link
+  const [completed, setCompleted] = useState<{
+    amount: number
+    chain: string
+    receiptUrl?: string
+    receiptNumber?: string
+    /** On-chain transaction hash (ZetaChain provider) */
+    txHash?: string
+    interval?: PledgeInterval
+    nextChargeAt?: string
+  } | null>(null)
   const { user } = useAuth()
+  // One Idempotency-Key per distinct payment: double-clicks and retries of the same
+  // amount/chain/name reuse it; changing the form starts a new payment
+  const pendingPayment = useRef<{ key: string; payload: string } | null>(null)
+  const submitting = useRef(false)
 
   useEffect(() => {
     if (isOpen) {
@@ -39,42 +68,115 @@ export default function PaymentModal({ campaign, isOpen, onClose, onPaymentSucce
   if (!isOpen) return null
 
   const handlePayment = async () => {
-    if (!amount || !selectedChain) return
+    if (!amount || !selectedChain || submitting.current) return
 
+    submitting.current = true
     setIsProcessing(true)
     
     try {
-      const result = await processDonation({
+      const input = {
         campaignId: campaign.id,
         amount: parseFloat((amount || '').replace(/,/g, '.')),
         chain: selectedChain,
         donorName: (donorName || '').trim() || (user && hasUsername(user) ? user.username : 'Anonymous'),
-      })
+      }
+      const payload = JSON.stringify({ ...input, frequency })
+      if (pendingPayment.current?.payload !== payload) {
+        pendingPayment.current = { key: crypto.randomUUID(), payload }
+      }
+      const idempotencyKey = pendingPayment.current.key
+      const interval = frequency === 'once' ? undefined : frequency
+      const result: CreatePledgeResult = interval
+        ? await createPledge({ ...input, interval, idempotencyKey })
+        : await processDonation({ ...input, idempotencyKey })
 
       if (!result.ok) throw new Error(result.error || 'Payment failed')
 
-      onPaymentSuccess(parseFloat((amount || '').replace(/,/g, '.')), selectedChain)
-      onClose()
+      pendingPayment.current = null
+
+      onPaymentSuccess(input.amount, selectedChain)
+      setCompleted({
+        amount: input.amount,
+        chain: selectedChain,
+        receiptUrl: result.receiptUrl,
+        receiptNumber: result.receiptNumber,
+        txHash: result.transactionReceipt ? result.txId : undefined,
+        interval,
+        nextChargeAt: result.nextChargeAt,
+      })
       // Reset form
       setAmount('')
       setDonorName('')
+      setFrequency('once')
     } catch (error) {
       console.error('Payment error:', error)
-      alert('Payment failed. Please try again.')
+      alert(frequency !== 'once'
+        ? `Could not set up the pledge: ${(error as Error).message}`
+        : PAYMENT_PROVIDER === 'zetachain' ? `Payment failed: ${(error as Error).message}` : 'Payment failed. Please try again.')
     } finally {
+      submitting.current = false
       setIsProcessing(false)
     }
   }
 
+  const handleClose = () => {
+    setCompleted(null)
+    onClose()
+  }
+
   const suggestedAmounts = [10, 25, 50, 100]
 
+  if (completed) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        <div className="bg-white rounded-xl max-w-md w-full p-6 shadow-xl text-center">
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Thank you!</h2>
+          {completed.interval ? (
+            <p className="text-gray-600 mb-6">
+              Your {completed.interval} pledge of ${completed.amount.toLocaleString()} via {completed.chain} to &ldquo;{campaign.title}&rdquo; is set up.
+              The first payment was received{completed.nextChargeAt ? `; the next one is on ${formatDate(completed.nextChargeAt)}` : ''}.{' '}
+              <Link href="/profile#pledges" onClick={handleClose} className="text-blue-600 hover:text-blue-800">Manage your pledges</Link>
+            </p>
+          ) : (
+            <p className="text-gray-600 mb-6">
+              Your donation of ${completed.amount.toLocaleString()} via {completed.chain} to &ldquo;{campaign.title}&rdquo; was received.
+            </p>
+          )}
+          {completed.txHash && (
+            <p className="text-xs text-gray-500 mb-4 break-all">
+              Transaction <span className="font-mono">{completed.txHash}</span>
+            </p>
+          )}
+          {completed.receiptUrl && (
+            <a
+              href={completed.receiptUrl}
+              download
+              className="inline-flex items-center justify-center gap-2 w-full mb-3 py-3 px-4 rounded-lg border border-blue-200 text-blue-700 font-medium hover:bg-blue-50 transition-colors"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v12m0 0l-4-4m4 4l4-4M4 20h16" />
+              </svg>
+              Download receipt{completed.receiptNumber ? ` ${completed.receiptNumber}` : ''} (PDF)
+            </a>
+          )}
+          <button
+            onClick={handleClose}
+            className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-xl max-w-md w-full p-6 shadow-xl">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-bold text-gray-900">Support This Campaign</h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="text-gray-400 hover:text-gray-600 transition-colors"
           >
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -142,6 +244,37 @@ export default function PaymentModal({ campaign, isOpen, onClose, onPaymentSucce
           )}
         </div>
 
+        {/* Frequency - recurring pledges are charged on a schedule and need an account;
+            the ZetaChain provider has none (the wallet signs every donation) */}
+        {RECURRING_SUPPORTED && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Frequency
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {(['once', ...PLEDGE_INTERVALS] as Frequency[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setFrequency(option)}
+                  disabled={option !== 'once' && !user}
+                  className={`px-2 py-2 text-sm rounded-lg border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                    frequency === option
+                      ? 'border-blue-500 bg-blue-50 text-blue-600'
+                      : 'border-gray-300 hover:border-gray-400'
+                  }`}
+                >
+                  {FREQUENCY_LABELS[option]}
+                </button>
+              ))}
+            </div>
+            {!user && (
+              <p className="text-xs text-gray-500 mt-2">
+                <Link href="/auth" className="text-blue-600 hover:text-blue-800">Sign in</Link> to give weekly, monthly or yearly.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Chain Selection */}
         <div className="mb-6">
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -176,13 +309,15 @@ export default function PaymentModal({ campaign, isOpen, onClose, onPaymentSucce
               Processing...
             </div>
           ) : (
-            `Donate $${amount || '0'} via ${selectedChain}`
+            `Donate $${amount || '0'}${frequency === 'once' ? '' : ` ${frequency}`} via ${selectedChain}`
           )}
         </button>
 
-        {/* Mock Payment Notice */}
+        {/* Payment Notice */}
         <p className="text-xs text-gray-500 mt-3 text-center">
-          This is a mock payment system for demonstration purposes. No real transactions will be processed.
+          {PAYMENT_PROVIDER === 'zetachain' && frequency === 'once'
+            ? 'Your wallet will ask you to confirm a donation transaction; funds go straight to the campaign creator.'
+            : 'This is a mock payment system for demonstration purposes. No real transactions will be processed.'}
         </p>
       </div>
     </div>
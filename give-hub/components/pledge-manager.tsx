@@ -0,0 +1,195 @@
+/**
+ * FILE: components/pledge-manager.tsx
+ * PURPOSE: Profile section listing the donor's recurring pledges with pause/resume/cancel and
+ *          amount changes
+ * WHAT CALLS THIS: app/profile/page.tsx (anchor #pledges; dunning emails and notifications link here)
+ * ACCESS: Named export, import { PledgeManager } from '@/components/pledge-manager'
+ * API:
+ * - GET /api/pledges on mount
+ * - PATCH /api/pledges/[id] with { action } or { amount }
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { PledgeStatus, PledgeView } from '@/lib/pledges'
+import { notify } from '@/lib/utils/notify'
+import { cn, formatCurrency, formatDate } from '@/lib/utils/format'
+import Spinner from '@/components/spinner'
+
+const STATUS_STYLES: Record<PledgeStatus, { label: string; className: string }> = {
+  pending: { label: 'Processing', className: 'bg-blue-50 text-blue-700 border-blue-200' },
+  active: { label: 'Active', className: 'bg-green-50 text-green-700 border-green-200' },
+  past_due: { label: 'Payment failed', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  paused: { label: 'Paused', className: 'bg-gray-100 text-gray-600 border-gray-200' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-50 text-gray-400 border-gray-200' },
+}
+
+export function PledgeManager() {
+  const [pledges, setPledges] = useState<PledgeView[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [editing, setEditing] = useState<{ id: string; amount: string } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch('/api/pledges', { credentials: 'include' })
+      .then(async (res) => {
+        const data = await res.json()
+        if (cancelled) return
+        if (!res.ok || !data.success) {
+          setError(data.error || 'Could not load your pledges')
+          return
+        }
+        setPledges(data.pledges)
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load your pledges')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const change = async (pledge: PledgeView, body: { action?: 'pause' | 'resume' | 'cancel'; amount?: number }) => {
+    setBusyId(pledge.id)
+    try {
+      const res = await fetch(`/api/pledges/${pledge.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+      if (!res.ok || !data.success) throw new Error(data.error || 'Could not update the pledge')
+      setPledges((prev) => prev?.map((p) => (p.id === pledge.id ? data.pledge : p)) ?? null)
+      setEditing(null)
+      notify(body.action === 'cancel' ? 'Pledge cancelled' : 'Pledge updated', 'success')
+    } catch (e) {
+      notify((e as Error).message, 'error')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const saveAmount = (pledge: PledgeView) => {
+    const amount = parseFloat((editing?.amount || '').replace(/,/g, '.'))
+    if (!Number.isFinite(amount) || amount <= 0) {
+      notify('Enter an amount greater than 0', 'error')
+      return
+    }
+    void change(pledge, { amount })
+  }
+
+  const confirmCancel = (pledge: PledgeView) => {
+    if (window.confirm(`Cancel your ${pledge.interval} pledge to "${pledge.campaignTitle}"? You will not be charged again.`)) {
+      void change(pledge, { action: 'cancel' })
+    }
+  }
+
+  return (
+    <div id="pledges" className="bg-white rounded-2xl card-shadow border border-gray-100 p-8 mt-8 scroll-mt-24">
+      <h3 className="text-2xl font-bold text-gray-900">Recurring Pledges</h3>
+      <p className="text-sm text-gray-600 mt-1 mb-6">Weekly, monthly and yearly gifts are charged automatically; each payment gets its own receipt.</p>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : !pledges ? (
+        <div className="flex items-center gap-3">
+          <Spinner size={20} />
+          <p className="text-gray-600">Loading pledges...</p>
+        </div>
+      ) : pledges.length === 0 ? (
+        <p className="text-gray-600">
+          You have no recurring pledges. Choose Weekly, Monthly or Yearly when you donate to <Link href="/" className="text-blue-600 hover:text-blue-800">a campaign</Link>.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {pledges.map((pledge) => {
+            const status = STATUS_STYLES[pledge.status]
+            const busy = busyId === pledge.id
+            const isEditing = editing?.id === pledge.id
+            return (
+              <li key={pledge.id} className="py-4">
+                <div className="flex items-start justify-between gap-4 flex-wrap">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Link href={`/campaign/${pledge.campaignId}`} className="font-semibold text-gray-900 hover:text-blue-600 truncate">
+                        {pledge.campaignTitle}
+                      </Link>
+                      <span className={cn('px-2 py-0.5 text-xs font-semibold rounded-full border', status.className)}>{status.label}</span>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {formatCurrency(pledge.amount)} {pledge.interval} via {pledge.chain}
+                      {' · '}{formatCurrency(pledge.totalCharged)} given in {pledge.chargeCount} payment{pledge.chargeCount !== 1 ? 's' : ''}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {pledge.status === 'pending' && 'Charging the first payment...'}
+                      {pledge.status === 'active' && `Next payment ${formatDate(pledge.dueAt)}`}
+                      {pledge.status === 'past_due' && `Last attempt failed${pledge.lastError ? ` (${pledge.lastError})` : ''}; retrying ${formatDate(pledge.nextChargeAt)}`}
+                      {pledge.status === 'paused' && 'Paused - no payments until you resume'}
+                      {pledge.status === 'cancelled' && `Cancelled${pledge.cancelledAt ? ` ${formatDate(pledge.cancelledAt)}` : ''}${pledge.cancelReason ? ` - ${pledge.cancelReason}` : ''}`}
+                    </p>
+                  </div>
+
+                  {pledge.status !== 'cancelled' && pledge.status !== 'pending' && (
+                    <div className="flex items-center gap-2">
+                      {busy && <Spinner size={16} />}
+                      {isEditing ? (
+                        <>
+                          <input
+                            type="number"
+                            min="1"
+                            value={editing.amount}
+                            onChange={(e) => setEditing({ id: pledge.id, amount: e.target.value })}
+                            className="w-24 px-2 py-1 border-2 border-gray-200 rounded-lg text-sm focus:outline-none focus:border-blue-500"
+                            aria-label="New amount"
+                          />
+                          <button
+                            onClick={() => saveAmount(pledge)}
+                            disabled={busy}
+                            className="px-3 py-1 text-sm rounded-full bg-blue-600 hover:bg-blue-700 text-white font-semibold disabled:opacity-60"
+                          >
+                            Save
+                          </button>
+                          <button onClick={() => setEditing(null)} className="px-3 py-1 text-sm rounded-full border border-gray-300 text-gray-700 hover:bg-gray-100">
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => setEditing({ id: pledge.id, amount: String(pledge.amount) })}
+                            disabled={busy}
+                            className="px-3 py-1 text-sm rounded-full border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-60"
+                          >
+                            Change amount
+                          </button>
+                          <button
+                            onClick={() => change(pledge, { action: pledge.status === 'paused' ? 'resume' : 'pause' })}
+                            disabled={busy}
+                            className="px-3 py-1 text-sm rounded-full border border-blue-200 text-blue-700 hover:bg-blue-50 disabled:opacity-60"
+                          >
+                            {pledge.status === 'paused' ? 'Resume' : 'Pause'}
+                          </button>
+                          <button
+                            onClick={() => confirmCancel(pledge)}
+                            disabled={busy}
+                            className="px-3 py-1 text-sm rounded-full border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-60"
+                          >
+                            Cancel pledge
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,13 +1,25 @@
+'use client'
+
+import { useState } from 'react'
 import { formatCurrency } from '@/lib/utils/format'
 import { cn } from '@/lib/utils/format'
+import { useCampaignStream } from '@/lib/realtime/client'
 
 interface ProgressPillProps {
   raised: number
   goal: number
   size?: 'sm' | 'md' | 'lg'
+  /** When set, raised/goal follow the campaign's live stream (lib/realtime) */
+  campaignId?: string
 }
 
-export function ProgressPill({ raised, goal, size = 'lg' }: ProgressPillProps) {
+export function ProgressPill({ raised: initialRaised, goal: initialGoal, size = 'lg', campaignId }: ProgressPillProps) {
+  const [live, setLive] = useState<{ raised: number; goal: number } | null>(null)
+  useCampaignStream(campaignId ?? null, {
+    onProgress: (progress) => setLive({ raised: progress.raised, goal: progress.goal }),
+  })
+  const raised = live?.raised ?? initialRaised
+  const goal = live?.goal ?? initialGoal
   const rawPercentage = goal > 0 ? (raised / goal) * 100 : 0
   const barPercentage = Math.min(rawPercentage, 100)
   
@@ -0,0 +1,44 @@
+/**
+ * FILE: components/recommended-campaigns.tsx
+ * PURPOSE: Titled row of recommended campaigns with the top reason under each card
+ * WHAT CALLS THIS: Home page ("Recommended for you"), campaign page ("Similar campaigns")
+ * ACCESS: Named export, import { RecommendedCampaigns } from '@/components/recommended-campaigns'
+ * DATA: Recommendations from lib/recommendations (server) or GET /api/recommendations; raised
+ *       totals stay live over the campaign stream (lib/realtime/client)
+ */
+
+'use client'
+
+import { CampaignCard } from '@/components/campaign-card'
+import type { Campaign as GridCampaign } from '@/components/campaigns-grid'
+import { useLiveCampaigns } from '@/lib/realtime/client'
+
+export type RecommendedCampaign = {
+  campaign: GridCampaign
+  reasons: string[]
+}
+
+export function RecommendedCampaigns({
+  title,
+  recommendations,
+}: {
+  title: string
+  recommendations: RecommendedCampaign[]
+}) {
+  const live = useLiveCampaigns(recommendations.map(rec => rec.campaign))
+  if (recommendations.length === 0) return null
+
+  return (
+    <section aria-label={title}>
+      <h2 className="text-2xl font-bold text-gray-900 mb-4">{title}</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+        {recommendations.map(({ reasons }, index) => (
+          <div key={live[index].id} className="h-full flex flex-col gap-2">
+            <CampaignCard campaign={live[index]} variant="minimal" />
+            {reasons[0] && <p className="text-sm text-gray-500 px-1">{reasons[0]}</p>}
+          </div>
+        ))}
+      </div>
+    </section>
+  )
+}
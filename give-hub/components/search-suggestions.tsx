@@ -0,0 +1,158 @@
+/**
+ * FILE: components/search-suggestions.tsx
+ * PURPOSE: Search-as-you-type dropdown for the nav search box - grouped, highlighted results
+ * WHAT CALLS THIS: components/nav.tsx (owns the input, keyboard handling and navigation)
+ * ACCESS: Named exports, import { useSearchSuggestions, SearchSuggestions } from '@/components/search-suggestions'
+ * API: GET /api/search/suggest?q= (debounced; stale requests are aborted)
+ */
+
+'use client'
+
+import { Fragment, useEffect, useMemo, useState, type ReactNode } from 'react'
+import type { HighlightRange, SearchSuggestions as SuggestionGroups } from '@/lib/search/suggest'
+import { cn } from '@/lib/utils/format'
+
+export type SuggestionKind = 'campaign' | 'creator' | 'category'
+
+/** One selectable row; `href` is where choosing it navigates */
+export type SuggestionItem = {
+  kind: SuggestionKind
+  key: string
+  label: string
+  highlights: HighlightRange[]
+  href: string
+  detail?: string
+}
+
+const GROUP_LABELS: Record<SuggestionKind, string> = {
+  campaign: 'Campaigns',
+  creator: 'Creators',
+  category: 'Categories',
+}
+
+const DEBOUNCE_MS = 120
+
+function toItems(groups: SuggestionGroups): Record<SuggestionKind, SuggestionItem[]> {
+  return {
+    campaign: groups.campaigns.map((c) => ({
+      kind: 'campaign', key: `campaign-${c.id}`, label: c.title, highlights: c.highlights, href: `/campaign/${c.id}`,
+    })),
+    creator: groups.creators.map((c) => ({
+      kind: 'creator', key: `creator-${c.id}`, label: c.username, highlights: c.highlights,
+      href: `/?${new URLSearchParams({ creator: c.username }).toString()}`,
+    })),
+    category: groups.categories.map((c) => ({
+      kind: 'category', key: `category-${c.name}`, label: c.name, highlights: c.highlights,
+      href: `/?${new URLSearchParams({ category: c.name }).toString()}`,
+      detail: `${c.count} campaign${c.count !== 1 ? 's' : ''}`,
+    })),
+  }
+}
+
+/**
+ * Suggestions for `query`, flattened in display order. The group matching the nav's search
+ * mode (`first`) is listed first, so arrowing down reaches it soonest.
+ */
+export function useSearchSuggestions(query: string, enabled: boolean, first: SuggestionKind = 'campaign') {
+  const [groups, setGroups] = useState<SuggestionGroups | null>(null)
+
+  useEffect(() => {
+    const q = query.trim()
+    if (!enabled || !q) {
+      setGroups(null)
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search/suggest?${new URLSearchParams({ q }).toString()}`, { signal: controller.signal })
+        const data = await res.json()
+        if (data?.success) setGroups(data.suggestions as SuggestionGroups)
+      } catch {
+        // Aborted by the next keystroke, or offline; keep the previous suggestions
+      }
+    }, DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [query, enabled])
+
+  return useMemo(() => {
+    if (!groups) return []
+    const byKind = toItems(groups)
+    const order: SuggestionKind[] = [first, ...(['campaign', 'creator', 'category'] as const).filter((k) => k !== first)]
+    return order.flatMap((kind) => byKind[kind])
+  }, [groups, first])
+}
+
+function Highlighted({ text, ranges }: { text: string; ranges: HighlightRange[] }) {
+  const parts: ReactNode[] = []
+  let at = 0
+  ranges.forEach(([start, end], i) => {
+    if (start > at) parts.push(text.slice(at, start))
+    parts.push(<mark key={i} className="bg-transparent text-blue-700 font-semibold">{text.slice(start, end)}</mark>)
+    at = end
+  })
+  if (at < text.length) parts.push(text.slice(at))
+  return <>{parts}</>
+}
+
+export function suggestionOptionId(listId: string, index: number) {
+  return `${listId}-option-${index}`
+}
+
+export function SearchSuggestions({
+  id,
+  items,
+  activeIndex,
+  onSelect,
+  onHover,
+}: {
+  id: string
+  items: SuggestionItem[]
+  activeIndex: number
+  onSelect: (item: SuggestionItem) => void
+  onHover: (index: number) => void
+}) {
+  if (items.length === 0) return null
+
+  return (
+    <ul
+      id={id}
+      role="listbox"
+      aria-label="Search suggestions"
+      className="absolute top-full mt-2 left-0 right-0 bg-white border border-gray-200 rounded-xl shadow-lg z-50 py-2 max-h-96 overflow-y-auto"
+    >
+      {items.map((item, index) => (
+        <Fragment key={item.key}>
+          {(index === 0 || items[index - 1].kind !== item.kind) && (
+            <li role="presentation" className="px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400">
+              {GROUP_LABELS[item.kind]}
+            </li>
+          )}
+          <li
+            id={suggestionOptionId(id, index)}
+            role="option"
+            aria-selected={index === activeIndex}
+            // Keep focus in the input so the blur does not close the dropdown before the click lands
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(item)}
+            onMouseEnter={() => onHover(index)}
+            className={cn(
+              'flex items-center justify-between gap-3 px-4 py-2 text-sm cursor-pointer',
+              index === activeIndex ? 'bg-blue-50 text-gray-900' : 'text-gray-700'
+            )}
+          >
+            <span className="truncate">
+              <Highlighted text={item.label} ranges={item.highlights} />
+            </span>
+            {item.detail && <span className="shrink-0 text-xs text-gray-400">{item.detail}</span>}
+          </li>
+        </Fragment>
+      ))}
+    </ul>
+  )
+}
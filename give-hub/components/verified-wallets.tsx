@@ -0,0 +1,118 @@
+/**
+ * FILE: components/verified-wallets.tsx
+ * PURPOSE: Profile section listing wallets proven with Sign-In with Ethereum, with link/unlink
+ * WHAT CALLS THIS: app/profile/page.tsx (anchor #wallets)
+ * ACCESS: Named export, import { VerifiedWallets } from '@/components/verified-wallets'
+ * API:
+ * - GET /api/auth/wallets on mount
+ * - POST /api/auth/wallets with a signed EIP-4361 message (lib/auth/siwe-client)
+ * - DELETE /api/auth/wallets/[address]
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { fetchVerifiedWallets, linkWalletToAccount, unlinkWalletFromAccount } from '@/lib/auth/siwe-client'
+import type { VerifiedWallet } from '@/lib/auth/wallets'
+import { notify } from '@/lib/utils/notify'
+import { formatDate } from '@/lib/utils/format'
+import Spinner from '@/components/spinner'
+
+export function VerifiedWallets() {
+  const [wallets, setWallets] = useState<VerifiedWallet[] | null>(null)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchVerifiedWallets()
+      .then((list) => {
+        if (!cancelled) setWallets(list)
+      })
+      .catch(() => {
+        if (!cancelled) setWallets([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const link = async () => {
+    setBusy('link')
+    try {
+      const result = await linkWalletToAccount()
+      if (!result.ok) throw new Error(result.error)
+      setWallets((prev) => [...(prev ?? []).filter((w) => w.address !== result.wallet.address), result.wallet])
+      notify('Wallet verified and linked', 'success')
+    } catch (e) {
+      notify((e as Error).message, 'error')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const unlink = async (wallet: VerifiedWallet) => {
+    setBusy(wallet.address)
+    try {
+      const result = await unlinkWalletFromAccount(wallet.address)
+      if (!result.ok) throw new Error(result.error)
+      setWallets((prev) => prev?.filter((w) => w.address !== wallet.address) ?? null)
+      notify('Wallet unlinked', 'success')
+    } catch (e) {
+      notify((e as Error).message, 'error')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div id="wallets" className="bg-white rounded-2xl card-shadow border border-gray-100 p-8 mt-8 scroll-mt-24">
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <h3 className="text-2xl font-bold text-gray-900">Verified Wallets</h3>
+          <p className="text-sm text-gray-600 mt-1 mb-6">
+            Sign a message with your wallet to prove it is yours. Verified wallets can sign in, receive credit for on-chain donations and prove campaign ownership.
+          </p>
+        </div>
+        <button
+          onClick={link}
+          disabled={busy !== null}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-5 py-2 rounded-full font-semibold transition-colors"
+        >
+          {busy === 'link' ? 'Waiting for wallet...' : 'Verify a wallet'}
+        </button>
+      </div>
+
+      {!wallets ? (
+        <div className="flex items-center gap-3">
+          <Spinner size={20} />
+          <p className="text-gray-600">Loading wallets...</p>
+        </div>
+      ) : wallets.length === 0 ? (
+        <p className="text-gray-600">No verified wallets yet. Addresses typed into your profile are shown as unverified.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {wallets.map((wallet) => (
+            <li key={wallet.address} className="py-4 flex items-center justify-between gap-4 flex-wrap">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm text-gray-900 truncate">{wallet.address}</span>
+                  <span className="text-xs px-2 py-0.5 rounded-full border bg-green-50 text-green-700 border-green-200">Verified</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Signed on chain {wallet.chainId} · {formatDate(wallet.verifiedAt)}
+                </p>
+              </div>
+              <button
+                onClick={() => unlink(wallet)}
+                disabled={busy !== null}
+                className="text-sm text-red-600 hover:text-red-800 disabled:text-gray-400 font-semibold"
+              >
+                {busy === wallet.address ? 'Unlinking...' : 'Unlink'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+/**
+ * FILE: instrumentation.ts
+ * PURPOSE: Next.js server startup hook - starts in-process background jobs
+ * NOTES:
+ * - Node.js runtime only; the edge runtime has no timers that outlive a request
+ * - Client addresses: records each request's peer address for the rate limiter (lib/rate-limit/connection)
+ * - Pledge scheduler: charges due recurring pledges (lib/pledges/scheduler)
+ * - Chain indexer: follows the fundraiser contract's events when on-chain payments are configured
+ *   (lib/indexer/scheduler)
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  const { trackConnectionAddress } = await import('@/lib/rate-limit/connection');
+  trackConnectionAddress();
+  const { startPledgeScheduler } = await import('@/lib/pledges/scheduler');
+  startPledgeScheduler();
+  const { startIndexer } = await import('@/lib/indexer/scheduler');
+  startIndexer();
+}
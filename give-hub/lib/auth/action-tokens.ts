@@ -0,0 +1,101 @@
+/**
+ * FILE: lib/auth/action-tokens.ts
+ * PURPOSE: Signed, single-use tokens for email links (email verification, password reset)
+ * ACCESS: Server-only. Used by authService and the /api/auth/verify-email and
+ *         /api/auth/password-reset routes
+ * MODEL:
+ * - The token is an HS256 JWT (`sub` = user id, `purpose`, `jti`, `exp`) so tampering is
+ *   detected without a lookup
+ * - Each `jti` has a record in the `auth_tokens` collection; consuming the token marks it
+ *   used inside a transaction, so a link works exactly once
+ * - Tokens are bound to the email address they were sent to; changing the address
+ *   invalidates outstanding links
+ * MIGRATION NOTES:
+ * - MongoDB: `auth_tokens` collection with a TTL index on expiresAt
+ */
+
+import { randomBytes } from 'crypto';
+import { SignJWT, jwtVerify } from 'jose';
+import { db } from '@/_dev/mock-db/database';
+import type { User, Creator } from '@/_dev/mock-db/database';
+import { jwtKey as key } from './secret';
+
+const AUTH_TOKENS = 'auth_tokens';
+
+export type ActionTokenPurpose = 'verify_email' | 'password_reset';
+
+// Lifetimes in seconds
+const TTL: Record<ActionTokenPurpose, number> = {
+  verify_email: 48 * 60 * 60,
+  password_reset: 30 * 60,
+};
+
+type ActionTokenRecord = {
+  id: string;
+  purpose: ActionTokenPurpose;
+  userId: string;
+  email: string;
+  createdAt: string;
+  expiresAt: string;
+  usedAt?: string;
+};
+
+export type ConsumeResult =
+  | { ok: true; user: User | Creator }
+  | { ok: false; error: string };
+
+export async function issueActionToken(user: User | Creator, purpose: ActionTokenPurpose): Promise<string> {
+  const id = randomBytes(16).toString('hex');
+  const now = Date.now();
+
+  db.transaction(() => {
+    // Only the newest link of each kind stays valid
+    for (const record of db.listRecords<ActionTokenRecord>(AUTH_TOKENS, { userId: user.id, purpose })) {
+      if (!record.usedAt) db.updateRecord<ActionTokenRecord>(AUTH_TOKENS, record.id, { usedAt: new Date(now).toISOString() });
+    }
+    db.insertRecord<ActionTokenRecord>(AUTH_TOKENS, {
+      id,
+      purpose,
+      userId: user.id,
+      email: user.email,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + TTL[purpose] * 1000).toISOString(),
+    });
+  });
+
+  return new SignJWT({ purpose })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(user.id)
+    .setJti(id)
+    .setIssuedAt()
+    .setExpirationTime(`${TTL[purpose]}s`)
+    .sign(key);
+}
+
+/** Validate a token for `purpose` and mark it used. Fails for expired, reused or tampered tokens. */
+export async function consumeActionToken(token: string, purpose: ActionTokenPurpose): Promise<ConsumeResult> {
+  let payload;
+  try {
+    ({ payload } = await jwtVerify(token, key, { algorithms: ['HS256'] }));
+  } catch {
+    return { ok: false, error: 'This link is invalid or has expired' };
+  }
+  if (payload.purpose !== purpose || !payload.jti || !payload.sub) {
+    return { ok: false, error: 'This link is invalid or has expired' };
+  }
+  const tokenId = payload.jti;
+  const userId = payload.sub;
+
+  return db.transaction((): ConsumeResult => {
+    const record = db.findRecord<ActionTokenRecord>(AUTH_TOKENS, tokenId);
+    if (!record || record.usedAt || record.userId !== userId) {
+      return { ok: false, error: 'This link has already been used' };
+    }
+    const user = db.findUserById(userId);
+    if (!user || user.email !== record.email) {
+      return { ok: false, error: 'This link is no longer valid' };
+    }
+    db.updateRecord<ActionTokenRecord>(AUTH_TOKENS, record.id, { usedAt: new Date().toISOString() });
+    return { ok: true, user };
+  });
+}
@@ -1,13 +1,16 @@
 'use client';
 
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
 import type { User, Creator } from '@/lib/utils/types';
+import { signSiweMessage } from './siwe-client';
 
 // Define the shape of the authentication context
 interface AuthContextType {
   user: User | Creator | null;
   signin: (emailOrUsername: string, password: string) => Promise<{ success: boolean; error?: string }>;
   signup: (username: string, email: string, password: string, role: 'user' | 'creator') => Promise<{ success: boolean; error?: string }>;
+  // Sign-In with Ethereum; creates a wallet-only account (with `role`) when the wallet is not linked yet
+  signinWithWallet: (role?: 'user' | 'creator') => Promise<{ success: boolean; created?: boolean; error?: string }>;
   signout: () => Promise<void>;
   isLoading: boolean;
   error: string | null;
@@ -18,6 +21,7 @@ const AuthContext = createContext<AuthContextType>({
   user: null,
   signin: async () => ({ success: false }),
   signup: async () => ({ success: false }),
+  signinWithWallet: async () => ({ success: false }),
   signout: async () => {},
   isLoading: true,
   error: null,
@@ -28,20 +32,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | Creator | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Access token lifetime in seconds, reported by signin/signup/refresh
+  const [accessTtl, setAccessTtl] = useState<number | null>(null);
 
-  // Check for an existing session on component mount
+  // Rotate the refresh token and get a fresh access token; signs the user out when the session is gone
+  const refreshSession = useCallback(async () => {
+    const res = await fetch('/api/auth/refresh', { method: 'POST' });
+    if (!res.ok) {
+      setUser(null);
+      setAccessTtl(null);
+      return false;
+    }
+    const data = await res.json();
+    setUser(data.user);
+    setAccessTtl(data.expiresIn ?? null);
+    return true;
+  }, []);
+
+  // Restore the session on mount: the refresh cookie outlives the short access token
   useEffect(() => {
     const checkUserSession = async () => {
       setIsLoading(true);
       try {
-        // This endpoint should verify the token and return the user
-        const res = await fetch('/api/auth/me');
-        if (res.ok) {
-          const data = await res.json();
-          setUser(data.user);
-        } else {
-          setUser(null);
-        }
+        await refreshSession();
       } catch (err) {
         console.error(err);
         setError('Failed to fetch user session');
@@ -50,7 +63,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
     };
     checkUserSession();
-  }, []);
+  }, [refreshSession]);
+
+  // Keep the access token fresh while signed in (one minute before it expires)
+  const signedIn = !!user;
+  useEffect(() => {
+    if (!signedIn || !accessTtl) return;
+    const timer = setInterval(() => {
+      refreshSession().catch(err => console.error(err));
+    }, Math.max(accessTtl - 60, 30) * 1000);
+    return () => clearInterval(timer);
+  }, [signedIn, accessTtl, refreshSession]);
 
   const signup = async (username: string, email: string, password: string, role: 'user' | 'creator') => {
     setIsLoading(true);
@@ -64,6 +87,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const result = await res.json();
       if (res.ok) {
         setUser(result.user);
+        setAccessTtl(result.expiresIn ?? null);
         return { success: true };
       } else {
         const details = result?.details ? Object.values(result.details).join('\n') : '';
@@ -92,6 +116,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const result = await res.json();
       if (res.ok) {
         setUser(result.user);
+        setAccessTtl(result.expiresIn ?? null);
         return { success: true };
       } else {
         const details = result?.details ? Object.values(result.details).join('\n') : '';
@@ -108,11 +133,45 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const signinWithWallet = async (role: 'user' | 'creator' = 'user') => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const signed = await signSiweMessage('Sign in to GiveHub with your wallet.');
+      if (!signed.ok) {
+        setError(signed.error);
+        return { success: false, error: signed.error };
+      }
+      const res = await fetch('/api/auth/siwe/signin', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: signed.message, signature: signed.signature, role }),
+      });
+      const result = await res.json();
+      if (res.ok) {
+        setUser(result.user);
+        setAccessTtl(result.expiresIn ?? null);
+        return { success: true, created: Boolean(result.created) };
+      } else {
+        const message = result.error || 'Wallet sign-in failed';
+        setError(message);
+        return { success: false, error: message };
+      }
+    } catch (err) {
+      console.error(err);
+      setError('An unexpected error occurred during wallet sign-in');
+      return { success: false, error: 'An unexpected error occurred during wallet sign-in' };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const signout = async () => {
     setIsLoading(true);
     try {
       await fetch('/api/auth/signout', { method: 'POST' });
       setUser(null);
+      setAccessTtl(null);
     } catch (err) {
         console.error(err);
       setError('Signout failed');
@@ -122,7 +181,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, signin, signup, signout, isLoading, error }}>
+    <AuthContext.Provider value={{ user, signin, signup, signinWithWallet, signout, isLoading, error }}>
       {children}
     </AuthContext.Provider>
   );
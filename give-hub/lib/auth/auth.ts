@@ -2,26 +2,46 @@ import { db } from '@/_dev/mock-db/database';
 import type { UserRole, User, Creator } from '@/_dev/mock-db/database';
 import { JWTPayload } from 'jose';
 import { SignJWT, jwtVerify } from 'jose';
-
-const secretKey = process.env.JWT_SECRET || 'fallback-secret-key-for-development';
-const key = new TextEncoder().encode(secretKey);
-
-const mockHash = async (password: string) => `hashed_${password}`;
-const mockCompare = async (password: string, hash: string) => `hashed_${password}` === hash;
+import type { Hex } from '@/lib/evm';
+import { jwtKey as key } from './secret';
+import { consumeActionToken } from './action-tokens';
+import { sendPasswordResetEmail, sendVerificationEmail } from './emails';
+import { clearFailedLogins, lockoutRemaining, recordFailedLogin } from './lockout';
+import { burnPasswordCheck, checkPasswordPolicy, hashPassword, needsRehash, verifyPassword } from './password';
+import { findUserByVerifiedWallet, linkVerifiedWallet } from './wallets';
+import {
+  ACCESS_TOKEN_TTL,
+  createSession,
+  findActiveSession,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+  sessionIdFromRefreshToken,
+  type SessionMeta,
+} from './sessions';
 
 interface AuthPayload extends JWTPayload {
   userId: string;
   role: UserRole;
 }
 
-async function encrypt(payload: AuthPayload) {
+// Short-lived access token; `jti` ties it to a server-side session that can be revoked
+async function encrypt(payload: AuthPayload, sessionId: string) {
   return new SignJWT(payload)
     .setProtectedHeader({ alg: 'HS256' })
+    .setJti(sessionId)
     .setIssuedAt()
-    .setExpirationTime('1d')
+    .setExpirationTime(`${ACCESS_TOKEN_TTL}s`)
     .sign(key);
 }
 
+// New session + first access/refresh token pair for a successful signin/signup
+async function startSession(user: User | Creator, meta?: SessionMeta) {
+  const { session, refreshToken } = createSession(user.id, meta);
+  const token = await encrypt({ userId: user.id, role: user.role }, session.id);
+  return { token, refreshToken, sessionId: session.id };
+}
+
 export interface SignupData {
   username: string;
   email: string;
@@ -34,8 +54,17 @@ export interface SigninData {
   password: string;
 }
 
+export interface WalletSignupData {
+  /** Already verified with verifySiwe (lib/auth/siwe.ts) */
+  address: Hex;
+  chainId: number;
+  /** Defaults to `wallet-` plus the start of the address */
+  username?: string;
+  role: UserRole;
+}
+
 export const authService = {
-  async signup(data: SignupData) {
+  async signup(data: SignupData, meta?: SessionMeta) {
     // Uniqueness checks
     const byEmail = await db.findUserByEmail(data.email);
     if (byEmail) {
@@ -46,20 +75,22 @@ export const authService = {
       return { success: false, error: 'Username already in use' };
     }
 
-    const hashedPassword = await mockHash(data.password);
+    const hashedPassword = await hashPassword(data.password);
     // Route creator signups to proper creator creation to ensure required fields
     const created: User | Creator = data.role === 'creator'
-      ? db.createCreator({ ...(data as Omit<Creator, 'id' | 'createdAt' | 'updatedAt'>), password: hashedPassword })
-      : db.createUser({ ...(data as Omit<User, 'id' | 'createdAt' | 'updatedAt'>), password: hashedPassword });
+      ? db.createCreator({ ...(data as Omit<Creator, 'id' | 'createdAt' | 'updatedAt'>), password: hashedPassword, emailVerified: false })
+      : db.createUser({ ...(data as Omit<User, 'id' | 'createdAt' | 'updatedAt'>), password: hashedPassword, emailVerified: false });
+
+    await sendVerificationEmail(created);
 
-    const token = await encrypt({ userId: created.id, role: created.role });
+    const { token, refreshToken, sessionId } = await startSession(created, meta);
 
     // Sanitize user object (do not expose password)
     const safeUser = sanitizeUser(created);
-    return { success: true, user: safeUser, token };
+    return { success: true, user: safeUser, token, refreshToken, sessionId };
   },
 
-  async signin(data: SigninData) {
+  async signin(data: SigninData, meta?: SessionMeta) {
     // Support both emailOrUsername and legacy email field (during migration)
     const idObj = data as unknown as { emailOrUsername?: string; email?: string };
     const identifier = (idObj.emailOrUsername ?? idObj.email ?? '').trim();
@@ -72,17 +103,156 @@ export const authService = {
       user = await db.findUserByUsername(identifier);
     }
     if (!user) {
+      await burnPasswordCheck(data.password);
+      return { success: false, error: 'Invalid credentials' };
+    }
+
+    // Locked accounts are refused without checking the password, and look exactly like an
+    // unknown account (same error, same hashing time); the owner was told by email
+    if (lockoutRemaining(user) > 0) {
+      await burnPasswordCheck(data.password);
       return { success: false, error: 'Invalid credentials' };
     }
 
-    const isPasswordValid = await mockCompare(data.password, user.password);
+    const isPasswordValid = await verifyPassword(data.password, user.password);
     if (!isPasswordValid) {
+      recordFailedLogin(user, meta);
       return { success: false, error: 'Invalid credentials' };
     }
+    clearFailedLogins(user);
+
+    // Transparently upgrade legacy `hashed_` values (and outdated scrypt parameters)
+    if (needsRehash(user.password)) {
+      db.updateUser(user.id, { password: await hashPassword(data.password) });
+    }
 
-    const token = await encrypt({ userId: user.id, role: user.role });
+    const { token, refreshToken, sessionId } = await startSession(user, meta);
     const safeUser = sanitizeUser(user);
-    return { success: true, user: safeUser, token };
+    return { success: true, user: safeUser, token, refreshToken, sessionId };
+  },
+
+  // Sign-In with Ethereum: the signature already proved control of `address`
+  async signinWithWallet(address: Hex, meta?: SessionMeta) {
+    const user = findUserByVerifiedWallet(address);
+    if (!user) {
+      return { success: false, error: 'No account is linked to this wallet' };
+    }
+    const { token, refreshToken, sessionId } = await startSession(user, meta);
+    return { success: true, user: sanitizeUser(user), token, refreshToken, sessionId };
+  },
+
+  // Wallet-only account: no email or password, the verified wallet is its sign-in method
+  async signupWithWallet(data: WalletSignupData, meta?: SessionMeta) {
+    if (findUserByVerifiedWallet(data.address)) {
+      return { success: false, error: 'This wallet is already linked to an account' };
+    }
+    let username = data.username?.trim();
+    if (username) {
+      if (db.findUserByUsername(username)) {
+        return { success: false, error: 'Username already in use' };
+      }
+    } else {
+      const base = `wallet-${data.address.slice(2, 8).toLowerCase()}`;
+      username = base;
+      for (let n = 2; db.findUserByUsername(username); n++) username = `${base}-${n}`;
+    }
+
+    const fields = { username, email: '', password: '', role: data.role, emailVerified: false };
+    const created: User | Creator = db.transaction(() => {
+      const user = data.role === 'creator'
+        ? db.createCreator(fields as Omit<Creator, 'id' | 'createdAt' | 'updatedAt'>)
+        : db.createUser(fields);
+      const linked = linkVerifiedWallet(user.id, data.address, data.chainId);
+      if (!linked.ok) throw new Error(linked.error);
+      return user;
+    });
+
+    const { token, refreshToken, sessionId } = await startSession(created, meta);
+    return { success: true, user: sanitizeUser(created), token, refreshToken, sessionId };
+  },
+
+  // Rotate the refresh token and mint a new access token for the same session
+  async refresh(refreshToken: string) {
+    const rotated = rotateRefreshToken(refreshToken);
+    if (!rotated.ok) {
+      return { success: false, error: rotated.error };
+    }
+    const user = db.findUserById(rotated.session.userId);
+    if (!user) {
+      revokeSession(rotated.session.id);
+      return { success: false, error: 'User not found' };
+    }
+    const token = await encrypt({ userId: user.id, role: user.role }, rotated.session.id);
+    return {
+      success: true,
+      user: sanitizeUser(user),
+      token,
+      refreshToken: rotated.refreshToken,
+      sessionId: rotated.session.id,
+    };
+  },
+
+  // Revoke the session behind whichever token the client still has
+  async signout(tokens: { token?: string; refreshToken?: string }) {
+    let sessionId = tokens.refreshToken ? sessionIdFromRefreshToken(tokens.refreshToken) : null;
+    if (!sessionId && tokens.token) {
+      const verified = await this.verifyToken(tokens.token);
+      sessionId = verified.success ? verified.sessionId ?? null : null;
+    }
+    if (sessionId) revokeSession(sessionId, undefined, 'signout');
+    return { success: true };
+  },
+
+  async requestEmailVerification(userId: string) {
+    const user = db.findUserById(userId);
+    if (!user) {
+      return { success: false, error: 'User not found' };
+    }
+    if (isEmailVerified(user)) {
+      return { success: false, error: 'Email already verified' };
+    }
+    await sendVerificationEmail(user);
+    return { success: true };
+  },
+
+  async verifyEmail(token: string) {
+    const consumed = await consumeActionToken(token, 'verify_email');
+    if (!consumed.ok) {
+      return { success: false, error: consumed.error };
+    }
+    db.updateUser(consumed.user.id, { emailVerified: true, emailVerifiedAt: new Date().toISOString() });
+    return { success: true, userId: consumed.user.id };
+  },
+
+  // Always succeeds so the response does not reveal which addresses have accounts
+  async requestPasswordReset(email: string) {
+    const user = db.findUserByEmail(email.trim().toLowerCase());
+    if (user) {
+      await sendPasswordResetEmail(user);
+    }
+    return { success: true };
+  },
+
+  async resetPassword(token: string, password: string) {
+    // Check the policy first so a rejected password does not burn the link
+    const policyError = checkPasswordPolicy(password);
+    if (policyError) {
+      return { success: false, error: policyError };
+    }
+    const consumed = await consumeActionToken(token, 'password_reset');
+    if (!consumed.ok) {
+      return { success: false, error: consumed.error };
+    }
+    const { user } = consumed;
+    // Receiving the reset email proves control of the address
+    db.updateUser(user.id, {
+      password: await hashPassword(password),
+      ...(isEmailVerified(user) ? {} : { emailVerified: true, emailVerifiedAt: new Date().toISOString() }),
+    });
+    clearFailedLogins(user);
+    // Sign out every device that used the old password
+    revokeAllSessions(user.id);
+    return { success: true };
   },
 
   async verifyToken(token: string) {
@@ -90,7 +260,12 @@ export const authService = {
       const { payload } = await jwtVerify(token, key, {
         algorithms: ['HS256'],
       });
-      return { success: true, userId: payload.userId as string, role: payload.role as UserRole };
+      // Tokens are only as good as their session: reject revoked, expired or pre-session tokens
+      const session = payload.jti ? findActiveSession(payload.jti) : null;
+      if (!session || session.userId !== payload.userId) {
+        return { success: false, error: 'Session revoked' };
+      }
+      return { success: true, userId: payload.userId as string, role: payload.role as UserRole, sessionId: session.id };
     } catch (error) {
       console.error('JWT verification failed:', error);
       return { success: false, error: 'Invalid token' };
@@ -103,6 +278,14 @@ function sanitizeUser(u: User | Creator): Omit<User | Creator, 'password'> {
   return rest;
 }
 
+/**
+ * Accounts created before email verification existed have no `emailVerified` flag and are
+ * treated as verified; new signups start with `emailVerified: false`.
+ */
+export function isEmailVerified(user: Pick<User, 'emailVerified'>): boolean {
+  return user.emailVerified !== false;
+}
+
 export function validateSignupInput(data: Partial<SignupData & { confirmPassword?: string }>) {
   const errors: Record<string, string> = {};
   if (!data.username || data.username.length < 3) {
@@ -111,8 +294,9 @@ export function validateSignupInput(data: Partial<SignupData & { confirmPassword
   if (!data.email || !/\S+@\S+\.\S+/.test(data.email)) {
     errors.email = 'Invalid email address';
   }
-  if (!data.password || data.password.length < 6) {
-    errors.password = 'Password must be at least 6 characters long';
+  const passwordError = data.password ? checkPasswordPolicy(data.password) : 'Password is required';
+  if (passwordError) {
+    errors.password = passwordError;
   }
   if (!data.role || !['user', 'creator'].includes(data.role)) {
     errors.role = 'Role must be either user or creator';
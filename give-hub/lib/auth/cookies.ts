@@ -0,0 +1,61 @@
+/**
+ * FILE: lib/auth/cookies.ts
+ * PURPOSE: One place that knows the auth cookie names, lifetimes and flags
+ * ACCESS: Server-only. Used by the /api/auth/* routes
+ * NOTES:
+ * - `auth-token` holds the short-lived access JWT and is sent with every request
+ * - `refresh-token` is scoped to /api/auth so it only travels to the refresh/signout endpoints
+ * - `siwe-nonce` ties a Sign-In with Ethereum nonce to the browser that asked for it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp } from '@/lib/rate-limit';
+import { ACCESS_TOKEN_TTL, REFRESH_TOKEN_TTL, type SessionMeta } from './sessions';
+import { SIWE_NONCE_TTL } from './siwe';
+
+export const ACCESS_COOKIE = 'auth-token';
+export const REFRESH_COOKIE = 'refresh-token';
+const REFRESH_COOKIE_PATH = '/api/auth';
+export const SIWE_NONCE_COOKIE = 'siwe-nonce';
+
+const baseCookie = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+};
+
+export function setAuthCookies(response: NextResponse, tokens: { token: string; refreshToken?: string }) {
+  response.cookies.set(ACCESS_COOKIE, tokens.token, {
+    ...baseCookie,
+    // maxAge is in seconds
+    maxAge: ACCESS_TOKEN_TTL,
+  });
+  if (tokens.refreshToken) {
+    response.cookies.set(REFRESH_COOKIE, tokens.refreshToken, {
+      ...baseCookie,
+      path: REFRESH_COOKIE_PATH,
+      maxAge: REFRESH_TOKEN_TTL,
+    });
+  }
+}
+
+export function clearAuthCookies(response: NextResponse) {
+  response.cookies.set(ACCESS_COOKIE, '', { ...baseCookie, maxAge: 0 });
+  response.cookies.set(REFRESH_COOKIE, '', { ...baseCookie, path: REFRESH_COOKIE_PATH, maxAge: 0 });
+}
+
+export function setSiweNonceCookie(response: NextResponse, nonce: string) {
+  response.cookies.set(SIWE_NONCE_COOKIE, nonce, { ...baseCookie, path: REFRESH_COOKIE_PATH, maxAge: SIWE_NONCE_TTL });
+}
+
+export function clearSiweNonceCookie(response: NextResponse) {
+  response.cookies.set(SIWE_NONCE_COOKIE, '', { ...baseCookie, path: REFRESH_COOKIE_PATH, maxAge: 0 });
+}
+
+/** Device details recorded on a new session so users can tell their sessions apart */
+export function sessionMetaFrom(request: NextRequest): SessionMeta {
+  return {
+    userAgent: request.headers.get('user-agent') || undefined,
+    ip: getClientIp(request) ?? undefined,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * FILE: lib/auth/emails.ts
+ * PURPOSE: Account emails (verification, password reset) built on lib/mailer
+ * ACCESS: Server-only. Used by authService
+ * NOTES:
+ * - Links point at NEXT_PUBLIC_APP_URL; in development open the .eml files in _dev/outbox
+ */
+
+import type { User, Creator } from '@/_dev/mock-db/database';
+import { sendMailInBackground } from '@/lib/mailer';
+import { issueActionToken } from './action-tokens';
+
+const appUrl = () => (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+export async function sendVerificationEmail(user: User | Creator): Promise<void> {
+  const token = await issueActionToken(user, 'verify_email');
+  const link = `${appUrl()}/api/auth/verify-email?token=${encodeURIComponent(token)}`;
+  sendMailInBackground({
+    to: user.email,
+    subject: 'Confirm your GiveHub email address',
+    text: `Hi ${user.username},
+
+Please confirm your email address by opening this link within 48 hours:
+${link}
+
+If you did not create a GiveHub account, you can ignore this email.
+
+- The GiveHub team
+`,
+  });
+}
+
+export async function sendPasswordResetEmail(user: User | Creator): Promise<void> {
+  const token = await issueActionToken(user, 'password_reset');
+  const link = `${appUrl()}/auth/reset-password?token=${encodeURIComponent(token)}`;
+  sendMailInBackground({
+    to: user.email,
+    subject: 'Reset your GiveHub password',
+    text: `Hi ${user.username},
+
+Someone asked to reset the password for your GiveHub account. Open this link within 30 minutes to choose a new one:
+${link}
+
+The link works once. If you did not ask for a reset, you can ignore this email; your password stays the same.
+
+- The GiveHub team
+`,
+  });
+}
@@ -1,60 +1,27 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/_dev/mock-db/database';
-import { authService, validateSigninInput, validateSignupInput, type SigninData, type SignupData } from './auth';
-
-export { authService, validateSigninInput, validateSignupInput };
-export type { SigninData, SignupData };
+import { authService, isEmailVerified, validateSigninInput, validateSignupInput, type SigninData, type SignupData, type WalletSignupData } from './auth';
+
+export { authService, isEmailVerified, validateSigninInput, validateSignupInput };
+export type { SigninData, SignupData, WalletSignupData };
+export {
+  ACCESS_COOKIE,
+  REFRESH_COOKIE,
+  SIWE_NONCE_COOKIE,
+  setAuthCookies,
+  clearAuthCookies,
+  setSiweNonceCookie,
+  clearSiweNonceCookie,
+  sessionMetaFrom,
+} from './cookies';
+export { issueSiweNonce, verifySiwe, SIWE_NONCE_TTL } from './siwe';
+export type { SiweVerifyResult } from './siwe';
+export { createSiweMessage, parseSiweMessage } from './siwe-message';
+export type { SiweMessage } from './siwe-message';
+export { listVerifiedWallets, verifiedAddressesOf, findUserByVerifiedWallet, linkVerifiedWallet, unlinkVerifiedWallet } from './wallets';
+export type { VerifiedWallet, WalletLinkResult } from './wallets';
+export { listActiveSessions, revokeSession, revokeAllSessions } from './sessions';
+export type { Session, SessionSummary, SessionMeta } from './sessions';
+export { authMiddleware, getRequestUser, getCookieUser } from './middleware';
+export type { AuthedRequest } from './middleware';
+export { withPolicy, allOf, anyOf, authenticated, hasRole, isAdmin, hasVerifiedEmail, hasVerifiedWallet, hasVerifiedContact, ownsCampaign, fromParam } from './policies';
+export type { Policy, PolicyContext, PolicyDecision } from './policies';
 export { AuthProvider, useAuth } from './auth-context';
-
-// Augmented request type for handlers that need user info
-export type AuthedRequest = NextRequest & {
-  user: {
-    id: string;
-    username: string;
-    email: string;
-    role: string;
-  };
-};
-
-// Simple auth middleware for route handlers (GET/POST etc.)
-export function authMiddleware(
-  handler: (request: AuthedRequest) => Promise<NextResponse> | NextResponse
-) {
-  return async (request: NextRequest) => {
-    try {
-      const token = request.cookies.get('auth-token')?.value;
-      if (!token) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-      }
-
-      const verify = await authService.verifyToken(token);
-      if (!verify.success || !verify.userId) {
-        return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-      }
-
-      const user = db.findUserById(verify.userId);
-      if (!user) {
-        return NextResponse.json({ error: 'User not found' }, { status: 401 });
-      }
-
-      const minimalUser = {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        role: user.role,
-      };
-
-      // Create a shallow clone of request with user attached
-      const reqWithUser = Object.assign(
-        Object.create(Object.getPrototypeOf(request)),
-        request,
-        { user: minimalUser }
-      ) as AuthedRequest;
-
-      return handler(reqWithUser);
-    } catch (error) {
-      console.error('authMiddleware error:', error);
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-  };
-}
@@ -0,0 +1,85 @@
+/**
+ * FILE: lib/auth/lockout.ts
+ * PURPOSE: Temporary account lockout after repeated failed sign-ins
+ * ACCESS: Server-only. Used by authService.signin
+ * RULES (configurable through env, see env.example):
+ * - LOGIN_LOCKOUT_THRESHOLD failures (default 5) within LOGIN_LOCKOUT_WINDOW_MINUTES (default 15)
+ *   lock the account for LOGIN_LOCKOUT_MINUTES (default 15)
+ * - The owner gets an email when the lock starts; a successful sign-in clears the counter
+ * - Sign-in answers a locked account with the same "Invalid credentials" as an unknown one, so
+ *   the lock does not reveal that the account exists; only the owner's email says why
+ * - State lives on the user record, so it survives restarts and applies across IPs
+ */
+
+import { db } from '@/_dev/mock-db/database';
+import type { User, Creator } from '@/_dev/mock-db/database';
+import { sendMailInBackground } from '@/lib/mailer';
+import type { SessionMeta } from './sessions';
+
+const THRESHOLD = Number(process.env.LOGIN_LOCKOUT_THRESHOLD) || 5;
+const WINDOW_MS = (Number(process.env.LOGIN_LOCKOUT_WINDOW_MINUTES) || 15) * 60 * 1000;
+const LOCK_MS = (Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15) * 60 * 1000;
+
+/** Seconds until the account unlocks, or 0 when it is not locked */
+export function lockoutRemaining(user: User | Creator): number {
+  if (!user.lockedUntil) return 0;
+  const ms = new Date(user.lockedUntil).getTime() - Date.now();
+  return ms > 0 ? Math.ceil(ms / 1000) : 0;
+}
+
+/**
+ * Count a failed sign-in; returns the lock length in seconds when this failure triggered a lock.
+ * The counter is re-read and written in one transaction so concurrent failures all count.
+ */
+export function recordFailedLogin(user: User | Creator, meta: SessionMeta = {}): number {
+  const now = Date.now();
+  const locked = db.transaction(() => {
+    const current = db.findUserById(user.id) ?? user;
+    const windowStart = current.firstFailedLoginAt ? new Date(current.firstFailedLoginAt).getTime() : 0;
+    const inWindow = now - windowStart < WINDOW_MS;
+    const attempts = (inWindow ? current.failedLoginAttempts || 0 : 0) + 1;
+
+    if (attempts < THRESHOLD) {
+      db.updateUser(user.id, {
+        failedLoginAttempts: attempts,
+        firstFailedLoginAt: inWindow ? current.firstFailedLoginAt : new Date(now).toISOString(),
+      });
+      return null;
+    }
+
+    const lockedUntil = new Date(now + LOCK_MS);
+    db.updateUser(user.id, {
+      failedLoginAttempts: 0,
+      firstFailedLoginAt: undefined,
+      lockedUntil: lockedUntil.toISOString(),
+    });
+    return { lockedUntil, attempts };
+  });
+
+  if (!locked) return 0;
+  notifyLockout(user, locked.lockedUntil, locked.attempts, meta);
+  return Math.ceil(LOCK_MS / 1000);
+}
+
+export function clearFailedLogins(user: User | Creator): void {
+  if (!user.failedLoginAttempts && !user.lockedUntil) return;
+  db.updateUser(user.id, { failedLoginAttempts: 0, firstFailedLoginAt: undefined, lockedUntil: undefined });
+}
+
+function notifyLockout(user: User | Creator, lockedUntil: Date, attempts: number, meta: SessionMeta): void {
+  const minutes = Math.round(LOCK_MS / 60000);
+  const origin = meta.ip ? `\nThe last attempt came from ${meta.ip}${meta.userAgent ? ` (${meta.userAgent})` : ''}.` : '';
+  sendMailInBackground({
+    to: user.email,
+    subject: 'Your GiveHub account was temporarily locked',
+    text: `Hi ${user.username},
+
+We locked your account for ${minutes} minutes after ${attempts} failed sign-in attempts.
+It unlocks automatically at ${lockedUntil.toUTCString()}.${origin}
+
+If this was not you, change your password once the lock expires.
+
+- The GiveHub team
+`,
+  });
+}
@@ -0,0 +1,103 @@
+/**
+ * FILE: lib/auth/middleware.ts
+ * PURPOSE: authMiddleware - resolves the signed-in user from the access cookie for route handlers
+ * ACCESS: Server-only. Import from '@/lib/auth'; prefer withPolicy() (lib/auth/policies.ts)
+ *         for routes that also need role or ownership checks
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/_dev/mock-db/database';
+import type { UserRole } from '@/_dev/mock-db/database';
+import { authService, isEmailVerified } from './auth';
+import { ACCESS_COOKIE } from './cookies';
+
+// Augmented request type for handlers that need user info
+export type AuthedRequest = NextRequest & {
+  user: {
+    id: string;
+    username: string;
+    email: string;
+    role: UserRole;
+    emailVerified: boolean;
+  };
+  /** Session (`jti`) the access token belongs to */
+  sessionId: string;
+};
+
+type RequestAuth =
+  | { ok: true; user: AuthedRequest['user']; sessionId: string }
+  | { ok: false; error: string };
+
+// Both `request.cookies` and `await cookies()` from next/headers fit this shape
+type CookieReader = { get(name: string): { value: string } | undefined };
+
+async function resolveAuth(cookies: CookieReader): Promise<RequestAuth> {
+  const token = cookies.get(ACCESS_COOKIE)?.value;
+  if (!token) {
+    return { ok: false, error: 'Unauthorized' };
+  }
+
+  const verify = await authService.verifyToken(token);
+  if (!verify.success || !verify.userId || !verify.sessionId) {
+    return { ok: false, error: 'Invalid token' };
+  }
+
+  const user = db.findUserById(verify.userId);
+  if (!user) {
+    return { ok: false, error: 'User not found' };
+  }
+
+  return {
+    ok: true,
+    user: {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      role: user.role,
+      emailVerified: isEmailVerified(user),
+    },
+    sessionId: verify.sessionId,
+  };
+}
+
+// Signed-in user for routes that also serve anonymous callers (e.g. donations), or null
+export async function getRequestUser(request: NextRequest): Promise<AuthedRequest['user'] | null> {
+  return getCookieUser(request.cookies);
+}
+
+// Same for server components: `getCookieUser(await cookies())`
+export async function getCookieUser(cookies: CookieReader): Promise<AuthedRequest['user'] | null> {
+  try {
+    const auth = await resolveAuth(cookies);
+    return auth.ok ? auth.user : null;
+  } catch {
+    return null;
+  }
+}
+
+// Simple auth middleware for route handlers (GET/POST etc.)
+// The route context (e.g. `{ params }` of dynamic segments) is passed through untouched
+export function authMiddleware<C = unknown>(
+  handler: (request: AuthedRequest, context: C) => Promise<NextResponse> | NextResponse
+) {
+  return async (request: NextRequest, context: C) => {
+    try {
+      const auth = await resolveAuth(request.cookies);
+      if (!auth.ok) {
+        return NextResponse.json({ error: auth.error }, { status: 401 });
+      }
+
+      // Create a shallow clone of request with user attached
+      const reqWithUser = Object.assign(
+        Object.create(Object.getPrototypeOf(request)),
+        request,
+        { user: auth.user, sessionId: auth.sessionId }
+      ) as AuthedRequest;
+
+      return handler(reqWithUser, context);
+    } catch (error) {
+      console.error('authMiddleware error:', error);
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  };
+}
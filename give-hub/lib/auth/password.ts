@@ -0,0 +1,132 @@
+/**
+ * FILE: lib/auth/password.ts
+ * PURPOSE: Password hashing (scrypt) and the signup password policy
+ * ACCESS: Server-only. Used by authService and validateSignupInput in ./auth
+ * FORMAT:
+ * - Stored as `scrypt$<N>$<r>$<p>$<salt b64>$<hash b64>`, so every user carries the
+ *   parameters their hash was made with and the defaults can be raised later
+ * - Legacy `hashed_<password>` values still verify and are flagged by needsRehash()
+ *   so signin can replace them with a scrypt hash
+ * MIGRATION NOTES:
+ * - The format is self-describing; switching to argon2/bcrypt only needs a new prefix branch
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+const LEGACY_PREFIX = 'hashed_';
+const SCRYPT_PREFIX = 'scrypt';
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+const SCRYPT_DEFAULTS = {
+  N: Number(process.env.PASSWORD_SCRYPT_N) || 16384,
+  r: Number(process.env.PASSWORD_SCRYPT_R) || 8,
+  p: Number(process.env.PASSWORD_SCRYPT_P) || 1,
+};
+
+type ScryptParams = typeof SCRYPT_DEFAULTS;
+
+function deriveKey(password: string, salt: Buffer, params: ScryptParams, keyLength: number): Promise<Buffer> {
+  const options: ScryptOptions = { ...params, maxmem: 256 * params.N * params.r };
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, keyLength, options, (err, derived) => {
+      if (err) reject(err);
+      else resolve(derived);
+    });
+  });
+}
+
+function parseScryptHash(stored: string) {
+  const parts = stored.split('$');
+  if (parts.length !== 6 || parts[0] !== SCRYPT_PREFIX) return null;
+  const [N, r, p] = parts.slice(1, 4).map(Number);
+  if (![N, r, p].every(n => Number.isInteger(n) && n > 0)) return null;
+  return {
+    params: { N, r, p },
+    salt: Buffer.from(parts[4], 'base64'),
+    hash: Buffer.from(parts[5], 'base64'),
+  };
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await deriveKey(password, salt, SCRYPT_DEFAULTS, KEY_LENGTH);
+  const { N, r, p } = SCRYPT_DEFAULTS;
+  return [SCRYPT_PREFIX, N, r, p, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+export async function verifyPassword(password: string, stored: string | undefined): Promise<boolean> {
+  if (!stored) return false;
+
+  if (stored.startsWith(LEGACY_PREFIX)) {
+    const expected = Buffer.from(stored);
+    const actual = Buffer.from(`${LEGACY_PREFIX}${password}`);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  const parsed = parseScryptHash(stored);
+  if (!parsed) return false;
+  try {
+    const derived = await deriveKey(password, parsed.salt, parsed.params, parsed.hash.length);
+    return timingSafeEqual(derived, parsed.hash);
+  } catch (error) {
+    console.error('Password verification failed:', error);
+    return false;
+  }
+}
+
+/** True for legacy values and for scrypt hashes made with weaker parameters than today's */
+export function needsRehash(stored: string): boolean {
+  const parsed = parseScryptHash(stored);
+  if (!parsed) return true;
+  const { N, r, p } = parsed.params;
+  return N < SCRYPT_DEFAULTS.N || r < SCRYPT_DEFAULTS.r || p < SCRYPT_DEFAULTS.p;
+}
+
+// Hash of a random string, verified against when a signin names an unknown account so
+// that response time does not reveal whether the account exists
+let dummyHash: Promise<string> | null = null;
+export async function burnPasswordCheck(password: string): Promise<void> {
+  dummyHash ??= hashPassword(randomBytes(SALT_BYTES).toString('hex'));
+  await verifyPassword(password, await dummyHash);
+}
+
+// Password policy (configurable through env, see env.example)
+export type PasswordPolicy = {
+  minLength: number;
+  maxLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+};
+
+const envFlag = (value: string | undefined, fallback: boolean) =>
+  value === undefined ? fallback : ['1', 'true', 'yes'].includes(value.toLowerCase());
+
+export function getPasswordPolicy(): PasswordPolicy {
+  return {
+    minLength: Number(process.env.PASSWORD_MIN_LENGTH) || 8,
+    maxLength: Number(process.env.PASSWORD_MAX_LENGTH) || 128,
+    requireLowercase: envFlag(process.env.PASSWORD_REQUIRE_LOWERCASE, false),
+    requireUppercase: envFlag(process.env.PASSWORD_REQUIRE_UPPERCASE, false),
+    requireNumber: envFlag(process.env.PASSWORD_REQUIRE_NUMBER, true),
+    requireSymbol: envFlag(process.env.PASSWORD_REQUIRE_SYMBOL, false),
+  };
+}
+
+/** Returns a user-facing message describing what the password is missing, or null when it passes */
+export function checkPasswordPolicy(password: string, policy: PasswordPolicy = getPasswordPolicy()): string | null {
+  if (password.length < policy.minLength) {
+    return `Password must be at least ${policy.minLength} characters long`;
+  }
+  if (password.length > policy.maxLength) {
+    return `Password must be at most ${policy.maxLength} characters long`;
+  }
+  const missing: string[] = [];
+  if (policy.requireLowercase && !/[a-z]/.test(password)) missing.push('a lowercase letter');
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) missing.push('an uppercase letter');
+  if (policy.requireNumber && !/[0-9]/.test(password)) missing.push('a number');
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) missing.push('a symbol');
+  return missing.length ? `Password must contain ${missing.join(', ')}` : null;
+}
@@ -0,0 +1,121 @@
+/**
+ * FILE: lib/auth/policies.ts
+ * PURPOSE: Declarative authorization for route handlers, built on authMiddleware
+ * ACCESS: Server-only. Import from '@/lib/auth'
+ * USAGE:
+ *   export const PUT = withPolicy(
+ *     anyOf(isAdmin, allOf(hasRole('creator'), ownsCampaign(fromParam('id')))),
+ *     async (request, context) => { ... }
+ *   )
+ * MODEL:
+ * - A policy looks at the signed-in user (and optionally the route params) and allows
+ *   or denies with a status + message; withPolicy turns a denial into a JSON error response
+ * - authMiddleware still answers 401 for anonymous requests, so policies only decide 403/404
+ * - Handlers can rely on the policy having passed and keep only input validation
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/_dev/mock-db/database';
+import type { UserRole } from '@/_dev/mock-db/database';
+import { authMiddleware, type AuthedRequest } from './middleware';
+import { verifiedAddressesOf } from './wallets';
+
+export type PolicyContext = {
+  user: AuthedRequest['user'];
+  request: AuthedRequest;
+  /** Resolved dynamic route segments, e.g. `{ id }` for /api/campaigns/[id]/edit */
+  params: Record<string, string>;
+};
+
+export type PolicyDecision =
+  | { allowed: true }
+  | { allowed: false; status: number; error: string };
+
+export type Policy = (context: PolicyContext) => PolicyDecision | Promise<PolicyDecision>;
+
+const allow = (): PolicyDecision => ({ allowed: true });
+const deny = (error: string, status = 403): PolicyDecision => ({ allowed: false, status, error });
+
+/** Any signed-in user */
+export const authenticated: Policy = () => allow();
+
+export function hasRole(role: UserRole, error = `Only ${role}s can do this`): Policy {
+  return ({ user }) => (user.role === role ? allow() : deny(error));
+}
+
+export const isAdmin: Policy = hasRole('admin', 'Admin access required');
+
+export const hasVerifiedEmail: Policy = ({ user }) =>
+  user.emailVerified ? allow() : deny('Please verify your email address first');
+
+/** At least one wallet proven with Sign-In with Ethereum (lib/auth/wallets) */
+export const hasVerifiedWallet: Policy = ({ user }) =>
+  verifiedAddressesOf(user.id).length > 0 ? allow() : deny('Please verify a wallet first');
+
+/**
+ * A verified email or a verified wallet. Wallet-only accounts have no email to verify; the
+ * signature that created them proves control of the wallet instead.
+ */
+export const hasVerifiedContact: Policy = async context => {
+  const decision = await anyOf(hasVerifiedEmail, hasVerifiedWallet)(context);
+  return decision.allowed ? decision : deny('Please verify your email address or a wallet first');
+};
+
+/** Reads a dynamic route segment, for policies that target a resource */
+export function fromParam(name: string): (context: PolicyContext) => string | undefined {
+  return ({ params }) => params[name];
+}
+
+/** The user is the creator of the campaign whose id `campaignId` resolves to */
+export function ownsCampaign(
+  campaignId: (context: PolicyContext) => string | undefined,
+  error = 'You can only manage your own campaigns'
+): Policy {
+  return context => {
+    const id = campaignId(context);
+    const campaign = id ? db.findCampaignById(id) : null;
+    if (!campaign) return deny('Campaign not found', 404);
+    return campaign.creatorId === context.user.id ? allow() : deny(error);
+  };
+}
+
+/** Every policy must allow; the first denial wins */
+export function allOf(...policies: Policy[]): Policy {
+  return async context => {
+    for (const policy of policies) {
+      const decision = await policy(context);
+      if (!decision.allowed) return decision;
+    }
+    return allow();
+  };
+}
+
+/** At least one policy must allow; otherwise the last denial is reported */
+export function anyOf(...policies: Policy[]): Policy {
+  return async context => {
+    let denied: PolicyDecision = deny('Forbidden');
+    for (const policy of policies) {
+      const decision = await policy(context);
+      if (decision.allowed) return decision;
+      denied = decision;
+    }
+    return denied;
+  };
+}
+
+// Wrap a route handler so it only runs for signed-in users that satisfy `policy`
+export function withPolicy<C = unknown>(
+  policy: Policy,
+  handler: (request: AuthedRequest, context: C) => Promise<NextResponse> | NextResponse
+) {
+  return authMiddleware<C>(async (request, context) => {
+    const routeParams = (context as { params?: Promise<Record<string, string>> } | undefined)?.params;
+    const params = routeParams ? await routeParams : {};
+
+    const decision = await policy({ user: request.user, request, params });
+    if (!decision.allowed) {
+      return NextResponse.json({ success: false, error: decision.error }, { status: decision.status });
+    }
+    return handler(request, context);
+  });
+}
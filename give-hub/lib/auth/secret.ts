@@ -0,0 +1,4 @@
+// Shared HS256 key for access tokens and email action tokens
+const secretKey = process.env.JWT_SECRET || 'fallback-secret-key-for-development';
+
+export const jwtKey = new TextEncoder().encode(secretKey);
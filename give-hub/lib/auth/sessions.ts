@@ -0,0 +1,172 @@
+/**
+ * FILE: lib/auth/sessions.ts
+ * PURPOSE: Server-side session registry backing access tokens (`jti`) and rotating refresh tokens
+ * ACCESS: Server-only. Used by authService, authMiddleware and /api/auth/{refresh,signout,sessions}
+ * MODEL:
+ * - One session per sign-in, stored in the `sessions` collection and keyed by the access
+ *   token's `jti` claim; revoking the session invalidates every token issued for it
+ * - Refresh tokens are `<sessionId>.<secret>`; only a SHA-256 of the secret is stored and
+ *   it is replaced on every refresh
+ * - Presenting an already-rotated refresh token (outside a short grace window for
+ *   concurrent tabs) is treated as theft and revokes the session
+ * MIGRATION NOTES:
+ * - MongoDB: `sessions` collection with indexes on userId and a TTL index on expiresAt
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { db } from '@/_dev/mock-db/database';
+
+const SESSIONS = 'sessions';
+
+// Lifetimes in seconds (configurable through env, see env.example)
+export const ACCESS_TOKEN_TTL = Number(process.env.ACCESS_TOKEN_TTL) || 15 * 60;
+export const REFRESH_TOKEN_TTL = Number(process.env.REFRESH_TOKEN_TTL) || 30 * 24 * 60 * 60;
+
+// A refresh token rotated this recently may still be presented by a concurrent request
+const ROTATION_GRACE_MS = 30 * 1000;
+
+export type SessionMeta = {
+  userAgent?: string;
+  ip?: string;
+};
+
+export type Session = SessionMeta & {
+  id: string;
+  userId: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  refreshTokenHash: string;
+  previousTokenHash?: string;
+  rotatedAt?: string;
+  revokedAt?: string;
+  revokedReason?: 'signout' | 'revoked' | 'refresh_reuse';
+};
+
+/** Session fields that are safe to return to the client */
+export type SessionSummary = Pick<Session, 'id' | 'createdAt' | 'lastUsedAt' | 'expiresAt' | 'userAgent' | 'ip'> & {
+  current: boolean;
+};
+
+export type RotateResult =
+  | { ok: true; session: Session; refreshToken?: string }
+  | { ok: false; error: string };
+
+const hashSecret = (secret: string) => createHash('sha256').update(secret).digest('hex');
+
+function sameHash(a: string | undefined, b: string): boolean {
+  if (!a || a.length !== b.length) return false;
+  return timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+function parseRefreshToken(token: string): { sessionId: string; secret: string } | null {
+  const [sessionId, secret, ...rest] = token.split('.');
+  if (!sessionId || !secret || rest.length) return null;
+  return { sessionId, secret };
+}
+
+export function isSessionActive(session: Session | null): session is Session {
+  return !!session && !session.revokedAt && new Date(session.expiresAt).getTime() > Date.now();
+}
+
+export function findActiveSession(sessionId: string): Session | null {
+  const session = db.findRecord<Session>(SESSIONS, sessionId);
+  return isSessionActive(session) ? session : null;
+}
+
+export function createSession(userId: string, meta: SessionMeta = {}): { session: Session; refreshToken: string } {
+  const id = randomBytes(16).toString('hex');
+  const secret = randomBytes(32).toString('base64url');
+  const now = new Date();
+  const session: Session = {
+    id,
+    userId,
+    createdAt: now.toISOString(),
+    lastUsedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL * 1000).toISOString(),
+    refreshTokenHash: hashSecret(secret),
+    ...(meta.userAgent ? { userAgent: meta.userAgent.slice(0, 256) } : {}),
+    ...(meta.ip ? { ip: meta.ip } : {}),
+  };
+  db.insertRecord(SESSIONS, session);
+  return { session, refreshToken: `${id}.${secret}` };
+}
+
+/**
+ * Exchange a refresh token for a new one. `refreshToken` is omitted from a successful
+ * result when the grace window applied: the caller should issue an access token only.
+ */
+export function rotateRefreshToken(token: string): RotateResult {
+  const parsed = parseRefreshToken(token);
+  if (!parsed) return { ok: false, error: 'Invalid refresh token' };
+
+  return db.transaction((): RotateResult => {
+    const session = db.findRecord<Session>(SESSIONS, parsed.sessionId);
+    if (!isSessionActive(session)) return { ok: false, error: 'Session expired or revoked' };
+
+    const presented = hashSecret(parsed.secret);
+    const now = new Date().toISOString();
+
+    if (sameHash(session.refreshTokenHash, presented)) {
+      const secret = randomBytes(32).toString('base64url');
+      const updated = db.updateRecord<Session>(SESSIONS, session.id, {
+        refreshTokenHash: hashSecret(secret),
+        previousTokenHash: presented,
+        rotatedAt: now,
+        lastUsedAt: now,
+      });
+      if (!updated) return { ok: false, error: 'Session expired or revoked' };
+      return { ok: true, session: updated, refreshToken: `${session.id}.${secret}` };
+    }
+
+    const rotatedAgo = session.rotatedAt ? Date.now() - new Date(session.rotatedAt).getTime() : Infinity;
+    if (sameHash(session.previousTokenHash, presented) && rotatedAgo <= ROTATION_GRACE_MS) {
+      return { ok: true, session };
+    }
+
+    // An old refresh token came back: someone else holds a copy. Kill the session.
+    db.updateRecord<Session>(SESSIONS, session.id, { revokedAt: now, revokedReason: 'refresh_reuse' });
+    return { ok: false, error: 'Refresh token reuse detected; please sign in again' };
+  });
+}
+
+export function sessionIdFromRefreshToken(token: string): string | null {
+  return parseRefreshToken(token)?.sessionId ?? null;
+}
+
+export function listActiveSessions(userId: string, currentSessionId?: string): SessionSummary[] {
+  return db
+    .listRecords<Session>(SESSIONS, { userId })
+    .filter(isSessionActive)
+    .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+    .map(session => ({
+      id: session.id,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      current: session.id === currentSessionId,
+    }));
+}
+
+/** Revoke one session. Passing `userId` restricts it to that user's sessions. */
+export function revokeSession(sessionId: string, userId?: string, reason: Session['revokedReason'] = 'revoked'): boolean {
+  const session = db.findRecord<Session>(SESSIONS, sessionId);
+  if (!isSessionActive(session) || (userId && session.userId !== userId)) return false;
+  return !!db.updateRecord<Session>(SESSIONS, sessionId, { revokedAt: new Date().toISOString(), revokedReason: reason });
+}
+
+/** Revoke every active session of a user, optionally keeping one (e.g. the current device) */
+export function revokeAllSessions(userId: string, exceptSessionId?: string): number {
+  return db.transaction(() => {
+    const now = new Date().toISOString();
+    let revoked = 0;
+    for (const session of db.listRecords<Session>(SESSIONS, { userId })) {
+      if (!isSessionActive(session) || session.id === exceptSessionId) continue;
+      db.updateRecord<Session>(SESSIONS, session.id, { revokedAt: now, revokedReason: 'revoked' });
+      revoked++;
+    }
+    return revoked;
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * FILE: lib/auth/siwe-client.ts
+ * PURPOSE: Browser side of Sign-In with Ethereum: fetch a nonce, have the wallet sign the
+ *          EIP-4361 message, and call the wallet endpoints
+ * ACCESS: Client-side. Used by AuthProvider (signinWithWallet) and the profile page
+ * NOTES:
+ * - Signs through window.ethereum; without one, NEXT_PUBLIC_ZETACHAIN_RPC_URL (anvil's unlocked
+ *   accounts answer personal_sign too)
+ */
+
+import { bytesToHex, httpRpcClient, requestAccount, type Hex, type JsonRpcClient } from '@/lib/evm';
+import { createSiweMessage } from './siwe-message';
+import type { VerifiedWallet } from './wallets';
+
+export type SignedSiweMessage = { message: string; signature: Hex; address: Hex };
+
+type Failure = { ok: false; error: string };
+
+function walletClient(): JsonRpcClient | null {
+  const injected = typeof window !== 'undefined' ? (window as { ethereum?: JsonRpcClient }).ethereum : undefined;
+  if (injected) return injected;
+  const url = process.env.NEXT_PUBLIC_ZETACHAIN_RPC_URL;
+  return url ? httpRpcClient(url) : null;
+}
+
+async function errorFrom(res: Response, fallback: string): Promise<string> {
+  try {
+    const j = await res.json();
+    return j?.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Asks the wallet to sign a fresh EIP-4361 message for this site with `statement` */
+export async function signSiweMessage(statement: string): Promise<({ ok: true } & SignedSiweMessage) | Failure> {
+  const client = walletClient();
+  if (!client) return { ok: false, error: 'No wallet found. Install a browser wallet to continue' };
+
+  const res = await fetch('/api/auth/siwe/nonce', { cache: 'no-store' });
+  if (!res.ok) return { ok: false, error: await errorFrom(res, 'Could not start wallet sign-in') };
+  const { nonce, expiresIn } = (await res.json()) as { nonce: string; expiresIn: number };
+
+  try {
+    const address = await requestAccount(client);
+    if (!address) return { ok: false, error: 'No wallet account available' };
+    const chainId = Number(await client.request<string>({ method: 'eth_chainId' }));
+    const issuedAt = new Date();
+    const message = createSiweMessage({
+      domain: window.location.host,
+      address,
+      statement,
+      uri: window.location.origin,
+      version: '1',
+      chainId,
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: new Date(issuedAt.getTime() + expiresIn * 1000).toISOString(),
+    });
+    const signature = await client.request<Hex>({
+      method: 'personal_sign',
+      params: [bytesToHex(new TextEncoder().encode(message)), address],
+    });
+    return { ok: true, message, signature, address };
+  } catch (error) {
+    const e = (error ?? {}) as { code?: number; message?: string };
+    return { ok: false, error: e.code === 4001 ? 'Signature request was rejected in your wallet' : e.message || 'Wallet error' };
+  }
+}
+
+export async function fetchVerifiedWallets(): Promise<VerifiedWallet[]> {
+  const res = await fetch('/api/auth/wallets');
+  if (!res.ok) return [];
+  return ((await res.json()).wallets as VerifiedWallet[]) ?? [];
+}
+
+/** Proves control of the wallet's current account and links it to the signed-in user */
+export async function linkWalletToAccount(): Promise<{ ok: true; wallet: VerifiedWallet } | Failure> {
+  const signed = await signSiweMessage('Link this wallet to your GiveHub account.');
+  if (!signed.ok) return signed;
+  const res = await fetch('/api/auth/wallets', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message: signed.message, signature: signed.signature }),
+  });
+  if (!res.ok) return { ok: false, error: await errorFrom(res, 'Could not link the wallet') };
+  return { ok: true, wallet: (await res.json()).wallet };
+}
+
+export async function unlinkWalletFromAccount(address: string): Promise<{ ok: true } | Failure> {
+  const res = await fetch(`/api/auth/wallets/${encodeURIComponent(address)}`, { method: 'DELETE' });
+  if (!res.ok) return { ok: false, error: await errorFrom(res, 'Could not unlink the wallet') };
+  return { ok: true };
+}
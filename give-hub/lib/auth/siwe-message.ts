@@ -0,0 +1,116 @@
+/**
+ * FILE: lib/auth/siwe-message.ts
+ * PURPOSE: EIP-4361 "Sign-In with Ethereum" message formatting and parsing
+ * ACCESS: Server and client safe. The browser builds the message with createSiweMessage();
+ *         the server re-parses exactly what was signed with parseSiweMessage()
+ * NOTES:
+ * - Follows the EIP-4361 ABNF line by line; the parser is strict, so the signed text and the
+ *   fields the server checks can never disagree
+ */
+
+import { isAddress, toChecksumAddress } from '@/lib/evm';
+
+export type SiweMessage = {
+  /** RFC 3986 authority requesting the signature, e.g. `localhost:3000` */
+  domain: string;
+  /** EIP-55 checksummed address */
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  /** At least 8 alphanumeric characters, issued by GET /api/auth/siwe/nonce */
+  nonce: string;
+  /** ISO 8601 timestamps */
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+};
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+export function createSiweMessage(fields: SiweMessage): string {
+  const lines = [`${fields.domain}${HEADER_SUFFIX}`, toChecksumAddress(fields.address), ''];
+  if (fields.statement) lines.push(fields.statement);
+  lines.push('');
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  );
+  if (fields.expirationTime) lines.push(`Expiration Time: ${fields.expirationTime}`);
+  if (fields.notBefore) lines.push(`Not Before: ${fields.notBefore}`);
+  if (fields.requestId !== undefined) lines.push(`Request ID: ${fields.requestId}`);
+  if (fields.resources?.length) lines.push('Resources:', ...fields.resources.map(resource => `- ${resource}`));
+  return lines.join('\n');
+}
+
+const isTimestamp = (value: string) => /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value));
+
+/** null when `text` is not a well-formed EIP-4361 message */
+export function parseSiweMessage(text: string): SiweMessage | null {
+  const lines = text.split('\n');
+  let i = 0;
+  const next = () => lines[i++];
+  const field = (label: string, optional = false): string | undefined | null => {
+    if (lines[i]?.startsWith(`${label}: `)) return next().slice(label.length + 2);
+    return optional ? undefined : null;
+  };
+
+  const header = next();
+  if (!header?.endsWith(HEADER_SUFFIX)) return null;
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+  if (!domain || /\s/.test(domain)) return null;
+
+  const address = next();
+  if (!isAddress(address) || next() !== '') return null;
+
+  // Either "statement LF LF" or an empty line (some signers leave out the second one without a statement)
+  let statement: string | undefined;
+  if (lines[i] !== '' && !lines[i]?.startsWith('URI: ')) {
+    statement = next();
+    if (next() !== '') return null;
+  } else if (lines[i] === '') {
+    next();
+  }
+
+  const uri = field('URI');
+  const version = field('Version');
+  const chainId = field('Chain ID');
+  const nonce = field('Nonce');
+  const issuedAt = field('Issued At');
+  if (!uri || version !== '1' || !chainId || !/^\d+$/.test(chainId) || !nonce || !issuedAt) return null;
+  if (!/^[a-zA-Z0-9]{8,}$/.test(nonce) || !isTimestamp(issuedAt)) return null;
+
+  const expirationTime = field('Expiration Time', true);
+  const notBefore = field('Not Before', true);
+  const requestId = field('Request ID', true);
+  if ((expirationTime && !isTimestamp(expirationTime)) || (notBefore && !isTimestamp(notBefore))) return null;
+
+  let resources: string[] | undefined;
+  if (lines[i] === 'Resources:') {
+    next();
+    resources = [];
+    while (lines[i]?.startsWith('- ')) resources.push(next().slice(2));
+  }
+  if (i !== lines.length) return null;
+
+  return {
+    domain,
+    address,
+    ...(statement ? { statement } : {}),
+    uri,
+    version: '1',
+    chainId: Number(chainId),
+    nonce,
+    issuedAt,
+    ...(expirationTime ? { expirationTime } : {}),
+    ...(notBefore ? { notBefore } : {}),
+    ...(requestId !== undefined && requestId !== null ? { requestId } : {}),
+    ...(resources ? { resources } : {}),
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * FILE: lib/auth/siwe.ts
+ * PURPOSE: Server-side Sign-In with Ethereum (EIP-4361): nonce issuance and message verification
+ * ACCESS: Server-only. Used by the /api/auth/siwe/* routes
+ * MODEL:
+ * - GET /api/auth/siwe/nonce stores a random nonce in `siwe_nonces` and in an httpOnly cookie;
+ *   the wallet signs a message carrying it (personal_sign)
+ * - verifySiwe() parses the signed text, checks domain, timestamps and the nonce (same browser,
+ *   unexpired, unused), then recovers the signer from the signature and compares it to the
+ *   message's address. The nonce is burned inside a transaction, so a signature works once
+ * NOTES:
+ * - Externally owned accounts only; contract wallets (EIP-1271) need an eth_call and are refused
+ * MIGRATION NOTES:
+ * - MongoDB: `siwe_nonces` collection with a TTL index on expiresAt
+ */
+
+import { randomBytes } from 'crypto';
+import { db } from '@/_dev/mock-db/database';
+import { recoverMessageAddress, type Hex } from '@/lib/evm';
+import { parseSiweMessage, type SiweMessage } from './siwe-message';
+
+const SIWE_NONCES = 'siwe_nonces';
+
+/** Seconds a nonce (and so the sign-in prompt) stays valid */
+export const SIWE_NONCE_TTL = 10 * 60;
+
+// Tolerated clock difference between the browser that wrote `Issued At` and this server
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+type SiweNonceRecord = {
+  id: string;
+  createdAt: string;
+  expiresAt: string;
+  usedAt?: string;
+};
+
+export type SiweVerifyResult =
+  | { ok: true; address: Hex; chainId: number; message: SiweMessage }
+  | { ok: false; error: string; status: number };
+
+export function issueSiweNonce(): string {
+  const nonce = randomBytes(16).toString('hex');
+  const now = Date.now();
+  db.transaction(() => {
+    // Expired nonces are never accepted again; drop them as new ones are handed out
+    for (const record of db.listRecords<SiweNonceRecord>(SIWE_NONCES)) {
+      if (Date.parse(record.expiresAt) <= now) db.deleteRecord(SIWE_NONCES, record.id);
+    }
+    db.insertRecord<SiweNonceRecord>(SIWE_NONCES, {
+      id: nonce,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + SIWE_NONCE_TTL * 1000).toISOString(),
+    });
+  });
+  return nonce;
+}
+
+/**
+ * Verifies a signed EIP-4361 message for this site. `domain` is the host the request came to;
+ * `cookieNonce` is the nonce cookie set when the nonce was issued.
+ */
+export function verifySiwe(
+  input: { message: unknown; signature: unknown },
+  expected: { domain: string; cookieNonce?: string }
+): SiweVerifyResult {
+  if (typeof input.message !== 'string' || typeof input.signature !== 'string') {
+    return { ok: false, error: 'message and signature are required', status: 400 };
+  }
+  const message = parseSiweMessage(input.message);
+  if (!message) return { ok: false, error: 'Not a valid Sign-In with Ethereum message', status: 400 };
+
+  // A message written for another site must not sign in here (phishing relay)
+  if (message.domain !== expected.domain) {
+    return { ok: false, error: `This message was created for ${message.domain}`, status: 401 };
+  }
+  const now = Date.now();
+  if (Date.parse(message.issuedAt) > now + CLOCK_SKEW_MS) {
+    return { ok: false, error: 'Message is issued in the future', status: 401 };
+  }
+  if (message.expirationTime && Date.parse(message.expirationTime) <= now) {
+    return { ok: false, error: 'Message has expired', status: 401 };
+  }
+  if (message.notBefore && Date.parse(message.notBefore) > now + CLOCK_SKEW_MS) {
+    return { ok: false, error: 'Message is not valid yet', status: 401 };
+  }
+  if (!expected.cookieNonce || expected.cookieNonce !== message.nonce) {
+    return { ok: false, error: 'Sign-in request not found; please try again', status: 401 };
+  }
+
+  const signer = recoverMessageAddress(input.message, input.signature);
+  if (!signer || signer !== message.address.toLowerCase()) {
+    return { ok: false, error: 'Signature does not match the address', status: 401 };
+  }
+
+  const burned = db.transaction(() => {
+    const record = db.findRecord<SiweNonceRecord>(SIWE_NONCES, message.nonce);
+    if (!record || record.usedAt || Date.parse(record.expiresAt) <= now) return false;
+    db.updateRecord<SiweNonceRecord>(SIWE_NONCES, record.id, { usedAt: new Date(now).toISOString() });
+    return true;
+  });
+  if (!burned) return { ok: false, error: 'Sign-in request has expired or was already used', status: 401 };
+
+  return { ok: true, address: signer, chainId: message.chainId, message };
+}
@@ -0,0 +1,82 @@
+/**
+ * FILE: lib/auth/wallets.ts
+ * PURPOSE: Wallet addresses proven by a Sign-In with Ethereum signature, linked to accounts
+ * ACCESS: Server-only. import { findUserByVerifiedWallet, linkVerifiedWallet } from '@/lib/auth'
+ * MODEL:
+ * - `verified_wallets` records are keyed by the lowercase address, so an address belongs to at
+ *   most one account; they are only written after verifySiwe() (lib/auth/siwe.ts) succeeds
+ * - `User.walletAddresses` stays what the user typed on the profile page and proves nothing;
+ *   anything that trusts an address (campaign ownership, donor matching) reads these records
+ * - Wallet-only accounts have no password; their last wallet cannot be unlinked
+ * MIGRATION NOTES:
+ * - MongoDB: `verified_wallets` collection with a unique index on the address and one on userId
+ */
+
+import { db } from '@/_dev/mock-db/database';
+import type { User, Creator } from '@/_dev/mock-db/database';
+import { toChecksumAddress, type Hex } from '@/lib/evm';
+
+const VERIFIED_WALLETS = 'verified_wallets';
+
+type VerifiedWalletRecord = {
+  /** Lowercase address */
+  id: string;
+  userId: string;
+  /** Chain the signature was made on (informational: an address is the same key on every EVM chain) */
+  chainId: number;
+  verifiedAt: string;
+};
+
+export type VerifiedWallet = { address: Hex; chainId: number; verifiedAt: string };
+
+export type WalletLinkResult =
+  | { ok: true; wallet: VerifiedWallet }
+  | { ok: false; error: string; status: number };
+
+const toPublic = (record: VerifiedWalletRecord): VerifiedWallet => ({
+  address: toChecksumAddress(record.id),
+  chainId: record.chainId,
+  verifiedAt: record.verifiedAt,
+});
+
+export function listVerifiedWallets(userId: string): VerifiedWallet[] {
+  return db.listRecords<VerifiedWalletRecord>(VERIFIED_WALLETS, { userId }).map(toPublic);
+}
+
+/** Lowercase verified addresses of a user, for comparisons */
+export function verifiedAddressesOf(userId: string): Hex[] {
+  return db.listRecords<VerifiedWalletRecord>(VERIFIED_WALLETS, { userId }).map(record => record.id as Hex);
+}
+
+export function findUserByVerifiedWallet(address: string): User | Creator | null {
+  const record = db.findRecord<VerifiedWalletRecord>(VERIFIED_WALLETS, address.toLowerCase());
+  return record ? db.findUserById(record.userId) : null;
+}
+
+/** Links a freshly verified address; re-verifying one's own address just refreshes it */
+export function linkVerifiedWallet(userId: string, address: Hex, chainId: number): WalletLinkResult {
+  const id = address.toLowerCase();
+  return db.transaction((): WalletLinkResult => {
+    const existing = db.findRecord<VerifiedWalletRecord>(VERIFIED_WALLETS, id);
+    if (existing && existing.userId !== userId) {
+      return { ok: false, error: 'This wallet is already linked to another account', status: 409 };
+    }
+    const verifiedAt = new Date().toISOString();
+    if (existing) db.updateRecord<VerifiedWalletRecord>(VERIFIED_WALLETS, id, { chainId, verifiedAt });
+    else db.insertRecord<VerifiedWalletRecord>(VERIFIED_WALLETS, { id, userId, chainId, verifiedAt });
+    return { ok: true, wallet: toPublic({ id, userId, chainId, verifiedAt }) };
+  });
+}
+
+export function unlinkVerifiedWallet(user: User | Creator, address: string): { ok: true } | { ok: false; error: string; status: number } {
+  const id = address.toLowerCase();
+  return db.transaction(() => {
+    const record = db.findRecord<VerifiedWalletRecord>(VERIFIED_WALLETS, id);
+    if (!record || record.userId !== user.id) return { ok: false as const, error: 'Wallet not found', status: 404 };
+    if (!user.password && verifiedAddressesOf(user.id).length === 1) {
+      return { ok: false as const, error: 'This wallet is the only way to sign in to your account', status: 409 };
+    }
+    db.deleteRecord(VERIFIED_WALLETS, id);
+    return { ok: true as const };
+  });
+}
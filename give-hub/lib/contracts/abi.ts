@@ -0,0 +1,111 @@
+/**
+ * FILE: lib/contracts/abi.ts
+ * PURPOSE: ABI of the forward fundraiser contracts (contracts/BaseForwardFundraiser.sol,
+ *          contracts/DirectForwardFundraiser.sol)
+ * ACCESS: Server and client safe. import { FORWARD_FUNDRAISER_ABI } from '@/lib/contracts/abi'
+ * NOTES:
+ * - Written by hand from the Solidity sources; keep in sync when the contracts change
+ * - `campaigns(uint256)` is the public struct getter, so it returns the fields flat
+ * - OwnableUnauthorizedAccount comes from OpenZeppelin v5 Ownable (setActive by a stranger)
+ */
+
+import type { Abi } from '@/lib/evm';
+
+export const BASE_FORWARD_FUNDRAISER_ABI = [
+  // Errors
+  { type: 'error', name: 'CampaignDoesNotExist', inputs: [] },
+  { type: 'error', name: 'CampaignInactive', inputs: [] },
+  { type: 'error', name: 'InvalidTimeWindow', inputs: [] },
+  { type: 'error', name: 'ZeroAmount', inputs: [] },
+  { type: 'error', name: 'ETHAmountMismatch', inputs: [] },
+  { type: 'error', name: 'ForwardFailed', inputs: [] },
+  { type: 'error', name: 'OwnableUnauthorizedAccount', inputs: [{ name: 'account', type: 'address' }] },
+
+  // Events
+  {
+    type: 'event',
+    name: 'CampaignCreated',
+    inputs: [
+      { name: 'campaignId', type: 'uint256', indexed: true },
+      { name: 'creator', type: 'address', indexed: true },
+      { name: 'preferredToken', type: 'address', indexed: true },
+      { name: 'start', type: 'uint96', indexed: false },
+      { name: 'end', type: 'uint96', indexed: false },
+    ],
+  },
+  { type: 'event', name: 'CampaignStatus', inputs: [{ name: 'campaignId', type: 'uint256', indexed: true }, { name: 'active', type: 'bool', indexed: false }] },
+  {
+    type: 'event',
+    name: 'Donation',
+    inputs: [
+      { name: 'campaignId', type: 'uint256', indexed: true },
+      { name: 'donor', type: 'address', indexed: true },
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+      { name: 'memo', type: 'string', indexed: false },
+    ],
+  },
+
+  // Campaign management
+  {
+    type: 'function',
+    name: 'createCampaign',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'preferredToken', type: 'address' }, { name: 'start', type: 'uint96' }, { name: 'end', type: 'uint96' }],
+    outputs: [{ name: 'campaignId', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'setActive',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'campaignId', type: 'uint256' }, { name: 'active_', type: 'bool' }],
+    outputs: [],
+  },
+
+  // Donations
+  {
+    type: 'function',
+    name: 'donate',
+    stateMutability: 'payable',
+    inputs: [{ name: 'campaignId', type: 'uint256' }, { name: 'token', type: 'address' }, { name: 'amount', type: 'uint256' }, { name: 'memo', type: 'string' }],
+    outputs: [],
+  },
+
+  // Views
+  {
+    type: 'function',
+    name: 'campaigns',
+    stateMutability: 'view',
+    inputs: [{ name: '', type: 'uint256' }],
+    outputs: [
+      { name: 'creator', type: 'address' },
+      { name: 'preferredToken', type: 'address' },
+      { name: 'start', type: 'uint96' },
+      { name: 'end', type: 'uint96' },
+      { name: 'active', type: 'bool' },
+      { name: 'totalDonated', type: 'uint256' },
+    ],
+  },
+  { type: 'function', name: 'exists', stateMutability: 'view', inputs: [{ name: 'campaignId', type: 'uint256' }], outputs: [{ name: '', type: 'bool' }] },
+  {
+    type: 'function',
+    name: 'donatedOf',
+    stateMutability: 'view',
+    inputs: [{ name: 'campaignId', type: 'uint256' }, { name: 'donor', type: 'address' }, { name: 'token', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  { type: 'function', name: 'nextCampaignId', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint256' }] },
+  { type: 'function', name: 'owner', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'address' }] },
+] as const satisfies Abi;
+
+/** The deployable contract: the base plus its (stubbed) ZetaChain cross-chain hooks */
+export const FORWARD_FUNDRAISER_ABI = [
+  ...BASE_FORWARD_FUNDRAISER_ABI,
+  {
+    type: 'event',
+    name: 'CrossChainMessageReceived',
+    inputs: [{ name: 'payload', type: 'bytes', indexed: false }, { name: 'sender', type: 'address', indexed: false }, { name: 'value', type: 'uint256', indexed: false }],
+  },
+  { type: 'event', name: 'CrossChainMessageReverted', inputs: [{ name: 'payload', type: 'bytes', indexed: false }] },
+  { type: 'event', name: 'CrossChainRevert', inputs: [{ name: 'payload', type: 'bytes', indexed: false }] },
+] as const satisfies Abi;
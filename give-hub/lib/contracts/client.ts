@@ -0,0 +1,108 @@
+/**
+ * FILE: lib/contracts/client.ts
+ * PURPOSE: JSON-RPC implementation of FundraiserContract (eth_call reads, eth_sendTransaction writes)
+ * ACCESS: import { fundraiserContract } from '@/lib/contracts'
+ * NOTES:
+ * - The methods are generated from the ABI's function list at runtime, mirroring the types
+ * - Writes are simulated with eth_call first, so a revert (CampaignInactive, ZeroAmount...) is
+ *   reported before the wallet asks the user to sign; a transaction that still reverts on-chain
+ *   is replayed at its block to recover the reason
+ */
+
+import {
+  decodeEventLog,
+  decodeFunctionResult,
+  encodeFunctionData,
+  toHex,
+  waitForTransactionReceipt,
+  type AbiFunction,
+  type DecodedEvent,
+  type Hex,
+  type JsonRpcClient,
+  type TransactionReceipt,
+  type WaitOptions,
+} from '@/lib/evm';
+import { BASE_FORWARD_FUNDRAISER_ABI, FORWARD_FUNDRAISER_ABI } from './abi';
+import { contractError } from './errors';
+import type { ContractResult, ContractWrite, FundraiserContract, WriteOptions } from './types';
+
+export type FundraiserContractOptions = {
+  client: JsonRpcClient;
+  address: Hex;
+  /** Receipt polling for writes; `confirmations` comes from each write's options */
+  wait?: Omit<WaitOptions, 'confirmations'>;
+};
+
+function returnValue(fn: AbiFunction, values: unknown[]): unknown {
+  if (fn.outputs.length === 0) return undefined;
+  if (fn.outputs.length === 1) return values[0];
+  return Object.fromEntries(fn.outputs.map((output, i) => [output.name, values[i]]));
+}
+
+export function fundraiserContract({ client, address, wait }: FundraiserContractOptions): FundraiserContract {
+  const to = address.toLowerCase() as Hex;
+
+  async function read(fn: AbiFunction, args: unknown[]): Promise<ContractResult<unknown>> {
+    try {
+      const data = encodeFunctionData(BASE_FORWARD_FUNDRAISER_ABI, fn.name, args);
+      const result = await client.request<Hex>({ method: 'eth_call', params: [{ to, data }, 'latest'] });
+      if (result === '0x' && fn.outputs.length > 0) {
+        return { ok: false, error: { name: 'Rpc', message: `No fundraiser contract at ${to}`, args: {} } };
+      }
+      return { ok: true, value: returnValue(fn, decodeFunctionResult(BASE_FORWARD_FUNDRAISER_ABI, fn.name, result)) };
+    } catch (error) {
+      return { ok: false, error: contractError(error) };
+    }
+  }
+
+  async function write(fn: AbiFunction, args: unknown[], options: WriteOptions): Promise<ContractResult<ContractWrite>> {
+    const tx = {
+      from: options.account,
+      to,
+      data: encodeFunctionData(BASE_FORWARD_FUNDRAISER_ABI, fn.name, args),
+      ...(options.value ? { value: toHex(options.value) } : {}),
+    };
+
+    let hash: Hex;
+    try {
+      await client.request({ method: 'eth_call', params: [tx, 'latest'] });
+      hash = await client.request<Hex>({ method: 'eth_sendTransaction', params: [tx] });
+    } catch (error) {
+      return { ok: false, error: contractError(error) };
+    }
+
+    let receipt: TransactionReceipt;
+    try {
+      receipt = await waitForTransactionReceipt(client, hash, { ...wait, confirmations: options.confirmations });
+    } catch (error) {
+      return { ok: false, error: { ...contractError(error), hash } };
+    }
+
+    if (receipt.status !== 'success') {
+      let reason = contractError({ code: 3, message: 'Transaction reverted' });
+      try {
+        await client.request({ method: 'eth_call', params: [tx, toHex(receipt.blockNumber)] });
+      } catch (error) {
+        reason = contractError(error);
+      }
+      return { ok: false, error: { ...reason, hash, receipt } };
+    }
+
+    const events = receipt.logs
+      .filter(log => log.address === to)
+      .map(log => decodeEventLog(FORWARD_FUNDRAISER_ABI, log))
+      .filter((event): event is DecodedEvent => event !== null);
+    return { ok: true, value: { hash, blockNumber: receipt.blockNumber, events, receipt } };
+  }
+
+  const methods: Record<string, unknown> = {};
+  for (const item of BASE_FORWARD_FUNDRAISER_ABI) {
+    if (item.type !== 'function') continue;
+    const fn: AbiFunction = item;
+    methods[fn.name] =
+      fn.stateMutability === 'view' || fn.stateMutability === 'pure'
+        ? (...args: unknown[]) => read(fn, args)
+        : (args: unknown[], options: WriteOptions) => write(fn, args, options);
+  }
+  return { ...methods, address: to, kind: 'rpc' } as FundraiserContract;
+}
@@ -0,0 +1,49 @@
+/**
+ * FILE: lib/contracts/errors.ts
+ * PURPOSE: Turns wallet/node errors and revert data into a ContractError with a user-facing message
+ * ACCESS: import { contractError } from '@/lib/contracts'
+ * NOTES:
+ * - Wallets and nodes report failures as { code, message, data }; the revert bytes are in `data`
+ *   (anvil, most nodes) or `data.data` (MetaMask wrapping the node error)
+ */
+
+import { decodeErrorResult, isHex, type Hex } from '@/lib/evm';
+import { FORWARD_FUNDRAISER_ABI } from './abi';
+import type { ContractError, ContractErrorName } from './types';
+
+const REVERT_MESSAGES: Partial<Record<ContractErrorName, string>> = {
+  CampaignDoesNotExist: 'This campaign does not exist on-chain',
+  CampaignInactive: 'This campaign is not accepting donations right now',
+  InvalidTimeWindow: 'The campaign must end after it starts',
+  ZeroAmount: 'Amount must be greater than 0',
+  ETHAmountMismatch: 'The transaction value did not match the donation amount',
+  ForwardFailed: 'The funds could not be forwarded to the campaign creator',
+  OwnableUnauthorizedAccount: 'Only the campaign creator or the contract owner can do this',
+};
+
+/** A contract revert by error name, as the contract (or the mock contract) raised it */
+export function revertError(name: ContractErrorName, args: Record<string, unknown> = {}): ContractError {
+  let message = REVERT_MESSAGES[name] || `Transaction reverted: ${name}`;
+  if (name === 'Error') message = String(args.message);
+  if (name === 'Panic') message = `Transaction reverted (panic ${String(args.code)})`;
+  return { name, message, args };
+}
+
+export function decodeRevert(data: Hex): ContractError | null {
+  const decoded = decodeErrorResult(FORWARD_FUNDRAISER_ABI, data);
+  return decoded ? revertError(decoded.errorName as ContractErrorName, decoded.args) : null;
+}
+
+export function contractError(error: unknown): ContractError {
+  const e = (error ?? {}) as { code?: number; message?: string; data?: unknown };
+  if (e.code === 4001) return { name: 'Rejected', message: 'Transaction was rejected in your wallet', args: {} };
+  const nested = e.data as { data?: unknown } | undefined;
+  const revertData = isHex(e.data) ? e.data : isHex(nested?.data) ? nested.data : null;
+  const decoded = revertData ? decodeRevert(revertData) : null;
+  if (decoded) return decoded;
+  // Code 3 is the standard "execution reverted" error
+  if (e.code === 3 || /revert/i.test(e.message || '')) {
+    return { name: 'Reverted', message: e.message || 'Transaction reverted', args: {} };
+  }
+  return { name: 'Rpc', message: e.message || 'Could not reach the blockchain node', args: {} };
+}
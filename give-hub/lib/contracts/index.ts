@@ -0,0 +1,72 @@
+/**
+ * FILE: lib/contracts/index.ts
+ * PURPOSE: Typed client for the forward fundraiser contract (createCampaign, setActive, donate and the views)
+ * ACCESS: Server and client safe. import { getFundraiserContract } from '@/lib/contracts'
+ * NOTES:
+ * - NEXT_PUBLIC_CONTRACT_CLIENT picks the implementation: 'rpc' (default) talks to the chain,
+ *   'mock' uses the in-memory test double; setFundraiserContract() overrides both (tests)
+ * - The RPC client signs through the given JsonRpcClient: the injected wallet in the browser,
+ *   otherwise ZETACHAIN_RPC_URL / NEXT_PUBLIC_ZETACHAIN_RPC_URL (anvil's unlocked accounts)
+ * - Results are `{ ok, value }` / `{ ok: false, error }`; see ContractError for the error names
+ */
+
+import { httpRpcClient, isAddress, type Hex, type JsonRpcClient } from '@/lib/evm';
+import { fundraiserContract } from './client';
+import { mockFundraiserContract } from './mock';
+import type { FundraiserContract } from './types';
+
+export { BASE_FORWARD_FUNDRAISER_ABI, FORWARD_FUNDRAISER_ABI } from './abi';
+export { fundraiserContract } from './client';
+export type { FundraiserContractOptions } from './client';
+export { mockFundraiserContract } from './mock';
+export type { MockFundraiserOptions } from './mock';
+export { contractError, decodeRevert, revertError } from './errors';
+export type {
+  ContractError,
+  ContractErrorName,
+  ContractResult,
+  ContractWrite,
+  FunctionArgs,
+  FunctionReturn,
+  FundraiserContract,
+  OnChainCampaign,
+  ReadFunctionName,
+  WriteFunctionName,
+  WriteOptions,
+} from './types';
+
+export const CONTRACT_CLIENT = (process.env.NEXT_PUBLIC_CONTRACT_CLIENT || 'rpc').toLowerCase();
+
+let override: FundraiserContract | null = null;
+// One mock per process so state written by one caller is visible to the next
+let sharedMock: FundraiserContract | null = null;
+
+/** Use a specific contract implementation everywhere (tests); null restores env-based selection */
+export function setFundraiserContract(contract: FundraiserContract | null) {
+  override = contract;
+}
+
+function defaultRpcClient(): JsonRpcClient | null {
+  const injected = typeof window !== 'undefined' ? (window as { ethereum?: JsonRpcClient }).ethereum : undefined;
+  if (injected) return injected;
+  const url = (typeof window === 'undefined' && process.env.ZETACHAIN_RPC_URL) || process.env.NEXT_PUBLIC_ZETACHAIN_RPC_URL;
+  return url ? httpRpcClient(url) : null;
+}
+
+/**
+ * The fundraiser contract at `address` (default: FUNDRAISER_CONTRACT_ADDRESS, or
+ * NEXT_PUBLIC_FUNDRAISER_CONTRACT_ADDRESS in the browser). null when no node/wallet or no
+ * contract address is configured.
+ */
+export function getFundraiserContract(options: { client?: JsonRpcClient; address?: Hex } = {}): FundraiserContract | null {
+  if (override) return override;
+  if (CONTRACT_CLIENT === 'mock') {
+    sharedMock ??= mockFundraiserContract({ latencyMs: 300 });
+    return sharedMock;
+  }
+  const address =
+    options.address || process.env.FUNDRAISER_CONTRACT_ADDRESS || process.env.NEXT_PUBLIC_FUNDRAISER_CONTRACT_ADDRESS;
+  const client = options.client ?? defaultRpcClient();
+  if (!client || !isAddress(address)) return null;
+  return fundraiserContract({ client, address });
+}
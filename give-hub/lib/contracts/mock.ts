@@ -0,0 +1,123 @@
+/**
+ * FILE: lib/contracts/mock.ts
+ * PURPOSE: In-memory FundraiserContract test double (formerly the mock lib/services/contracts.ts)
+ * ACCESS: Selected with NEXT_PUBLIC_CONTRACT_CLIENT=mock, or import { mockFundraiserContract } from '@/lib/contracts'
+ * NOTES:
+ * - Applies the same checks as BaseForwardFundraiser.sol in the same order, so the reverts
+ *   (CampaignInactive, ZeroAmount, ETHAmountMismatch...) match the real contract
+ * - Transaction hashes are random and block numbers count up; nothing is ever mined, so these
+ *   hashes will not pass server-side verification (lib/payments/onchain)
+ * - State lives in the instance and is lost on reload
+ */
+
+import { ZERO_ADDRESS, type DecodedEvent, type Hex } from '@/lib/evm';
+import { revertError } from './errors';
+import type { ContractResult, ContractWrite, FundraiserContract, OnChainCampaign, WriteOptions } from './types';
+
+export type MockFundraiserOptions = {
+  address?: Hex;
+  /** Contract owner, may toggle any campaign (default: nobody) */
+  owner?: Hex;
+  /** Simulated network delay per call */
+  latencyMs?: number;
+};
+
+const MOCK_CONTRACT_ADDRESS = '0x000000000000000000000000000000000000f00d' as Hex;
+const ZERO = BigInt(0);
+
+const randomHash = () => `0x${[...Array(64)].map(() => Math.floor(Math.random() * 16).toString(16)).join('')}` as Hex;
+
+const emptyCampaign = (): OnChainCampaign => ({
+  creator: ZERO_ADDRESS,
+  preferredToken: ZERO_ADDRESS,
+  start: ZERO,
+  end: ZERO,
+  active: false,
+  totalDonated: ZERO,
+});
+
+export function mockFundraiserContract({
+  address = MOCK_CONTRACT_ADDRESS,
+  owner = ZERO_ADDRESS,
+  latencyMs = 0,
+}: MockFundraiserOptions = {}): FundraiserContract {
+  const campaigns = new Map<string, OnChainCampaign>();
+  const donated = new Map<string, bigint>();
+  let nextCampaignId = ZERO;
+  let blockNumber = BigInt(15_000_000);
+
+  const delay = () => new Promise(resolve => setTimeout(resolve, latencyMs));
+  const sender = (options: WriteOptions) => options.account.toLowerCase() as Hex;
+  const donatedKey = (campaignId: bigint, donor: Hex, token: Hex) => `${campaignId}:${donor.toLowerCase()}:${token.toLowerCase()}`;
+
+  async function read<T>(value: () => T): Promise<ContractResult<T>> {
+    await delay();
+    return { ok: true, value: value() };
+  }
+
+  async function mine(run: () => DecodedEvent[] | ContractResult<never>): Promise<ContractResult<ContractWrite>> {
+    await delay();
+    const outcome = run();
+    if (!Array.isArray(outcome)) return outcome;
+    blockNumber += BigInt(1);
+    return { ok: true, value: { hash: randomHash(), blockNumber, events: outcome } };
+  }
+
+  const revert = (...args: Parameters<typeof revertError>): ContractResult<never> => ({ ok: false, error: revertError(...args) });
+
+  const contract: FundraiserContract = {
+    address: address.toLowerCase() as Hex,
+    kind: 'mock',
+
+    campaigns: campaignId => read(() => ({ ...(campaigns.get(campaignId.toString()) ?? emptyCampaign()) })),
+    exists: campaignId => read(() => campaigns.has(campaignId.toString())),
+    donatedOf: (campaignId, donor, token) => read(() => donated.get(donatedKey(campaignId, donor, token)) ?? ZERO),
+    nextCampaignId: () => read(() => nextCampaignId),
+    owner: () => read(() => owner),
+
+    createCampaign: ([preferredToken, start, end], options) =>
+      mine(() => {
+        if (end !== ZERO && end <= start) return revert('InvalidTimeWindow');
+        nextCampaignId += BigInt(1);
+        const campaignId = nextCampaignId;
+        const creator = sender(options);
+        campaigns.set(campaignId.toString(), { creator, preferredToken, start, end, active: true, totalDonated: ZERO });
+        return [
+          { eventName: 'CampaignCreated', args: { campaignId, creator, preferredToken, start, end } },
+          { eventName: 'CampaignStatus', args: { campaignId, active: true } },
+        ];
+      }),
+
+    setActive: ([campaignId, active], options) =>
+      mine(() => {
+        const campaign = campaigns.get(campaignId.toString());
+        if (!campaign) return revert('CampaignDoesNotExist');
+        const from = sender(options);
+        if (from !== campaign.creator && from !== owner.toLowerCase()) {
+          return revert('OwnableUnauthorizedAccount', { account: from });
+        }
+        campaign.active = active;
+        return [{ eventName: 'CampaignStatus', args: { campaignId, active } }];
+      }),
+
+    donate: ([campaignId, token, amount, memo], options) =>
+      mine(() => {
+        const campaign = campaigns.get(campaignId.toString());
+        if (!campaign) return revert('CampaignDoesNotExist');
+        const now = BigInt(Math.floor(Date.now() / 1000));
+        if (!campaign.active) return revert('CampaignInactive');
+        if (campaign.start !== ZERO && now < campaign.start) return revert('CampaignInactive');
+        if (campaign.end !== ZERO && now > campaign.end) return revert('CampaignInactive');
+        if (amount === ZERO) return revert('ZeroAmount');
+        const value = options.value ?? ZERO;
+        if (token === ZERO_ADDRESS ? value !== amount : value !== ZERO) return revert('ETHAmountMismatch');
+
+        const donor = sender(options);
+        campaign.totalDonated += amount;
+        const key = donatedKey(campaignId, donor, token);
+        donated.set(key, (donated.get(key) ?? ZERO) + amount);
+        return [{ eventName: 'Donation', args: { campaignId, donor, token, amount, memo } }];
+      }),
+  };
+  return contract;
+}
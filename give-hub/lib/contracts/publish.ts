@@ -0,0 +1,140 @@
+/**
+ * FILE: lib/contracts/publish.ts
+ * PURPOSE: Browser side of "Deploy on-chain" in Creator Studio: the creator's wallet sends
+ *          createCampaign(preferredToken, start, end), then the server links the result
+ * ACCESS: Client-side. import { publishCampaignOnChain } from '@/lib/contracts/publish'
+ * FLOW:
+ * 1. GET /api/campaigns/[id]/onchain - chain, contract and createCampaign() arguments
+ * 2. The wallet sends the transaction; we wait for NEXT_PUBLIC_ZETACHAIN_CONFIRMATIONS and take
+ *    the campaignId from its CampaignCreated event
+ * 3. POST /api/campaigns/[id]/onchain { txHash } - the server reads the event back from the
+ *    chain and records contractOwnership (see linkCampaignDeployment in lib/services/contracts);
+ *    linkDeployedCampaign() repeats just this step, so a failed link never deploys twice
+ * NOTES:
+ * - The sending account must be a wallet verified on the profile (Sign-In with Ethereum):
+ *   the contract's creator receives the donations
+ */
+
+import type { Campaign } from '@/_dev/mock-db/database';
+import { httpRpcClient, requestAccount, toHex, type Hex, type JsonRpcClient, type TransactionReceipt } from '@/lib/evm';
+import { contractError } from './errors';
+import { fundraiserContract } from './client';
+
+// Mirrors GET /api/campaigns/[id]/onchain
+type DeploymentParams = {
+  chainId: number;
+  contractAddress: Hex;
+  preferredToken: Hex;
+  start: number;
+  end: number;
+};
+
+export type PublishCampaignResult =
+  | {
+      ok: true;
+      onChainCampaignId: string;
+      txHash: Hex;
+      contractOwnership: NonNullable<Campaign['contractOwnership']>;
+      transactionReceipt?: TransactionReceipt;
+    }
+  | { ok: false; error: string; txHash?: Hex };
+
+const CONFIRMATIONS = Math.max(1, Number(process.env.NEXT_PUBLIC_ZETACHAIN_CONFIRMATIONS || 1));
+const LINK_MAX_ATTEMPTS = 3;
+
+function walletClient(): JsonRpcClient | null {
+  const injected = typeof window !== 'undefined' ? (window as { ethereum?: JsonRpcClient }).ethereum : undefined;
+  if (injected) return injected;
+  const url = process.env.NEXT_PUBLIC_ZETACHAIN_RPC_URL;
+  return url ? httpRpcClient(url) : null;
+}
+
+async function errorFrom(res: Response, fallback: string): Promise<string> {
+  try {
+    const j = await res.json();
+    return j?.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// 409 means the node has not shown the server enough confirmations yet; retry with the same hash
+async function postDeployment(campaignId: string, txHash: Hex): Promise<Response | null> {
+  let res: Response | null = null;
+  for (let attempt = 1; attempt <= LINK_MAX_ATTEMPTS; attempt++) {
+    try {
+      res = await fetch(`/api/campaigns/${encodeURIComponent(campaignId)}/onchain`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txHash }),
+      });
+      if (res.status !== 409 && res.status < 500) break;
+    } catch {
+      res = null;
+    }
+    if (attempt < LINK_MAX_ATTEMPTS) await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+  }
+  return res;
+}
+
+export async function publishCampaignOnChain(campaignId: string, client: JsonRpcClient | null = walletClient()): Promise<PublishCampaignResult> {
+  if (!client) return { ok: false, error: 'No wallet found. Install a browser wallet to deploy on-chain' };
+
+  // 1. Parameters come from the server so the on-chain window matches the stored schedule
+  let params: DeploymentParams;
+  try {
+    const res = await fetch(`/api/campaigns/${encodeURIComponent(campaignId)}/onchain`);
+    if (!res.ok) return { ok: false, error: await errorFrom(res, 'Could not prepare the deployment') };
+    params = (await res.json()).params;
+  } catch {
+    return { ok: false, error: 'Network error, please try again' };
+  }
+
+  // 2. createCampaign() from the creator's wallet, tracked to confirmation
+  let from: Hex | null;
+  try {
+    from = await requestAccount(client);
+    if (!from) return { ok: false, error: 'No wallet account available' };
+    const chainId = Number(await client.request<string>({ method: 'eth_chainId' }));
+    if (chainId !== params.chainId) {
+      try {
+        await client.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: toHex(params.chainId) }] });
+      } catch {
+        return { ok: false, error: `Switch your wallet to chain ${params.chainId} and try again` };
+      }
+    }
+  } catch (error) {
+    return { ok: false, error: contractError(error).message };
+  }
+  const contract = fundraiserContract({ client, address: params.contractAddress });
+  const sent = await contract.createCampaign([params.preferredToken, BigInt(params.start), BigInt(params.end)], {
+    account: from,
+    confirmations: CONFIRMATIONS,
+  });
+  // A txHash on failure means "mined, link it", so reverted or event-less transactions leave it out
+  if (!sent.ok) return { ok: false, error: sent.error.message };
+  const { hash, receipt, events } = sent.value;
+  const created = events.find(event => event.eventName === 'CampaignCreated');
+  if (!created) return { ok: false, error: `Transaction ${hash} did not create a campaign` };
+  const onChainCampaignId = (created.args.campaignId as bigint).toString();
+
+  // 3. The server confirms the event on-chain and links the campaign
+  const linked = await linkDeployedCampaign(campaignId, hash);
+  if (!linked.ok) {
+    return {
+      ok: false,
+      txHash: hash,
+      error: `Campaign #${onChainCampaignId} was created on-chain (${hash}) but could not be linked yet: ${linked.error}`,
+    };
+  }
+  return { ...linked, onChainCampaignId, transactionReceipt: receipt };
+}
+
+/** Step 3 alone: links an already mined createCampaign() (retry after a failed link; never redeploy) */
+export async function linkDeployedCampaign(campaignId: string, txHash: Hex): Promise<PublishCampaignResult> {
+  const res = await postDeployment(campaignId, txHash);
+  if (!res) return { ok: false, txHash, error: 'network error' };
+  if (!res.ok) return { ok: false, txHash, error: await errorFrom(res, 'server error') };
+  const { contractOwnership } = await res.json();
+  return { ok: true, onChainCampaignId: contractOwnership.onChainCampaignId, txHash, contractOwnership };
+}
@@ -0,0 +1,105 @@
+/**
+ * FILE: lib/contracts/types.ts
+ * PURPOSE: Contract client types derived from the fundraiser ABI (lib/contracts/abi.ts)
+ * ACCESS: import type { FundraiserContract, ContractResult } from '@/lib/contracts'
+ * NOTES:
+ * - Function names, argument tuples and return values are computed from the `as const` ABI, so
+ *   editing the ABI re-types every call site; nothing here is written per function
+ * - Solidity to TypeScript: uintN/intN -> bigint, address/bytes -> Hex, bool -> boolean, string -> string
+ */
+
+import type { AbiParameter, DecodedEvent, Hex, TransactionReceipt } from '@/lib/evm';
+import type { BASE_FORWARD_FUNDRAISER_ABI } from './abi';
+
+type FundraiserAbi = typeof BASE_FORWARD_FUNDRAISER_ABI;
+type FundraiserItem = FundraiserAbi[number];
+
+type SolidityValue<T extends string> = T extends `uint${string}` | `int${string}`
+  ? bigint
+  : T extends 'bool'
+    ? boolean
+    : T extends 'string'
+      ? string
+      : T extends 'address' | `bytes${string}`
+        ? Hex
+        : unknown;
+
+type ParameterValues<P extends readonly AbiParameter[]> = {
+  -readonly [K in keyof P]: P[K] extends { type: infer T extends string } ? SolidityValue<T> : never;
+};
+
+// No outputs: void; one output: the bare value; several: an object keyed by output name
+type ReturnValue<P extends readonly AbiParameter[]> = P extends readonly []
+  ? void
+  : P extends readonly [{ type: infer T extends string }]
+    ? SolidityValue<T>
+    : { [O in P[number] as O['name']]: SolidityValue<O['type']> };
+
+type FunctionItem<N extends string> = Extract<FundraiserItem, { type: 'function'; name: N }>;
+
+export type ReadFunctionName = Extract<FundraiserItem, { type: 'function'; stateMutability: 'view' | 'pure' }>['name'];
+export type WriteFunctionName = Extract<FundraiserItem, { type: 'function'; stateMutability: 'nonpayable' | 'payable' }>['name'];
+export type FunctionArgs<N extends ReadFunctionName | WriteFunctionName> = ParameterValues<FunctionItem<N>['inputs']>;
+export type FunctionReturn<N extends ReadFunctionName> = ReturnValue<FunctionItem<N>['outputs']>;
+
+/** The `campaigns(uint256)` struct; an unknown ID reads as all zeros (creator = address(0)) */
+export type OnChainCampaign = FunctionReturn<'campaigns'>;
+
+/**
+ * - A custom error from the ABI (CampaignInactive, ZeroAmount, ETHAmountMismatch...)
+ * - 'Error' / 'Panic': require(string) and assert failures
+ * - 'Reverted': a revert without decodable data
+ * - 'Rejected': the user declined in their wallet
+ * - 'Rpc': anything else (node unreachable, timeout waiting for the receipt)
+ */
+export type ContractErrorName =
+  | Extract<FundraiserItem, { type: 'error' }>['name']
+  | 'Error'
+  | 'Panic'
+  | 'Reverted'
+  | 'Rejected'
+  | 'Rpc';
+
+export type ContractError = {
+  name: ContractErrorName;
+  /** Suitable for showing to the user */
+  message: string;
+  args: Record<string, unknown>;
+  /** Set when the transaction was sent before it failed */
+  hash?: Hex;
+  receipt?: TransactionReceipt;
+};
+
+export type ContractResult<T> = { ok: true; value: T } | { ok: false; error: ContractError };
+
+export type WriteOptions = {
+  /** msg.sender; must be an account the client can sign for */
+  account: Hex;
+  /** msg.value in wei (payable functions) */
+  value?: bigint;
+  /** Blocks to wait for after mining (default 1 = mined) */
+  confirmations?: number;
+};
+
+export type ContractWrite = {
+  hash: Hex;
+  blockNumber: bigint;
+  /** Events this contract emitted in the transaction, decoded */
+  events: DecodedEvent[];
+  /** Absent from the mock contract, which has no chain */
+  receipt?: TransactionReceipt;
+};
+
+/**
+ * Every function of BaseForwardFundraiser. Reads take the Solidity arguments positionally;
+ * writes take them as one tuple plus the sending account, then resolve once confirmed.
+ * Nothing throws - failures come back as `{ ok: false, error }` with the revert decoded.
+ */
+export type FundraiserContract = {
+  readonly address: Hex;
+  readonly kind: 'rpc' | 'mock';
+} & {
+  readonly [N in ReadFunctionName]: (...args: FunctionArgs<N>) => Promise<ContractResult<FunctionReturn<N>>>;
+} & {
+  readonly [N in WriteFunctionName]: (args: FunctionArgs<N>, options: WriteOptions) => Promise<ContractResult<ContractWrite>>;
+};
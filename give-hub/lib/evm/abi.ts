@@ -0,0 +1,325 @@
+/**
+ * FILE: lib/evm/abi.ts
+ * PURPOSE: Hex helpers and Solidity ABI encoding/decoding for contract calls, event logs and
+ *          custom errors
+ * ACCESS: Server and client safe. import { encodeFunctionData, decodeEventLog, ... } from '@/lib/evm'
+ * NOTES:
+ * - Covers the types the fundraiser contracts use: uint<N>, int<N>, address, bool, bytes<N>,
+ *   bytes and string. Tuples and arrays are rejected rather than mis-encoded
+ * - uint/int values decode to bigint; addresses decode lowercase (see toChecksumAddress)
+ * - Indexed dynamic event arguments (string, bytes) are only available as their keccak hash
+ */
+
+import { keccak256Bytes } from './keccak';
+
+export type Hex = `0x${string}`;
+
+// The tsconfig target (ES2017) has no bigint literals
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const EIGHT = BigInt(8);
+const BYTE_MASK = BigInt(0xff);
+
+export const ZERO_ADDRESS: Hex = '0x0000000000000000000000000000000000000000';
+
+export type AbiParameter = { name: string; type: string; indexed?: boolean };
+
+export type AbiFunction = {
+  type: 'function';
+  name: string;
+  inputs: readonly AbiParameter[];
+  outputs: readonly AbiParameter[];
+  stateMutability: 'pure' | 'view' | 'nonpayable' | 'payable';
+};
+
+export type AbiEvent = { type: 'event'; name: string; inputs: readonly AbiParameter[]; anonymous?: boolean };
+
+export type AbiError = { type: 'error'; name: string; inputs: readonly AbiParameter[] };
+
+export type AbiItem =
+  | AbiFunction
+  | AbiEvent
+  | AbiError
+  | { type: 'constructor'; inputs: readonly AbiParameter[]; stateMutability: string }
+  | { type: 'receive' | 'fallback'; stateMutability: string };
+
+export type Abi = readonly AbiItem[];
+
+/** A log as returned by eth_getLogs / eth_getTransactionReceipt */
+export type LogLike = { topics: readonly Hex[]; data: Hex };
+
+export type DecodedEvent = { eventName: string; args: Record<string, unknown> };
+
+export type DecodedError = { errorName: string; args: Record<string, unknown> };
+
+// ---------------------------------------------------------------------------
+// Hex
+
+export function bytesToHex(bytes: Uint8Array): Hex {
+  let hex = '0x';
+  for (const byte of bytes) hex += byte.toString(16).padStart(2, '0');
+  return hex as Hex;
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const body = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (body.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(body)) throw new Error(`Invalid hex: ${hex.slice(0, 20)}`);
+  const bytes = new Uint8Array(body.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(body.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+export const isHex = (value: unknown): value is Hex => typeof value === 'string' && /^0x[0-9a-fA-F]*$/.test(value);
+
+export const toHex = (value: bigint | number): Hex => `0x${BigInt(value).toString(16)}` as Hex;
+
+export const hexToBigInt = (hex: string): bigint => (hex === '0x' ? ZERO : BigInt(hex));
+
+/** Keccak-256 of bytes, or of a string's UTF-8 bytes */
+export const keccak256 = (input: Uint8Array | string): Hex => bytesToHex(keccak256Bytes(input));
+
+export const isAddress = (value: unknown): value is Hex => typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value);
+
+/** EIP-55 mixed-case checksum form */
+export function toChecksumAddress(address: string): Hex {
+  if (!isAddress(address)) throw new Error(`Invalid address: ${address}`);
+  const lower = address.slice(2).toLowerCase();
+  const hash = keccak256(lower).slice(2);
+  let out = '0x';
+  for (let i = 0; i < 40; i++) out += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  return out as Hex;
+}
+
+// ---------------------------------------------------------------------------
+// Parameter encoding
+
+const WORD = 32;
+
+type TypeInfo =
+  | { kind: 'uint' | 'int'; bits: number }
+  | { kind: 'address' | 'bool' | 'string' | 'bytes' }
+  | { kind: 'fixedBytes'; size: number };
+
+function typeInfo(type: string): TypeInfo {
+  const integer = /^(u?int)(\d*)$/.exec(type);
+  if (integer) {
+    const bits = integer[2] ? Number(integer[2]) : 256;
+    if (bits % 8 !== 0 || bits < 8 || bits > 256) throw new Error(`Unsupported ABI type: ${type}`);
+    return { kind: integer[1] as 'uint' | 'int', bits };
+  }
+  const fixed = /^bytes(\d+)$/.exec(type);
+  if (fixed) {
+    const size = Number(fixed[1]);
+    if (size < 1 || size > 32) throw new Error(`Unsupported ABI type: ${type}`);
+    return { kind: 'fixedBytes', size };
+  }
+  if (type === 'address' || type === 'bool' || type === 'string' || type === 'bytes') return { kind: type };
+  throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+const isDynamic = (info: TypeInfo) => info.kind === 'string' || info.kind === 'bytes';
+
+function wordFromBigInt(value: bigint): Uint8Array {
+  const word = new Uint8Array(WORD);
+  let rest = BigInt.asUintN(256, value);
+  for (let i = WORD - 1; i >= 0; i--) {
+    word[i] = Number(rest & BYTE_MASK);
+    rest >>= EIGHT;
+  }
+  return word;
+}
+
+function padRight(bytes: Uint8Array): Uint8Array {
+  const out = new Uint8Array(Math.ceil(bytes.length / WORD) * WORD);
+  out.set(bytes);
+  return out;
+}
+
+function toBigInt(value: unknown, type: string): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number' && Number.isSafeInteger(value)) return BigInt(value);
+  if (typeof value === 'string' && /^(0x[0-9a-fA-F]+|-?\d+)$/.test(value)) return BigInt(value);
+  throw new Error(`Invalid ${type} value: ${String(value)}`);
+}
+
+function encodeStatic(info: TypeInfo, value: unknown, type: string): Uint8Array {
+  switch (info.kind) {
+    case 'uint':
+    case 'int': {
+      const n = toBigInt(value, type);
+      const limit = ONE << BigInt(info.bits);
+      const inRange = info.kind === 'uint' ? n >= ZERO && n < limit : n >= -(limit >> ONE) && n < limit >> ONE;
+      if (!inRange) throw new Error(`${type} out of range: ${n}`);
+      return wordFromBigInt(n);
+    }
+    case 'address':
+      if (!isAddress(value)) throw new Error(`Invalid address: ${String(value)}`);
+      return wordFromBigInt(BigInt(value));
+    case 'bool':
+      if (typeof value !== 'boolean') throw new Error(`Invalid bool: ${String(value)}`);
+      return wordFromBigInt(value ? ONE : ZERO);
+    case 'fixedBytes': {
+      const bytes = isHex(value) ? hexToBytes(value) : null;
+      if (!bytes || bytes.length !== info.size) throw new Error(`Invalid ${type}: ${String(value)}`);
+      return padRight(bytes);
+    }
+    default:
+      throw new Error(`Not a static type: ${type}`);
+  }
+}
+
+function encodeDynamic(info: TypeInfo, value: unknown, type: string): Uint8Array {
+  let bytes: Uint8Array;
+  if (info.kind === 'string' && typeof value === 'string') bytes = new TextEncoder().encode(value);
+  else if (info.kind === 'bytes' && isHex(value)) bytes = hexToBytes(value);
+  else throw new Error(`Invalid ${type}: ${String(value)}`);
+  return concat([wordFromBigInt(BigInt(bytes.length)), padRight(bytes)]);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/** abi.encode(values) for a flat list of types */
+export function encodeParameters(types: readonly string[], values: readonly unknown[]): Hex {
+  if (types.length !== values.length) throw new Error(`Expected ${types.length} values, got ${values.length}`);
+  const infos = types.map(typeInfo);
+  const heads: Uint8Array[] = [];
+  const tails: Uint8Array[] = [];
+  let tailOffset = types.length * WORD;
+  infos.forEach((info, i) => {
+    if (isDynamic(info)) {
+      const tail = encodeDynamic(info, values[i], types[i]);
+      heads.push(wordFromBigInt(BigInt(tailOffset)));
+      tails.push(tail);
+      tailOffset += tail.length;
+    } else {
+      heads.push(encodeStatic(info, values[i], types[i]));
+    }
+  });
+  return bytesToHex(concat([...heads, ...tails]));
+}
+
+function readWord(data: Uint8Array, offset: number): Uint8Array {
+  if (offset + WORD > data.length) throw new Error('ABI data too short');
+  return data.subarray(offset, offset + WORD);
+}
+
+const wordToBigInt = (word: Uint8Array) => hexToBigInt(bytesToHex(word));
+
+function decodeValue(info: TypeInfo, data: Uint8Array, offset: number): unknown {
+  const word = readWord(data, offset);
+  switch (info.kind) {
+    case 'uint':
+      return wordToBigInt(word);
+    case 'int':
+      return BigInt.asIntN(info.bits, wordToBigInt(word));
+    case 'address':
+      return bytesToHex(word.subarray(12));
+    case 'bool':
+      return wordToBigInt(word) !== ZERO;
+    case 'fixedBytes':
+      return bytesToHex(word.subarray(0, info.size));
+    case 'string':
+    case 'bytes': {
+      const start = Number(wordToBigInt(word));
+      const length = Number(wordToBigInt(readWord(data, start)));
+      if (start + WORD + length > data.length) throw new Error('ABI data too short');
+      const bytes = data.subarray(start + WORD, start + WORD + length);
+      return info.kind === 'string' ? new TextDecoder().decode(bytes) : bytesToHex(bytes);
+    }
+  }
+}
+
+/** abi.decode(data, types) for a flat list of types */
+export function decodeParameters(types: readonly string[], data: Hex): unknown[] {
+  const bytes = hexToBytes(data);
+  return types.map((type, i) => decodeValue(typeInfo(type), bytes, i * WORD));
+}
+
+// ---------------------------------------------------------------------------
+// Contract ABI helpers
+
+const signatureOf = (item: { name: string; inputs: readonly AbiParameter[] }) =>
+  `${item.name}(${item.inputs.map(input => input.type).join(',')})`;
+
+export const functionSelector = (signature: string): Hex => keccak256(signature).slice(0, 10) as Hex;
+
+export const eventTopic = (signature: string): Hex => keccak256(signature);
+
+function named(params: readonly AbiParameter[], values: unknown[]): Record<string, unknown> {
+  return Object.fromEntries(params.map((param, i) => [param.name || String(i), values[i]]));
+}
+
+function findFunction(abi: Abi, name: string): AbiFunction {
+  const item = abi.find((entry): entry is AbiFunction => entry.type === 'function' && entry.name === name);
+  if (!item) throw new Error(`Function ${name} not found in ABI`);
+  return item;
+}
+
+export function encodeFunctionData(abi: Abi, name: string, args: readonly unknown[] = []): Hex {
+  const fn = findFunction(abi, name);
+  const params = encodeParameters(fn.inputs.map(input => input.type), args);
+  return `${functionSelector(signatureOf(fn))}${params.slice(2)}` as Hex;
+}
+
+/** Outputs in declaration order (a single output is still returned as a one-element array) */
+export function decodeFunctionResult(abi: Abi, name: string, data: Hex): unknown[] {
+  return decodeParameters(findFunction(abi, name).outputs.map(output => output.type), data);
+}
+
+/** Decodes a log emitted by one of the ABI's events, or returns null for foreign logs */
+export function decodeEventLog(abi: Abi, log: LogLike): DecodedEvent | null {
+  const [topic0, ...indexedTopics] = log.topics;
+  if (!topic0) return null;
+  const event = abi.find(
+    (entry): entry is AbiEvent => entry.type === 'event' && !entry.anonymous && eventTopic(signatureOf(entry)) === topic0.toLowerCase()
+  );
+  if (!event) return null;
+
+  const indexed = event.inputs.filter(input => input.indexed);
+  if (indexed.length !== indexedTopics.length) return null;
+  const plain = event.inputs.filter(input => !input.indexed);
+  const plainValues = decodeParameters(plain.map(input => input.type), log.data);
+
+  const args: Record<string, unknown> = {};
+  let nextIndexed = 0;
+  let nextPlain = 0;
+  for (const input of event.inputs) {
+    if (input.indexed) {
+      const topic = indexedTopics[nextIndexed++];
+      const info = typeInfo(input.type);
+      args[input.name] = isDynamic(info) ? topic : decodeValue(info, hexToBytes(topic), 0);
+    } else {
+      args[input.name] = plainValues[nextPlain++];
+    }
+  }
+  return { eventName: event.name, args };
+}
+
+const ERROR_STRING_SELECTOR = functionSelector('Error(string)');
+const PANIC_SELECTOR = functionSelector('Panic(uint256)');
+
+/** Names a revert: a custom error from the ABI, require(..., "reason") or a panic. Null if unknown */
+export function decodeErrorResult(abi: Abi, data: Hex): DecodedError | null {
+  if (!isHex(data) || data.length < 10) return null;
+  const selector = data.slice(0, 10).toLowerCase();
+  const body = `0x${data.slice(10)}` as Hex;
+  try {
+    if (selector === ERROR_STRING_SELECTOR) return { errorName: 'Error', args: { message: decodeParameters(['string'], body)[0] } };
+    if (selector === PANIC_SELECTOR) return { errorName: 'Panic', args: { code: decodeParameters(['uint256'], body)[0] } };
+    const error = abi.find(
+      (entry): entry is AbiError => entry.type === 'error' && functionSelector(signatureOf(entry)) === selector
+    );
+    if (!error) return null;
+    return { errorName: error.name, args: named(error.inputs, decodeParameters(error.inputs.map(input => input.type), body)) };
+  } catch {
+    return null;
+  }
+}
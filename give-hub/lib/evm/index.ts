@@ -0,0 +1,44 @@
+/**
+ * FILE: lib/evm/index.ts
+ * PURPOSE: Dependency-free EVM toolkit: Keccak-256, ABI encoding/decoding, signature recovery and a JSON-RPC client
+ * ACCESS: Server and client safe. import { encodeFunctionData, httpRpcClient } from '@/lib/evm'
+ * NOTES:
+ * - Kept in-house so the payment provider, the contract client and the indexer share one
+ *   implementation without pulling a wallet library into the bundle
+ */
+
+export { keccak256Bytes } from './keccak';
+export {
+  ZERO_ADDRESS,
+  bytesToHex,
+  hexToBytes,
+  isHex,
+  toHex,
+  hexToBigInt,
+  keccak256,
+  isAddress,
+  toChecksumAddress,
+  encodeParameters,
+  decodeParameters,
+  functionSelector,
+  eventTopic,
+  encodeFunctionData,
+  decodeFunctionResult,
+  decodeEventLog,
+  decodeErrorResult,
+} from './abi';
+export type { Hex, Abi, AbiItem, AbiParameter, AbiFunction, AbiEvent, AbiError, LogLike, DecodedEvent, DecodedError } from './abi';
+export { parseSignature, recoverPublicKey, publicKeyToAddress, hashMessage, recoverMessageAddress } from './secp256k1';
+export type { Signature } from './secp256k1';
+export {
+  JsonRpcError,
+  normalizeLog,
+  httpRpcClient,
+  getBlockNumber,
+  getBlock,
+  getLogs,
+  getTransactionReceipt,
+  requestAccount,
+  waitForTransactionReceipt,
+} from './rpc';
+export type { JsonRpcRequest, JsonRpcClient, Block, Log, LogFilter, TransactionReceipt, WaitOptions } from './rpc';
@@ -0,0 +1,91 @@
+/**
+ * FILE: lib/evm/keccak.ts
+ * PURPOSE: Keccak-256 (the pre-standard SHA-3 Ethereum uses) for selectors, event topics and addresses
+ * ACCESS: Server and client safe. import { keccak256 } from '@/lib/evm'
+ * NOTES:
+ * - Node's crypto only ships the padded FIPS `sha3-256`, which hashes to different bytes
+ * - BigInt lanes keep this short; inputs here are signatures, calldata and messages, not bulk data
+ */
+
+// The tsconfig target (ES2017) has no bigint literals
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const EIGHT = BigInt(8);
+const SIXTY_FOUR = BigInt(64);
+const BYTE_MASK = BigInt(0xff);
+const MASK = (ONE << SIXTY_FOUR) - ONE;
+const RATE_BYTES = 136;
+
+const ROUND_CONSTANTS = [
+  '0000000000000001', '0000000000008082', '800000000000808a', '8000000080008000',
+  '000000000000808b', '0000000080000001', '8000000080008081', '8000000000008009',
+  '000000000000008a', '0000000000000088', '0000000080008009', '000000008000000a',
+  '000000008000808b', '800000000000008b', '8000000000008089', '8000000000008003',
+  '8000000000008002', '8000000000000080', '000000000000800a', '800000008000000a',
+  '8000000080008081', '8000000000008080', '0000000080000001', '8000000080008008',
+].map(hex => BigInt(`0x${hex}`));
+
+// Rotation offset for lane (x, y), at index x + 5y
+const ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14,
+].map(BigInt);
+
+const rotl = (lane: bigint, by: bigint) => (by === ZERO ? lane : ((lane << by) | (lane >> (SIXTY_FOUR - by))) & MASK);
+
+function permute(state: bigint[]): void {
+  const c = new Array<bigint>(5);
+  const b = new Array<bigint>(25);
+  for (const constant of ROUND_CONSTANTS) {
+    // theta
+    for (let x = 0; x < 5; x++) c[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl(c[(x + 1) % 5], ONE);
+      for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+    }
+    // rho + pi
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl(state[x + 5 * y], ROTATIONS[x + 5 * y]);
+    }
+    // chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) state[x + y] = b[x + y] ^ (~b[((x + 1) % 5) + y] & MASK & b[((x + 2) % 5) + y]);
+    }
+    // iota
+    state[0] ^= constant;
+  }
+}
+
+/** Keccak-256 of raw bytes (strings are hashed as UTF-8) */
+export function keccak256Bytes(input: Uint8Array | string): Uint8Array {
+  const data = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+
+  // Keccak padding: 0x01 after the message, 0x80 on the last byte of the block
+  const padded = new Uint8Array(Math.floor(data.length / RATE_BYTES + 1) * RATE_BYTES);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(ZERO);
+  for (let offset = 0; offset < padded.length; offset += RATE_BYTES) {
+    for (let lane = 0; lane < RATE_BYTES / 8; lane++) {
+      let value = ZERO;
+      for (let byte = 7; byte >= 0; byte--) value = (value << EIGHT) | BigInt(padded[offset + lane * 8 + byte]);
+      state[lane] ^= value;
+    }
+    permute(state);
+  }
+
+  const out = new Uint8Array(32);
+  for (let lane = 0; lane < 4; lane++) {
+    let value = state[lane];
+    for (let byte = 0; byte < 8; byte++) {
+      out[lane * 8 + byte] = Number(value & BYTE_MASK);
+      value >>= EIGHT;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,203 @@
+/**
+ * FILE: lib/evm/rpc.ts
+ * PURPOSE: Pluggable JSON-RPC client and transaction tracking (receipt + confirmations)
+ * ACCESS: Server and client safe. import { httpRpcClient, waitForTransactionReceipt } from '@/lib/evm'
+ * NOTES:
+ * - JsonRpcClient is the EIP-1193 request() shape, so window.ethereum, an HTTP node (anvil,
+ *   a hosted RPC) or a test double all plug in the same way
+ * - Receipts and logs are normalized: quantities become bigint/number, addresses lowercase
+ */
+
+import { hexToBigInt, toHex, type Hex } from './abi';
+
+export type JsonRpcRequest = { method: string; params?: readonly unknown[] };
+
+export interface JsonRpcClient {
+  request<T = unknown>(args: JsonRpcRequest): Promise<T>;
+}
+
+/** Error object returned by the node or wallet; `data` carries revert bytes when there are any */
+export class JsonRpcError extends Error {
+  constructor(message: string, readonly code: number, readonly data?: unknown) {
+    super(message);
+    this.name = 'JsonRpcError';
+  }
+}
+
+export type Log = {
+  address: Hex;
+  topics: Hex[];
+  data: Hex;
+  blockNumber: bigint;
+  blockHash: Hex;
+  transactionHash: Hex;
+  logIndex: number;
+  removed: boolean;
+};
+
+export type Block = {
+  number: bigint;
+  hash: Hex;
+  parentHash: Hex;
+  /** Unix seconds */
+  timestamp: number;
+};
+
+export type LogFilter = {
+  address: Hex;
+  fromBlock: bigint;
+  toBlock: bigint;
+  /** Per position: one topic, any of several, or null for any */
+  topics?: (Hex | Hex[] | null)[];
+};
+
+export type TransactionReceipt = {
+  transactionHash: Hex;
+  blockNumber: bigint;
+  blockHash: Hex;
+  from: Hex;
+  to: Hex | null;
+  contractAddress: Hex | null;
+  status: 'success' | 'reverted';
+  gasUsed: bigint;
+  logs: Log[];
+};
+
+type RawLog = {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: string;
+  removed?: boolean;
+};
+
+type RawReceipt = {
+  transactionHash: string;
+  blockNumber: string;
+  blockHash: string;
+  from: string;
+  to: string | null;
+  contractAddress?: string | null;
+  status: string;
+  gasUsed: string;
+  logs: RawLog[];
+};
+
+const lower = (value: string) => value.toLowerCase() as Hex;
+
+export const normalizeLog = (log: RawLog): Log => ({
+  address: lower(log.address),
+  topics: log.topics.map(lower),
+  data: log.data as Hex,
+  blockNumber: hexToBigInt(log.blockNumber),
+  blockHash: lower(log.blockHash),
+  transactionHash: lower(log.transactionHash),
+  logIndex: Number(hexToBigInt(log.logIndex)),
+  removed: Boolean(log.removed),
+});
+
+const normalizeReceipt = (raw: RawReceipt): TransactionReceipt => ({
+  transactionHash: lower(raw.transactionHash),
+  blockNumber: hexToBigInt(raw.blockNumber),
+  blockHash: lower(raw.blockHash),
+  from: lower(raw.from),
+  to: raw.to ? lower(raw.to) : null,
+  contractAddress: raw.contractAddress ? lower(raw.contractAddress) : null,
+  status: hexToBigInt(raw.status) === BigInt(1) ? 'success' : 'reverted',
+  gasUsed: hexToBigInt(raw.gasUsed),
+  logs: raw.logs.map(normalizeLog),
+});
+
+/** JSON-RPC over HTTP(S), e.g. http://127.0.0.1:8545 for anvil */
+export function httpRpcClient(url: string, fetchImpl: typeof fetch = fetch): JsonRpcClient {
+  let nextId = 1;
+  return {
+    async request<T>({ method, params = [] }: JsonRpcRequest): Promise<T> {
+      const res = await fetchImpl(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params }),
+      });
+      if (!res.ok) throw new JsonRpcError(`RPC ${method} failed with HTTP ${res.status}`, -32000);
+      const body = (await res.json()) as { result?: T; error?: { message: string; code: number; data?: unknown } };
+      if (body.error) throw new JsonRpcError(body.error.message, body.error.code, body.error.data);
+      return body.result as T;
+    },
+  };
+}
+
+export async function getBlockNumber(client: JsonRpcClient): Promise<bigint> {
+  return hexToBigInt(await client.request<string>({ method: 'eth_blockNumber' }));
+}
+
+/** null when the node does not have the block (yet, or any more) */
+export async function getBlock(client: JsonRpcClient, number: bigint): Promise<Block | null> {
+  const raw = await client.request<{ number: string; hash: string; parentHash: string; timestamp: string } | null>({
+    method: 'eth_getBlockByNumber',
+    params: [toHex(number), false],
+  });
+  if (!raw) return null;
+  return {
+    number: hexToBigInt(raw.number),
+    hash: lower(raw.hash),
+    parentHash: lower(raw.parentHash),
+    timestamp: Number(hexToBigInt(raw.timestamp)),
+  };
+}
+
+export async function getLogs(client: JsonRpcClient, filter: LogFilter): Promise<Log[]> {
+  const raw = await client.request<RawLog[]>({
+    method: 'eth_getLogs',
+    params: [{ address: filter.address, fromBlock: toHex(filter.fromBlock), toBlock: toHex(filter.toBlock), topics: filter.topics }],
+  });
+  return raw.map(normalizeLog);
+}
+
+export async function getTransactionReceipt(client: JsonRpcClient, hash: Hex): Promise<TransactionReceipt | null> {
+  const raw = await client.request<RawReceipt | null>({ method: 'eth_getTransactionReceipt', params: [hash] });
+  return raw ? normalizeReceipt(raw) : null;
+}
+
+/** The wallet's selected account, asking the user to connect if needed; null if it has none */
+export async function requestAccount(client: JsonRpcClient): Promise<Hex | null> {
+  let accounts: string[] = [];
+  try {
+    accounts = await client.request<string[]>({ method: 'eth_requestAccounts' });
+  } catch (error) {
+    // Plain nodes (anvil) have no eth_requestAccounts; their accounts are already unlocked
+    if ((error as { code?: number }).code !== -32601) throw error;
+    accounts = await client.request<string[]>({ method: 'eth_accounts' });
+  }
+  return accounts?.[0] ? lower(accounts[0]) : null;
+}
+
+export type WaitOptions = { confirmations?: number; pollIntervalMs?: number; timeoutMs?: number };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Polls until the transaction is mined and buried under `confirmations` blocks (1 = mined).
+ * Re-reads the receipt each round so a reorg that drops or moves the transaction is noticed.
+ * Throws on timeout; a reverted receipt is returned, not thrown - check `status`.
+ */
+export async function waitForTransactionReceipt(
+  client: JsonRpcClient,
+  hash: Hex,
+  { confirmations = 1, pollIntervalMs = 1000, timeoutMs = 120_000 }: WaitOptions = {}
+): Promise<TransactionReceipt> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const receipt = await getTransactionReceipt(client, hash);
+    if (receipt) {
+      const head = await getBlockNumber(client);
+      if (head - receipt.blockNumber + BigInt(1) >= BigInt(Math.max(1, confirmations))) return receipt;
+    }
+    if (Date.now() + pollIntervalMs > deadline) {
+      throw new Error(`Transaction ${hash} was not confirmed within ${Math.round(timeoutMs / 1000)}s`);
+    }
+    await sleep(pollIntervalMs);
+  }
+}
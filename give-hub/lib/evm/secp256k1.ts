@@ -0,0 +1,150 @@
+/**
+ * FILE: lib/evm/secp256k1.ts
+ * PURPOSE: secp256k1 public key recovery (ecrecover) and EIP-191 signed-message hashing
+ * ACCESS: Server and client safe. import { recoverMessageAddress } from '@/lib/evm'
+ * NOTES:
+ * - Verification only: nothing here holds or handles private keys, so the arithmetic does not
+ *   need to be constant-time
+ * - Affine coordinates with BigInt; one recovery is two scalar multiplications (tens of ms)
+ * - Node's crypto can verify a signature against a known key but cannot recover the key, which is
+ *   what turns a signature into an address
+ */
+
+import { keccak256Bytes } from './keccak';
+import { bytesToHex, hexToBytes, isHex, type Hex } from './abi';
+
+// The tsconfig target (ES2017) has no bigint literals
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const THREE = BigInt(3);
+const FOUR = BigInt(4);
+const SEVEN = BigInt(7);
+const EIGHT = BigInt(8);
+const BYTE_MASK = BigInt(0xff);
+
+// Field prime, group order and generator
+const P = BigInt('0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f');
+const N = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+const G: Point = {
+  x: BigInt('0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'),
+  y: BigInt('0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8'),
+};
+
+/** An affine curve point; null is the point at infinity */
+type Point = { x: bigint; y: bigint } | null;
+
+const mod = (a: bigint, m: bigint) => {
+  const r = a % m;
+  return r >= ZERO ? r : r + m;
+};
+
+function invert(a: bigint, m: bigint): bigint {
+  let [low, high] = [mod(a, m), m];
+  let [lm, hm] = [ONE, ZERO];
+  while (low > ONE) {
+    const q = high / low;
+    [lm, hm] = [hm - lm * q, lm];
+    [low, high] = [high - low * q, low];
+  }
+  return mod(lm, m);
+}
+
+function power(base: bigint, exponent: bigint, m: bigint): bigint {
+  let result = ONE;
+  let b = mod(base, m);
+  for (let e = exponent; e > ZERO; e >>= ONE) {
+    if (e & ONE) result = (result * b) % m;
+    b = (b * b) % m;
+  }
+  return result;
+}
+
+function add(p: Point, q: Point): Point {
+  if (!p) return q;
+  if (!q) return p;
+  if (p.x === q.x && p.y !== q.y) return null;
+  const slope =
+    p.x === q.x
+      ? mod(THREE * p.x * p.x * invert(TWO * p.y, P), P)
+      : mod((q.y - p.y) * invert(q.x - p.x, P), P);
+  const x = mod(slope * slope - p.x - q.x, P);
+  return { x, y: mod(slope * (p.x - x) - p.y, P) };
+}
+
+function multiply(point: Point, scalar: bigint): Point {
+  let result: Point = null;
+  let addend = point;
+  for (let k = scalar; k > ZERO; k >>= ONE) {
+    if (k & ONE) result = add(result, addend);
+    addend = add(addend, addend);
+  }
+  return result;
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  let value = ZERO;
+  for (const byte of bytes) value = (value << EIGHT) | BigInt(byte);
+  return value;
+}
+
+function bigIntTo32Bytes(value: bigint): Uint8Array {
+  const bytes = new Uint8Array(32);
+  for (let i = 31, v = value; i >= 0; i--, v >>= EIGHT) bytes[i] = Number(v & BYTE_MASK);
+  return bytes;
+}
+
+export type Signature = { r: bigint; s: bigint; /** y parity of R: 0 or 1 */ recovery: number };
+
+/** 65-byte r || s || v signatures as wallets return them; v may be 27/28 or 0/1. null if malformed */
+export function parseSignature(signature: string): Signature | null {
+  if (!isHex(signature) || signature.length !== 132) return null;
+  const bytes = hexToBytes(signature);
+  const v = bytes[64];
+  const recovery = v >= 27 ? v - 27 : v;
+  if (recovery !== 0 && recovery !== 1) return null;
+  return { r: bytesToBigInt(bytes.slice(0, 32)), s: bytesToBigInt(bytes.slice(32, 64)), recovery };
+}
+
+/** The signer's uncompressed public key (64 bytes, x || y) for a 32-byte hash, or null if the signature is invalid */
+export function recoverPublicKey(hash: Uint8Array, { r, s, recovery }: Signature): Uint8Array | null {
+  if (hash.length !== 32 || r <= ZERO || r >= N || s <= ZERO || s >= N) return null;
+
+  // R is the curve point with x = r and the signalled y parity
+  const alpha = mod(r * r * r + SEVEN, P);
+  const beta = power(alpha, (P + ONE) / FOUR, P);
+  if ((beta * beta) % P !== alpha) return null;
+  const y = (beta & ONE) === BigInt(recovery) ? beta : P - beta;
+  const R: Point = { x: r, y };
+
+  // Q = r^-1 (sR - eG)
+  const e = mod(bytesToBigInt(hash), N);
+  const rInv = invert(r, N);
+  const Q = add(multiply(G, mod(-e * rInv, N)), multiply(R, mod(s * rInv, N)));
+  if (!Q) return null;
+
+  const key = new Uint8Array(64);
+  key.set(bigIntTo32Bytes(Q.x), 0);
+  key.set(bigIntTo32Bytes(Q.y), 32);
+  return key;
+}
+
+/** Lowercase address of an uncompressed public key: the last 20 bytes of its Keccak-256 */
+export const publicKeyToAddress = (publicKey: Uint8Array): Hex => bytesToHex(keccak256Bytes(publicKey).slice(12));
+
+/** EIP-191 personal_sign hash: keccak256("\x19Ethereum Signed Message:\n" + byte length + message) */
+export function hashMessage(message: string): Uint8Array {
+  const body = new TextEncoder().encode(message);
+  const prefix = new TextEncoder().encode(`\x19Ethereum Signed Message:\n${body.length}`);
+  const data = new Uint8Array(prefix.length + body.length);
+  data.set(prefix, 0);
+  data.set(body, prefix.length);
+  return keccak256Bytes(data);
+}
+
+/** The address that personal_sign'ed `message`, or null when the signature does not recover */
+export function recoverMessageAddress(message: string, signature: string): Hex | null {
+  const parsed = parseSignature(signature);
+  const publicKey = parsed ? recoverPublicKey(hashMessage(message), parsed) : null;
+  return publicKey ? publicKeyToAddress(publicKey) : null;
+}
@@ -0,0 +1,161 @@
+/**
+ * FILE: lib/idempotency/index.ts
+ * PURPOSE: Idempotency-Key support for endpoints that move money (payments, AI donate)
+ * ACCESS: Server-only. Wrap a route handler with withIdempotency(request, scope, payload, handler)
+ * BEHAVIOUR:
+ * - No `Idempotency-Key` header: the handler runs as usual
+ * - Keys are scoped to the caller: the signed-in user, or the client address (getClientIp) for
+ *   anonymous requests, so one caller can never replay or block another caller's key
+ * - First request with a key: the handler runs and its JSON response is stored for the TTL
+ * - Replay with the same key and payload: the stored response is returned, handler is skipped
+ * - Same key with a different payload: 422; same key while the first call is still running: 409
+ * - 5xx responses and thrown errors release the key so the client can retry
+ * MIGRATION NOTES:
+ * - In-memory store is per server process; back IdempotencyStore with Redis/MongoDB (TTL index)
+ *   when running more than one instance
+ */
+
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/middleware';
+import { getClientIp } from '@/lib/rate-limit';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+export type IdempotencyRecord = {
+  fingerprint: string;
+  state: 'in_progress' | 'completed';
+  status?: number;
+  body?: unknown;
+  expiresAt: number;
+};
+
+export interface IdempotencyStore {
+  get(key: string): IdempotencyRecord | null;
+  set(key: string, record: IdempotencyRecord): void;
+  delete(key: string): void;
+}
+
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+
+  get(key: string): IdempotencyRecord | null {
+    const record = this.records.get(key);
+    if (!record) return null;
+    if (record.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return null;
+    }
+    return record;
+  }
+
+  set(key: string, record: IdempotencyRecord): void {
+    this.prune();
+    this.records.set(key, record);
+  }
+
+  delete(key: string): void {
+    this.records.delete(key);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, record] of this.records) {
+      if (record.expiresAt <= now) this.records.delete(key);
+    }
+  }
+}
+
+// Survive Next.js hot reloads in development
+const globalForIdempotency = globalThis as typeof globalThis & { __giveHubIdempotency?: IdempotencyStore };
+const store: IdempotencyStore =
+  globalForIdempotency.__giveHubIdempotency ?? (globalForIdempotency.__giveHubIdempotency = new MemoryIdempotencyStore());
+
+function ttlMs(): number {
+  const fromEnv = Number(process.env.IDEMPOTENCY_TTL_MS);
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_TTL_MS;
+}
+
+// Key order must not change the fingerprint, so serialise objects with sorted keys
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function fingerprintOf(payload: unknown): string {
+  return createHash('sha256').update(stableStringify(payload)).digest('hex');
+}
+
+async function callerOf(request: NextRequest): Promise<string> {
+  const user = await getRequestUser(request);
+  // Without a known address anonymous callers share one scope; the client's random key still separates them
+  return user ? `user:${user.id}` : `ip:${getClientIp(request) ?? 'unknown'}`;
+}
+
+export async function withIdempotency(
+  request: NextRequest,
+  scope: string,
+  payload: unknown,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)?.trim();
+  if (!key) return handler();
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return NextResponse.json({ error: `${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters` }, { status: 400 });
+  }
+
+  const storeKey = `${scope}:${await callerOf(request)}:${key}`;
+  const fingerprint = fingerprintOf(payload);
+  const existing = store.get(storeKey);
+
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      return NextResponse.json(
+        { error: `${IDEMPOTENCY_HEADER} was already used with a different request payload` },
+        { status: 422 }
+      );
+    }
+    if (existing.state === 'in_progress') {
+      return NextResponse.json(
+        { error: 'A request with this Idempotency-Key is still being processed' },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(existing.body, {
+      status: existing.status,
+      headers: { 'Idempotent-Replayed': 'true' },
+    });
+  }
+
+  store.set(storeKey, { fingerprint, state: 'in_progress', expiresAt: Date.now() + ttlMs() });
+
+  try {
+    const response = await handler();
+    if (response.status >= 500) {
+      store.delete(storeKey);
+      return response;
+    }
+    const body = await response.clone().json().catch(() => null);
+    store.set(storeKey, {
+      fingerprint,
+      state: 'completed',
+      status: response.status,
+      body,
+      expiresAt: Date.now() + ttlMs(),
+    });
+    return response;
+  } catch (error) {
+    store.delete(storeKey);
+    throw error;
+  }
+}
@@ -0,0 +1,433 @@
+/**
+ * FILE: lib/indexer/index.ts
+ * PURPOSE: Follows the fundraiser contract's CampaignCreated, CampaignStatus and Donation logs and
+ *          mirrors them into the app, so `raised` reflects what actually happened on-chain
+ * ACCESS: Server-only. runIndexer() is called by lib/indexer/scheduler (instrumentation.ts) and
+ *         `npm run indexer:run`
+ * MODEL:
+ * - `indexer_checkpoints`: one per chain + contract - last indexed block plus the hashes of recent
+ *   batch ends, which is how reorgs are noticed
+ * - `chain_events`: every applied log (`chainId:txHash:logIndex`) and the ledger donation it produced
+ * - `chain_campaigns`: contract-side campaign state (creator, token, window, active), rebuilt from
+ *   `chain_events` whenever one of its events is applied or rolled back
+ * NOTES:
+ * - Donations go through the ledger (lib/ledger) for campaigns linked by
+ *   `contractOwnership.onChainCampaignId`; ones the app already recorded after verifying the
+ *   transaction (lib/payments/onchain) are matched by tx hash and adopted, not counted twice
+ * - Reorgs: each pass re-reads the stored block hashes first. On a mismatch it rolls back to the
+ *   newest block that still matches - donations from dropped blocks are reversed (receipt voided)
+ *   and the blocks are indexed again from the canonical chain
+ * - Donations to campaigns that are not linked yet stay `unlinked` and are recorded once the
+ *   campaign is linked. ERC-20 donations stay `unpriced`: only the native token has a USD price
+ * - A donor address that is a verified wallet (lib/auth/wallets) credits that account's totals
+ * - Only FUNDRAISER_CONTRACT_ADDRESS is followed; campaigns pinned to another contract are not
+ * MIGRATION NOTES:
+ * - Production: run `indexer:run` as a worker, or feed the same records from a subgraph
+ */
+
+import { db } from '@/_dev/mock-db/database';
+import type { Campaign, CollectionRecord } from '@/_dev/mock-db/database';
+import { FORWARD_FUNDRAISER_ABI } from '@/lib/contracts/abi';
+import {
+  ZERO_ADDRESS,
+  decodeEventLog,
+  eventTopic,
+  getBlock,
+  getBlockNumber,
+  getLogs,
+  type Hex,
+  type JsonRpcClient,
+  type Log,
+} from '@/lib/evm';
+import { findUserByVerifiedWallet } from '@/lib/auth/wallets';
+import { recordDonation, reverseDonation } from '@/lib/ledger';
+import { DONATION_CHAIN, onChainConfig, onChainRpcClient, weiToUsd } from '@/lib/payments/onchain';
+
+const CHECKPOINTS = 'indexer_checkpoints';
+const EVENTS = 'chain_events';
+const CAMPAIGNS = 'chain_campaigns';
+
+const REORG_REASON = 'Chain reorganization: the donation transaction is no longer on-chain';
+// Batch-end hashes kept for the reorg check; with the default batch size this covers far deeper
+// reorgs than ZetaChain (instant finality) or a local anvil will produce
+const RECENT_BLOCKS = 64;
+const DEFAULT_BATCH_BLOCKS = 2000;
+
+const TOPICS = ['CampaignCreated(uint256,address,address,uint96,uint96)', 'CampaignStatus(uint256,bool)', 'Donation(uint256,address,address,uint256,string)'].map(eventTopic);
+
+type IndexerConfig = {
+  chainId: number;
+  contract: Hex;
+  nativeUsdPrice: number;
+  startBlock: bigint;
+  batchBlocks: bigint;
+  confirmations: number;
+  client: JsonRpcClient;
+};
+
+type Checkpoint = CollectionRecord & {
+  chainId: number;
+  contract: Hex;
+  /** Decimal block numbers: JSON has no bigint */
+  lastBlock: string;
+  recent: { number: string; hash: Hex }[];
+  updatedAt: string;
+};
+
+export type ChainEventStatus = 'recorded' | 'unlinked' | 'unpriced';
+
+export type ChainEvent = CollectionRecord & {
+  chainId: number;
+  contract: Hex;
+  txHash: Hex;
+  logIndex: number;
+  blockNumber: string;
+  blockHash: Hex;
+  eventName: 'CampaignCreated' | 'CampaignStatus' | 'Donation';
+  onChainCampaignId: string;
+  // CampaignCreated
+  creator?: Hex;
+  preferredToken?: Hex;
+  start?: number;
+  end?: number;
+  // CampaignStatus
+  active?: boolean;
+  // Donation
+  donor?: Hex;
+  token?: Hex;
+  /** wei, decimal */
+  amount?: string;
+  memo?: string;
+  /** Ledger txId: the tx hash, suffixed `#logIndex` for a transaction's 2nd+ donation */
+  txId?: string;
+  status?: ChainEventStatus;
+  donationId?: string;
+  indexedAt: string;
+};
+
+export type ChainCampaign = CollectionRecord & {
+  chainId: number;
+  contract: Hex;
+  onChainCampaignId: string;
+  creator: Hex;
+  preferredToken: Hex;
+  start: number;
+  end: number;
+  active: boolean;
+  createdTx: Hex;
+  createdBlock: string;
+};
+
+export type IndexerReport = {
+  configured: boolean;
+  head?: number;
+  indexedTo?: number;
+  /** Set when a reorg was rolled back: the block indexing resumed after */
+  reorgAncestor?: number;
+  reversed: number;
+  events: number;
+  donations: number;
+  adopted: number;
+  pending: number;
+  caughtUp: boolean;
+};
+
+function indexerConfig(client?: JsonRpcClient): IndexerConfig | null {
+  const configured = onChainConfig();
+  if (!configured.ok) return null;
+  const { config } = configured;
+  return {
+    chainId: config.chainId,
+    contract: config.contractAddress,
+    nativeUsdPrice: config.nativeUsdPrice,
+    startBlock: BigInt(Math.max(0, Number(process.env.INDEXER_START_BLOCK || 0))),
+    batchBlocks: BigInt(Math.max(1, Number(process.env.INDEXER_BATCH_BLOCKS || DEFAULT_BATCH_BLOCKS))),
+    confirmations: Math.max(0, Number(process.env.INDEXER_CONFIRMATIONS || 0)),
+    client: client ?? onChainRpcClient(config),
+  };
+}
+
+export const isIndexerConfigured = () => onChainConfig().ok;
+
+const checkpointId = (config: IndexerConfig) => `${config.chainId}:${config.contract}`;
+const campaignKey = (config: IndexerConfig, onChainCampaignId: string) => `${config.chainId}:${config.contract}:${onChainCampaignId}`;
+
+function loadCheckpoint(config: IndexerConfig): Checkpoint {
+  const existing = db.findRecord<Checkpoint>(CHECKPOINTS, checkpointId(config));
+  if (existing) return existing;
+  return db.insertRecord<Checkpoint>(CHECKPOINTS, {
+    id: checkpointId(config),
+    chainId: config.chainId,
+    contract: config.contract,
+    lastBlock: (config.startBlock - BigInt(1)).toString(),
+    recent: [],
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+function saveCheckpoint(checkpoint: Checkpoint, lastBlock: bigint, recent: Checkpoint['recent']): Checkpoint {
+  return db.updateRecord<Checkpoint>(CHECKPOINTS, checkpoint.id, {
+    lastBlock: lastBlock.toString(),
+    recent: recent.slice(-RECENT_BLOCKS),
+    updatedAt: new Date().toISOString(),
+  }) ?? checkpoint;
+}
+
+function listEvents(config: IndexerConfig): ChainEvent[] {
+  return db.listRecords<ChainEvent>(EVENTS, { chainId: config.chainId, contract: config.contract });
+}
+
+function findLinkedCampaign(config: IndexerConfig, onChainCampaignId: string): Campaign | null {
+  return db.getAllCampaigns().find(campaign => {
+    const link = campaign.contractOwnership;
+    if (link?.onChainCampaignId !== onChainCampaignId) return false;
+    if (link.contractAddress && link.contractAddress.toLowerCase() !== config.contract) return false;
+    return (link.chainId ?? config.chainId) === config.chainId;
+  }) ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Campaign state
+
+const byChainOrder = (a: ChainEvent, b: ChainEvent) =>
+  Number(BigInt(a.blockNumber) - BigInt(b.blockNumber)) || a.logIndex - b.logIndex;
+
+/** Rebuilds one on-chain campaign from its remaining events (after an apply or a rollback) */
+function refreshChainCampaign(config: IndexerConfig, onChainCampaignId: string): void {
+  const key = campaignKey(config, onChainCampaignId);
+  const events = listEvents(config)
+    .filter(event => event.onChainCampaignId === onChainCampaignId && event.eventName !== 'Donation')
+    .sort(byChainOrder);
+  const created = events.find(event => event.eventName === 'CampaignCreated');
+  if (!created) {
+    db.deleteRecord(CAMPAIGNS, key);
+    return;
+  }
+  const lastStatus = events.filter(event => event.eventName === 'CampaignStatus').pop();
+  const state: ChainCampaign = {
+    id: key,
+    chainId: config.chainId,
+    contract: config.contract,
+    onChainCampaignId,
+    creator: created.creator ?? ZERO_ADDRESS,
+    preferredToken: created.preferredToken ?? ZERO_ADDRESS,
+    start: created.start ?? 0,
+    end: created.end ?? 0,
+    active: lastStatus?.active ?? true,
+    createdTx: created.txHash,
+    createdBlock: created.blockNumber,
+  };
+  if (db.findRecord<ChainCampaign>(CAMPAIGNS, key)) db.updateRecord<ChainCampaign>(CAMPAIGNS, key, state);
+  else db.insertRecord<ChainCampaign>(CAMPAIGNS, state);
+}
+
+export function findChainCampaign(onChainCampaignId: string): ChainCampaign | null {
+  const config = indexerConfig();
+  return config ? db.findRecord<ChainCampaign>(CAMPAIGNS, campaignKey(config, onChainCampaignId)) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Donations
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+type DonationOutcome = { status: ChainEventStatus; donationId?: string; adopted?: boolean };
+
+/** Writes a Donation event into the ledger, or adopts the entry the payments route already made */
+function settleDonation(config: IndexerConfig, event: ChainEvent): DonationOutcome {
+  if (event.token !== ZERO_ADDRESS) return { status: 'unpriced' };
+  const amount = weiToUsd(BigInt(event.amount ?? '0'), config.nativeUsdPrice);
+  if (amount <= 0) return { status: 'unpriced' };
+
+  const existing = db.getAllDonations().find(donation => donation.txId === event.txId);
+  if (existing) return { status: 'recorded', donationId: existing.id, adopted: true };
+
+  const campaign = findLinkedCampaign(config, event.onChainCampaignId);
+  if (!campaign) return { status: 'unlinked' };
+
+  const recorded = recordDonation({
+    campaignId: campaign.id,
+    amount,
+    chain: DONATION_CHAIN,
+    donorName: event.memo?.trim().slice(0, 80) || shortAddress(event.donor ?? ZERO_ADDRESS),
+    // Only a Sign-In with Ethereum proof ties an address to an account
+    donorId: event.donor ? findUserByVerifiedWallet(event.donor)?.id : undefined,
+    txId: event.txId,
+    settled: true,
+  });
+  if (!recorded.ok) {
+    console.error(`Indexer could not record donation ${event.id}:`, recorded.error);
+    return { status: 'unlinked' };
+  }
+  return { status: 'recorded', donationId: recorded.donation.id };
+}
+
+function toChainEvent(config: IndexerConfig, log: Log, firstDonationLog: Map<string, number>): ChainEvent | null {
+  const decoded = decodeEventLog(FORWARD_FUNDRAISER_ABI, log);
+  if (!decoded) return null;
+  const args = decoded.args;
+  const base = {
+    id: `${config.chainId}:${log.transactionHash}:${log.logIndex}`,
+    chainId: config.chainId,
+    contract: config.contract,
+    txHash: log.transactionHash,
+    logIndex: log.logIndex,
+    blockNumber: log.blockNumber.toString(),
+    blockHash: log.blockHash,
+    onChainCampaignId: String(args.campaignId),
+    indexedAt: new Date().toISOString(),
+  };
+  switch (decoded.eventName) {
+    case 'CampaignCreated':
+      return {
+        ...base,
+        eventName: 'CampaignCreated',
+        creator: args.creator as Hex,
+        preferredToken: args.preferredToken as Hex,
+        start: Number(args.start),
+        end: Number(args.end),
+      };
+    case 'CampaignStatus':
+      return { ...base, eventName: 'CampaignStatus', active: Boolean(args.active) };
+    case 'Donation': {
+      const first = firstDonationLog.get(log.transactionHash) === log.logIndex;
+      return {
+        ...base,
+        eventName: 'Donation',
+        donor: args.donor as Hex,
+        token: args.token as Hex,
+        amount: String(args.amount),
+        memo: String(args.memo),
+        txId: first ? log.transactionHash : `${log.transactionHash}#${log.logIndex}`,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Reorgs
+
+/** Newest stored batch end that is still on the canonical chain; startBlock - 1 if none is */
+async function commonAncestor(config: IndexerConfig, checkpoint: Checkpoint): Promise<bigint> {
+  if (checkpoint.recent.length === 0) return BigInt(checkpoint.lastBlock);
+  for (const entry of [...checkpoint.recent].reverse()) {
+    const block = await getBlock(config.client, BigInt(entry.number));
+    if (block?.hash === entry.hash) return BigInt(entry.number);
+  }
+  console.warn(`Indexer: reorg deeper than the ${RECENT_BLOCKS} stored blocks; reindexing from ${config.startBlock}`);
+  return config.startBlock - BigInt(1);
+}
+
+/** Undoes everything indexed above `ancestor`, newest first */
+function rollback(config: IndexerConfig, ancestor: bigint): number {
+  const dropped = listEvents(config)
+    .filter(event => BigInt(event.blockNumber) > ancestor)
+    .sort(byChainOrder)
+    .reverse();
+  let reversed = 0;
+  const touched = new Set<string>();
+  for (const event of dropped) {
+    if (event.donationId) {
+      const result = reverseDonation(event.donationId, REORG_REASON);
+      if (result.ok) reversed += 1;
+      else if (result.status !== 404) throw new Error(`Could not reverse donation ${event.donationId}: ${result.error}`);
+    }
+    db.deleteRecord(EVENTS, event.id);
+    if (event.eventName !== 'Donation') touched.add(event.onChainCampaignId);
+  }
+  touched.forEach(id => refreshChainCampaign(config, id));
+  return reversed;
+}
+
+// ---------------------------------------------------------------------------
+// Passes
+
+/** Records donations that were waiting for their campaign to be linked */
+function settlePending(config: IndexerConfig, report: IndexerReport): void {
+  for (const event of listEvents(config).filter(e => e.eventName === 'Donation' && e.status === 'unlinked')) {
+    const outcome = settleDonation(config, event);
+    if (outcome.status === 'unlinked') continue;
+    db.updateRecord<ChainEvent>(EVENTS, event.id, { status: outcome.status, donationId: outcome.donationId });
+    if (outcome.donationId) report[outcome.adopted ? 'adopted' : 'donations'] += 1;
+  }
+}
+
+function applyLogs(config: IndexerConfig, logs: Log[], report: IndexerReport): void {
+  const ordered = logs.filter(log => !log.removed).sort((a, b) => Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex);
+  const firstDonationLog = new Map<string, number>();
+  for (const log of ordered) {
+    if (log.topics[0] === TOPICS[2] && !firstDonationLog.has(log.transactionHash)) firstDonationLog.set(log.transactionHash, log.logIndex);
+  }
+
+  for (const log of ordered) {
+    const event = toChainEvent(config, log, firstDonationLog);
+    if (!event || db.findRecord<ChainEvent>(EVENTS, event.id)) continue;
+
+    if (event.eventName === 'Donation') {
+      const outcome = settleDonation(config, event);
+      event.status = outcome.status;
+      event.donationId = outcome.donationId;
+      if (outcome.donationId) report[outcome.adopted ? 'adopted' : 'donations'] += 1;
+    }
+    db.insertRecord<ChainEvent>(EVENTS, event);
+    report.events += 1;
+    if (event.eventName !== 'Donation') refreshChainCampaign(config, event.onChainCampaignId);
+  }
+}
+
+export type RunIndexerOptions = {
+  /** Defaults to the verification node (lib/payments/onchain) */
+  client?: JsonRpcClient;
+  /** Stop after this many batches; the next pass continues from the checkpoint */
+  maxBatches?: number;
+};
+
+/**
+ * One indexing pass: reorg check and rollback, then batches of eth_getLogs up to
+ * head - INDEXER_CONFIRMATIONS. A no-op (configured: false) without on-chain config.
+ */
+export async function runIndexer({ client, maxBatches = 10 }: RunIndexerOptions = {}): Promise<IndexerReport> {
+  const report: IndexerReport = { configured: false, reversed: 0, events: 0, donations: 0, adopted: 0, pending: 0, caughtUp: false };
+  const config = indexerConfig(client);
+  if (!config) return report;
+  report.configured = true;
+
+  let checkpoint = loadCheckpoint(config);
+  const ancestor = await commonAncestor(config, checkpoint);
+  if (ancestor < BigInt(checkpoint.lastBlock)) {
+    report.reversed = rollback(config, ancestor);
+    report.reorgAncestor = Number(ancestor);
+    checkpoint = saveCheckpoint(checkpoint, ancestor, checkpoint.recent.filter(entry => BigInt(entry.number) <= ancestor));
+  }
+
+  const head = await getBlockNumber(config.client);
+  const target = head - BigInt(config.confirmations);
+  report.head = Number(head);
+
+  let from = BigInt(checkpoint.lastBlock) + BigInt(1);
+  for (let batch = 0; from <= target && batch < maxBatches; batch++) {
+    const to = from + config.batchBlocks - BigInt(1) < target ? from + config.batchBlocks - BigInt(1) : target;
+    const first = await getBlock(config.client, from);
+    const last = await getBlock(config.client, to);
+    const previous = checkpoint.recent[checkpoint.recent.length - 1];
+    // The batch must continue the chain we indexed so far; otherwise a reorg is under way and the
+    // next pass rolls it back first
+    if (!first || !last || (previous && BigInt(previous.number) === from - BigInt(1) && first.parentHash !== previous.hash)) break;
+
+    const logs = await getLogs(config.client, { address: config.contract, fromBlock: from, toBlock: to, topics: [TOPICS] });
+    const lastAfter = await getBlock(config.client, to);
+    if (lastAfter?.hash !== last.hash) break;
+
+    applyLogs(config, logs, report);
+    checkpoint = saveCheckpoint(checkpoint, to, [...checkpoint.recent, { number: to.toString(), hash: last.hash }]);
+    from = to + BigInt(1);
+  }
+
+  settlePending(config, report);
+  report.indexedTo = Number(checkpoint.lastBlock);
+  report.caughtUp = BigInt(checkpoint.lastBlock) >= target;
+  report.pending = listEvents(config).filter(event => event.status === 'unlinked' || event.status === 'unpriced').length;
+  return report;
+}
@@ -0,0 +1,46 @@
+/**
+ * FILE: lib/indexer/scheduler.ts
+ * PURPOSE: Local timer that keeps the on-chain event indexer (lib/indexer) following the chain
+ * ACCESS: Server-only. Started once per server process from instrumentation.ts;
+ *         `npm run indexer:run` indexes up to the head from the command line
+ * NOTES:
+ * - Only starts when on-chain payments are configured (FUNDRAISER_CONTRACT_ADDRESS etc.)
+ * - Ticks every INDEXER_INTERVAL_MS (default 15s; 0 turns the timer off). A tick that is still
+ *   indexing when the next one fires is not overlapped
+ * MIGRATION NOTES:
+ * - Production: run `indexer:run` as a dedicated worker instead of an in-process timer
+ */
+
+import { isIndexerConfigured, runIndexer, type IndexerReport } from './index';
+
+const DEFAULT_INTERVAL_MS = 15_000;
+
+type SchedulerState = { timer: ReturnType<typeof setInterval> | null; running: boolean };
+
+// Survives dev-server module reloads, like the pledge scheduler
+const globalForIndexer = globalThis as unknown as { __giveHubIndexer?: SchedulerState };
+const state = (globalForIndexer.__giveHubIndexer ??= { timer: null, running: false });
+
+// Quiet on success: the report is the result, only failures are logged
+async function tick(): Promise<IndexerReport | null> {
+  if (state.running) return null;
+  state.running = true;
+  try {
+    return await runIndexer();
+  } catch (error) {
+    console.error('Chain indexer tick failed:', error);
+    return null;
+  } finally {
+    state.running = false;
+  }
+}
+
+export function startIndexer(): void {
+  if (state.timer || !isIndexerConfigured()) return;
+  const raw = process.env.INDEXER_INTERVAL_MS;
+  const interval = raw === undefined || raw === '' ? DEFAULT_INTERVAL_MS : Number(raw);
+  if (!Number.isFinite(interval) || interval <= 0) return;
+  state.timer = setInterval(() => void tick(), interval);
+  // Never keeps a process (build, CLI) alive on its own
+  state.timer.unref?.();
+}
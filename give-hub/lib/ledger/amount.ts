@@ -0,0 +1,4 @@
+/** Round to cents so repeated float additions do not drift */
+export function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
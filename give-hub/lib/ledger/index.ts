@@ -0,0 +1,186 @@
+/**
+ * FILE: lib/ledger/index.ts
+ * PURPOSE: Donation ledger - the only place that writes donations and the totals derived from them
+ * ACCESS: Server-only (API routes, scripts). Import { recordDonation } from '@/lib/ledger'
+ * NOTES:
+ * - A donation entry, the campaign's `raised` and the creator's `totalRaised` are written in
+ *   one `db.transaction()`, so a failure part-way leaves all three untouched
+ * - Donation entries are the source of truth; `reconcileLedger()` recomputes totals from them
+ * - Every donation gets a numbered, signed receipt (lib/receipts) in the same unit
+ * - Inbox notifications (donation received, goal reached) and live stream events (lib/realtime)
+ *   go out only after the unit commits
+ * - `reverseDonation()` undoes a donation the chain no longer contains (reorg, lib/indexer):
+ *   entry removed, totals decremented, receipt voided - again in one unit
+ * MIGRATION NOTES:
+ * - MongoDB: run the same steps inside a session transaction (`session.withTransaction`)
+ */
+
+import { db } from '@/_dev/mock-db/database';
+import type { Campaign, Creator, Donation } from '@/_dev/mock-db/database';
+import { donationBlockedReason } from '@/lib/lifecycle';
+import { notifyDonationRecorded } from '@/lib/notifications/events';
+import { publishDonation } from '@/lib/realtime';
+import { issueReceipt, voidReceipt, type Receipt } from '@/lib/receipts';
+import { roundAmount } from './amount';
+
+export { roundAmount } from './amount';
+export { isRepairable, reconcileLedger } from './reconcile';
+export type { LedgerDrift, ReconcileReport } from './reconcile';
+
+export type RecordDonationInput = {
+  campaignId: string;
+  amount: number;
+  chain: string;
+  donorName: string;
+  /** Signed-in donor; their totalDonated/donatedCampaigns are updated in the same unit */
+  donorId?: string;
+  txId?: string;
+  /**
+   * The funds already moved on-chain (lib/indexer): record it even if the campaign is closed
+   * or unpublished off-chain, so the ledger matches the contract
+   */
+  settled?: boolean;
+};
+
+export type RecordDonationResult =
+  | { ok: true; donation: Donation; campaign: Campaign; receipt: Receipt }
+  | { ok: false; error: string; status: number };
+
+// Thrown inside the transaction to abort it; converted to a result object below
+class LedgerAbort extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+export function recordDonation(input: RecordDonationInput): RecordDonationResult {
+  const result = writeDonation(input);
+  if (result.ok) {
+    // The donation is committed; a missed notification or stream event must not turn it into a failure
+    try {
+      publishDonation(result.campaign, result.donation);
+    } catch (error) {
+      console.error('Donation stream event failed:', error);
+    }
+    try {
+      notifyDonationRecorded(result.campaign, result.donation, roundAmount(result.campaign.raised - input.amount));
+    } catch (error) {
+      console.error('Donation notification failed:', error);
+    }
+  }
+  return result;
+}
+
+function writeDonation(input: RecordDonationInput): RecordDonationResult {
+  try {
+    return db.transaction(() => {
+      const campaign = db.findCampaignById(input.campaignId);
+      if (!campaign) throw new LedgerAbort('Campaign not found', 404);
+      if (campaign.moderation?.unpublished && !input.settled) {
+        throw new LedgerAbort('This campaign is not accepting donations', 403);
+      }
+      // Same rule as the contract's CampaignInactive revert
+      const blocked = input.settled ? null : donationBlockedReason(campaign);
+      if (blocked) throw new LedgerAbort(blocked, 409);
+      // On-chain transaction hashes are the txId; one transaction pays for one donation
+      if (input.txId && db.getAllDonations().some(d => d.txId === input.txId)) {
+        throw new LedgerAbort('This transaction has already been recorded', 409);
+      }
+
+      const donation = db.createDonation({
+        campaignId: campaign.id,
+        name: input.donorName,
+        amount: input.amount,
+        chain: input.chain,
+        donorId: input.donorId,
+        txId: input.txId,
+      });
+
+      const updatedCampaign = db.updateCampaign(campaign.id, {
+        raised: roundAmount((campaign.raised || 0) + input.amount),
+      });
+      if (!updatedCampaign) throw new LedgerAbort('Failed to update campaign', 500);
+
+      const receipt = issueReceipt(donation, updatedCampaign);
+
+      const creator = db.findUserById(campaign.creatorId);
+      if (creator && creator.role === 'creator') {
+        const creatorData = creator as Creator;
+        db.updateUser(creatorData.id, {
+          totalRaised: roundAmount((creatorData.totalRaised || 0) + input.amount),
+        });
+      }
+
+      if (input.donorId) {
+        const donor = db.findUserById(input.donorId);
+        if (donor) {
+          const donated = donor.donatedCampaigns || [];
+          db.updateUser(donor.id, {
+            totalDonated: roundAmount((donor.totalDonated || 0) + input.amount),
+            donatedCampaigns: donated.includes(campaign.id) ? donated : [...donated, campaign.id],
+          });
+        }
+      }
+
+      return { ok: true as const, donation, campaign: updatedCampaign, receipt };
+    });
+  } catch (error) {
+    if (error instanceof LedgerAbort) {
+      return { ok: false, error: error.message, status: error.status };
+    }
+    console.error('Ledger write failed:', error);
+    return { ok: false, error: 'Failed to record donation', status: 500 };
+  }
+}
+
+export type ReverseDonationResult =
+  | { ok: true; donation: Donation; campaign: Campaign | null }
+  | { ok: false; error: string; status: number };
+
+/** Removes a recorded donation and everything derived from it; the receipt stays, voided with `reason` */
+export function reverseDonation(donationId: string, reason: string): ReverseDonationResult {
+  try {
+    return db.transaction(() => {
+      const donation = db.getAllDonations().find(d => d.id === donationId);
+      if (!donation) throw new LedgerAbort('Donation not found', 404);
+      db.deleteDonation(donationId);
+
+      const campaign = db.findCampaignById(donation.campaignId);
+      const updatedCampaign = campaign
+        ? db.updateCampaign(campaign.id, { raised: roundAmount(Math.max(0, (campaign.raised || 0) - donation.amount)) })
+        : null;
+
+      const creator = campaign ? db.findUserById(campaign.creatorId) : null;
+      if (creator && creator.role === 'creator') {
+        const creatorData = creator as Creator;
+        db.updateUser(creatorData.id, {
+          totalRaised: roundAmount(Math.max(0, (creatorData.totalRaised || 0) - donation.amount)),
+        });
+      }
+
+      if (donation.donorId) {
+        const donor = db.findUserById(donation.donorId);
+        if (donor) {
+          const stillBacking = db
+            .getDonationsByCampaign(donation.campaignId)
+            .some(d => d.donorId === donor.id);
+          db.updateUser(donor.id, {
+            totalDonated: roundAmount(Math.max(0, (donor.totalDonated || 0) - donation.amount)),
+            donatedCampaigns: stillBacking
+              ? donor.donatedCampaigns
+              : (donor.donatedCampaigns || []).filter(id => id !== donation.campaignId),
+          });
+        }
+      }
+
+      voidReceipt(donationId, reason);
+      return { ok: true as const, donation, campaign: updatedCampaign };
+    });
+  } catch (error) {
+    if (error instanceof LedgerAbort) {
+      return { ok: false, error: error.message, status: error.status };
+    }
+    console.error('Ledger reversal failed:', error);
+    return { ok: false, error: 'Failed to reverse donation', status: 500 };
+  }
+}
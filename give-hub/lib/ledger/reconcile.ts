@@ -0,0 +1,121 @@
+/**
+ * FILE: lib/ledger/reconcile.ts
+ * PURPOSE: Detect (and optionally repair) drift between donations, campaign `raised`,
+ *          creator `totalRaised` and donor `totalDonated` / `donatedCampaigns`
+ * ACCESS: `npm run ledger:reconcile [-- --fix]`, or import { reconcileLedger } from '@/lib/ledger'
+ * NOTES:
+ * - Donation entries win: totals are recomputed from them and written back on repair
+ * - Donations pointing at unknown campaigns are reported but never deleted; they still count
+ *   towards their donor's totals, as reverseDonation() would take them back out of them
+ * - Donor drift is report-only: seeded donations (and anonymous ones) carry no donorId, so the
+ *   entries cannot rebuild a donor's history and repairing would zero it. Repair it once a
+ *   migration has attributed those donations
+ */
+
+import { db } from '@/_dev/mock-db/database';
+import type { Creator } from '@/_dev/mock-db/database';
+import { roundAmount as round } from './amount';
+
+export type LedgerDrift =
+  | {
+      kind: 'campaign.raised' | 'creator.totalRaised' | 'donor.totalDonated';
+      id: string;
+      stored: number;
+      expected: number;
+    }
+  | {
+      kind: 'donor.donatedCampaigns';
+      id: string;
+      stored: string[];
+      expected: string[];
+    };
+
+export type ReconcileReport = {
+  drift: LedgerDrift[];
+  /** Campaign IDs referenced by donations but missing from the campaign store */
+  orphanCampaignIds: string[];
+  /** Whether any drift was written back (donor drift never is) */
+  repaired: boolean;
+};
+
+/** Whether `--fix` repairs this drift (see NOTES) */
+export function isRepairable(item: LedgerDrift): boolean {
+  return item.kind === 'campaign.raised' || item.kind === 'creator.totalRaised';
+}
+
+export function reconcileLedger({ repair = false }: { repair?: boolean } = {}): ReconcileReport {
+  // Read and (optionally) write inside one transaction so the report matches what was repaired
+  return db.transaction(() => {
+    const campaigns = db.getAllCampaigns();
+    const campaignIds = new Set(campaigns.map(c => c.id));
+
+    const raisedByCampaign = new Map<string, number>();
+    const donatedByDonor = new Map<string, { total: number; campaignIds: string[] }>();
+    const orphans = new Set<string>();
+    for (const donation of db.getAllDonations()) {
+      if (donation.donorId) {
+        const donor = donatedByDonor.get(donation.donorId) || { total: 0, campaignIds: [] };
+        donor.total += donation.amount;
+        if (!donor.campaignIds.includes(donation.campaignId)) donor.campaignIds.push(donation.campaignId);
+        donatedByDonor.set(donation.donorId, donor);
+      }
+      if (!campaignIds.has(donation.campaignId)) {
+        orphans.add(donation.campaignId);
+        continue;
+      }
+      raisedByCampaign.set(donation.campaignId, (raisedByCampaign.get(donation.campaignId) || 0) + donation.amount);
+    }
+
+    const drift: LedgerDrift[] = [];
+    const raisedByCreator = new Map<string, number>();
+    for (const campaign of campaigns) {
+      const expected = round(raisedByCampaign.get(campaign.id) || 0);
+      raisedByCreator.set(campaign.creatorId, (raisedByCreator.get(campaign.creatorId) || 0) + expected);
+      if (round(campaign.raised || 0) !== expected) {
+        drift.push({ kind: 'campaign.raised', id: campaign.id, stored: campaign.raised || 0, expected });
+      }
+    }
+
+    for (const [creatorId, total] of raisedByCreator) {
+      const creator = creatorId ? db.findUserById(creatorId) : null;
+      if (!creator || creator.role !== 'creator') continue;
+      const stored = (creator as Creator).totalRaised || 0;
+      const expected = round(total);
+      if (round(stored) !== expected) {
+        drift.push({ kind: 'creator.totalRaised', id: creatorId, stored, expected });
+      }
+    }
+
+    // Every user, so totals left behind on accounts with no donations are caught too
+    for (const user of db.getAllUsers()) {
+      const donated = donatedByDonor.get(user.id);
+      const storedTotal = user.totalDonated || 0;
+      const expectedTotal = round(donated?.total || 0);
+      if (round(storedTotal) !== expectedTotal) {
+        drift.push({ kind: 'donor.totalDonated', id: user.id, stored: storedTotal, expected: expectedTotal });
+      }
+      const storedCampaigns = user.donatedCampaigns || [];
+      const expectedCampaigns = donated?.campaignIds || [];
+      const sameCampaigns =
+        new Set(storedCampaigns).size === expectedCampaigns.length &&
+        expectedCampaigns.every(id => storedCampaigns.includes(id));
+      if (!sameCampaigns) {
+        drift.push({ kind: 'donor.donatedCampaigns', id: user.id, stored: storedCampaigns, expected: expectedCampaigns });
+      }
+    }
+
+    const repairs = repair ? drift.filter(isRepairable) : [];
+    for (const item of repairs) {
+      switch (item.kind) {
+        case 'campaign.raised':
+          db.updateCampaign(item.id, { raised: item.expected });
+          break;
+        case 'creator.totalRaised':
+          db.updateUser(item.id, { totalRaised: item.expected });
+          break;
+      }
+    }
+
+    return { drift, orphanCampaignIds: [...orphans], repaired: repairs.length > 0 };
+  });
+}
@@ -0,0 +1,187 @@
+/**
+ * FILE: lib/lifecycle/index.ts
+ * PURPOSE: Campaign lifecycle - effective status, allowed transitions, donation gating
+ * ACCESS: Server and client safe (no DB access). Used by the campaign create/edit routes,
+ *         /api/payments, the donation ledger and UI badges
+ * MODEL (mirrors BaseForwardFundraiser.Campaign):
+ * - Stored: `status` (draft | active | paused | cancelled) plus `startsAt` / `endsAt`
+ * - Derived: `scheduled` before startsAt, `ended` after endsAt - like the contract's
+ *   `start`/`end` checks, so no job has to flip them
+ * - Donations are only accepted while the effective status is `active`, matching the
+ *   contract's `CampaignInactive` revert (`!active`, `now < start`, `now > end`)
+ * TRANSITIONS (target <- allowed from):
+ *   active    <- draft (publish; shows as scheduled until startsAt), paused (resume)
+ *   paused    <- scheduled, active            (contract: setActive(id, false))
+ *   ended     <- active, paused               (sets endsAt = now; a paused campaign whose
+ *                                             startsAt is still ahead is cancelled instead)
+ *   cancelled <- draft, scheduled, active, paused
+ *   ended and cancelled are final
+ */
+
+import type { Campaign, CampaignStatus, StoredCampaignStatus } from '@/_dev/mock-db/database';
+
+export type { CampaignStatus, StoredCampaignStatus };
+
+export const CAMPAIGN_STATUSES: CampaignStatus[] = ['draft', 'scheduled', 'active', 'paused', 'ended', 'cancelled'];
+
+type LifecycleFields = Pick<Campaign, 'status' | 'startsAt' | 'endsAt'>;
+
+export type LifecycleResult =
+  | { ok: true; update: Partial<LifecycleFields> }
+  | { ok: false; error: string; status: number };
+
+const TRANSITIONS: Partial<Record<CampaignStatus, CampaignStatus[]>> = {
+  active: ['draft', 'paused'],
+  paused: ['scheduled', 'active'],
+  ended: ['active', 'paused'],
+  cancelled: ['draft', 'scheduled', 'active', 'paused'],
+};
+
+const FINAL: CampaignStatus[] = ['ended', 'cancelled'];
+
+const time = (iso?: string) => (iso ? new Date(iso).getTime() : NaN);
+
+export function getCampaignStatus(campaign: LifecycleFields, now: number = Date.now()): CampaignStatus {
+  const stored = campaign.status ?? 'active';
+  if (stored === 'draft' || stored === 'cancelled') return stored;
+  if (campaign.endsAt && time(campaign.endsAt) <= now) return 'ended';
+  if (stored === 'paused') return 'paused';
+  if (campaign.startsAt && time(campaign.startsAt) > now) return 'scheduled';
+  return 'active';
+}
+
+/** Why the campaign refuses donations right now, or null when it accepts them */
+export function donationBlockedReason(campaign: LifecycleFields, now: number = Date.now()): string | null {
+  switch (getCampaignStatus(campaign, now)) {
+    case 'active':
+      return null;
+    case 'draft':
+      return 'This campaign has not been published yet';
+    case 'scheduled':
+      return `This campaign opens for donations on ${new Date(campaign.startsAt as string).toUTCString()}`;
+    case 'paused':
+      return 'This campaign is paused and not accepting donations';
+    case 'ended':
+      return 'This campaign has ended';
+    case 'cancelled':
+      return 'This campaign was cancelled';
+  }
+}
+
+/**
+ * The campaign's window as createCampaign(preferredToken, start, end) takes it: unix seconds,
+ * 0 for "no start" / "no end"
+ */
+export function contractTimeWindow(campaign: LifecycleFields): { start: number; end: number } {
+  const seconds = (iso?: string) => (iso && !Number.isNaN(time(iso)) ? Math.floor(time(iso) / 1000) : 0);
+  return { start: seconds(campaign.startsAt), end: seconds(campaign.endsAt) };
+}
+
+function parseTime(value: unknown, field: string): { value?: string | null; error?: string } {
+  if (value === undefined) return {};
+  if (value === null || value === '') return { value: null };
+  const ms = typeof value === 'string' || typeof value === 'number' ? new Date(value).getTime() : NaN;
+  if (Number.isNaN(ms)) return { error: `${field} must be a valid date` };
+  return { value: new Date(ms).toISOString() };
+}
+
+/**
+ * Validate a start/end window for a new campaign. Same rule as the contract's
+ * InvalidTimeWindow: the end must come after the start.
+ */
+export function validateSchedule(
+  rawStartsAt: unknown,
+  rawEndsAt: unknown,
+  now: number = Date.now()
+): LifecycleResult {
+  const startsAt = parseTime(rawStartsAt, 'startsAt');
+  const endsAt = parseTime(rawEndsAt, 'endsAt');
+  const error = startsAt.error || endsAt.error;
+  if (error) return { ok: false, error, status: 400 };
+
+  const end = time(endsAt.value ?? undefined);
+  if (!Number.isNaN(end)) {
+    const start = Number.isNaN(time(startsAt.value ?? undefined)) ? now : time(startsAt.value ?? undefined);
+    if (end <= start) return { ok: false, error: 'End time must be after the start time', status: 400 };
+  }
+  return {
+    ok: true,
+    update: {
+      startsAt: startsAt.value ?? undefined,
+      endsAt: endsAt.value ?? undefined,
+    },
+  };
+}
+
+/**
+ * Plan a lifecycle change requested through the edit route: a target `status` and/or new
+ * `startsAt` / `endsAt` (null clears). Returns the fields to write, or why it is not allowed.
+ */
+export function planLifecycleChange(
+  campaign: LifecycleFields,
+  change: { status?: unknown; startsAt?: unknown; endsAt?: unknown },
+  now: number = Date.now()
+): LifecycleResult {
+  const current = getCampaignStatus(campaign, now);
+  const update: Partial<LifecycleFields> = {};
+  const hasSchedule = change.startsAt !== undefined || change.endsAt !== undefined;
+
+  if (FINAL.includes(current) && (hasSchedule || change.status !== undefined)) {
+    return { ok: false, error: `Campaign is ${current} and can no longer change`, status: 409 };
+  }
+
+  if (hasSchedule) {
+    const startsAt = parseTime(change.startsAt, 'startsAt');
+    const endsAt = parseTime(change.endsAt, 'endsAt');
+    const error = startsAt.error || endsAt.error;
+    if (error) return { ok: false, error, status: 400 };
+
+    if (startsAt.value !== undefined) {
+      // Once donations have opened the start is history, like the contract's immutable `start`
+      if (current !== 'draft' && current !== 'scheduled') {
+        return { ok: false, error: 'The start time cannot change after the campaign has started', status: 409 };
+      }
+      update.startsAt = startsAt.value ?? undefined;
+    }
+    if (endsAt.value !== undefined) {
+      update.endsAt = endsAt.value ?? undefined;
+    }
+
+    const start = time('startsAt' in update ? update.startsAt : campaign.startsAt);
+    const end = time('endsAt' in update ? update.endsAt : campaign.endsAt);
+    if (!Number.isNaN(end)) {
+      if (end <= (Number.isNaN(start) ? -Infinity : start)) {
+        return { ok: false, error: 'End time must be after the start time', status: 400 };
+      }
+      if (endsAt.value && end <= now) {
+        return { ok: false, error: 'End time must be in the future; set status to ended to close the campaign now', status: 400 };
+      }
+    }
+  }
+
+  if (change.status !== undefined) {
+    const target = change.status as CampaignStatus;
+    const allowedFrom = CAMPAIGN_STATUSES.includes(target) ? TRANSITIONS[target] : undefined;
+    if (!allowedFrom) {
+      return { ok: false, error: 'Status must be one of active, paused, ended or cancelled', status: 400 };
+    }
+    if (target === current) {
+      return { ok: false, error: `Campaign is already ${current}`, status: 409 };
+    }
+    if (!allowedFrom.includes(current)) {
+      return { ok: false, error: `A ${current} campaign cannot become ${target}`, status: 409 };
+    }
+
+    if (target === 'ended') {
+      // Paused before it opened: endsAt = now would come before startsAt (InvalidTimeWindow)
+      if (time('startsAt' in update ? update.startsAt : campaign.startsAt) > now) {
+        return { ok: false, error: 'Campaign has not started yet; cancel it instead', status: 409 };
+      }
+      update.endsAt = new Date(now).toISOString();
+    } else {
+      update.status = target as StoredCampaignStatus;
+    }
+  }
+
+  return { ok: true, update };
+}
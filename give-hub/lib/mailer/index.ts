@@ -0,0 +1,91 @@
+/**
+ * FILE: lib/mailer/index.ts
+ * PURPOSE: Outgoing email behind a small Mailer interface
+ * ACCESS: Server-only. `await getMailer().send({ to, subject, text })`
+ * DRIVERS:
+ * - outbox (default): writes each message as an .eml file to MAIL_OUTBOX_DIR
+ *   (default `_dev/outbox`, git-ignored) so flows can be tested without an SMTP server
+ * MIGRATION NOTES:
+ * - Implement Mailer with nodemailer/SES using the SMTP_* / EMAIL_FROM settings from env.example
+ *   and return it from getMailer(); callers do not change
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'GiveHub <noreply@givehub.com>';
+
+export class OutboxMailer implements Mailer {
+  constructor(
+    private readonly dir: string = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), '_dev', 'outbox'),
+    private readonly from: string = process.env.EMAIL_FROM || DEFAULT_FROM
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const slug = message.to.replace(/[^a-z0-9]+/gi, '_').slice(0, 40);
+    const file = path.join(this.dir, `${stamp}_${slug}_${Math.random().toString(36).slice(2, 6)}.eml`);
+    await fs.promises.writeFile(file, this.format(message), 'utf8');
+  }
+
+  private format(message: MailMessage): string {
+    const headers = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+    ];
+    if (!message.html) {
+      return [...headers, 'Content-Type: text/plain; charset=utf-8', '', message.text, ''].join('\r\n');
+    }
+    const boundary = `givehub-${Date.now().toString(36)}`;
+    return [
+      ...headers,
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+      `--${boundary}`,
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      message.html,
+      `--${boundary}--`,
+      '',
+    ].join('\r\n');
+  }
+}
+
+const globalForMailer = globalThis as typeof globalThis & { __giveHubMailer?: Mailer };
+
+export function getMailer(): Mailer {
+  return globalForMailer.__giveHubMailer ?? (globalForMailer.__giveHubMailer = new OutboxMailer());
+}
+
+/** Swap the mailer (e.g. a real SMTP implementation, or a capturing double in scripts) */
+export function setMailer(mailer: Mailer): void {
+  globalForMailer.__giveHubMailer = mailer;
+}
+
+/** Fire-and-forget send for notifications that must not fail the request that triggered them */
+export function sendMailInBackground(message: MailMessage): void {
+  // Wallet-only accounts (Sign-In with Ethereum) have no email address
+  if (!message.to) return;
+  getMailer()
+    .send(message)
+    .catch(error => console.error('Failed to send email:', error));
+}
@@ -0,0 +1,49 @@
+/**
+ * FILE: lib/moderation/emails.ts
+ * PURPOSE: Emails telling creators about admin decisions on their account or campaigns
+ * ACCESS: Server-only. Used by lib/moderation
+ */
+
+import type { Campaign, Creator, User } from '@/_dev/mock-db/database';
+import { sendMailInBackground } from '@/lib/mailer';
+
+const appUrl = () => (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+export function sendCreatorReviewEmail(creator: Creator, decision: 'verified' | 'rejected', reason?: string): void {
+  const note = reason ? `\nNote from our team: ${reason}\n` : '';
+  const body = decision === 'verified'
+    ? 'Your creator account has been verified. Your campaigns now show a verified badge.'
+    : 'We could not verify your creator account. You can keep editing your campaigns and reply to this email with more details.';
+  sendMailInBackground({
+    to: creator.email,
+    subject: decision === 'verified' ? 'Your GiveHub creator account is verified' : 'Update on your GiveHub creator verification',
+    text: `Hi ${creator.username},
+
+${body}
+${note}
+- The GiveHub team
+`,
+  });
+}
+
+export function sendCampaignVisibilityEmail(
+  owner: User | Creator,
+  campaign: Campaign,
+  action: 'unpublish' | 'republish',
+  reason?: string
+): void {
+  const note = reason ? `\nReason: ${reason}\n` : '';
+  const body = action === 'unpublish'
+    ? `We unpublished your campaign "${campaign.title}". It is hidden from GiveHub and does not accept donations until it is published again.`
+    : `Your campaign "${campaign.title}" is published again:\n${appUrl()}/campaign/${campaign.id}`;
+  sendMailInBackground({
+    to: owner.email,
+    subject: action === 'unpublish' ? 'Your GiveHub campaign was unpublished' : 'Your GiveHub campaign is live again',
+    text: `Hi ${owner.username},
+
+${body}
+${note}
+- The GiveHub team
+`,
+  });
+}
@@ -0,0 +1,277 @@
+/**
+ * FILE: lib/moderation/index.ts
+ * PURPOSE: Admin moderation - creator verification reviews, campaign unpublish/flag, audit trail
+ * ACCESS: Server-only. Admin routes under /api/admin/*; visibility helpers are used by every
+ *         route or page that lists or shows campaigns
+ * MODEL:
+ * - Creator reviews set `verificationStatus` plus the reason/reviewer on the creator record
+ * - Campaign moderation lives in `campaign.moderation` (`unpublished` hides the campaign from
+ *   everyone but its owner and admins and closes it to donations; `flagged` only queues it)
+ * - Drafts (lib/lifecycle) get the same visibility as unpublished campaigns
+ * - Every action writes a `moderation_audit` entry in the same transaction as the change
+ * MIGRATION NOTES:
+ * - MongoDB: `moderation_audit` collection indexed on { targetType, targetId, createdAt }
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from '@/_dev/mock-db/database';
+import type { Campaign, Creator, UserRole } from '@/_dev/mock-db/database';
+import { notifyCampaignVisibility, notifyCreatorVerification } from '@/lib/notifications/events';
+import { sendCampaignVisibilityEmail, sendCreatorReviewEmail } from './emails';
+
+const AUDIT = 'moderation_audit';
+const MAX_REASON_LENGTH = 500;
+
+export type CreatorDecision = 'verified' | 'rejected';
+export type CampaignAction = 'unpublish' | 'republish' | 'flag' | 'unflag';
+
+export type ModerationAction =
+  | `creator.${CreatorDecision}`
+  | `campaign.${CampaignAction}`;
+
+export type ModerationAuditEntry = {
+  id: string;
+  action: ModerationAction;
+  targetType: 'creator' | 'campaign';
+  targetId: string;
+  /** Creator username or campaign title at the time of the action */
+  targetLabel: string;
+  adminId: string;
+  adminUsername: string;
+  reason?: string;
+  createdAt: string;
+};
+
+/** The signed-in admin performing an action (AuthedRequest['user'] fits) */
+export type Moderator = { id: string; username: string };
+
+/** Who is looking at a campaign; null for anonymous visitors */
+export type Viewer = { id: string; role: UserRole } | null;
+
+export type ModerationResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; error: string; status: number };
+
+// Reasons are required for actions that take something away from a creator
+const REASON_REQUIRED = new Set<string>(['rejected', 'unpublish', 'flag']);
+
+function normalizeReason(action: string, raw: unknown): { reason?: string; error?: string } {
+  const reason = typeof raw === 'string' ? raw.trim() : '';
+  if (!reason) {
+    return REASON_REQUIRED.has(action) ? { error: 'A reason is required for this action' } : {};
+  }
+  if (reason.length > MAX_REASON_LENGTH) {
+    return { error: `Reason must be at most ${MAX_REASON_LENGTH} characters` };
+  }
+  return { reason };
+}
+
+function writeAudit(entry: Omit<ModerationAuditEntry, 'id' | 'createdAt'>): ModerationAuditEntry {
+  return db.insertRecord<ModerationAuditEntry>(AUDIT, {
+    ...entry,
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Visibility
+
+/** Listed and viewable by everyone: not unpublished by an admin and not a draft */
+export function isCampaignPublic(campaign: Campaign): boolean {
+  return !campaign.moderation?.unpublished && campaign.status !== 'draft';
+}
+
+/** Owners and admins can still open unpublished campaigns and drafts */
+export function canViewCampaign(campaign: Campaign, viewer: Viewer): boolean {
+  if (isCampaignPublic(campaign)) return true;
+  return !!viewer && (viewer.role === 'admin' || viewer.id === campaign.creatorId);
+}
+
+export function listPublicCampaigns(): Campaign[] {
+  return db.getAllCampaigns().filter(isCampaignPublic);
+}
+
+export function listVisibleCampaigns(viewer: Viewer): Campaign[] {
+  return db.getAllCampaigns().filter(campaign => canViewCampaign(campaign, viewer));
+}
+
+// ---------------------------------------------------------------------------
+// Creators
+
+/** What the admin console needs to review a creator (no credentials or lockout state) */
+export type CreatorSummary = Pick<
+  Creator,
+  'id' | 'username' | 'email' | 'bio' | 'website' | 'createdAt' | 'totalRaised' | 'verificationStatus' |
+  'verificationReason' | 'verificationReviewedAt'
+> & { emailVerified: boolean; campaignCount: number };
+
+export function toCreatorSummary(creator: Creator): CreatorSummary {
+  return {
+    id: creator.id,
+    username: creator.username,
+    email: creator.email,
+    bio: creator.bio,
+    website: creator.website,
+    createdAt: creator.createdAt,
+    totalRaised: creator.totalRaised || 0,
+    verificationStatus: creator.verificationStatus,
+    verificationReason: creator.verificationReason,
+    verificationReviewedAt: creator.verificationReviewedAt,
+    emailVerified: creator.emailVerified !== false,
+    campaignCount: Array.isArray(creator.createdCampaigns) ? creator.createdCampaigns.length : 0,
+  };
+}
+
+/** Oldest first, so the review queue is worked in signup order */
+export function listCreators(status?: Creator['verificationStatus']): Creator[] {
+  const creators = db.getCreators();
+  return (status ? creators.filter(creator => creator.verificationStatus === status) : creators)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function reviewCreator(
+  admin: Moderator,
+  creatorId: string,
+  decision: CreatorDecision,
+  rawReason?: unknown
+): ModerationResult<{ creator: Creator }> {
+  if (decision !== 'verified' && decision !== 'rejected') {
+    return { ok: false, error: 'Decision must be verified or rejected', status: 400 };
+  }
+  const { reason, error } = normalizeReason(decision, rawReason);
+  if (error) return { ok: false, error, status: 400 };
+
+  const user = db.findUserById(creatorId);
+  if (!user || user.role !== 'creator') {
+    return { ok: false, error: 'Creator not found', status: 404 };
+  }
+  const creator = user as Creator;
+  if (creator.verificationStatus === decision) {
+    return { ok: false, error: `Creator is already ${decision}`, status: 409 };
+  }
+
+  const now = new Date().toISOString();
+  const updated = db.transaction(() => {
+    const next = db.updateUser(creator.id, {
+      verificationStatus: decision,
+      verificationReason: reason,
+      verificationReviewedAt: now,
+      verificationReviewedBy: admin.id,
+      updatedAt: now,
+    }) as Creator;
+    writeAudit({
+      action: `creator.${decision}`,
+      targetType: 'creator',
+      targetId: creator.id,
+      targetLabel: creator.username,
+      adminId: admin.id,
+      adminUsername: admin.username,
+      reason,
+    });
+    return next;
+  });
+
+  // The decision is committed; a failed email or notification must not turn it into an error
+  try {
+    sendCreatorReviewEmail(updated, decision, reason);
+  } catch (error) {
+    console.error('Creator review email failed:', error);
+  }
+  try {
+    notifyCreatorVerification(updated, decision, reason);
+  } catch (error) {
+    console.error('Creator verification notification failed:', error);
+  }
+  return { ok: true, creator: updated };
+}
+
+// ---------------------------------------------------------------------------
+// Campaigns
+
+export function moderateCampaign(
+  admin: Moderator,
+  campaignId: string,
+  action: CampaignAction,
+  rawReason?: unknown
+): ModerationResult<{ campaign: Campaign }> {
+  if (!['unpublish', 'republish', 'flag', 'unflag'].includes(action)) {
+    return { ok: false, error: 'Unknown moderation action', status: 400 };
+  }
+  const { reason, error } = normalizeReason(action, rawReason);
+  if (error) return { ok: false, error, status: 400 };
+
+  const campaign = db.findCampaignById(campaignId);
+  if (!campaign) return { ok: false, error: 'Campaign not found', status: 404 };
+
+  const current = campaign.moderation ?? {};
+  const mark = { reason: reason ?? '', by: admin.id, at: new Date().toISOString() };
+  let moderation: Campaign['moderation'];
+  switch (action) {
+    case 'unpublish':
+      if (current.unpublished) return { ok: false, error: 'Campaign is already unpublished', status: 409 };
+      moderation = { ...current, unpublished: mark };
+      break;
+    case 'republish':
+      if (!current.unpublished) return { ok: false, error: 'Campaign is already published', status: 409 };
+      moderation = { ...current, unpublished: undefined };
+      break;
+    case 'flag':
+      if (current.flagged) return { ok: false, error: 'Campaign is already flagged', status: 409 };
+      moderation = { ...current, flagged: mark };
+      break;
+    case 'unflag':
+      if (!current.flagged) return { ok: false, error: 'Campaign is not flagged', status: 409 };
+      moderation = { ...current, flagged: undefined };
+      break;
+  }
+
+  const updated = db.transaction(() => {
+    const next = db.updateCampaign(campaign.id, { moderation });
+    if (!next) throw new Error(`Campaign ${campaign.id} disappeared during moderation`);
+    writeAudit({
+      action: `campaign.${action}`,
+      targetType: 'campaign',
+      targetId: campaign.id,
+      targetLabel: campaign.title,
+      adminId: admin.id,
+      adminUsername: admin.username,
+      reason,
+    });
+    return next;
+  });
+
+  if (action === 'unpublish' || action === 'republish') {
+    const owner = db.findUserById(campaign.creatorId);
+    if (owner) {
+      try {
+        sendCampaignVisibilityEmail(owner, updated, action, reason);
+      } catch (error) {
+        console.error('Campaign visibility email failed:', error);
+      }
+      try {
+        notifyCampaignVisibility(owner, updated, action, reason);
+      } catch (error) {
+        console.error('Campaign visibility notification failed:', error);
+      }
+    }
+  }
+  return { ok: true, campaign: updated };
+}
+
+// ---------------------------------------------------------------------------
+// Audit trail
+
+export function listAuditTrail(filter: {
+  targetType?: ModerationAuditEntry['targetType'];
+  targetId?: string;
+  limit?: number;
+} = {}): ModerationAuditEntry[] {
+  const match: Partial<ModerationAuditEntry> = {};
+  if (filter.targetType) match.targetType = filter.targetType;
+  if (filter.targetId) match.targetId = filter.targetId;
+  return db
+    .listRecords<ModerationAuditEntry>(AUDIT, match)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, filter.limit ?? 100);
+}
@@ -0,0 +1,99 @@
+/**
+ * FILE: lib/notifications/events.ts
+ * PURPOSE: Turn domain events into inbox notifications (wording and links live here)
+ * ACCESS: Server-only. Called after the write has committed by lib/ledger (donations, goal
+ *         reached), lib/moderation (verification, unpublish/republish), lib/updates and
+ *         lib/pledges (dunning)
+ */
+
+import type { Campaign, Creator, Donation, User } from '@/_dev/mock-db/database';
+import { db } from '@/_dev/mock-db/database';
+import type { PledgeView } from '@/lib/pledges';
+import { formatCurrency, formatDate } from '@/lib/utils/format';
+import { notifyUser, notifyUsers } from './index';
+
+const campaignHref = (campaign: Campaign) => `/campaign/${campaign.id}`;
+
+/** Tells the creator about the donation, and creator plus backers when it crossed the goal */
+export function notifyDonationRecorded(campaign: Campaign, donation: Donation, previousRaised: number): void {
+  if (donation.donorId !== campaign.creatorId) {
+    notifyUser(campaign.creatorId, {
+      type: 'donation.received',
+      title: 'Your campaign received a donation',
+      body: `${donation.name || 'Anonymous'} donated ${formatCurrency(donation.amount)} via ${donation.chain} to "${campaign.title}".`,
+      href: campaignHref(campaign),
+    });
+  }
+
+  if (campaign.goal > 0 && previousRaised < campaign.goal && campaign.raised >= campaign.goal) {
+    notifyUser(campaign.creatorId, {
+      type: 'campaign.goal_reached',
+      title: 'Goal reached',
+      body: `"${campaign.title}" reached its ${formatCurrency(campaign.goal)} goal.`,
+      href: campaignHref(campaign),
+    });
+    const backers = db.getCampaignBackers(campaign.id)
+      .map(backer => backer.id)
+      .filter(id => id !== campaign.creatorId);
+    notifyUsers(backers, {
+      type: 'campaign.goal_reached',
+      title: 'A campaign you backed reached its goal',
+      body: `"${campaign.title}" reached its ${formatCurrency(campaign.goal)} goal. Thank you for helping!`,
+      href: campaignHref(campaign),
+    });
+  }
+}
+
+export function notifyCreatorVerification(creator: Creator, decision: 'verified' | 'rejected', reason?: string): void {
+  notifyUser(creator.id, {
+    type: 'creator.verification',
+    title: decision === 'verified' ? 'Your creator account is verified' : 'Creator verification was not approved',
+    body: decision === 'verified'
+      ? 'Your campaigns now show a verified badge.'
+      : `We could not verify your creator account.${reason ? ` Note from our team: ${reason}` : ''}`,
+    href: '/profile',
+  });
+}
+
+export function notifyCampaignVisibility(
+  owner: User | Creator,
+  campaign: Campaign,
+  action: 'unpublish' | 'republish',
+  reason?: string
+): void {
+  notifyUser(owner.id, {
+    type: 'campaign.visibility',
+    title: action === 'unpublish' ? 'Your campaign was unpublished' : 'Your campaign is live again',
+    body: action === 'unpublish'
+      ? `"${campaign.title}" is hidden and does not accept donations.${reason ? ` Reason: ${reason}` : ''}`
+      : `"${campaign.title}" is published again.`,
+    href: campaignHref(campaign),
+  });
+}
+
+export function notifyCampaignUpdate(backerIds: string[], campaign: Campaign, update: { id: string; title?: string }): void {
+  notifyUsers(backerIds, {
+    type: 'campaign.update',
+    title: `New update from "${campaign.title}"`,
+    body: update.title || 'The creator posted a progress update.',
+    href: `${campaignHref(campaign)}#update-${update.id}`,
+  });
+}
+
+export function notifyPledgePaymentFailed(pledge: PledgeView, retryAt: string): void {
+  notifyUser(pledge.donorId, {
+    type: 'pledge.payment_failed',
+    title: 'A pledge payment failed',
+    body: `We could not collect your ${formatCurrency(pledge.amount)} pledge to "${pledge.campaignTitle}". We will try again on ${formatDate(retryAt)}.`,
+    href: '/profile#pledges',
+  });
+}
+
+export function notifyPledgeCancelled(pledge: PledgeView): void {
+  notifyUser(pledge.donorId, {
+    type: 'pledge.cancelled',
+    title: 'Your pledge was cancelled',
+    body: `Your ${pledge.interval} pledge to "${pledge.campaignTitle}" was cancelled.${pledge.cancelReason ? ` ${pledge.cancelReason}.` : ''}`,
+    href: '/profile#pledges',
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * FILE: lib/notifications/index.ts
+ * PURPOSE: Persistent in-app notifications - per-user inbox, read state, unread count
+ * ACCESS: Server-only. Inbox routes under /api/notifications; producers call the helpers in
+ *         ./events (ledger, moderation, campaign updates)
+ * MODEL:
+ * - `notifications` records, one per recipient; `readAt` is set once the user reads it
+ * - `href` is where clicking the item in the nav bell goes
+ * - The nav bell polls GET /api/notifications/unread-count and fetches `?since=` when
+ *   `latestAt` moves, then shows a toast per new item (lib/utils/notify)
+ * MIGRATION NOTES:
+ * - MongoDB: `notifications` collection indexed on { userId, createdAt } and { userId, readAt };
+ *   a TTL index on read items keeps inboxes small
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from '@/_dev/mock-db/database';
+
+const NOTIFICATIONS = 'notifications';
+
+export const DEFAULT_INBOX_LIMIT = 20;
+export const MAX_INBOX_LIMIT = 50;
+
+export type NotificationType =
+  | 'donation.received'
+  | 'campaign.goal_reached'
+  | 'campaign.update'
+  | 'campaign.visibility'
+  | 'creator.verification'
+  | 'pledge.payment_failed'
+  | 'pledge.cancelled';
+
+export type Notification = {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  href?: string;
+  readAt?: string;
+  createdAt: string;
+};
+
+export type NotificationInput = Pick<Notification, 'type' | 'title' | 'body' | 'href'>;
+
+export type InboxQuery = {
+  /** Only items created after this ISO timestamp (polling for new items) */
+  since?: string;
+  unreadOnly?: boolean;
+  limit?: number;
+};
+
+export type InboxResult =
+  | { ok: true; notifications: Notification[]; unreadCount: number }
+  | { ok: false; error: string; status: number };
+
+export function notifyUser(userId: string, input: NotificationInput): Notification {
+  return db.insertRecord<Notification>(NOTIFICATIONS, {
+    ...input,
+    id: randomUUID(),
+    userId,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/** One write unit for fan-out (e.g. every backer of a campaign) */
+export function notifyUsers(userIds: Iterable<string>, input: NotificationInput): number {
+  const recipients = Array.from(new Set(userIds));
+  db.transaction(() => {
+    for (const userId of recipients) notifyUser(userId, input);
+  });
+  return recipients.length;
+}
+
+// Newest first
+function inbox(userId: string): Notification[] {
+  return db
+    .listRecords<Notification>(NOTIFICATIONS, { userId })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function listNotifications(userId: string, query: InboxQuery = {}): InboxResult {
+  const limit = query.limit ?? DEFAULT_INBOX_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_INBOX_LIMIT) {
+    return { ok: false, error: `limit must be between 1 and ${MAX_INBOX_LIMIT}`, status: 400 };
+  }
+  if (query.since !== undefined && Number.isNaN(Date.parse(query.since))) {
+    return { ok: false, error: 'since must be an ISO timestamp', status: 400 };
+  }
+
+  const all = inbox(userId);
+  const since = query.since ? new Date(query.since).toISOString() : undefined;
+  const notifications = all
+    .filter(item => (!since || item.createdAt > since) && (!query.unreadOnly || !item.readAt))
+    .slice(0, limit);
+  return { ok: true, notifications, unreadCount: all.filter(item => !item.readAt).length };
+}
+
+/** Unread count plus the newest item's timestamp, so pollers know when to fetch */
+export function getUnreadSummary(userId: string): { unreadCount: number; latestAt: string | null } {
+  const all = inbox(userId);
+  return {
+    unreadCount: all.filter(item => !item.readAt).length,
+    latestAt: all[0]?.createdAt ?? null,
+  };
+}
+
+/** Mark the given items (or every unread item when `ids` is omitted) as read; returns how many changed */
+export function markNotificationsRead(userId: string, ids?: string[]): number {
+  const wanted = ids ? new Set(ids) : null;
+  const unread = inbox(userId).filter(item => !item.readAt && (!wanted || wanted.has(item.id)));
+  if (unread.length === 0) return 0;
+
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    for (const item of unread) db.updateRecord<Notification>(NOTIFICATIONS, item.id, { readAt: now });
+  });
+  return unread.length;
+}
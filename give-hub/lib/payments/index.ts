@@ -1,57 +1,172 @@
 // lib/payments/index.ts
 // Simple payment adapter to keep payment logic swappable (e.g., for ZetaChain)
 // Default: mock REST endpoint at /api/payments
+// 'zetachain': the donor's wallet sends donate() to the forward fundraiser contract and the
+// server verifies the mined transaction before recording it (lib/payments/onchain)
+
+import type { PledgeInterval } from '@/lib/pledges/schedule'
+import { contractError, fundraiserContract } from '@/lib/contracts'
+import { httpRpcClient, requestAccount, toHex, type Hex, type JsonRpcClient, type TransactionReceipt } from '@/lib/evm'
 
 export type ProcessDonationInput = {
   campaignId: string
   amount: number
   chain: string
   donorName: string
+  /** Reuse the same key when retrying the same payment so it is charged at most once */
+  idempotencyKey?: string
 }
 
 export type ProcessDonationResult = {
   ok: boolean
   txId?: string
+  /** Download link for the donation's PDF receipt (lib/receipts) */
   receiptUrl?: string
+  receiptNumber?: string
+  /** On-chain providers: the mined transaction; txId is its hash */
+  transactionReceipt?: TransactionReceipt
   error?: string
 }
 
-// Provider selection via env (future: 'zetachain', 'stripe', etc.)
-const PROVIDER = (process.env.NEXT_PUBLIC_PAYMENT_PROVIDER || 'mock').toLowerCase()
+// Provider selection via env ('mock' or 'zetachain'; future: 'stripe', etc.)
+export const PAYMENT_PROVIDER = (process.env.NEXT_PUBLIC_PAYMENT_PROVIDER || 'mock').toLowerCase()
 
-async function processWithMock(input: ProcessDonationInput): Promise<ProcessDonationResult> {
-  const res = await fetch('/api/payments', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(input),
-  })
-  if (!res.ok) {
-    let msg = 'Payment failed'
+// Mirrors RECURRING_CHARGES_SUPPORTED in ./server: on-chain donations need the donor's wallet each time
+export const RECURRING_SUPPORTED = PAYMENT_PROVIDER !== 'zetachain'
+
+const MOCK_MAX_ATTEMPTS = 3
+
+// Retries reuse one Idempotency-Key, so a request that reached the server but lost its
+// response is replayed rather than charged again. 409 means the first attempt is still running.
+async function postWithRetries(path: string, idempotencyKey: string, payload: unknown): Promise<Response | null> {
+  let res: Response | null = null
+  for (let attempt = 1; attempt <= MOCK_MAX_ATTEMPTS; attempt++) {
     try {
-      const j = await res.json()
-      msg = j?.error || j?.message || msg
-    } catch {}
-    return { ok: false, error: msg }
+      res = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
+        body: JSON.stringify(payload),
+      })
+      if (res.status !== 409 && res.status < 500) break
+    } catch {
+      res = null
+    }
+    if (attempt < MOCK_MAX_ATTEMPTS) await new Promise(resolve => setTimeout(resolve, 500 * attempt))
   }
+  return res
+}
+
+async function errorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    const j = await res.json()
+    return j?.error || j?.message || fallback
+  } catch {
+    return fallback
+  }
+}
+
+async function processWithMock(input: ProcessDonationInput): Promise<ProcessDonationResult> {
+  const { idempotencyKey = crypto.randomUUID(), ...payload } = input
+  const res = await postWithRetries('/api/payments', idempotencyKey, payload)
+  if (!res) return { ok: false, error: 'Network error, please try again' }
+  if (!res.ok) return { ok: false, error: await errorMessage(res, 'Payment failed') }
   let txId: string | undefined
   let receiptUrl: string | undefined
+  let receiptNumber: string | undefined
   try {
     const j = await res.json()
     txId = j?.txId
     receiptUrl = j?.receiptUrl
+    receiptNumber = j?.receipt?.number
   } catch {}
-  return { ok: true, txId, receiptUrl }
+  return { ok: true, txId, receiptUrl, receiptNumber }
+}
+
+// ZetaChain provider. Transactions go through a pluggable EIP-1193 client: the injected wallet
+// (window.ethereum) by default, else NEXT_PUBLIC_ZETACHAIN_RPC_URL - e.g. a local anvil, whose
+// unlocked dev accounts sign eth_sendTransaction themselves
+let zetaChainClient: JsonRpcClient | null = null
+
+/** Use a specific JSON-RPC client for on-chain donations (tests, WalletConnect...); null restores the default */
+export function setZetaChainRpcClient(client: JsonRpcClient | null) {
+  zetaChainClient = client
 }
 
-// Placeholder for ZetaChain provider; to be implemented when integrating
-async function processWithZetaChain(_input: ProcessDonationInput): Promise<ProcessDonationResult> {
-  // Reference the argument to satisfy no-unused-vars lint until implemented
-  void _input
-  return { ok: false, error: 'ZetaChain payments not yet implemented' }
+function defaultZetaChainClient(): JsonRpcClient | null {
+  const injected = typeof window !== 'undefined' ? (window as { ethereum?: JsonRpcClient }).ethereum : undefined
+  if (injected) return injected
+  const url = process.env.NEXT_PUBLIC_ZETACHAIN_RPC_URL
+  return url ? httpRpcClient(url) : null
+}
+
+const ZETACHAIN_CONFIRMATIONS = Math.max(1, Number(process.env.NEXT_PUBLIC_ZETACHAIN_CONFIRMATIONS || 1))
+
+// Mirrors /api/payments/zetachain/quote
+type DonationQuote = {
+  chainId: number
+  contractAddress: Hex
+  onChainCampaignId: string
+  token: Hex
+  value: string
+}
+
+async function processWithZetaChain(input: ProcessDonationInput): Promise<ProcessDonationResult> {
+  const client = zetaChainClient ?? defaultZetaChainClient()
+  if (!client) return { ok: false, error: 'No wallet found. Install a browser wallet to donate on-chain' }
+  const { idempotencyKey = crypto.randomUUID(), ...payload } = input
+
+  // 1. The server turns the USD amount into donate() parameters for this campaign
+  let quote: DonationQuote
+  try {
+    const res = await fetch(`/api/payments/zetachain/quote?campaignId=${encodeURIComponent(input.campaignId)}&amount=${input.amount}`)
+    if (!res.ok) return { ok: false, error: await errorMessage(res, 'Could not prepare the transaction') }
+    quote = (await res.json()).quote
+  } catch {
+    return { ok: false, error: 'Network error, please try again' }
+  }
+
+  // 2. The wallet signs and sends donate(campaignId, address(0), value, memo) with msg.value = value,
+  //    then we track it to confirmation
+  let from: Hex | null
+  try {
+    from = await requestAccount(client)
+    if (!from) return { ok: false, error: 'No wallet account available' }
+    const chainId = Number(await client.request<string>({ method: 'eth_chainId' }))
+    if (chainId !== quote.chainId) {
+      try {
+        await client.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: toHex(quote.chainId) }] })
+      } catch {
+        return { ok: false, error: `Switch your wallet to chain ${quote.chainId} and try again` }
+      }
+    }
+  } catch (error) {
+    return { ok: false, error: contractError(error).message }
+  }
+  const value = BigInt(quote.value)
+  const contract = fundraiserContract({ client, address: quote.contractAddress })
+  const sent = await contract.donate([BigInt(quote.onChainCampaignId), quote.token, value, input.donorName], {
+    account: from,
+    value,
+    confirmations: ZETACHAIN_CONFIRMATIONS,
+  })
+  if (!sent.ok) return { ok: false, txId: sent.error.hash, transactionReceipt: sent.error.receipt, error: sent.error.message }
+  const { hash, receipt } = sent.value
+
+  // 3. The server re-checks the transaction on-chain and records the donation
+  const res = await postWithRetries('/api/payments', idempotencyKey, { ...payload, txHash: hash })
+  const notRecorded = (reason: string) => `Your donation was sent (${hash}) but could not be recorded yet: ${reason}`
+  if (!res) return { ok: false, txId: hash, transactionReceipt: receipt, error: notRecorded('network error') }
+  if (!res.ok) return { ok: false, txId: hash, transactionReceipt: receipt, error: notRecorded(await errorMessage(res, 'server error')) }
+  try {
+    const j = await res.json()
+    return { ok: true, txId: hash, transactionReceipt: receipt, receiptUrl: j?.receiptUrl, receiptNumber: j?.receipt?.number }
+  } catch {
+    return { ok: true, txId: hash, transactionReceipt: receipt }
+  }
 }
 
 export async function processDonation(input: ProcessDonationInput): Promise<ProcessDonationResult> {
-  switch (PROVIDER) {
+  switch (PAYMENT_PROVIDER) {
     case 'zetachain':
       return processWithZetaChain(input)
     case 'mock':
@@ -59,3 +174,28 @@ export async function processDonation(input: ProcessDonationInput): Promise<Proc
       return processWithMock(input)
   }
 }
+
+// Recurring pledges are charged server-side on a schedule (lib/pledges); this starts one and
+// charges the first installment. Needs a signed-in donor.
+export type CreatePledgeInput = Omit<ProcessDonationInput, 'donorName'> & {
+  interval: PledgeInterval
+  donorName?: string
+}
+
+export type CreatePledgeResult = ProcessDonationResult & {
+  /** Next installment date (ISO) */
+  nextChargeAt?: string
+}
+
+export async function createPledge(input: CreatePledgeInput): Promise<CreatePledgeResult> {
+  const { idempotencyKey = crypto.randomUUID(), ...payload } = input
+  const res = await postWithRetries('/api/pledges', idempotencyKey, payload)
+  if (!res) return { ok: false, error: 'Network error, please try again' }
+  if (!res.ok) return { ok: false, error: await errorMessage(res, 'Could not set up the pledge') }
+  try {
+    const j = await res.json()
+    return { ok: true, receiptUrl: j?.receiptUrl, receiptNumber: j?.receipt?.number, nextChargeAt: j?.pledge?.nextChargeAt }
+  } catch {
+    return { ok: true }
+  }
+}
@@ -0,0 +1,201 @@
+// lib/payments/onchain.ts
+// Server side of the ZetaChain provider: quotes a USD donation as a donate() call on the forward
+// fundraiser contract, and verifies the mined transaction before the ledger records it
+// The donation amount recorded is the one in the contract's Donation event, never the client's
+// Env: ZETACHAIN_RPC_URL, ZETACHAIN_CHAIN_ID, FUNDRAISER_CONTRACT_ADDRESS, ZETACHAIN_NATIVE_USD_PRICE,
+//      ZETACHAIN_CONFIRMATIONS (see env.example)
+
+import type { Campaign } from '@/_dev/mock-db/database'
+import { FORWARD_FUNDRAISER_ABI } from '@/lib/contracts/abi'
+import {
+  ZERO_ADDRESS,
+  decodeEventLog,
+  getBlockNumber,
+  getTransactionReceipt,
+  httpRpcClient,
+  isAddress,
+  isHex,
+  type Hex,
+  type JsonRpcClient,
+  type TransactionReceipt,
+} from '@/lib/evm'
+import { roundAmount } from '@/lib/ledger'
+
+export type OnChainConfig = {
+  rpcUrl: string
+  chainId: number
+  contractAddress: Hex
+  /** USD per whole native token (ZETA on ZetaChain, ETH on a local anvil) */
+  nativeUsdPrice: number
+  confirmations: number
+}
+
+export type DonationQuote = {
+  chainId: number
+  contractAddress: Hex
+  /** Campaign ID on the contract (decimal uint256) */
+  onChainCampaignId: string
+  token: Hex
+  amountUsd: number
+  /** msg.value and the donate() amount, in wei (decimal string) */
+  value: string
+}
+
+export type VerifiedDonation = {
+  amount: number
+  value: bigint
+  donor: Hex
+  memo: string
+  receipt: TransactionReceipt
+}
+
+type Failure = { ok: false; error: string; status: number }
+
+/** The `chain` every on-chain donation is recorded under, whichever path records it */
+export const DONATION_CHAIN = 'ZetaChain'
+
+const WEI_PER_TOKEN = BigInt(10) ** BigInt(18)
+// Quotes are computed in micro-tokens; sub-micro precision is below a cent at any realistic price
+const MICRO = 1_000_000
+
+let rpcOverride: JsonRpcClient | null = null
+
+/** Swap the node connection (tests, a fork, a different transport); null restores the HTTP default */
+export function setOnChainRpcClient(client: JsonRpcClient | null) {
+  rpcOverride = client
+}
+
+export function onChainConfig(): { ok: true; config: OnChainConfig } | Failure {
+  const rpcUrl = process.env.ZETACHAIN_RPC_URL || process.env.NEXT_PUBLIC_ZETACHAIN_RPC_URL || ''
+  const contractAddress = process.env.FUNDRAISER_CONTRACT_ADDRESS || ''
+  const nativeUsdPrice = Number(process.env.ZETACHAIN_NATIVE_USD_PRICE)
+  if ((!rpcUrl && !rpcOverride) || !isAddress(contractAddress) || !(nativeUsdPrice > 0)) {
+    return { ok: false, error: 'On-chain payments are not configured', status: 503 }
+  }
+  return {
+    ok: true,
+    config: {
+      rpcUrl,
+      chainId: Number(process.env.ZETACHAIN_CHAIN_ID || 7001),
+      contractAddress: contractAddress.toLowerCase() as Hex,
+      nativeUsdPrice,
+      confirmations: Math.max(1, Number(process.env.ZETACHAIN_CONFIRMATIONS || 1)),
+    },
+  }
+}
+
+/**
+ * Why a donation without a donate() transaction (the mock path) must be refused, or null. Under the
+ * ZetaChain provider, and for any campaign linked to the contract, only a verified transaction
+ * may credit the ledger; anything else would record money the contract never received
+ */
+export function offChainDonationBlockedReason(campaign: Campaign): string | null {
+  const provider = (process.env.NEXT_PUBLIC_PAYMENT_PROVIDER || 'mock').toLowerCase()
+  if (provider === 'zetachain' || campaign.contractOwnership?.onChainCampaignId) {
+    return 'This campaign takes on-chain donations only; donate from your wallet'
+  }
+  return null
+}
+
+/** The node used for verification and by the event indexer (lib/indexer) */
+export const onChainRpcClient = (config: OnChainConfig) => rpcOverride ?? httpRpcClient(config.rpcUrl)
+
+/** The contract a campaign lives on; campaigns may pin their own, otherwise the configured one */
+function campaignContract(campaign: Campaign, config: OnChainConfig): Hex {
+  const own = campaign.contractOwnership?.contractAddress
+  return isAddress(own) ? (own.toLowerCase() as Hex) : config.contractAddress
+}
+
+export function usdToWei(amountUsd: number, nativeUsdPrice: number): bigint {
+  return (BigInt(Math.round((amountUsd / nativeUsdPrice) * MICRO)) * WEI_PER_TOKEN) / BigInt(MICRO)
+}
+
+export function weiToUsd(value: bigint, nativeUsdPrice: number): number {
+  return roundAmount((Number((value * BigInt(MICRO)) / WEI_PER_TOKEN) / MICRO) * nativeUsdPrice)
+}
+
+/** The donate() parameters for `amountUsd`; the caller has already checked the campaign accepts donations */
+export function quoteDonation(campaign: Campaign, amountUsd: number): { ok: true; quote: DonationQuote } | Failure {
+  const configured = onChainConfig()
+  if (!configured.ok) return configured
+  const { config } = configured
+
+  const onChainCampaignId = campaign.contractOwnership?.onChainCampaignId
+  if (!onChainCampaignId) {
+    return { ok: false, error: 'This campaign is not deployed on-chain yet', status: 409 }
+  }
+  const value = usdToWei(amountUsd, config.nativeUsdPrice)
+  if (value <= BigInt(0)) return { ok: false, error: 'Amount is too small', status: 400 }
+
+  return {
+    ok: true,
+    quote: {
+      chainId: campaign.contractOwnership?.chainId ?? config.chainId,
+      contractAddress: campaignContract(campaign, config),
+      onChainCampaignId,
+      token: ZERO_ADDRESS,
+      amountUsd: roundAmount(amountUsd),
+      value: value.toString(),
+    },
+  }
+}
+
+/**
+ * Checks that `txHash` is a successful, confirmed donate() to this campaign's contract and reads
+ * the donation from its Donation event. 409 while the transaction is pending or under-confirmed,
+ * so the client can retry; replays of an already-recorded hash are refused by the ledger.
+ */
+export async function verifyDonationTx(campaign: Campaign, txHash: string): Promise<({ ok: true } & VerifiedDonation) | Failure> {
+  const configured = onChainConfig()
+  if (!configured.ok) return configured
+  const { config } = configured
+
+  if (!isHex(txHash) || txHash.length !== 66) {
+    return { ok: false, error: 'txHash must be a 32-byte hex transaction hash', status: 400 }
+  }
+  const onChainCampaignId = campaign.contractOwnership?.onChainCampaignId
+  if (!onChainCampaignId) {
+    return { ok: false, error: 'This campaign is not deployed on-chain yet', status: 409 }
+  }
+
+  const client = onChainRpcClient(config)
+  let receipt: TransactionReceipt | null
+  let head: bigint
+  try {
+    receipt = await getTransactionReceipt(client, txHash.toLowerCase() as Hex)
+    head = await getBlockNumber(client)
+  } catch (error) {
+    console.error('On-chain verification RPC error:', error)
+    return { ok: false, error: 'Could not reach the blockchain node', status: 502 }
+  }
+
+  if (!receipt) return { ok: false, error: 'Transaction is not mined yet', status: 409 }
+  if (head - receipt.blockNumber + BigInt(1) < BigInt(config.confirmations)) {
+    return { ok: false, error: 'Transaction is waiting for confirmations', status: 409 }
+  }
+  if (receipt.status !== 'success') return { ok: false, error: 'Transaction reverted', status: 400 }
+
+  const contract = campaignContract(campaign, config)
+  if (receipt.to !== contract) {
+    return { ok: false, error: 'Transaction was not sent to the fundraiser contract', status: 400 }
+  }
+
+  for (const log of receipt.logs) {
+    if (log.address !== contract) continue
+    const event = decodeEventLog(FORWARD_FUNDRAISER_ABI, log)
+    if (event?.eventName !== 'Donation') continue
+    const { campaignId, donor, token, amount, memo } = event.args as {
+      campaignId: bigint
+      donor: Hex
+      token: Hex
+      amount: bigint
+      memo: string
+    }
+    if (campaignId.toString() !== onChainCampaignId || token !== ZERO_ADDRESS) continue
+
+    const amountUsd = weiToUsd(amount, config.nativeUsdPrice)
+    if (amountUsd <= 0) return { ok: false, error: 'Donation is below the smallest recordable amount', status: 400 }
+    return { ok: true, amount: amountUsd, value: amount, donor, memo, receipt }
+  }
+  return { ok: false, error: 'Transaction does not contain a donation to this campaign', status: 400 }
+}
@@ -0,0 +1,49 @@
+// lib/payments/server.ts
+// Server-side charges for payments the donor is not present for (recurring pledges, lib/pledges)
+// Same provider switch as ./index; the mock provider records the donation through the ledger.
+// The ZetaChain provider refuses: see RECURRING_CHARGES_SUPPORTED
+// MOCK_RECURRING_FAILURE_RATE (0-1) makes a share of mock charges decline, to exercise dunning locally
+
+import type { Campaign, Donation } from '@/_dev/mock-db/database'
+import { recordDonation } from '@/lib/ledger'
+import type { Receipt } from '@/lib/receipts'
+
+export type ServerChargeInput = {
+  campaignId: string
+  amount: number
+  chain: string
+  donorName: string
+  donorId: string
+}
+
+export type ServerChargeResult =
+  | { ok: true; txId: string; donation: Donation; campaign: Campaign; receipt: Receipt }
+  | { ok: false; error: string; status: number }
+
+const PROVIDER = (process.env.NEXT_PUBLIC_PAYMENT_PROVIDER || 'mock').toLowerCase()
+
+function mockFailureRate(): number {
+  const rate = Number(process.env.MOCK_RECURRING_FAILURE_RATE || 0)
+  return Number.isFinite(rate) ? Math.min(Math.max(rate, 0), 1) : 0
+}
+
+async function chargeWithMock(input: ServerChargeInput): Promise<ServerChargeResult> {
+  if (Math.random() < mockFailureRate()) {
+    return { ok: false, error: 'Payment declined by the mock provider', status: 402 }
+  }
+  const txId = `tx_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+  const recorded = recordDonation({ ...input, txId })
+  if (!recorded.ok) return recorded
+  return { ok: true, txId, donation: recorded.donation, campaign: recorded.campaign, receipt: recorded.receipt }
+}
+
+// On-chain donations are signed in the donor's wallet, one donate() at a time, so nothing can be
+// charged while they are away: the ZetaChain provider has no recurring pledges
+export const RECURRING_CHARGES_SUPPORTED = PROVIDER !== 'zetachain'
+
+export const RECURRING_UNSUPPORTED_ERROR = 'Recurring pledges are not available with on-chain payments; donate once from your wallet instead'
+
+export async function chargeDonation(input: ServerChargeInput): Promise<ServerChargeResult> {
+  if (!RECURRING_CHARGES_SUPPORTED) return { ok: false, error: RECURRING_UNSUPPORTED_ERROR, status: 400 }
+  return chargeWithMock(input)
+}
@@ -0,0 +1,141 @@
+/**
+ * FILE: lib/pdf/index.ts
+ * PURPOSE: Minimal server-side PDF writer for text documents (receipts, statements)
+ * ACCESS: Server-only. import { renderPdf } from '@/lib/pdf'
+ * NOTES:
+ * - Plain PDF 1.4 with the standard Helvetica fonts (no embedding, no dependencies); US Letter
+ *   pages, a new page starts when the next block does not fit
+ * - Text is WinAnsi (Latin-1); characters outside it print as "?"
+ * - Columns are left-aligned at fixed x offsets; long cells are cut to fit their column
+ * MIGRATION NOTES:
+ * - Swap for a layout library (pdfkit, react-pdf) if documents need images or rich tables
+ */
+
+export type PdfBlock =
+  | { kind: 'text'; text: string; size?: number; bold?: boolean; muted?: boolean }
+  /** Cells start at `at` (points from the left margin); the last column runs to the right margin */
+  | { kind: 'columns'; cells: string[]; at: number[]; size?: number; bold?: boolean }
+  | { kind: 'rule' }
+  | { kind: 'space'; height: number };
+
+export type PdfOptions = { title?: string };
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const DEFAULT_SIZE = 11;
+const LINE_FACTOR = 1.45;
+// Average Helvetica glyph width as a share of the font size, used to cut long text
+const AVG_GLYPH = 0.52;
+
+function toLatin1(text: string): string {
+  return Array.from(text.normalize('NFC'), char => (char.charCodeAt(0) <= 0xff && char.length === 1 ? char : '?')).join('');
+}
+
+function escapeText(text: string): string {
+  return toLatin1(text).replace(/[\\()]/g, match => `\\${match}`).replace(/[\r\n\t]/g, ' ');
+}
+
+function fit(text: string, width: number, size: number): string {
+  const max = Math.floor(width / (size * AVG_GLYPH));
+  return text.length > max ? `${text.slice(0, Math.max(0, max - 3))}...` : text;
+}
+
+function wrap(text: string, width: number, size: number): string[] {
+  const max = Math.max(1, Math.floor(width / (size * AVG_GLYPH)));
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const next = line ? `${line} ${word}` : word;
+      if (next.length > max && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Lays the blocks out top to bottom and returns the PDF file bytes */
+export function renderPdf(blocks: PdfBlock[], options: PdfOptions = {}): Buffer {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensure = (height: number) => {
+    if (y - height < MARGIN) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+  const draw = (op: string) => pages[pages.length - 1].push(op);
+  const textAt = (x: number, text: string, size: number, bold?: boolean, muted?: boolean) =>
+    draw(`BT ${muted ? '0.42 g' : '0 g'} /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapeText(text)}) Tj ET`);
+
+  for (const block of blocks) {
+    switch (block.kind) {
+      case 'text': {
+        const size = block.size ?? DEFAULT_SIZE;
+        for (const line of wrap(block.text, CONTENT_WIDTH, size)) {
+          ensure(size * LINE_FACTOR);
+          y -= size * LINE_FACTOR;
+          textAt(MARGIN, line, size, block.bold, block.muted);
+        }
+        break;
+      }
+      case 'columns': {
+        const size = block.size ?? DEFAULT_SIZE;
+        ensure(size * LINE_FACTOR);
+        y -= size * LINE_FACTOR;
+        block.cells.forEach((cell, index) => {
+          const start = block.at[index] ?? 0;
+          const end = block.at[index + 1] ?? CONTENT_WIDTH;
+          textAt(MARGIN + start, fit(cell, end - start - 6, size), size, block.bold);
+        });
+        break;
+      }
+      case 'rule':
+        ensure(12);
+        y -= 8;
+        draw(`0.8 G 0.75 w ${MARGIN} ${y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${y.toFixed(2)} l S`);
+        y -= 4;
+        break;
+      case 'space':
+        y -= block.height;
+        break;
+    }
+  }
+
+  // Objects: 1 catalog, 2 pages, 3-4 fonts, 5 info, then a page + content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Producer (GiveHub)${options.title ? ` /Title (${escapeText(options.title)})` : ''} >>`;
+  pages.forEach((ops, index) => {
+    const content = ops.join('\n');
+    objects[pageIds[index]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+    objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+  });
+
+  let out = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(out, 'latin1');
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = Buffer.byteLength(out, 'latin1');
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) out += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(out, 'latin1');
+}
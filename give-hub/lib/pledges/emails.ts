@@ -0,0 +1,50 @@
+/**
+ * FILE: lib/pledges/emails.ts
+ * PURPOSE: Dunning emails for recurring pledges - a failed charge that will be retried, and a
+ *          pledge that was cancelled (retries exhausted or the campaign ended)
+ * ACCESS: Server-only. Used by lib/pledges
+ */
+
+import type { Creator, User } from '@/_dev/mock-db/database';
+import { sendMailInBackground } from '@/lib/mailer';
+import { formatCurrency, formatDate } from '@/lib/utils/format';
+import type { PledgeView } from './index';
+
+const appUrl = () => (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+const describe = (pledge: PledgeView) =>
+  `your ${pledge.interval} pledge of ${formatCurrency(pledge.amount)} via ${pledge.chain} to "${pledge.campaignTitle}"`;
+
+export function sendPledgeFailedEmail(donor: User | Creator, pledge: PledgeView, retryAt: string): void {
+  sendMailInBackground({
+    to: donor.email,
+    subject: `Payment failed for your pledge to "${pledge.campaignTitle}"`,
+    text: `Hi ${donor.username},
+
+We could not collect ${describe(pledge)}.
+Reason: ${pledge.lastError || 'the payment was declined'}
+
+We will try again on ${formatDate(retryAt)}. You can pause or cancel the pledge from your profile:
+${appUrl()}/profile
+
+- The GiveHub team
+`,
+  });
+}
+
+export function sendPledgeCancelledEmail(donor: User | Creator, pledge: PledgeView): void {
+  sendMailInBackground({
+    to: donor.email,
+    subject: `Your pledge to "${pledge.campaignTitle}" was cancelled`,
+    text: `Hi ${donor.username},
+
+We cancelled ${describe(pledge)}.
+Reason: ${pledge.cancelReason || 'the payment could not be collected'}
+
+You will not be charged again. To keep supporting the campaign, start a new pledge from its page:
+${appUrl()}/campaign/${pledge.campaignId}
+
+- The GiveHub team
+`,
+  });
+}
@@ -0,0 +1,432 @@
+/**
+ * FILE: lib/pledges/index.ts
+ * PURPOSE: Recurring donations - weekly, monthly or yearly pledges charged on a schedule
+ * ACCESS: Server-only. /api/pledges (donor: create, list, pause/resume/cancel, change amount),
+ *         /api/pledges/revenue (creator studio) and the scheduler in ./scheduler
+ * MODEL:
+ * - `pledges` records, one per donor and campaign while not cancelled. Pledges need an account:
+ *   every installment is a ledger donation linked to the donor (receipt, statement, backer emails)
+ * - The first installment is charged when the pledge is created. The pledge is reserved as
+ *   `pending` in a transaction before that charge, so two concurrent requests cannot both
+ *   charge; a declined first charge deletes the reservation. Later installments are charged by the scheduler through the payment
+ *   provider adapter (lib/payments/server)
+ * - `dueAt` is the installment being collected; `nextChargeAt` is when the scheduler tries it
+ *   (the due date, a dunning retry, or a short lease while a charge is in flight)
+ * - Dunning: a failed charge marks the pledge `past_due` and retries on RETRY_DELAYS_MS (1, 3,
+ *   5 days), emailing and notifying the donor each time; after MAX_CHARGE_ATTEMPTS the pledge is
+ *   cancelled. A campaign that ended or was cancelled cancels its pledges at the next charge
+ * STATUSES: pending (first charge in flight) -> active | deleted (declined)
+ *           active -> past_due (charge failed) -> active (retry succeeded) | cancelled
+ *           active | past_due -> paused (donor) -> active (resume, next future installment)
+ * MIGRATION NOTES:
+ * - MongoDB: `pledges` collection indexed on { donorId }, { campaignId, status } and
+ *   { status, nextChargeAt } for the scheduler's due query
+ * - Payments: real providers need a stored payment method or an on-chain allowance per pledge
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from '@/_dev/mock-db/database';
+import type { Campaign } from '@/_dev/mock-db/database';
+import { roundAmount } from '@/lib/ledger';
+import { donationBlockedReason, getCampaignStatus } from '@/lib/lifecycle';
+import { isCampaignPublic } from '@/lib/moderation';
+import { notifyPledgeCancelled, notifyPledgePaymentFailed } from '@/lib/notifications/events';
+import { chargeDonation } from '@/lib/payments/server';
+import type { Receipt } from '@/lib/receipts';
+import { sendPledgeCancelledEmail, sendPledgeFailedEmail } from './emails';
+import {
+  MAX_CHARGE_ATTEMPTS,
+  addInterval,
+  isPledgeInterval,
+  monthlyEquivalent,
+  nextDueAfter,
+  retryAt,
+  type PledgeInterval,
+} from './schedule';
+
+export { PLEDGE_INTERVALS, MAX_CHARGE_ATTEMPTS, RETRY_DELAYS_MS, monthlyEquivalent } from './schedule';
+export type { PledgeInterval } from './schedule';
+
+const PLEDGES = 'pledges';
+
+const MAX_DONOR_NAME_LENGTH = 100;
+// Keeps a second scheduler (another process, `npm run pledges:run`) off a charge in flight
+const CHARGE_LEASE_MS = 10 * 60 * 1000;
+
+export type PledgeStatus = 'pending' | 'active' | 'past_due' | 'paused' | 'cancelled';
+
+export type Pledge = {
+  id: string;
+  donorId: string;
+  /** Shown on each installment's donation entry */
+  donorName: string;
+  campaignId: string;
+  amount: number;
+  chain: string;
+  interval: PledgeInterval;
+  status: PledgeStatus;
+  /** UTC day of month the schedule keeps (see ./schedule) */
+  anchorDay: number;
+  dueAt: string;
+  nextChargeAt: string;
+  /** Failed attempts for the current installment */
+  failedAttempts: number;
+  lastError?: string;
+  chargeCount: number;
+  totalCharged: number;
+  lastChargedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  cancelledAt?: string;
+  cancelReason?: string;
+};
+
+/** A pledge with the campaign title, as the profile page lists them */
+export type PledgeView = Pledge & { campaignTitle: string };
+
+/** The signed-in donor (AuthedRequest['user'] fits) */
+export type PledgeDonor = { id: string; username: string };
+
+export type PledgeResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; error: string; status: number };
+
+export type CampaignRecurringRevenue = {
+  campaignId: string;
+  campaignTitle: string;
+  monthly: number;
+  pledges: number;
+};
+
+export type RecurringRevenue = {
+  /** Active and past-due pledges normalized to a month */
+  monthly: number;
+  annual: number;
+  pledges: number;
+  /** Share of `monthly` from past-due pledges that are being retried */
+  atRiskMonthly: number;
+  campaigns: CampaignRecurringRevenue[];
+};
+
+export type CollectOutcome = 'charged' | 'retrying' | 'cancelled' | 'skipped';
+
+const isCollecting = (pledge: Pledge) => pledge.status === 'active' || pledge.status === 'past_due';
+
+// A reservation whose first charge never finished (the process died mid-charge)
+const isStaleReservation = (pledge: Pledge, now: number) =>
+  pledge.status === 'pending' && new Date(pledge.nextChargeAt).getTime() <= now;
+
+const toView = (pledge: Pledge, campaign?: Campaign | null): PledgeView => ({
+  ...pledge,
+  campaignTitle: (campaign === undefined ? db.findCampaignById(pledge.campaignId) : campaign)?.title ?? 'Deleted campaign',
+});
+
+/** Newest first */
+export function listDonorPledges(donorId: string): PledgeView[] {
+  return db
+    .listRecords<Pledge>(PLEDGES, { donorId })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(pledge => toView(pledge));
+}
+
+type PledgeInput = Pick<Pledge, 'campaignId' | 'amount' | 'chain' | 'interval' | 'donorName'>;
+
+function validateAmount(raw: unknown): PledgeResult<{ amount: number }> {
+  const amount = typeof raw === 'number' ? roundAmount(raw) : NaN;
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { ok: false, error: 'Amount must be greater than 0', status: 400 };
+  }
+  return { ok: true, amount };
+}
+
+function validateInput(donor: PledgeDonor, raw: unknown): PledgeResult<{ input: PledgeInput }> {
+  const fields = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  if (typeof fields.campaignId !== 'string' || !fields.campaignId || typeof fields.chain !== 'string' || !fields.chain) {
+    return { ok: false, error: 'Missing required fields: campaignId, amount, chain, interval', status: 400 };
+  }
+  if (!isPledgeInterval(fields.interval)) {
+    return { ok: false, error: 'interval must be weekly, monthly or yearly', status: 400 };
+  }
+  const amount = validateAmount(fields.amount);
+  if (!amount.ok) return amount;
+
+  const donorName = typeof fields.donorName === 'string' ? fields.donorName.trim() : '';
+  if (donorName.length > MAX_DONOR_NAME_LENGTH) {
+    return { ok: false, error: `Name must be at most ${MAX_DONOR_NAME_LENGTH} characters`, status: 400 };
+  }
+
+  return {
+    ok: true,
+    input: {
+      campaignId: fields.campaignId,
+      amount: amount.amount,
+      chain: fields.chain,
+      interval: fields.interval,
+      donorName: donorName || donor.username,
+    },
+  };
+}
+
+/** Charges the first installment now and schedules the rest; nothing is kept if that charge fails */
+export async function createPledge(
+  donor: PledgeDonor,
+  raw: unknown
+): Promise<PledgeResult<{ pledge: PledgeView; receipt: Receipt }>> {
+  const validated = validateInput(donor, raw);
+  if (!validated.ok) return validated;
+  const { input } = validated;
+
+  const campaign = db.findCampaignById(input.campaignId);
+  if (!campaign) return { ok: false, error: 'Campaign not found', status: 404 };
+  if (!isCampaignPublic(campaign)) {
+    return { ok: false, error: 'This campaign is not accepting donations', status: 403 };
+  }
+  const blocked = donationBlockedReason(campaign);
+  if (blocked) return { ok: false, error: blocked, status: 409 };
+  if (!campaign.chains.includes(input.chain)) {
+    return { ok: false, error: `Campaign does not support ${input.chain} payments`, status: 400 };
+  }
+
+  // Check and reserve in one transaction: a concurrent request sees the reservation and stops
+  const now = new Date();
+  const reserved = db.transaction(() => {
+    const pledges = db.listRecords<Pledge>(PLEDGES, { donorId: donor.id, campaignId: campaign.id });
+    for (const stale of pledges.filter(pledge => isStaleReservation(pledge, now.getTime()))) {
+      db.deleteRecord(PLEDGES, stale.id);
+    }
+    if (pledges.some(pledge => pledge.status !== 'cancelled' && !isStaleReservation(pledge, now.getTime()))) return null;
+    return db.insertRecord<Pledge>(PLEDGES, {
+      ...input,
+      id: randomUUID(),
+      donorId: donor.id,
+      status: 'pending',
+      anchorDay: now.getUTCDate(),
+      dueAt: now.toISOString(),
+      nextChargeAt: new Date(now.getTime() + CHARGE_LEASE_MS).toISOString(),
+      failedAttempts: 0,
+      chargeCount: 0,
+      totalCharged: 0,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    });
+  });
+  if (!reserved) {
+    return { ok: false, error: 'You already have a recurring pledge for this campaign; manage it from your profile', status: 409 };
+  }
+
+  const charged = await chargeDonation({
+    campaignId: campaign.id,
+    amount: input.amount,
+    chain: input.chain,
+    donorName: input.donorName,
+    donorId: donor.id,
+  });
+  if (!charged.ok) {
+    db.deleteRecord(PLEDGES, reserved.id);
+    return charged;
+  }
+
+  const chargedAt = new Date();
+  const dueAt = addInterval(now.toISOString(), input.interval, reserved.anchorDay);
+  const pledge = db.updateRecord<Pledge>(PLEDGES, reserved.id, {
+    status: 'active',
+    dueAt,
+    nextChargeAt: dueAt,
+    chargeCount: 1,
+    totalCharged: input.amount,
+    lastChargedAt: chargedAt.toISOString(),
+    updatedAt: chargedAt.toISOString(),
+  });
+  if (!pledge) {
+    console.error(`Pledge reservation ${reserved.id} vanished after its first charge`);
+    return { ok: false, error: 'Failed to create pledge', status: 500 };
+  }
+
+  return { ok: true, pledge: toView(pledge, charged.campaign), receipt: charged.receipt };
+}
+
+export type PledgeAction = 'pause' | 'resume' | 'cancel';
+
+const PLEDGE_ACTIONS: PledgeAction[] = ['pause', 'resume', 'cancel'];
+
+/** Donor-side management: { action?: pause | resume | cancel, amount? } (amount applies to future installments) */
+export function changePledge(donorId: string, pledgeId: string, raw: unknown): PledgeResult<{ pledge: PledgeView }> {
+  const fields = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const action = fields.action;
+  if (action !== undefined && !PLEDGE_ACTIONS.includes(action as PledgeAction)) {
+    return { ok: false, error: 'action must be pause, resume or cancel', status: 400 };
+  }
+  if (action === undefined && fields.amount === undefined) {
+    return { ok: false, error: 'Nothing to change', status: 400 };
+  }
+
+  const pledge = db.findRecord<Pledge>(PLEDGES, pledgeId);
+  if (!pledge || pledge.donorId !== donorId) return { ok: false, error: 'Pledge not found', status: 404 };
+  if (pledge.status === 'cancelled') return { ok: false, error: 'This pledge is cancelled', status: 409 };
+  if (pledge.status === 'pending') return { ok: false, error: 'The first payment is still processing', status: 409 };
+
+  const now = new Date();
+  const update: Partial<Pledge> = { updatedAt: now.toISOString() };
+
+  if (fields.amount !== undefined) {
+    const amount = validateAmount(fields.amount);
+    if (!amount.ok) return amount;
+    update.amount = amount.amount;
+  }
+
+  switch (action as PledgeAction | undefined) {
+    case 'pause':
+      update.status = 'paused';
+      break;
+    case 'resume': {
+      if (pledge.status !== 'paused') return { ok: false, error: 'Only paused pledges can be resumed', status: 409 };
+      const campaign = db.findCampaignById(pledge.campaignId);
+      const blocked = campaign ? donationBlockedReason(campaign) : 'Campaign not found';
+      if (blocked) return { ok: false, error: blocked, status: 409 };
+      // Installments missed while paused are skipped
+      const dueAt = new Date(pledge.dueAt).getTime() > now.getTime()
+        ? pledge.dueAt
+        : nextDueAfter(pledge.dueAt, pledge.interval, pledge.anchorDay, now.getTime());
+      Object.assign(update, { status: 'active', dueAt, nextChargeAt: dueAt, failedAttempts: 0, lastError: undefined });
+      break;
+    }
+    case 'cancel':
+      Object.assign(update, { status: 'cancelled', cancelledAt: now.toISOString(), cancelReason: 'Cancelled by donor' });
+      break;
+  }
+
+  const updated = db.updateRecord<Pledge>(PLEDGES, pledge.id, update);
+  if (!updated) return { ok: false, error: 'Pledge not found', status: 404 };
+  return { ok: true, pledge: toView(updated) };
+}
+
+/** Committed recurring revenue across a creator's campaigns, for the studio */
+export function recurringRevenue(creatorId: string): RecurringRevenue {
+  const campaigns = db.getAllCampaigns().filter(campaign => campaign.creatorId === creatorId);
+  const summary: RecurringRevenue = { monthly: 0, annual: 0, pledges: 0, atRiskMonthly: 0, campaigns: [] };
+
+  for (const campaign of campaigns) {
+    const pledges = db.listRecords<Pledge>(PLEDGES, { campaignId: campaign.id }).filter(isCollecting);
+    if (!pledges.length) continue;
+    let monthly = 0;
+    for (const pledge of pledges) {
+      const amount = monthlyEquivalent(pledge.amount, pledge.interval);
+      monthly += amount;
+      if (pledge.status === 'past_due') summary.atRiskMonthly += amount;
+    }
+    summary.campaigns.push({ campaignId: campaign.id, campaignTitle: campaign.title, monthly: roundAmount(monthly), pledges: pledges.length });
+    summary.monthly += monthly;
+    summary.pledges += pledges.length;
+  }
+
+  summary.annual = roundAmount(summary.monthly * 12);
+  summary.monthly = roundAmount(summary.monthly);
+  summary.atRiskMonthly = roundAmount(summary.atRiskMonthly);
+  summary.campaigns.sort((a, b) => b.monthly - a.monthly);
+  return summary;
+}
+
+// ---------------------------------------------------------------------------
+// Collection (used by ./scheduler)
+
+const isDue = (pledge: Pledge, now: number) => isCollecting(pledge) && new Date(pledge.nextChargeAt).getTime() <= now;
+
+/** IDs of pledges whose next charge is due, oldest first */
+export function listDuePledgeIds(now: number = Date.now()): string[] {
+  return db
+    .listRecords<Pledge>(PLEDGES)
+    .filter(pledge => isDue(pledge, now))
+    .sort((a, b) => a.nextChargeAt.localeCompare(b.nextChargeAt))
+    .map(pledge => pledge.id);
+}
+
+function cancelForDonor(pledge: Pledge, reason: string, now: Date, update: Partial<Pledge> = {}): void {
+  const cancelled = db.updateRecord<Pledge>(PLEDGES, pledge.id, {
+    ...update,
+    status: 'cancelled',
+    cancelledAt: now.toISOString(),
+    cancelReason: reason,
+    updatedAt: now.toISOString(),
+  });
+  if (!cancelled) return;
+  const view = toView(cancelled);
+  const donor = db.findUserById(pledge.donorId);
+  if (donor) sendPledgeCancelledEmail(donor, view);
+  notifyPledgeCancelled(view);
+}
+
+/**
+ * Charges the pledge's due installment once. A lease on `nextChargeAt` is taken first so a
+ * concurrent run skips it; the outcome then moves the schedule forward or into dunning.
+ */
+export async function collectInstallment(pledgeId: string, now: number = Date.now()): Promise<CollectOutcome> {
+  const claimed = db.transaction(() => {
+    const pledge = db.findRecord<Pledge>(PLEDGES, pledgeId);
+    if (!pledge || !isDue(pledge, now)) return null;
+    return db.updateRecord<Pledge>(PLEDGES, pledge.id, { nextChargeAt: new Date(now + CHARGE_LEASE_MS).toISOString() });
+  });
+  if (!claimed) return 'skipped';
+
+  const at = new Date(now);
+  const campaign = db.findCampaignById(claimed.campaignId);
+  const campaignStatus = campaign ? getCampaignStatus(campaign, now) : null;
+  if (!campaign || campaignStatus === 'ended' || campaignStatus === 'cancelled') {
+    cancelForDonor(claimed, 'The campaign is no longer accepting donations', at);
+    return 'cancelled';
+  }
+
+  const charged = await chargeDonation({
+    campaignId: claimed.campaignId,
+    amount: claimed.amount,
+    chain: claimed.chain,
+    donorName: claimed.donorName,
+    donorId: claimed.donorId,
+  });
+
+  // Re-read: the donor may have paused or cancelled while the charge was in flight
+  const current = db.findRecord<Pledge>(PLEDGES, claimed.id) ?? claimed;
+
+  if (charged.ok) {
+    const dueAt = nextDueAfter(claimed.dueAt, claimed.interval, claimed.anchorDay, now);
+    db.updateRecord<Pledge>(PLEDGES, claimed.id, {
+      status: current.status === 'past_due' ? 'active' : current.status,
+      dueAt,
+      nextChargeAt: dueAt,
+      failedAttempts: 0,
+      lastError: undefined,
+      chargeCount: current.chargeCount + 1,
+      totalCharged: roundAmount(current.totalCharged + claimed.amount),
+      lastChargedAt: at.toISOString(),
+      updatedAt: at.toISOString(),
+    });
+    return 'charged';
+  }
+
+  if (!isCollecting(current)) {
+    db.updateRecord<Pledge>(PLEDGES, claimed.id, { lastError: charged.error, updatedAt: at.toISOString() });
+    return 'skipped';
+  }
+
+  const failedAttempts = current.failedAttempts + 1;
+  const retry = retryAt(failedAttempts, now);
+  if (!retry) {
+    cancelForDonor(current, `Payment failed ${MAX_CHARGE_ATTEMPTS} times: ${charged.error}`, at, { failedAttempts, lastError: charged.error });
+    return 'cancelled';
+  }
+
+  const pastDue = db.updateRecord<Pledge>(PLEDGES, claimed.id, {
+    status: 'past_due',
+    failedAttempts,
+    lastError: charged.error,
+    nextChargeAt: retry,
+    updatedAt: at.toISOString(),
+  });
+  if (pastDue) {
+    const view = toView(pastDue, campaign);
+    const donor = db.findUserById(pastDue.donorId);
+    if (donor) sendPledgeFailedEmail(donor, view, retry);
+    notifyPledgePaymentFailed(view, retry);
+  }
+  return 'retrying';
+}
@@ -0,0 +1,65 @@
+/**
+ * FILE: lib/pledges/schedule.ts
+ * PURPOSE: Installment dates for recurring pledges and the dunning retry plan
+ * ACCESS: Server and client safe (no DB access). Used by lib/pledges and its scheduler
+ * NOTES:
+ * - Monthly and yearly pledges keep the day of month they started on; short months clamp it
+ *   (a pledge started on the 31st charges on Feb 28/29, then the 31st again)
+ * - Missed installments (paused pledges, a server that was down) are skipped, never back-charged
+ */
+
+export type PledgeInterval = 'weekly' | 'monthly' | 'yearly';
+
+export const PLEDGE_INTERVALS: PledgeInterval[] = ['weekly', 'monthly', 'yearly'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Dunning: after a failed charge, retry this long after the failure; then the pledge is cancelled */
+export const RETRY_DELAYS_MS = [1 * DAY_MS, 3 * DAY_MS, 5 * DAY_MS];
+
+/** Attempts per installment, the first charge plus every retry */
+export const MAX_CHARGE_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+// Normalizes pledge amounts to a monthly figure for recurring revenue
+const MONTHLY_FACTOR: Record<PledgeInterval, number> = {
+  weekly: 52 / 12,
+  monthly: 1,
+  yearly: 1 / 12,
+};
+
+export const isPledgeInterval = (value: unknown): value is PledgeInterval =>
+  typeof value === 'string' && (PLEDGE_INTERVALS as string[]).includes(value);
+
+export const monthlyEquivalent = (amount: number, interval: PledgeInterval) => amount * MONTHLY_FACTOR[interval];
+
+/** The installment after `dueAt`; `anchorDay` is the day of month the pledge started on */
+export function addInterval(dueAt: string, interval: PledgeInterval, anchorDay: number): string {
+  const date = new Date(dueAt);
+  if (interval === 'weekly') return new Date(date.getTime() + 7 * DAY_MS).toISOString();
+
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + (interval === 'monthly' ? 1 : 12);
+  // Day 0 of the following month is the last day of `month`; Date.UTC rolls month overflow into the year
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(
+    year,
+    month,
+    Math.min(anchorDay, lastDay),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds()
+  )).toISOString();
+}
+
+/** First installment after `dueAt` that is later than `now` */
+export function nextDueAfter(dueAt: string, interval: PledgeInterval, anchorDay: number, now: number): string {
+  let next = addInterval(dueAt, interval, anchorDay);
+  while (new Date(next).getTime() <= now) next = addInterval(next, interval, anchorDay);
+  return next;
+}
+
+/** When to try again after `failedAttempts` failures, or null once the installment is given up on */
+export function retryAt(failedAttempts: number, now: number): string | null {
+  const delay = RETRY_DELAYS_MS[failedAttempts - 1];
+  return delay === undefined ? null : new Date(now + delay).toISOString();
+}
@@ -0,0 +1,64 @@
+/**
+ * FILE: lib/pledges/scheduler.ts
+ * PURPOSE: Local scheduler that charges due pledge installments (see lib/pledges)
+ * ACCESS: Server-only. Started once per server process from instrumentation.ts;
+ *         `npm run pledges:run` runs a single pass from the command line
+ * NOTES:
+ * - Ticks every PLEDGE_SCHEDULER_INTERVAL_MS (default 60s; 0 turns the timer off). A tick that
+ *   is still charging when the next one fires is not overlapped
+ * - Charges run one after another; each takes a lease on its pledge, so a CLI run next to the
+ *   dev server does not charge an installment twice
+ * MIGRATION NOTES:
+ * - Production: run `pledges:run` from cron / a queue worker instead of an in-process timer
+ */
+
+import { collectInstallment, listDuePledgeIds, type CollectOutcome } from './index';
+
+const DEFAULT_INTERVAL_MS = 60_000;
+
+export type PledgeRunReport = Record<CollectOutcome, number> & { due: number };
+
+type SchedulerState = { timer: ReturnType<typeof setInterval> | null; running: boolean };
+
+// Survives dev-server module reloads, like the realtime listener map
+const globalForPledges = globalThis as unknown as { __giveHubPledgeScheduler?: SchedulerState };
+const state = (globalForPledges.__giveHubPledgeScheduler ??= { timer: null, running: false });
+
+/** Charges every installment due at `now` once */
+export async function runDuePledges(now: number = Date.now()): Promise<PledgeRunReport> {
+  const due = listDuePledgeIds(now);
+  const report: PledgeRunReport = { due: due.length, charged: 0, retrying: 0, cancelled: 0, skipped: 0 };
+  for (const id of due) {
+    try {
+      report[await collectInstallment(id, now)] += 1;
+    } catch (error) {
+      console.error(`Pledge ${id} charge failed:`, error);
+      report.skipped += 1;
+    }
+  }
+  return report;
+}
+
+// Quiet on success: the report is the result, only failures are logged
+async function tick(): Promise<PledgeRunReport | null> {
+  if (state.running) return null;
+  state.running = true;
+  try {
+    return await runDuePledges();
+  } catch (error) {
+    console.error('Pledge scheduler tick failed:', error);
+    return null;
+  } finally {
+    state.running = false;
+  }
+}
+
+export function startPledgeScheduler(): void {
+  if (state.timer) return;
+  const raw = process.env.PLEDGE_SCHEDULER_INTERVAL_MS;
+  const interval = raw === undefined || raw === '' ? DEFAULT_INTERVAL_MS : Number(raw);
+  if (!Number.isFinite(interval) || interval <= 0) return;
+  state.timer = setInterval(() => void tick(), interval);
+  // Never keeps a process (build, CLI) alive on its own
+  state.timer.unref?.();
+}
@@ -0,0 +1,35 @@
+/**
+ * FILE: lib/rate-limit/connection.ts
+ * PURPOSE: Makes the TCP peer address visible to route handlers for getClientIp()
+ * ACCESS: Node.js runtime only. Called once from instrumentation.ts
+ * NOTES:
+ * - App Router handlers get no socket, and Next.js only fills X-Forwarded-For from the socket when
+ *   the client sent none. This stamps CONNECTION_ADDRESS_HEADER on every incoming request before
+ *   Next.js sees it, overwriting whatever the client put there, with a per-process token that
+ *   getClientIp() checks
+ */
+
+import { randomBytes } from 'crypto';
+import http from 'http';
+import https from 'https';
+import { CONNECTION_ADDRESS_HEADER } from './index';
+
+const TRACKED = Symbol.for('givehub.connectionAddress');
+
+export function trackConnectionAddress(): void {
+  const globalForConnection = globalThis as typeof globalThis & { __giveHubConnectionToken?: string };
+  const token = (globalForConnection.__giveHubConnectionToken ??= randomBytes(16).toString('hex'));
+  for (const Server of [http.Server, https.Server]) {
+    const proto = Server.prototype as http.Server & { [TRACKED]?: boolean };
+    if (proto[TRACKED]) continue;
+    const emit = proto.emit as (this: http.Server, event: string | symbol, ...args: unknown[]) => boolean;
+    proto.emit = function (this: http.Server, event: string | symbol, ...args: unknown[]) {
+      if (event === 'request') {
+        const request = args[0] as http.IncomingMessage;
+        request.headers[CONNECTION_ADDRESS_HEADER] = `${token} ${request.socket.remoteAddress ?? 'unknown'}`;
+      }
+      return emit.call(this, event, ...args);
+    } as typeof proto.emit;
+    proto[TRACKED] = true;
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * FILE: lib/rate-limit/index.ts
+ * PURPOSE: Pluggable request rate limiting (token bucket) for API routes
+ * ACCESS: Server-only.
+ *   const limiter = getRateLimiter('signin:ip', { capacity: 10, refillPerMinute: 10 });
+ *   const result = await consumeByClientIp(limiter, request);
+ *   if (!result.allowed) return rateLimitedResponse(result);
+ * CLIENT ADDRESS:
+ * - getClientIp() only trusts X-Forwarded-For behind TRUSTED_PROXY_HOPS proxies; otherwise it
+ *   uses the peer address recorded by trackConnectionAddress() (instrumentation.ts), so rotating
+ *   a client-sent header does not get a fresh bucket
+ * - That address depends on instrumentation patching http.Server.prototype.emit. Where it cannot
+ *   (a custom server, another runtime) and no proxy is trusted, the address is unknown: per-IP
+ *   limits fail open with a one-time warning rather than putting every client in one bucket
+ * DRIVERS (RATE_LIMIT_DRIVER):
+ * - memory (default): per-process token buckets, reset on restart
+ * MIGRATION NOTES:
+ * - Register a Redis driver with registerRateLimitDriver('redis', ...) when running several
+ *   instances; the interface is async so network-backed stores fit without caller changes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export type TokenBucketOptions = {
+  /** Burst size: requests allowed back-to-back on a fresh bucket */
+  capacity: number;
+  /** Sustained rate: tokens added back per minute */
+  refillPerMinute: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until the next token is available (0 when allowed) */
+  retryAfter: number;
+};
+
+export interface RateLimiter {
+  consume(key: string, cost?: number): Promise<RateLimitResult>;
+  reset(key: string): Promise<void>;
+}
+
+export type RateLimitDriver = (name: string, options: TokenBucketOptions) => RateLimiter;
+
+type Bucket = { tokens: number; updatedAt: number };
+
+const MAX_BUCKETS = 10_000;
+
+export class MemoryTokenBucketLimiter implements RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private readonly options: TokenBucketOptions) {}
+
+  private refill(bucket: Bucket, now: number): Bucket {
+    const perMs = this.options.refillPerMinute / 60_000;
+    const tokens = Math.min(this.options.capacity, bucket.tokens + (now - bucket.updatedAt) * perMs);
+    return { tokens, updatedAt: now };
+  }
+
+  async consume(key: string, cost: number = 1): Promise<RateLimitResult> {
+    const now = Date.now();
+    const existing = this.buckets.get(key);
+    const bucket = existing ? this.refill(existing, now) : { tokens: this.options.capacity, updatedAt: now };
+
+    if (bucket.tokens >= cost) {
+      bucket.tokens -= cost;
+      this.store(key, bucket);
+      return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfter: 0 };
+    }
+
+    this.store(key, bucket);
+    const missing = cost - bucket.tokens;
+    const retryAfter = Math.ceil(missing / (this.options.refillPerMinute / 60));
+    return { allowed: false, remaining: 0, retryAfter: Math.max(retryAfter, 1) };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.buckets.delete(key);
+  }
+
+  private store(key: string, bucket: Bucket): void {
+    // Full buckets carry no state worth keeping; drop them when the map grows large
+    if (this.buckets.size >= MAX_BUCKETS && !this.buckets.has(key)) {
+      const now = Date.now();
+      for (const [k, b] of this.buckets) {
+        if (this.refill(b, now).tokens >= this.options.capacity) this.buckets.delete(k);
+      }
+    }
+    this.buckets.set(key, bucket);
+  }
+}
+
+const drivers = new Map<string, RateLimitDriver>([
+  ['memory', (_name, options) => new MemoryTokenBucketLimiter(options)],
+]);
+
+export function registerRateLimitDriver(driver: string, factory: RateLimitDriver): void {
+  drivers.set(driver, factory);
+}
+
+// Limiters are cached by name so buckets survive Next.js hot reloads in development
+const globalForRateLimit = globalThis as typeof globalThis & { __giveHubRateLimiters?: Map<string, RateLimiter> };
+const limiters = globalForRateLimit.__giveHubRateLimiters ?? (globalForRateLimit.__giveHubRateLimiters = new Map());
+
+export function getRateLimiter(name: string, options: TokenBucketOptions): RateLimiter {
+  const cached = limiters.get(name);
+  if (cached) return cached;
+
+  const driverName = (process.env.RATE_LIMIT_DRIVER || 'memory').toLowerCase();
+  const driver = drivers.get(driverName);
+  if (!driver) {
+    console.warn(`[rate-limit] Unknown RATE_LIMIT_DRIVER "${driverName}", falling back to memory`);
+  }
+  const limiter = (driver ?? drivers.get('memory')!)(name, options);
+  limiters.set(name, limiter);
+  return limiter;
+}
+
+/**
+ * Set on every request to `<token> <peer address>` by trackConnectionAddress() (./connection).
+ * The token is a per-process secret, so a value the client sent itself is never mistaken for it
+ * (also on the requests that arrive before instrumentation has run)
+ */
+export const CONNECTION_ADDRESS_HEADER = 'x-givehub-connection-address';
+
+const connectionToken = (): string | undefined =>
+  (globalThis as typeof globalThis & { __giveHubConnectionToken?: string }).__giveHubConnectionToken;
+
+function connectionAddress(request: NextRequest): string | null {
+  const [token, address] = (request.headers.get(CONNECTION_ADDRESS_HEADER) ?? '').split(' ');
+  return token && address && address !== 'unknown' && token === connectionToken() ? address : null;
+}
+
+/**
+ * Reverse proxies in front of the app that append to X-Forwarded-For (TRUSTED_PROXY_HOPS,
+ * default 0). Entries further left were written by the client and prove nothing.
+ */
+function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS || 0);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+/**
+ * Client address for per-IP limits. Without trusted proxies it is the connection's peer address;
+ * behind N of them, the X-Forwarded-For entry the outermost trusted proxy appended. Null when
+ * neither is available (see CLIENT ADDRESS above).
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const connection = connectionAddress(request);
+  const hops = trustedProxyHops();
+  if (hops === 0) return connection;
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  // Fewer entries than proxies means a hop did not append; the nearest address is all we know
+  return forwarded.length >= hops ? forwarded[forwarded.length - hops] : forwarded[0] || connection;
+}
+
+let warnedUnknownClient = false;
+
+/**
+ * Consumes from the client's bucket in a per-IP limiter. Fails open (allowed, full bucket) when the
+ * client address is unknown, so one misconfigured deployment does not throttle all users as one.
+ */
+export async function consumeByClientIp(limiter: RateLimiter, request: NextRequest, cost?: number): Promise<RateLimitResult> {
+  const ip = getClientIp(request);
+  if (ip) return limiter.consume(ip, cost);
+  if (!warnedUnknownClient) {
+    warnedUnknownClient = true;
+    console.warn('[rate-limit] Client address unknown: instrumentation.ts did not track the connection and TRUSTED_PROXY_HOPS is 0. Per-IP limits are off');
+  }
+  return { allowed: true, remaining: Infinity, retryAfter: 0 };
+}
+
+export function rateLimitedResponse(result: Pick<RateLimitResult, 'retryAfter'>, error = 'Too many requests, please try again later') {
+  return NextResponse.json(
+    { success: false, error, retryAfter: result.retryAfter },
+    { status: 429, headers: { 'Retry-After': String(result.retryAfter) } }
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * FILE: lib/realtime/client.ts
+ * PURPOSE: Client hooks for the campaign Server-Sent Events streams (see lib/realtime)
+ * ACCESS: Client components. import { useCampaignStream, useLiveCampaigns } from '@/lib/realtime/client'
+ * WHAT CALLS THIS: Campaign page (donations list + totals), ProgressPill, CampaignsGrid cards,
+ *                  studio dashboard totals
+ * NOTES:
+ * - EventSource reconnects on its own; each (re)connect starts with a `progress` snapshot,
+ *   so totals heal after a dropped connection
+ */
+
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { CampaignProgress, PublicDonation } from './index'
+
+export type { CampaignProgress, PublicDonation }
+
+// Keep in sync with MAX_STREAM_CAMPAIGNS in ./index
+const MAX_STREAM_CAMPAIGNS = 50
+
+type StreamHandlers = {
+  onProgress?: (progress: CampaignProgress) => void
+  onDonation?: (donation: PublicDonation) => void
+}
+
+function listen(source: EventSource, handlers: { current: StreamHandlers }) {
+  source.addEventListener('progress', (event) => {
+    handlers.current.onProgress?.(JSON.parse((event as MessageEvent).data) as CampaignProgress)
+  })
+  source.addEventListener('donation', (event) => {
+    const data = JSON.parse((event as MessageEvent).data) as { donation: PublicDonation }
+    handlers.current.onDonation?.(data.donation)
+  })
+}
+
+/** Live events for one campaign; pass null to stay disconnected */
+export function useCampaignStream(campaignId: string | null, handlers: StreamHandlers) {
+  // Latest handlers without reconnecting when the caller re-renders
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    if (!campaignId || typeof EventSource === 'undefined') return
+    const source = new EventSource(`/api/campaigns/${encodeURIComponent(campaignId)}/stream`)
+    listen(source, handlersRef)
+    return () => source.close()
+  }, [campaignId])
+}
+
+/** `campaigns` with `raised`/`goal` kept current over a single shared stream */
+export function useLiveCampaigns<T extends { id: string; raised: number; goal: number }>(campaigns: T[]): T[] {
+  const [live, setLive] = useState<Record<string, CampaignProgress>>({})
+  const key = useMemo(
+    () => Array.from(new Set(campaigns.map(c => c.id))).sort().slice(0, MAX_STREAM_CAMPAIGNS).join(','),
+    [campaigns]
+  )
+  const handlersRef = useRef<StreamHandlers>({})
+  handlersRef.current = {
+    onProgress: (progress) => setLive(prev => ({ ...prev, [progress.campaignId]: progress })),
+  }
+
+  useEffect(() => {
+    if (!key || typeof EventSource === 'undefined') return
+    const source = new EventSource(`/api/campaigns/stream?${new URLSearchParams({ ids: key }).toString()}`)
+    listen(source, handlersRef)
+    return () => source.close()
+  }, [key])
+
+  return useMemo(() => campaigns.map(campaign => {
+    const progress = live[campaign.id]
+    return progress ? { ...campaign, raised: progress.raised, goal: progress.goal } : campaign
+  }), [campaigns, live])
+}
@@ -0,0 +1,141 @@
+/**
+ * FILE: lib/realtime/index.ts
+ * PURPOSE: Live campaign progress - in-process event bus plus the Server-Sent Events response
+ * ACCESS: Server-only. lib/ledger publishes after each committed donation; the stream routes
+ *         (/api/campaigns/[id]/stream, /api/campaigns/stream?ids=) subscribe. Client hooks are in ./client
+ * EVENTS (SSE `event:` names, JSON `data:`):
+ * - progress: { campaignId, raised, goal, donations } - sent once per campaign on connect, then after every donation
+ * - donation: { campaignId, donation: { id, name, amount, chain, timestamp } } - same fields as the public donations list
+ * NOTES:
+ * - A `: ping` comment every HEARTBEAT_MS keeps proxies from closing idle streams
+ * - Subscriptions end when the client disconnects (request signal) or the stream is cancelled
+ * MIGRATION NOTES:
+ * - The bus only reaches clients connected to the same server process. With several
+ *   instances, publish through Redis pub/sub (or the contract's Donation events, see lib/indexer)
+ */
+
+import { db } from '@/_dev/mock-db/database';
+import type { Campaign, Donation } from '@/_dev/mock-db/database';
+
+const HEARTBEAT_MS = 25_000;
+export const MAX_STREAM_CAMPAIGNS = 50;
+
+export type CampaignProgress = {
+  campaignId: string;
+  raised: number;
+  goal: number;
+  donations: number;
+};
+
+export type PublicDonation = Pick<Donation, 'name' | 'amount' | 'chain'> & { id?: string; timestamp: string };
+
+export type CampaignEvent =
+  | { type: 'progress'; data: CampaignProgress }
+  | { type: 'donation'; data: { campaignId: string; donation: PublicDonation } };
+
+type CampaignListener = (event: CampaignEvent) => void;
+
+// One listener set per campaign; kept on globalThis so dev hot reloads share it with the ledger
+const globalForRealtime = globalThis as unknown as { __giveHubCampaignListeners?: Map<string, Set<CampaignListener>> };
+const listeners = (globalForRealtime.__giveHubCampaignListeners ??= new Map());
+
+export function subscribeCampaign(campaignId: string, listener: CampaignListener): () => void {
+  const set = listeners.get(campaignId) ?? new Set<CampaignListener>();
+  set.add(listener);
+  listeners.set(campaignId, set);
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) listeners.delete(campaignId);
+  };
+}
+
+function publish(campaignId: string, event: CampaignEvent): void {
+  for (const listener of listeners.get(campaignId) ?? []) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Campaign stream listener failed:', error);
+    }
+  }
+}
+
+export function campaignProgress(campaign: Campaign): CampaignProgress {
+  return {
+    campaignId: campaign.id,
+    raised: campaign.raised || 0,
+    goal: campaign.goal,
+    donations: db.getDonationsByCampaign(campaign.id).length,
+  };
+}
+
+/** Called by the ledger once a donation has committed */
+export function publishDonation(campaign: Campaign, donation: Donation): void {
+  if (!listeners.has(campaign.id)) return;
+  publish(campaign.id, {
+    type: 'donation',
+    data: {
+      campaignId: campaign.id,
+      donation: {
+        id: donation.id,
+        name: donation.name,
+        amount: donation.amount,
+        chain: donation.chain,
+        timestamp: new Date(donation.timestamp).toISOString(),
+      },
+    },
+  });
+  publish(campaign.id, { type: 'progress', data: campaignProgress(campaign) });
+}
+
+/**
+ * SSE response for the given (already visibility-checked) campaigns: a `progress` snapshot
+ * for each, then live events until `signal` aborts.
+ */
+export function campaignEventStream(campaigns: Campaign[], signal: AbortSignal): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const sendEvent = (event: CampaignEvent) => send(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+
+      // Reconnect after 5s if the connection drops (EventSource default is ~3s)
+      send('retry: 5000\n\n');
+      for (const campaign of campaigns) sendEvent({ type: 'progress', data: campaignProgress(campaign) });
+
+      const unsubscribes = campaigns.map(campaign => subscribeCampaign(campaign.id, sendEvent));
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribes.forEach(unsubscribe => unsubscribe());
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+      if (signal.aborted) cleanup();
+      else signal.addEventListener('abort', () => cleanup(), { once: true });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Disable response buffering in nginx-style proxies
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
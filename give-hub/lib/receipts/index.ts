@@ -0,0 +1,194 @@
+/**
+ * FILE: lib/receipts/index.ts
+ * PURPOSE: Donation receipts - numbered, HMAC-signed records, PDF rendering, verification
+ * ACCESS: Server-only. lib/ledger issues a receipt inside every donation's write unit;
+ *         GET /api/receipts/[id]/pdf downloads it, GET /api/receipts/[id]/verify checks it
+ * MODEL:
+ * - `receipts` records snapshot donor, campaign title, amount, chain and transaction ID at
+ *   the time of the donation, so later campaign edits do not change an issued receipt
+ * - `number` is sequential per year: GH-2026-000042
+ * - `signature` is HMAC-SHA256 (hex) over the snapshot fields, keyed with RECEIPT_SIGNING_SECRET
+ *   (falls back to JWT_SECRET). Verification recomputes it, so an edited record or a forged
+ *   PDF does not verify
+ * - Receipt IDs are random UUIDs; the PDF link works like a bearer link (anonymous donors have no account)
+ * - A reversed donation (on-chain reorg, lib/ledger) keeps its receipt and number, marked void;
+ *   `voidedAt`/`voidReason` are not signed, so the issued snapshot still verifies
+ * MIGRATION NOTES:
+ * - MongoDB: `receipts` collection, unique indexes on { number } and { donationId }; use a
+ *   counter document for the yearly sequence
+ * - Keys: keep RECEIPT_SIGNING_SECRET in a KMS; rotating it needs a `keyId` on each receipt
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { db } from '@/_dev/mock-db/database';
+import type { Campaign, Donation } from '@/_dev/mock-db/database';
+import { renderPdf } from '@/lib/pdf';
+import { formatCurrency } from '@/lib/utils/format';
+
+const RECEIPTS = 'receipts';
+
+export type Receipt = {
+  id: string;
+  number: string;
+  donationId: string;
+  campaignId: string;
+  campaignTitle: string;
+  donorId?: string;
+  donorName: string;
+  amount: number;
+  chain: string;
+  txId?: string;
+  issuedAt: string;
+  signature: string;
+  voidedAt?: string;
+  voidReason?: string;
+};
+
+/** What the verify endpoint shows about a receipt */
+export type PublicReceipt = Omit<Receipt, 'donorId' | 'signature'>;
+
+export type ReceiptVerification =
+  | { ok: true; valid: boolean; receipt: PublicReceipt }
+  | { ok: false; error: string; status: number };
+
+const signingKey = () =>
+  process.env.RECEIPT_SIGNING_SECRET || process.env.JWT_SECRET || 'fallback-secret-key-for-development';
+
+const appUrl = () => (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+// Fixed field order, so the same receipt always signs to the same bytes
+function sign(receipt: Omit<Receipt, 'signature'>): string {
+  const payload = JSON.stringify([
+    receipt.id,
+    receipt.number,
+    receipt.donationId,
+    receipt.campaignId,
+    receipt.campaignTitle,
+    receipt.donorId ?? null,
+    receipt.donorName,
+    receipt.amount,
+    receipt.chain,
+    receipt.txId ?? null,
+    receipt.issuedAt,
+  ]);
+  return createHmac('sha256', signingKey()).update(payload).digest('hex');
+}
+
+function sameSignature(a: string, b: string): boolean {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+  return left.length === right.length && left.length > 0 && timingSafeEqual(left, right);
+}
+
+function nextNumber(issuedAt: string): string {
+  const year = issuedAt.slice(0, 4);
+  const prefix = `GH-${year}-`;
+  const issued = db.listRecords<Receipt>(RECEIPTS).filter(receipt => receipt.number.startsWith(prefix)).length;
+  return `${prefix}${String(issued + 1).padStart(6, '0')}`;
+}
+
+/** Call inside the donation's db.transaction() so the number and the donation commit together */
+export function issueReceipt(donation: Donation, campaign: Campaign): Receipt {
+  const issuedAt = new Date().toISOString();
+  const unsigned: Omit<Receipt, 'signature'> = {
+    id: randomUUID(),
+    number: nextNumber(issuedAt),
+    donationId: donation.id ?? '',
+    campaignId: campaign.id,
+    campaignTitle: campaign.title,
+    donorId: donation.donorId,
+    donorName: donation.name,
+    amount: donation.amount,
+    chain: donation.chain,
+    txId: donation.txId,
+    issuedAt,
+  };
+  return db.insertRecord<Receipt>(RECEIPTS, { ...unsigned, signature: sign(unsigned) });
+}
+
+/** Call inside the reversal's db.transaction(); null when the donation had no receipt */
+export function voidReceipt(donationId: string, reason: string): Receipt | null {
+  const receipt = db.listRecords<Receipt>(RECEIPTS, { donationId })[0];
+  if (!receipt) return null;
+  return db.updateRecord<Receipt>(RECEIPTS, receipt.id, { voidedAt: new Date().toISOString(), voidReason: reason });
+}
+
+export function findReceipt(id: string): Receipt | null {
+  return db.findRecord<Receipt>(RECEIPTS, id);
+}
+
+export function listDonorReceipts(donorId: string): Receipt[] {
+  return db.listRecords<Receipt>(RECEIPTS, { donorId });
+}
+
+/** Relative download link, as returned to the payment modal */
+export const receiptUrl = (receipt: Pick<Receipt, 'id'>) => `/api/receipts/${receipt.id}/pdf`;
+
+export const verifyUrl = (receipt: Pick<Receipt, 'id' | 'signature'>) =>
+  `${appUrl()}/api/receipts/${receipt.id}/verify?signature=${receipt.signature}`;
+
+export function toPublicReceipt(receipt: Receipt): PublicReceipt {
+  return {
+    id: receipt.id,
+    number: receipt.number,
+    donationId: receipt.donationId,
+    campaignId: receipt.campaignId,
+    campaignTitle: receipt.campaignTitle,
+    donorName: receipt.donorName,
+    amount: receipt.amount,
+    chain: receipt.chain,
+    txId: receipt.txId,
+    issuedAt: receipt.issuedAt,
+    voidedAt: receipt.voidedAt,
+    voidReason: receipt.voidReason,
+  };
+}
+
+/**
+ * Authentic when the stored record still matches its signature and, if the caller has one
+ * (e.g. copied from the PDF), that signature matches too.
+ */
+export function verifyReceipt(id: string, presented?: string | null): ReceiptVerification {
+  const receipt = findReceipt(id);
+  if (!receipt) return { ok: false, error: 'Receipt not found', status: 404 };
+
+  const { signature, ...unsigned } = receipt;
+  const expected = sign(unsigned);
+  const valid = sameSignature(expected, signature) && (!presented || sameSignature(expected, presented.toLowerCase()));
+  return { ok: true, valid, receipt: toPublicReceipt(receipt) };
+}
+
+export function renderReceiptPdf(receipt: Receipt): Buffer {
+  const issued = new Date(receipt.issuedAt);
+  const at = [0, 150];
+  return renderPdf([
+    { kind: 'text', text: 'GiveHub', size: 20, bold: true },
+    { kind: 'text', text: 'Donation receipt', size: 13, muted: true },
+    { kind: 'rule' },
+    { kind: 'space', height: 6 },
+    { kind: 'columns', cells: ['Receipt number', receipt.number], at, bold: true },
+    { kind: 'columns', cells: ['Issued', `${issued.toUTCString()}`], at },
+    { kind: 'columns', cells: ['Donor', receipt.donorName || 'Anonymous'], at },
+    { kind: 'columns', cells: ['Campaign', receipt.campaignTitle], at },
+    { kind: 'columns', cells: ['Campaign ID', receipt.campaignId], at },
+    { kind: 'columns', cells: ['Amount', formatCurrency(receipt.amount)], at, bold: true },
+    { kind: 'columns', cells: ['Paid with', receipt.chain], at },
+    { kind: 'columns', cells: ['Transaction ID', receipt.txId || 'n/a'], at },
+    { kind: 'columns', cells: ['Donation ID', receipt.donationId], at },
+    ...(receipt.voidedAt
+      ? [{ kind: 'columns' as const, cells: ['VOID', `${new Date(receipt.voidedAt).toUTCString()} - ${receipt.voidReason || 'reversed'}`], at, bold: true }]
+      : []),
+    { kind: 'space', height: 10 },
+    { kind: 'rule' },
+    { kind: 'text', text: 'Verify this receipt', bold: true },
+    { kind: 'text', text: verifyUrl(receipt), size: 8 },
+    { kind: 'text', text: `Signature (HMAC-SHA256): ${receipt.signature}`, size: 8, muted: true },
+    { kind: 'space', height: 10 },
+    {
+      kind: 'text',
+      text: 'Thank you for your donation. GiveHub forwards donations to the campaign creator; whether a donation is tax-deductible depends on the recipient and where you live.',
+      size: 9,
+      muted: true,
+    },
+  ], { title: `GiveHub receipt ${receipt.number}` });
+}
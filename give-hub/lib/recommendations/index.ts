@@ -0,0 +1,295 @@
+/**
+ * FILE: lib/recommendations/index.ts
+ * PURPOSE: Campaign recommendations from local data - personal picks, similar campaigns, popular
+ * ACCESS: Server-only. GET /api/recommendations, the home page, the campaign page's similar
+ *         campaigns section and the assistant's `suggest` action
+ * SIGNALS (personal):
+ * - Categories the user has backed, weighted by how many of their donations went there
+ * - Chains: `preferredChains` plus chains they have donated with
+ * - Content similarity to campaigns they backed (shared title/description terms, category)
+ * - Co-donation: other signed-in donors who backed the same campaigns also backed this one
+ * - Creators they have backed before, and a small popularity prior
+ * - Optional free-text `query` (assistant interests), ranked with the BM25 index
+ * NOTES:
+ * - Only public campaigns that accept donations right now are recommended; campaigns the
+ *   user already backed or created are left out
+ * - Users without history or preferences get the popular list (`basis: 'popular'`)
+ * MIGRATION NOTES:
+ * - MongoDB: precompute campaign term sets and co-donor counts in a nightly job
+ */
+
+import { db } from '@/_dev/mock-db/database';
+import type { Campaign, Donation, User } from '@/_dev/mock-db/database';
+import { donationBlockedReason } from '@/lib/lifecycle';
+import { listPublicCampaigns } from '@/lib/moderation';
+import { analyze, rankCampaigns } from '@/lib/search';
+
+export type RecommendationBasis = 'personal' | 'similar' | 'popular';
+
+export type Recommendation = {
+  campaign: Campaign;
+  score: number;
+  /** Short, user-facing explanations, strongest first */
+  reasons: string[];
+};
+
+export type RecommendationSet = {
+  basis: RecommendationBasis;
+  recommendations: Recommendation[];
+};
+
+export const MAX_RECOMMENDATIONS = 20;
+const DEFAULT_LIMIT = 6;
+
+const WEIGHTS = {
+  category: 3,
+  chain: 1.5,
+  content: 2,
+  coDonation: 2,
+  creator: 1,
+  popularity: 0.5,
+  query: 3,
+};
+
+// Everything a scoring pass needs, loaded once per request
+type Corpus = {
+  campaigns: Campaign[];
+  donations: Donation[];
+  terms: Map<string, Set<string>>;
+  donorsByCampaign: Map<string, Set<string>>;
+  maxDonors: number;
+};
+
+function loadCorpus(): Corpus {
+  const campaigns = listPublicCampaigns();
+  const donations = db.getAllDonations();
+  const terms = new Map(campaigns.map(campaign => [
+    campaign.id,
+    new Set(analyze(`${campaign.title} ${campaign.description} ${campaign.category ?? ''}`)),
+  ]));
+
+  const donorsByCampaign = new Map<string, Set<string>>();
+  donations.forEach((donation, index) => {
+    // Donations without a signed-in donor each count as their own donor
+    const key = donation.donorId ?? `anon:${index}`;
+    const donors = donorsByCampaign.get(donation.campaignId) ?? new Set<string>();
+    donors.add(key);
+    donorsByCampaign.set(donation.campaignId, donors);
+  });
+  const maxDonors = Math.max(1, ...Array.from(donorsByCampaign.values(), donors => donors.size));
+
+  return { campaigns, donations, terms, donorsByCampaign, maxDonors };
+}
+
+const acceptsDonations = (campaign: Campaign) => donationBlockedReason(campaign) === null;
+
+/** 0..1 - shared terms (Jaccard) plus a bonus for the same category */
+function similarity(corpus: Corpus, a: Campaign, b: Campaign): number {
+  const termsA = corpus.terms.get(a.id);
+  const termsB = corpus.terms.get(b.id);
+  let jaccard = 0;
+  if (termsA && termsB && termsA.size > 0 && termsB.size > 0) {
+    let shared = 0;
+    for (const term of termsA) if (termsB.has(term)) shared += 1;
+    jaccard = shared / (termsA.size + termsB.size - shared);
+  }
+  const sameCategory = !!a.category && a.category.toLowerCase() === b.category?.toLowerCase();
+  return Math.min(1, jaccard + (sameCategory ? 0.3 : 0));
+}
+
+function popularity(corpus: Corpus, campaign: Campaign): number {
+  return Math.log1p(corpus.donorsByCampaign.get(campaign.id)?.size ?? 0) / Math.log1p(corpus.maxDonors);
+}
+
+const label = (category: string) =>
+  (category.startsWith('other:') ? category.slice('other:'.length) : category).replaceAll('_', ' ');
+
+function finish(scored: Recommendation[], limit: number): Recommendation[] {
+  return scored
+    .filter(rec => rec.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(rec => ({ ...rec, score: Math.round(rec.score * 1000) / 1000 }));
+}
+
+function popularFrom(corpus: Corpus, limit: number, exclude: Set<string>): Recommendation[] {
+  return finish(
+    corpus.campaigns
+      .filter(campaign => !exclude.has(campaign.id) && acceptsDonations(campaign))
+      .map(campaign => {
+        const progress = campaign.goal > 0 ? Math.min(1, (campaign.raised || 0) / campaign.goal) : 0;
+        return {
+          campaign,
+          // Never zero, so brand-new campaigns still fill the list
+          score: popularity(corpus, campaign) + 0.25 * progress + 0.01,
+          reasons: ['Popular with donors right now'],
+        };
+      }),
+    limit
+  );
+}
+
+/** Campaigns most like `campaignId` (content and co-donors), for the campaign page */
+export function similarCampaigns(campaignId: string, limit: number = DEFAULT_LIMIT): Recommendation[] {
+  const corpus = loadCorpus();
+  const source = corpus.campaigns.find(campaign => campaign.id === campaignId) ?? db.findCampaignById(campaignId);
+  if (!source) return [];
+  if (!corpus.terms.has(source.id)) {
+    corpus.terms.set(source.id, new Set(analyze(`${source.title} ${source.description} ${source.category ?? ''}`)));
+  }
+  const sourceDonors = corpus.donorsByCampaign.get(source.id) ?? new Set<string>();
+
+  return finish(
+    corpus.campaigns
+      .filter(campaign => campaign.id !== source.id && acceptsDonations(campaign))
+      .map(campaign => {
+        const content = similarity(corpus, source, campaign);
+        const donors = corpus.donorsByCampaign.get(campaign.id);
+        let shared = 0;
+        if (donors) for (const donor of sourceDonors) if (donors.has(donor)) shared += 1;
+        const coDonation = sourceDonors.size > 0 ? shared / sourceDonors.size : 0;
+
+        const reasons: string[] = [];
+        if (source.category && campaign.category?.toLowerCase() === source.category.toLowerCase()) {
+          reasons.push(`Also in ${label(source.category)}`);
+        }
+        if (coDonation > 0) reasons.push('Backed by the same donors');
+        if (campaign.creatorId === source.creatorId) reasons.push('From the same creator');
+        return {
+          campaign,
+          score: WEIGHTS.content * content + WEIGHTS.coDonation * coDonation +
+            (campaign.creatorId === source.creatorId ? WEIGHTS.creator : 0),
+          reasons,
+        };
+      }),
+    limit
+  );
+}
+
+/**
+ * Recommendations for a user (null = anonymous). `query` adds free-text interests, e.g.
+ * what someone told the assistant they care about.
+ */
+export function recommendForUser(
+  userId: string | null,
+  options: { limit?: number; query?: string } = {}
+): RecommendationSet {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const corpus = loadCorpus();
+  const user: User | null = userId ? db.findUserById(userId) : null;
+
+  const history = user ? corpus.donations.filter(donation => donation.donorId === user.id) : [];
+  const backed = new Set([...history.map(donation => donation.campaignId), ...(user?.donatedCampaigns ?? [])]);
+  const exclude = new Set(backed);
+  if (user) {
+    for (const campaign of corpus.campaigns) if (campaign.creatorId === user.id) exclude.add(campaign.id);
+  }
+
+  const byId = new Map(corpus.campaigns.map(campaign => [campaign.id, campaign]));
+  const backedCampaigns = Array.from(backed, id => byId.get(id) ?? db.findCampaignById(id))
+    .filter((campaign): campaign is Campaign => !!campaign);
+
+  // Category affinity: share of the user's donations per category (falls back to backed campaigns)
+  const categoryCounts = new Map<string, number>();
+  const countSources = history.length > 0 ? history.map(donation => byId.get(donation.campaignId)) : backedCampaigns;
+  for (const campaign of countSources) {
+    const category = campaign?.category?.toLowerCase();
+    if (category) categoryCounts.set(category, (categoryCounts.get(category) || 0) + 1);
+  }
+  const categoryTotal = Array.from(categoryCounts.values()).reduce((sum, n) => sum + n, 0);
+
+  const chains = new Set([...(user?.preferredChains ?? []), ...history.map(donation => donation.chain)]
+    .map(chain => chain.toLowerCase()));
+  const backedCreators = new Set(backedCampaigns.map(campaign => campaign.creatorId));
+
+  const coDonors = new Set<string>();
+  for (const id of backed) {
+    for (const donor of corpus.donorsByCampaign.get(id) ?? []) {
+      if (donor !== user?.id && !donor.startsWith('anon:')) coDonors.add(donor);
+    }
+  }
+
+  const queryScores = new Map<string, number>();
+  if (options.query?.trim()) {
+    const hits = rankCampaigns(options.query);
+    const top = hits[0]?.score || 1;
+    for (const hit of hits) queryScores.set(hit.id, hit.score / top);
+  }
+
+  const hasSignals = backed.size > 0 || chains.size > 0 || queryScores.size > 0;
+  if (!hasSignals) {
+    return { basis: 'popular', recommendations: popularFrom(corpus, limit, exclude) };
+  }
+
+  const scored = corpus.campaigns
+    .filter(campaign => !exclude.has(campaign.id) && acceptsDonations(campaign))
+    .map(campaign => {
+      const reasons: { text: string; weight: number }[] = [];
+      let score = 0;
+
+      const category = campaign.category?.toLowerCase();
+      const categoryShare = category && categoryTotal > 0 ? (categoryCounts.get(category) || 0) / categoryTotal : 0;
+      if (categoryShare > 0) {
+        score += WEIGHTS.category * categoryShare;
+        reasons.push({ text: `You've backed ${label(campaign.category as string)} campaigns`, weight: WEIGHTS.category * categoryShare });
+      }
+
+      const matchingChains = campaign.chains.filter(chain => chains.has(chain.toLowerCase()));
+      if (matchingChains.length > 0) {
+        const value = WEIGHTS.chain * (matchingChains.length / campaign.chains.length);
+        score += value;
+        reasons.push({ text: `Accepts ${matchingChains.join(', ')}`, weight: value });
+      }
+
+      let closest: { campaign: Campaign; value: number } | null = null;
+      for (const other of backedCampaigns) {
+        const value = similarity(corpus, other, campaign);
+        if (value > (closest?.value ?? 0)) closest = { campaign: other, value };
+      }
+      if (closest) {
+        score += WEIGHTS.content * closest.value;
+        reasons.push({ text: `Similar to ${closest.campaign.title}`, weight: WEIGHTS.content * closest.value });
+      }
+
+      const donors = corpus.donorsByCampaign.get(campaign.id);
+      if (donors && coDonors.size > 0) {
+        let shared = 0;
+        for (const donor of coDonors) if (donors.has(donor)) shared += 1;
+        if (shared > 0) {
+          const value = WEIGHTS.coDonation * (shared / coDonors.size);
+          score += value;
+          reasons.push({ text: 'Donors like you backed this', weight: value });
+        }
+      }
+
+      if (backedCreators.has(campaign.creatorId)) {
+        score += WEIGHTS.creator;
+        reasons.push({ text: 'From a creator you supported', weight: WEIGHTS.creator });
+      }
+
+      const relevance = queryScores.get(campaign.id) ?? 0;
+      if (relevance > 0) {
+        score += WEIGHTS.query * relevance;
+        reasons.push({ text: 'Matches your interests', weight: WEIGHTS.query * relevance });
+      }
+
+      // Tie-breaker only; never the sole reason a campaign is recommended
+      if (score > 0) score += WEIGHTS.popularity * popularity(corpus, campaign);
+
+      return {
+        campaign,
+        score,
+        reasons: reasons.sort((a, b) => b.weight - a.weight).map(reason => reason.text),
+      };
+    });
+
+  const recommendations = finish(scored, limit);
+  if (recommendations.length >= limit) return { basis: 'personal', recommendations };
+
+  // Top up thin personal lists with popular campaigns
+  const picked = new Set([...exclude, ...recommendations.map(rec => rec.campaign.id)]);
+  return {
+    basis: recommendations.length > 0 ? 'personal' : 'popular',
+    recommendations: [...recommendations, ...popularFrom(corpus, limit - recommendations.length, picked)],
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * FILE: lib/search/campaign-index.ts
+ * PURPOSE: The process-wide campaign text index (title, category, creator username, description)
+ * ACCESS: Server-only. Import { rankCampaigns, suggestCampaignTerms } from '@/lib/search/campaign-index'
+ * NOTES:
+ * - Built from `db.getAllCampaigns()` on first use, then kept current through
+ *   `db.onCampaignWrite`, so every createCampaign/updateCampaign re-indexes that campaign
+ * - Holds ids and scores only; callers load campaigns from the database and apply visibility
+ * - A creator's username is read when their campaign is indexed; renames show up on the
+ *   campaign's next write
+ * - Writes made by other processes (scripts, a second server) are not seen until restart
+ * MIGRATION NOTES:
+ * - MongoDB: a weighted text index on the same four fields (creator username denormalised
+ *   onto the campaign) replaces this module
+ */
+
+import { db } from '@/_dev/mock-db/database';
+import type { Campaign } from '@/_dev/mock-db/database';
+import { InvertedIndex, type IndexHit, type TermSuggestion } from './inverted-index';
+
+type CampaignField = 'title' | 'category' | 'creator' | 'description';
+
+// Title hits matter most; a long description should not outrank a short matching title
+const FIELD_WEIGHTS: Record<CampaignField, number> = {
+  title: 3,
+  category: 2,
+  creator: 2,
+  description: 1,
+};
+
+// Survive Next.js hot reloads along with the db singleton, so listeners are not stacked
+const globalForIndex = globalThis as typeof globalThis & { __giveHubCampaignIndex?: InvertedIndex<CampaignField> };
+
+function indexCampaign(index: InvertedIndex<CampaignField>, campaign: Campaign): void {
+  index.upsert(campaign.id, {
+    title: campaign.title,
+    category: campaign.category,
+    creator: db.findUserById(campaign.creatorId)?.username,
+    description: campaign.description,
+  });
+}
+
+function getCampaignIndex(): InvertedIndex<CampaignField> {
+  if (globalForIndex.__giveHubCampaignIndex) return globalForIndex.__giveHubCampaignIndex;
+
+  const index = new InvertedIndex(FIELD_WEIGHTS);
+  for (const campaign of db.getAllCampaigns()) {
+    indexCampaign(index, campaign);
+  }
+  db.onCampaignWrite(campaign => indexCampaign(index, campaign));
+  globalForIndex.__giveHubCampaignIndex = index;
+  return index;
+}
+
+/** Campaign ids matching the query, best first. `prefix` treats the last word as partial */
+export function rankCampaigns(query: string, options: { prefix?: boolean } = {}): IndexHit[] {
+  return getCampaignIndex().search(query, options);
+}
+
+/** Typeahead completions for the word being typed at the end of `text` */
+export function suggestCampaignTerms(text: string, limit?: number): TermSuggestion[] {
+  return getCampaignIndex().suggestTerms(text, limit);
+}
@@ -0,0 +1,233 @@
+/**
+ * FILE: lib/search/index.ts
+ * PURPOSE: Campaign search - text query, filters, sorting, cursor pagination and facet counts
+ * ACCESS: Server-only. GET /api/campaigns and the home page (app/page.tsx) call `searchCampaigns`
+ * PARAMETERS (all optional, as query-string values):
+ * - q: ranked full-text query over title, category, creator username and description
+ *   (BM25, see lib/search/campaign-index); creator: creator id or part of the username
+ * - category: part of the category; chain: exact chain name (case-insensitive)
+ * - minGoal/maxGoal, minRaised/maxRaised: inclusive ranges
+ * - sort: relevance (default) | newest | raised | goal | progress | title
+ * - limit (1-100) and cursor (opaque, from `nextCursor`). Without either the whole match
+ *   list is returned, so existing callers of /api/campaigns keep working
+ * FACETS:
+ * - Counted over the matches with every filter applied except the facet's own, so picking a
+ *   category still shows how many campaigns the other categories would have
+ * MIGRATION NOTES:
+ * - MongoDB: one aggregation with `$match` + `$facet`; the cursor stays an opaque offset
+ */
+
+import { db } from '@/_dev/mock-db/database';
+import type { Campaign } from '@/_dev/mock-db/database';
+import { listVisibleCampaigns, type Viewer } from '@/lib/moderation';
+import { rankCampaigns } from './campaign-index';
+
+export { rankCampaigns, suggestCampaignTerms } from './campaign-index';
+export { analyze, normalizeQuery } from './text';
+
+export const CAMPAIGN_SORTS = ['relevance', 'newest', 'raised', 'goal', 'progress', 'title'] as const;
+export type CampaignSort = (typeof CAMPAIGN_SORTS)[number];
+
+export const MAX_PAGE_SIZE = 100;
+const DEFAULT_PAGE_SIZE = 24;
+
+export type CampaignSearchParams = {
+  q?: string;
+  category?: string;
+  chain?: string;
+  creator?: string;
+  minGoal?: number;
+  maxGoal?: number;
+  minRaised?: number;
+  maxRaised?: number;
+  sort: CampaignSort;
+  /** Offset decoded from the cursor */
+  offset: number;
+  /** Undefined returns every match */
+  limit?: number;
+};
+
+export type CampaignFacets = {
+  categories: Record<string, number>;
+  chains: Record<string, number>;
+};
+
+export type CampaignSearchResult = {
+  campaigns: Campaign[];
+  total: number;
+  nextCursor: string | null;
+  facets: CampaignFacets;
+};
+
+export type ParseResult =
+  | { ok: true; params: CampaignSearchParams }
+  | { ok: false; error: string; status: number };
+
+type RawParams = URLSearchParams | Record<string, string | string[] | undefined>;
+
+function readParam(raw: RawParams, name: string): string | undefined {
+  const value = raw instanceof URLSearchParams ? raw.get(name) : raw[name];
+  const single = Array.isArray(value) ? value[0] : value;
+  const trimmed = single?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ o: offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number | null {
+  try {
+    const { o } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as { o?: unknown };
+    return Number.isInteger(o) && (o as number) >= 0 ? (o as number) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Validate query-string input; amounts must be non-negative numbers */
+export function parseSearchParams(raw: RawParams): ParseResult {
+  const params: CampaignSearchParams = {
+    q: readParam(raw, 'q'),
+    category: readParam(raw, 'category'),
+    chain: readParam(raw, 'chain'),
+    creator: readParam(raw, 'creator'),
+    sort: 'relevance',
+    offset: 0,
+  };
+
+  for (const name of ['minGoal', 'maxGoal', 'minRaised', 'maxRaised'] as const) {
+    const value = readParam(raw, name);
+    if (value === undefined) continue;
+    const amount = Number(value);
+    if (!Number.isFinite(amount) || amount < 0) {
+      return { ok: false, error: `${name} must be a non-negative number`, status: 400 };
+    }
+    params[name] = amount;
+  }
+  if (params.minGoal !== undefined && params.maxGoal !== undefined && params.minGoal > params.maxGoal) {
+    return { ok: false, error: 'minGoal cannot be greater than maxGoal', status: 400 };
+  }
+  if (params.minRaised !== undefined && params.maxRaised !== undefined && params.minRaised > params.maxRaised) {
+    return { ok: false, error: 'minRaised cannot be greater than maxRaised', status: 400 };
+  }
+
+  const sort = readParam(raw, 'sort');
+  if (sort !== undefined) {
+    if (!(CAMPAIGN_SORTS as readonly string[]).includes(sort)) {
+      return { ok: false, error: `sort must be one of ${CAMPAIGN_SORTS.join(', ')}`, status: 400 };
+    }
+    params.sort = sort as CampaignSort;
+  }
+
+  const cursor = readParam(raw, 'cursor');
+  if (cursor !== undefined) {
+    const offset = decodeCursor(cursor);
+    if (offset === null) return { ok: false, error: 'Invalid cursor', status: 400 };
+    params.offset = offset;
+  }
+
+  const limit = readParam(raw, 'limit');
+  if (limit !== undefined) {
+    const size = Number(limit);
+    if (!Number.isInteger(size) || size < 1 || size > MAX_PAGE_SIZE) {
+      return { ok: false, error: `limit must be between 1 and ${MAX_PAGE_SIZE}`, status: 400 };
+    }
+    params.limit = size;
+  } else if (cursor !== undefined) {
+    params.limit = DEFAULT_PAGE_SIZE;
+  }
+
+  return { ok: true, params };
+}
+
+const includes = (value: string | undefined, needle: string) =>
+  !!value && value.toLowerCase().includes(needle.toLowerCase());
+
+const inRange = (value: number, min?: number, max?: number) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+const progress = (campaign: Campaign) => (campaign.goal > 0 ? (campaign.raised || 0) / campaign.goal : 0);
+
+export function searchCampaigns(params: CampaignSearchParams, viewer: Viewer): CampaignSearchResult {
+  const campaigns = listVisibleCampaigns(viewer);
+
+  // Creator usernames are looked up once per creator, not once per campaign
+  const usernames = new Map<string, string | undefined>();
+  const creatorMatches = (campaign: Campaign, creator: string) => {
+    if (campaign.creatorId === creator) return true;
+    if (!usernames.has(campaign.creatorId)) {
+      usernames.set(campaign.creatorId, db.findUserById(campaign.creatorId)?.username);
+    }
+    return includes(usernames.get(campaign.creatorId), creator);
+  };
+
+  // BM25 scores; a campaign without one does not match the text query
+  const scores = new Map<string, number>(
+    params.q ? rankCampaigns(params.q).map(hit => [hit.id, hit.score] as const) : []
+  );
+  const matchesBase = (campaign: Campaign) => {
+    if (params.q && !scores.has(campaign.id)) return false;
+    if (params.creator && !creatorMatches(campaign, params.creator)) return false;
+    return inRange(campaign.goal, params.minGoal, params.maxGoal) &&
+      inRange(campaign.raised || 0, params.minRaised, params.maxRaised);
+  };
+  const matchesCategory = (campaign: Campaign) => !params.category || includes(campaign.category, params.category);
+  const matchesChain = (campaign: Campaign) =>
+    !params.chain || campaign.chains.some(chain => chain.toLowerCase() === params.chain!.toLowerCase());
+
+  const base = campaigns.filter(matchesBase);
+  const facets: CampaignFacets = { categories: {}, chains: {} };
+  for (const campaign of base) {
+    if (matchesChain(campaign) && campaign.category) {
+      facets.categories[campaign.category] = (facets.categories[campaign.category] || 0) + 1;
+    }
+    if (matchesCategory(campaign)) {
+      for (const chain of new Set(campaign.chains)) {
+        facets.chains[chain] = (facets.chains[chain] || 0) + 1;
+      }
+    }
+  }
+
+  const matches = base.filter(campaign => matchesCategory(campaign) && matchesChain(campaign));
+  sortCampaigns(matches, params.sort, scores, campaigns);
+
+  const end = params.limit === undefined ? matches.length : params.offset + params.limit;
+  return {
+    campaigns: matches.slice(params.offset, end),
+    total: matches.length,
+    nextCursor: end < matches.length ? encodeCursor(end) : null,
+    facets,
+  };
+}
+
+// Sorts in place; ties keep storage order, which is creation order
+function sortCampaigns(
+  matches: Campaign[],
+  sort: CampaignSort,
+  scores: Map<string, number>,
+  all: Campaign[]
+): void {
+  switch (sort) {
+    case 'relevance':
+      if (scores.size > 0) matches.sort((a, b) => (scores.get(b.id) || 0) - (scores.get(a.id) || 0));
+      return;
+    case 'newest': {
+      const position = new Map(all.map((campaign, index) => [campaign.id, index]));
+      matches.sort((a, b) => (position.get(b.id) || 0) - (position.get(a.id) || 0));
+      return;
+    }
+    case 'raised':
+      matches.sort((a, b) => (b.raised || 0) - (a.raised || 0));
+      return;
+    case 'goal':
+      matches.sort((a, b) => b.goal - a.goal);
+      return;
+    case 'progress':
+      matches.sort((a, b) => progress(b) - progress(a));
+      return;
+    case 'title':
+      matches.sort((a, b) => a.title.localeCompare(b.title));
+      return;
+  }
+}
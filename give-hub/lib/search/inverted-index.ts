@@ -0,0 +1,186 @@
+/**
+ * FILE: lib/search/inverted-index.ts
+ * PURPOSE: In-process inverted index with field-weighted BM25 scoring and prefix expansion
+ * ACCESS: Server-only (holds documents in memory). Used by lib/search/campaign-index.ts
+ * SCORING (BM25F):
+ * - Per field, term frequency is length-normalised against that field's average length and
+ *   multiplied by the field weight; the weighted sum is saturated once with k1 and scaled by IDF
+ * - Query terms are OR-ed; a document's score is the sum over the terms it contains
+ * - With `prefix`, a partial last word matches every indexed term starting with it
+ *   (typeahead); each document counts its best expansion only
+ * NOTES:
+ * - Text goes through `analyze` (lib/search/text) on both sides
+ */
+
+import { analyze, splitPartial } from './text';
+
+export type FieldWeights<F extends string> = Record<F, number>;
+
+export type IndexHit = { id: string; score: number };
+
+export type TermSuggestion = { term: string; docCount: number };
+
+type DocEntry = { lengths: number[]; terms: Set<string> };
+
+const K1 = 1.2;
+const B = 0.75;
+
+export class InvertedIndex<F extends string> {
+  private readonly fields: F[];
+  private readonly weights: number[];
+  // term -> doc id -> term frequency per field (same order as `fields`)
+  private postings = new Map<string, Map<string, number[]>>();
+  private docs = new Map<string, DocEntry>();
+  private totalLengths: number[];
+  // Sorted term list for prefix lookups; rebuilt lazily after writes
+  private sortedTerms: string[] | null = null;
+
+  constructor(weights: FieldWeights<F>) {
+    this.fields = Object.keys(weights) as F[];
+    this.weights = this.fields.map(field => weights[field]);
+    this.totalLengths = this.fields.map(() => 0);
+  }
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  has(id: string): boolean {
+    return this.docs.has(id);
+  }
+
+  /** Add or replace a document */
+  upsert(id: string, text: Partial<Record<F, string>>): void {
+    this.remove(id);
+
+    const lengths = this.fields.map(() => 0);
+    const terms = new Set<string>();
+    this.fields.forEach((field, fieldIndex) => {
+      const tokens = analyze(text[field] ?? '');
+      lengths[fieldIndex] = tokens.length;
+      for (const token of tokens) {
+        let docs = this.postings.get(token);
+        if (!docs) {
+          docs = new Map();
+          this.postings.set(token, docs);
+          this.sortedTerms = null;
+        }
+        let frequencies = docs.get(id);
+        if (!frequencies) {
+          frequencies = this.fields.map(() => 0);
+          docs.set(id, frequencies);
+        }
+        frequencies[fieldIndex] += 1;
+        terms.add(token);
+      }
+    });
+
+    lengths.forEach((length, fieldIndex) => { this.totalLengths[fieldIndex] += length; });
+    this.docs.set(id, { lengths, terms });
+  }
+
+  remove(id: string): boolean {
+    const entry = this.docs.get(id);
+    if (!entry) return false;
+
+    for (const term of entry.terms) {
+      const docs = this.postings.get(term);
+      docs?.delete(id);
+      if (docs && docs.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    }
+    entry.lengths.forEach((length, fieldIndex) => { this.totalLengths[fieldIndex] -= length; });
+    this.docs.delete(id);
+    return true;
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.docs.clear();
+    this.totalLengths = this.fields.map(() => 0);
+    this.sortedTerms = null;
+  }
+
+  /** Matching documents, best first */
+  search(query: string, options: { prefix?: boolean } = {}): IndexHit[] {
+    const { complete, partial } = options.prefix ? splitPartial(query) : { complete: query, partial: null };
+    const tokens = Array.from(new Set(analyze(complete)));
+    if ((tokens.length === 0 && !partial) || this.docs.size === 0) return [];
+
+    const scores = new Map<string, number>();
+    for (const term of tokens) {
+      for (const [id, score] of this.scoreTerm(term)) {
+        scores.set(id, (scores.get(id) || 0) + score);
+      }
+    }
+
+    if (partial) {
+      // Word still being typed: best-scoring completion per document
+      const best = new Map<string, number>();
+      for (const term of this.termsWithPrefix(partial)) {
+        for (const [id, score] of this.scoreTerm(term)) {
+          if (score > (best.get(id) || 0)) best.set(id, score);
+        }
+      }
+      for (const [id, score] of best) {
+        scores.set(id, (scores.get(id) || 0) + score);
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /** Indexed terms completing the word being typed at the end of `text`, most common first */
+  suggestTerms(text: string, limit: number = 10): TermSuggestion[] {
+    const { partial } = splitPartial(text);
+    if (!partial) return [];
+    return this.termsWithPrefix(partial)
+      .map(term => ({ term, docCount: this.postings.get(term)?.size || 0 }))
+      .sort((a, b) => b.docCount - a.docCount || a.term.localeCompare(b.term))
+      .slice(0, limit);
+  }
+
+  private scoreTerm(term: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const docs = this.postings.get(term);
+    if (!docs) return scores;
+
+    const total = this.docs.size;
+    const idf = Math.log(1 + (total - docs.size + 0.5) / (docs.size + 0.5));
+    const averages = this.totalLengths.map(length => length / total || 1);
+
+    for (const [id, frequencies] of docs) {
+      const lengths = this.docs.get(id)!.lengths;
+      let weighted = 0;
+      frequencies.forEach((frequency, fieldIndex) => {
+        if (frequency === 0) return;
+        const norm = 1 - B + B * (lengths[fieldIndex] / averages[fieldIndex]);
+        weighted += (this.weights[fieldIndex] * frequency) / norm;
+      });
+      scores.set(id, (idf * weighted) / (K1 + weighted));
+    }
+    return scores;
+  }
+
+  private termsWithPrefix(prefix: string): string[] {
+    if (!this.sortedTerms) this.sortedTerms = Array.from(this.postings.keys()).sort();
+    const terms = this.sortedTerms;
+
+    // Binary search for the first term >= prefix, then walk while it still matches
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (terms[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+    const matches: string[] = [];
+    for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) {
+      matches.push(terms[i]);
+    }
+    return matches;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * FILE: lib/search/suggest.ts
+ * PURPOSE: Search-as-you-type suggestions - matching campaigns, creators and categories
+ * ACCESS: Server-only. GET /api/search/suggest calls `suggestSearch`
+ * NOTES:
+ * - Campaigns come from the BM25 index with the last word treated as a prefix, so every
+ *   keystroke narrows the list without a full scan of campaign text
+ * - Only published campaigns are suggested, and only creators who have one
+ * - `highlights` are [start, end) character ranges in the label; the client wraps them in
+ *   <mark>, so no HTML is built from user input here
+ */
+
+import { db } from '@/_dev/mock-db/database';
+import { listPublicCampaigns } from '@/lib/moderation';
+import { rankCampaigns } from './campaign-index';
+import { analyze } from './text';
+
+export type HighlightRange = [number, number];
+
+export type CampaignSuggestion = { id: string; title: string; highlights: HighlightRange[] };
+export type CreatorSuggestion = { id: string; username: string; highlights: HighlightRange[] };
+export type CategorySuggestion = { name: string; count: number; highlights: HighlightRange[] };
+
+export type SearchSuggestions = {
+  campaigns: CampaignSuggestion[];
+  creators: CreatorSuggestion[];
+  categories: CategorySuggestion[];
+};
+
+export const MAX_SUGGEST_QUERY_LENGTH = 100;
+const DEFAULT_GROUP_SIZE = 5;
+
+/**
+ * Ranges of `label` matched by the query: each query word, or its analysed form, found at
+ * the start of a word in the label. Overlapping ranges are merged.
+ */
+export function highlightMatches(label: string, query: string): HighlightRange[] {
+  const words = query.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const needles = new Set([...words, ...analyze(query)]);
+  const lower = label.toLowerCase();
+  const ranges: HighlightRange[] = [];
+
+  for (const needle of needles) {
+    let from = 0;
+    while (from < lower.length) {
+      const at = lower.indexOf(needle, from);
+      if (at === -1) break;
+      if (at === 0 || !/[a-z0-9]/.test(lower[at - 1])) ranges.push([at, at + needle.length]);
+      from = at + 1;
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: HighlightRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+  return merged;
+}
+
+// Creators and categories match on a plain substring, so highlight exactly that
+function highlightSubstring(label: string, needle: string): HighlightRange[] {
+  const at = label.toLowerCase().indexOf(needle);
+  return at === -1 ? [] : [[at, at + needle.length]];
+}
+
+export function suggestSearch(rawQuery: string, limit: number = DEFAULT_GROUP_SIZE): SearchSuggestions {
+  const query = rawQuery.trim().slice(0, MAX_SUGGEST_QUERY_LENGTH);
+  const empty: SearchSuggestions = { campaigns: [], creators: [], categories: [] };
+  if (!query) return empty;
+
+  const campaigns = listPublicCampaigns();
+  const byId = new Map(campaigns.map(campaign => [campaign.id, campaign]));
+
+  const campaignSuggestions: CampaignSuggestion[] = [];
+  for (const hit of rankCampaigns(query, { prefix: true })) {
+    const campaign = byId.get(hit.id);
+    if (!campaign) continue;
+    campaignSuggestions.push({ id: campaign.id, title: campaign.title, highlights: highlightMatches(campaign.title, query) });
+    if (campaignSuggestions.length >= limit) break;
+  }
+
+  // Creators and categories match when the label contains the query as typed
+  const needle = query.toLowerCase();
+  const creatorSuggestions: CreatorSuggestion[] = [];
+  const categoryCounts = new Map<string, number>();
+  // One read of the creator list instead of a user lookup per campaign
+  const creators = new Map(db.getCreators().map(creator => [creator.id, creator]));
+  for (const campaign of campaigns) {
+    if (campaign.category && campaign.category.toLowerCase().includes(needle)) {
+      categoryCounts.set(campaign.category, (categoryCounts.get(campaign.category) || 0) + 1);
+    }
+    const creator = creators.get(campaign.creatorId);
+    if (!creator || creatorSuggestions.length >= limit) continue;
+    creators.delete(campaign.creatorId);
+    if (creator.username.toLowerCase().includes(needle)) {
+      creatorSuggestions.push({ id: creator.id, username: creator.username, highlights: highlightSubstring(creator.username, needle) });
+    }
+  }
+
+  const categorySuggestions = Array.from(categoryCounts, ([name, count]) => ({
+    name,
+    count,
+    highlights: highlightSubstring(name, needle),
+  }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, limit);
+
+  return { campaigns: campaignSuggestions, creators: creatorSuggestions, categories: categorySuggestions };
+}
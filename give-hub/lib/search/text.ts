@@ -0,0 +1,67 @@
+/**
+ * FILE: lib/search/text.ts
+ * PURPOSE: Text analysis shared by the search index and the AI assistant's query cleanup
+ * ACCESS: Server and client safe. Import { analyze, normalizeQuery } from '@/lib/search/text'
+ * NOTES:
+ * - `analyze` is applied to indexed text and to queries alike, so a synonym or plural
+ *   rule only has to be added here to work in both directions
+ */
+
+// Filler and imperatives people wrap around a search ("uhm can you find tech stuff")
+const FILLER_RX = /\b(uh+ ?m+|um+|please|pls|hey|hi|hello)\b/g;
+const IMPERATIVE_RX = /\b(can you|could you|i want to|i wanna|help me|show me|find|search( for)?|looking for|look for)\b/g;
+
+// Too common to help ranking; dropping them keeps OR queries from matching everything
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on',
+  'or', 'our', 'that', 'the', 'this', 'to', 'we', 'with',
+]);
+
+const SYNONYMS: Record<string, string> = {
+  tech: 'technology',
+  edu: 'education',
+};
+
+/** Simple plural -> singular rules: 'ies'->'y', '(x|ch|sh|ss|z|o)es'->'$1', trailing 's' */
+export function singularize(token: string): string {
+  if (token.length > 3) {
+    if (/(?:[a-z])ies$/.test(token)) return token.replace(/ies$/, 'y');
+    if (/(x|ch|sh|ss|z|o)es$/.test(token)) return token.replace(/es$/, '');
+    if (/s$/.test(token) && !/ss$/.test(token)) return token.replace(/s$/, '');
+  }
+  return token;
+}
+
+function normalizeToken(token: string): string {
+  return SYNONYMS[token] ?? singularize(token);
+}
+
+/** Lowercased, synonym-mapped, singular word tokens in text order */
+export function analyze(text: string): string[] {
+  return (text || '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !STOPWORDS.has(token))
+    .map(normalizeToken);
+}
+
+/**
+ * Split typeahead input into finished words and the word still being typed. The partial
+ * word is only lowercased - it is matched as a prefix, so plural and synonym rules would
+ * cut it short ("tech" must still reach "technical").
+ */
+export function splitPartial(text: string): { complete: string; partial: string | null } {
+  const match = /([a-z0-9]+)$/i.exec(text || '');
+  if (!match) return { complete: text || '', partial: null };
+  return { complete: text.slice(0, match.index), partial: match[1].toLowerCase() };
+}
+
+/** Noisy search phrase -> clean keywords, e.g. "uhmm search for tech" -> "technology" */
+export function normalizeQuery(query: string): string {
+  const cleaned = (query || '')
+    .toLowerCase()
+    .trim()
+    .replace(FILLER_RX, ' ')
+    .replace(IMPERATIVE_RX, ' ');
+  return analyze(cleaned).join(' ');
+}
@@ -4,6 +4,7 @@
  * Endpoints:
  * - POST /api/ai/generate { prompt }
  * - POST /api/ai/edit { input, instruction }
+ * - GET /api/recommendations?limit=
  */
 
 // Generate a campaign description using Gemini via our API route
@@ -30,7 +31,11 @@ export async function editWithAI(input: string, instruction: string): Promise<st
   return data.text ?? "";
 }
 
-// Placeholder: recommendations (keep mock until a real recsys is implemented)
-export async function getPersonalizedRecommendations(_userId: string): Promise<string[]> {
-  return ["1", "3", "5"]; // TODO: replace with real personalization
+// Recommended campaign IDs for the signed-in user (popular campaigns when signed out)
+export async function getPersonalizedRecommendations(limit?: number): Promise<string[]> {
+  const query = limit ? `?limit=${limit}` : "";
+  const res = await fetch(`/api/recommendations${query}`, { credentials: "include" });
+  if (!res.ok) throw new Error(`Recommendations failed: ${res.status}`);
+  const data = (await res.json()) as { recommendations?: { campaign: { id: string } }[] };
+  return (data.recommendations ?? []).map((rec) => rec.campaign.id);
 }
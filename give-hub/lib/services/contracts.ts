@@ -1,59 +1,179 @@
 /**
- * MOCK Smart Contract Service
- * 
- * This file simulates interactions with a smart contract on a blockchain.
- * In a real application, this would be replaced with a library like ethers.js or web3.js
- * to interact with a deployed smart contract on a network like Ethereum or Solana.
+ * Smart Contract Service (server-only)
+ *
+ * Reads campaign state from the forward fundraiser contract through the typed client in
+ * lib/contracts (NEXT_PUBLIC_CONTRACT_CLIENT=mock swaps in the in-memory test double).
+ * Donations do not go through here: lib/payments sends donate() and has the server verify it.
+ *
+ * Publishing from Creator Studio: the creator's wallet sends createCampaign() with the
+ * parameters from deploymentParams(); linkCampaignDeployment() then reads the CampaignCreated
+ * event back from the mined transaction before it fills in `contractOwnership`.
  */
 
-import { Campaign, Donation } from './types';
+import { db } from '@/_dev/mock-db/database';
+import type { Campaign } from '@/_dev/mock-db/database';
+import { verifiedAddressesOf } from '@/lib/auth/wallets';
+import { FORWARD_FUNDRAISER_ABI, getFundraiserContract, type OnChainCampaign } from '@/lib/contracts';
+import {
+  ZERO_ADDRESS,
+  decodeEventLog,
+  getBlockNumber,
+  getTransactionReceipt,
+  isHex,
+  toChecksumAddress,
+  type Hex,
+  type TransactionReceipt,
+} from '@/lib/evm';
+import { contractTimeWindow, getCampaignStatus } from '@/lib/lifecycle';
+import { onChainConfig, onChainRpcClient } from '@/lib/payments/onchain';
 
-// Mock function to simulate fetching campaign data from a smart contract
-export async function getCampaignFromContract(campaignId: string): Promise<Partial<Campaign> | null> {
-  console.log(`[Contract Mock] Fetching campaign ${campaignId} from the blockchain.`);
+type Failure = { ok: false; error: string; status: number };
 
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 1200));
+/** createCampaign(preferredToken, start, end) arguments for a campaign, plus where to send it */
+export type DeploymentParams = {
+  chainId: number;
+  contractAddress: Hex;
+  preferredToken: Hex;
+  /** Unix seconds; 0 = open from creation / no end */
+  start: number;
+  end: number;
+};
 
-  // In a real scenario, you would call a 'view' function on your smart contract.
-  // For now, we'll return some mock data.
-  const mockContractData = {
-    totalRaised: 12500.50,
-    contributorCount: 150,
-    isActive: true,
-  };
+// On-chain state of a campaign; null when no contract is configured or the ID does not exist
+export async function getCampaignFromContract(onChainCampaignId: string): Promise<OnChainCampaign | null> {
+  const contract = getFundraiserContract();
+  if (!contract || !/^\d+$/.test(onChainCampaignId)) return null;
 
-  console.log(`[Contract Mock] Fetched data for campaign ${campaignId}.`);
-  return mockContractData;
+  const result = await contract.campaigns(BigInt(onChainCampaignId));
+  if (!result.ok) {
+    console.error(`Contract read failed for campaign ${onChainCampaignId}: ${result.error.message}`);
+    return null;
+  }
+  return result.value.creator === ZERO_ADDRESS ? null : result.value;
 }
 
-// Mock function to simulate making a donation through a smart contract
-export async function makeDonationOnContract(donation: Donation): Promise<{ transactionHash: string; blockNumber: number }> {
-  console.log(`[Contract Mock] Processing donation of ${donation.amount} for campaign ${donation.campaignId}.`);
+// Whether the user created the campaign on-chain (the contract's creator receives the funds).
+// Only wallets proven with Sign-In with Ethereum count, never the self-declared profile addresses
+export async function verifyCampaignOwnership(onChainCampaignId: string, userId: string): Promise<boolean> {
+  const addresses = verifiedAddressesOf(userId);
+  if (addresses.length === 0) return false;
+  const campaign = await getCampaignFromContract(onChainCampaignId);
+  return !!campaign && addresses.includes(campaign.creator.toLowerCase() as Hex);
+}
 
-  // Simulate a transaction being sent to the blockchain
-  await new Promise(resolve => setTimeout(resolve, 2500));
+function deployable(campaign: Campaign): Failure | null {
+  if (campaign.contractOwnership?.onChainCampaignId) {
+    return { ok: false, error: 'This campaign is already deployed on-chain', status: 409 };
+  }
+  const status = getCampaignStatus(campaign);
+  if (status === 'ended' || status === 'cancelled') {
+    return { ok: false, error: `Campaign is ${status} and can no longer be deployed`, status: 409 };
+  }
+  return null;
+}
 
-  // In a real scenario, this would involve sending a transaction and waiting for it to be mined.
-  const mockTransactionReceipt = {
-    transactionHash: `0x${[...Array(64)].map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`,
-    blockNumber: Math.floor(Math.random() * 1000000) + 15000000,
+export function deploymentParams(campaign: Campaign): { ok: true; params: DeploymentParams } | Failure {
+  const blocked = deployable(campaign);
+  if (blocked) return blocked;
+  const configured = onChainConfig();
+  if (!configured.ok) return configured;
+  const { config } = configured;
+  // Donations are native-token only for now (see lib/payments/onchain)
+  return {
+    ok: true,
+    params: { chainId: config.chainId, contractAddress: config.contractAddress, preferredToken: ZERO_ADDRESS, ...contractTimeWindow(campaign) },
   };
-
-  console.log(`[Contract Mock] Donation processed. TxHash: ${mockTransactionReceipt.transactionHash}`);
-  return mockTransactionReceipt;
 }
 
-// Mock function to verify ownership of a campaign via a smart contract
-export async function verifyCampaignOwnership(campaignId: string, userWalletAddress: string): Promise<boolean> {
-  console.log(`[Contract Mock] Verifying ownership of campaign ${campaignId} for wallet ${userWalletAddress}.`);
+/**
+ * Links `campaign` to the on-chain campaign that `txHash` created. The transaction must be a
+ * confirmed createCampaign() on the configured contract whose CampaignCreated event carries this
+ * campaign's window and was sent from one of the user's verified wallets (lib/auth/wallets).
+ * 409 while it is pending or under-confirmed, so the client can retry.
+ */
+export async function linkCampaignDeployment(
+  campaign: Campaign,
+  userId: string,
+  txHash: string
+): Promise<{ ok: true; campaign: Campaign } | Failure> {
+  const blocked = deployable(campaign);
+  if (blocked) return blocked;
+  const configured = onChainConfig();
+  if (!configured.ok) return configured;
+  const { config } = configured;
+
+  if (!isHex(txHash) || txHash.length !== 66) {
+    return { ok: false, error: 'txHash must be a 32-byte hex transaction hash', status: 400 };
+  }
+
+  const client = onChainRpcClient(config);
+  let receipt: TransactionReceipt | null;
+  let head: bigint;
+  try {
+    receipt = await getTransactionReceipt(client, txHash.toLowerCase() as Hex);
+    head = await getBlockNumber(client);
+  } catch (error) {
+    console.error('Campaign deployment RPC error:', error);
+    return { ok: false, error: 'Could not reach the blockchain node', status: 502 };
+  }
+
+  if (!receipt) return { ok: false, error: 'Transaction is not mined yet', status: 409 };
+  if (head - receipt.blockNumber + BigInt(1) < BigInt(config.confirmations)) {
+    return { ok: false, error: 'Transaction is waiting for confirmations', status: 409 };
+  }
+  if (receipt.status !== 'success') return { ok: false, error: 'Transaction reverted', status: 400 };
+  if (receipt.to !== config.contractAddress) {
+    return { ok: false, error: 'Transaction was not sent to the fundraiser contract', status: 400 };
+  }
+
+  const created = receipt.logs
+    .filter(log => log.address === config.contractAddress)
+    .map(log => decodeEventLog(FORWARD_FUNDRAISER_ABI, log))
+    .find(event => event?.eventName === 'CampaignCreated');
+  if (!created) return { ok: false, error: 'Transaction did not create a campaign', status: 400 };
+  const { campaignId, creator, start, end } = created.args as {
+    campaignId: bigint;
+    creator: Hex;
+    preferredToken: Hex;
+    start: bigint;
+    end: bigint;
+  };
 
-  // Simulate a call to the contract to check the owner of a campaign token/record.
-  await new Promise(resolve => setTimeout(resolve, 700));
+  if (!verifiedAddressesOf(userId).includes(creator.toLowerCase() as Hex)) {
+    return { ok: false, error: 'The campaign was created from a wallet that is not verified on your account', status: 403 };
+  }
+  const schedule = contractTimeWindow(campaign);
+  if (Number(start) !== schedule.start || Number(end) !== schedule.end) {
+    return { ok: false, error: "The on-chain start and end do not match the campaign's schedule", status: 400 };
+  }
 
-  // For this mock, we'll just return true. In a real app, this would be a critical security check.
-  const isOwner = true;
+  const onChainCampaignId = campaignId.toString();
+  const blockchainProof = receipt.transactionHash;
+  return db.transaction(() => {
+    const current = db.findCampaignById(campaign.id);
+    if (!current) return { ok: false as const, error: 'Campaign not found', status: 404 };
+    const stillBlocked = deployable(current);
+    if (stillBlocked) return stillBlocked;
+    // One on-chain campaign backs at most one GiveHub campaign (the indexer routes donations by ID)
+    const taken = db.getAllCampaigns().some(other => {
+      const link = other.contractOwnership;
+      return (
+        link?.onChainCampaignId === onChainCampaignId &&
+        (link.chainId ?? config.chainId) === config.chainId &&
+        (link.contractAddress ?? config.contractAddress).toLowerCase() === config.contractAddress
+      );
+    });
+    if (taken) return { ok: false as const, error: 'This on-chain campaign is already linked to another campaign', status: 409 };
 
-  console.log(`[Contract Mock] Ownership verified: ${isOwner}`);
-  return isOwner;
+    const updated = db.updateCampaign(campaign.id, {
+      contractOwnership: {
+        verified: true,
+        contractAddress: toChecksumAddress(config.contractAddress),
+        blockchainProof,
+        onChainCampaignId,
+        chainId: config.chainId,
+      },
+    });
+    return updated ? { ok: true as const, campaign: updated } : { ok: false as const, error: 'Failed to update campaign', status: 500 };
+  });
 }
@@ -0,0 +1,228 @@
+/**
+ * FILE: lib/statements/index.ts
+ * PURPOSE: Annual giving statements for donors - per-year summary, CSV and PDF exports
+ * ACCESS: Server-only. GET /api/profile/statements (signed-in donor, own donations only)
+ * MODEL:
+ * - Built on demand from the donation ledger: donations whose `donorId` is the user, in the
+ *   given calendar year (UTC). Donations made while signed out are not linked to anyone and
+ *   do not appear
+ * - Grouped by chain and by campaign (and, within a campaign, by chain). Every amount is the USD
+ *   value recorded at donation time, whichever chain carried it
+ * - Each line carries its receipt number when one was issued (lib/receipts)
+ * MIGRATION NOTES:
+ * - MongoDB: aggregate donations by { donorId, year } with $group instead of scanning
+ */
+
+import { db } from '@/_dev/mock-db/database';
+import type { Campaign, Donation } from '@/_dev/mock-db/database';
+import { roundAmount } from '@/lib/ledger';
+import { renderPdf, type PdfBlock } from '@/lib/pdf';
+import { listDonorReceipts } from '@/lib/receipts';
+import { formatCurrency } from '@/lib/utils/format';
+
+// No donations predate the platform, so earlier years are rejected rather than returned empty
+const FIRST_YEAR = 2020;
+
+export type StatementLine = {
+  date: string;
+  donationId?: string;
+  campaignId: string;
+  campaignTitle: string;
+  chain: string;
+  /** USD */
+  amount: number;
+  txId?: string;
+  receiptNumber?: string;
+};
+
+/** USD donated through one chain */
+export type ChainTotal = { chain: string; amount: number; count: number };
+
+export type CampaignTotal = {
+  campaignId: string;
+  campaignTitle: string;
+  amount: number;
+  count: number;
+  byChain: ChainTotal[];
+};
+
+export type GivingStatement = {
+  year: number;
+  donor: { id: string; username: string; email: string };
+  generatedAt: string;
+  /** Years this donor has donations in, newest first (for the year picker) */
+  availableYears: number[];
+  total: number;
+  count: number;
+  byChain: ChainTotal[];
+  campaigns: CampaignTotal[];
+  lines: StatementLine[];
+};
+
+export type StatementResult =
+  | { ok: true; statement: GivingStatement }
+  | { ok: false; error: string; status: number };
+
+const yearOf = (donation: Donation) => new Date(donation.timestamp).getUTCFullYear();
+
+// Chain names are free-form strings; 'ethereum' and 'Ethereum' are one chain
+function addTo(totals: Map<string, ChainTotal>, line: StatementLine) {
+  const key = line.chain.toLowerCase();
+  const entry = totals.get(key) ?? { chain: line.chain, amount: 0, count: 0 };
+  entry.amount = roundAmount(entry.amount + line.amount);
+  entry.count += 1;
+  totals.set(key, entry);
+}
+
+const byAmount = <T extends { amount: number }>(a: T, b: T) => b.amount - a.amount;
+
+export function buildStatement(userId: string, rawYear: unknown): StatementResult {
+  const year = rawYear === undefined || rawYear === null || rawYear === '' ? new Date().getUTCFullYear() : Number(rawYear);
+  const currentYear = new Date().getUTCFullYear();
+  if (!Number.isInteger(year) || year < FIRST_YEAR || year > currentYear) {
+    return { ok: false, error: `year must be between ${FIRST_YEAR} and ${currentYear}`, status: 400 };
+  }
+
+  const user = db.findUserById(userId);
+  if (!user) return { ok: false, error: 'User not found', status: 404 };
+
+  const donations = db.getAllDonations().filter(donation => donation.donorId === user.id);
+  const availableYears = Array.from(new Set(donations.map(yearOf))).sort((a, b) => b - a);
+
+  const receipts = new Map(listDonorReceipts(user.id).map(receipt => [receipt.donationId, receipt.number]));
+  const campaigns = new Map<string, Campaign | null>();
+  const titleOf = (campaignId: string) => {
+    if (!campaigns.has(campaignId)) campaigns.set(campaignId, db.findCampaignById(campaignId));
+    return campaigns.get(campaignId)?.title ?? 'Deleted campaign';
+  };
+
+  const lines: StatementLine[] = donations
+    .filter(donation => yearOf(donation) === year)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .map(donation => ({
+      date: new Date(donation.timestamp).toISOString(),
+      donationId: donation.id,
+      campaignId: donation.campaignId,
+      campaignTitle: titleOf(donation.campaignId),
+      chain: donation.chain,
+      amount: roundAmount(donation.amount),
+      txId: donation.txId,
+      receiptNumber: donation.id ? receipts.get(donation.id) : undefined,
+    }));
+
+  const byChain = new Map<string, ChainTotal>();
+  const byCampaign = new Map<string, { total: CampaignTotal; chains: Map<string, ChainTotal> }>();
+  for (const line of lines) {
+    addTo(byChain, line);
+    const group = byCampaign.get(line.campaignId) ?? {
+      total: { campaignId: line.campaignId, campaignTitle: line.campaignTitle, amount: 0, count: 0, byChain: [] },
+      chains: new Map<string, ChainTotal>(),
+    };
+    group.total.amount = roundAmount(group.total.amount + line.amount);
+    group.total.count += 1;
+    addTo(group.chains, line);
+    byCampaign.set(line.campaignId, group);
+  }
+
+  return {
+    ok: true,
+    statement: {
+      year,
+      donor: { id: user.id, username: user.username, email: user.email },
+      generatedAt: new Date().toISOString(),
+      availableYears,
+      total: roundAmount(lines.reduce((sum, line) => sum + line.amount, 0)),
+      count: lines.length,
+      byChain: Array.from(byChain.values()).sort(byAmount),
+      campaigns: Array.from(byCampaign.values(), ({ total, chains }) => ({
+        ...total,
+        byChain: Array.from(chains.values()).sort(byAmount),
+      })).sort(byAmount),
+      lines,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Exports
+
+// Quote when needed, and defuse cells a spreadsheet would run as a formula (campaign titles are user input)
+function csvCell(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvRow = (cells: (string | number | undefined)[]) => cells.map(csvCell).join(',');
+
+/** Itemized donations, then totals by chain and by campaign */
+export function statementToCsv(statement: GivingStatement): string {
+  const rows = [
+    csvRow(['Date (UTC)', 'Campaign', 'Campaign ID', 'Chain', 'Amount (USD)', 'Transaction ID', 'Receipt']),
+    ...statement.lines.map(line => csvRow([
+      line.date.slice(0, 10),
+      line.campaignTitle,
+      line.campaignId,
+      line.chain,
+      line.amount.toFixed(2),
+      line.txId,
+      line.receiptNumber,
+    ])),
+    '',
+    csvRow(['Totals by chain (USD)', '', '', 'Chain', 'Amount (USD)', 'Donations']),
+    ...statement.byChain.map(total => csvRow(['', '', '', total.chain, total.amount.toFixed(2), total.count])),
+    '',
+    csvRow(['Totals by campaign', 'Campaign', 'Campaign ID', '', 'Amount (USD)', 'Donations']),
+    ...statement.campaigns.map(total => csvRow(['', total.campaignTitle, total.campaignId, '', total.amount.toFixed(2), total.count])),
+    '',
+    csvRow(['Total', '', '', '', statement.total.toFixed(2), statement.count]),
+  ];
+  return `${rows.join('\r\n')}\r\n`;
+}
+
+export function renderStatementPdf(statement: GivingStatement): Buffer {
+  const detailColumns = [0, 70, 290, 350];
+  const blocks: PdfBlock[] = [
+    { kind: 'text', text: 'GiveHub', size: 20, bold: true },
+    { kind: 'text', text: `Annual giving statement ${statement.year}`, size: 13, muted: true },
+    { kind: 'rule' },
+    { kind: 'columns', cells: ['Donor', `${statement.donor.username} (${statement.donor.email})`], at: [0, 110] },
+    { kind: 'columns', cells: ['Period', `January 1 - December 31, ${statement.year} (UTC)`], at: [0, 110] },
+    { kind: 'columns', cells: ['Generated', new Date(statement.generatedAt).toUTCString()], at: [0, 110] },
+    { kind: 'columns', cells: ['Total donated', `${formatCurrency(statement.total)} in ${statement.count} donation${statement.count !== 1 ? 's' : ''}`], at: [0, 110], bold: true },
+    { kind: 'space', height: 10 },
+    { kind: 'text', text: 'Totals by chain (USD)', size: 13, bold: true },
+    ...statement.byChain.map((total): PdfBlock => ({
+      kind: 'columns',
+      cells: [total.chain, `${formatCurrency(total.amount)} (${total.count} donation${total.count !== 1 ? 's' : ''})`],
+      at: [0, 110],
+    })),
+    { kind: 'space', height: 10 },
+    { kind: 'text', text: 'By campaign', size: 13, bold: true },
+    ...statement.campaigns.map((total): PdfBlock => ({
+      kind: 'columns',
+      cells: [total.campaignTitle, total.byChain.map(chain => `${chain.chain} ${formatCurrency(chain.amount)}`).join(', '), formatCurrency(total.amount)],
+      at: [0, 220, 390],
+    })),
+    { kind: 'space', height: 10 },
+    { kind: 'text', text: 'Donations', size: 13, bold: true },
+    { kind: 'columns', cells: ['Date', 'Campaign', 'Chain', 'Amount (USD) / receipt'], at: detailColumns, size: 9, bold: true },
+    ...statement.lines.map((line): PdfBlock => ({
+      kind: 'columns',
+      cells: [line.date.slice(0, 10), line.campaignTitle, line.chain, `${formatCurrency(line.amount)}${line.receiptNumber ? `  ${line.receiptNumber}` : ''}`],
+      at: detailColumns,
+      size: 9,
+    })),
+    { kind: 'space', height: 12 },
+    {
+      kind: 'text',
+      text: 'Amounts are the USD value recorded when each donation was made. GiveHub forwards donations to campaign creators; whether a donation is tax-deductible depends on the recipient and where you live. Individual receipts can be verified at /api/receipts/[id]/verify.',
+      size: 9,
+      muted: true,
+    },
+  ];
+  if (statement.lines.length === 0) {
+    blocks.push({ kind: 'text', text: `No donations recorded for ${statement.year}.`, muted: true });
+  }
+  return renderPdf(blocks, { title: `GiveHub giving statement ${statement.year}` });
+}
@@ -0,0 +1,33 @@
+/**
+ * FILE: lib/updates/emails.ts
+ * PURPOSE: Email telling a backer that a campaign they supported posted an update
+ * ACCESS: Server-only. Used by lib/updates
+ */
+
+import type { Campaign, Creator, User } from '@/_dev/mock-db/database';
+import { sendMailInBackground } from '@/lib/mailer';
+import type { CampaignUpdate } from './index';
+
+const appUrl = () => (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+// Long posts are cut here; the full update is one click away
+const EXCERPT_LENGTH = 500;
+
+export function sendCampaignUpdateEmail(backer: User | Creator, campaign: Campaign, update: CampaignUpdate): void {
+  const excerpt = update.body.length > EXCERPT_LENGTH ? `${update.body.slice(0, EXCERPT_LENGTH).trimEnd()}...` : update.body;
+  sendMailInBackground({
+    to: backer.email,
+    subject: `New update from "${campaign.title}"${update.title ? `: ${update.title}` : ''}`,
+    text: `Hi ${backer.username},
+
+A campaign you backed, "${campaign.title}", posted an update:
+
+${excerpt}
+
+Read it on GiveHub:
+${appUrl()}/campaign/${campaign.id}#update-${update.id}
+
+- The GiveHub team
+`,
+  });
+}
@@ -0,0 +1,114 @@
+/**
+ * FILE: lib/updates/index.ts
+ * PURPOSE: Campaign updates - progress posts a creator writes for their backers
+ * ACCESS: Server-only. GET/POST /api/campaigns/[id]/updates and the campaign page
+ * MODEL:
+ * - `campaign_updates` records: markdown `body`, optional `title`, up to MAX_IMAGES data-URL images
+ * - Only published campaigns take updates (drafts and unpublished campaigns have no backers to tell)
+ * - Backers (users whose `donatedCampaigns` include the campaign) get an email and an inbox
+ *   notification for each new post
+ * MIGRATION NOTES:
+ * - MongoDB: `campaign_updates` collection indexed on { campaignId, createdAt }
+ * - Images: upload to object storage and keep URLs instead of data URLs
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from '@/_dev/mock-db/database';
+import type { Campaign } from '@/_dev/mock-db/database';
+import { isCampaignPublic } from '@/lib/moderation';
+import { notifyCampaignUpdate } from '@/lib/notifications/events';
+import { sendCampaignUpdateEmail } from './emails';
+
+const UPDATES = 'campaign_updates';
+
+export const MAX_TITLE_LENGTH = 120;
+export const MAX_BODY_LENGTH = 10000;
+export const MAX_IMAGES = 4;
+// ~5MB image once base64-encoded, same cap as the campaign image upload
+const MAX_IMAGE_LENGTH = 7 * 1024 * 1024;
+
+export type CampaignUpdate = {
+  id: string;
+  campaignId: string;
+  authorId: string;
+  title?: string;
+  /** Markdown */
+  body: string;
+  /** data:image/* URLs */
+  images: string[];
+  createdAt: string;
+};
+
+/** The signed-in creator or admin posting (AuthedRequest['user'] fits) */
+export type UpdateAuthor = { id: string; username: string };
+
+export type UpdateResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; error: string; status: number };
+
+/** Newest first, as the timeline shows them */
+export function listCampaignUpdates(campaignId: string): CampaignUpdate[] {
+  return db
+    .listRecords<CampaignUpdate>(UPDATES, { campaignId })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+type UpdateInput = Pick<CampaignUpdate, 'title' | 'body' | 'images'>;
+
+function validateInput(raw: unknown): UpdateResult<{ input: UpdateInput }> {
+  const fields = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  const title = typeof fields.title === 'string' ? fields.title.trim() : '';
+  if (title.length > MAX_TITLE_LENGTH) {
+    return { ok: false, error: `Title must be at most ${MAX_TITLE_LENGTH} characters`, status: 400 };
+  }
+
+  const body = typeof fields.body === 'string' ? fields.body.trim() : '';
+  if (!body) {
+    return { ok: false, error: 'Update text is required', status: 400 };
+  }
+  if (body.length > MAX_BODY_LENGTH) {
+    return { ok: false, error: `Update text must be at most ${MAX_BODY_LENGTH} characters`, status: 400 };
+  }
+
+  const images = fields.images ?? [];
+  if (!Array.isArray(images) || images.length > MAX_IMAGES) {
+    return { ok: false, error: `Attach at most ${MAX_IMAGES} images`, status: 400 };
+  }
+  if (!images.every(image => typeof image === 'string' && image.startsWith('data:image/'))) {
+    return { ok: false, error: 'Invalid image format', status: 400 };
+  }
+  if (images.some(image => image.length > MAX_IMAGE_LENGTH)) {
+    return { ok: false, error: 'Each image must be less than 5MB', status: 400 };
+  }
+
+  return { ok: true, input: { title: title || undefined, body, images } };
+}
+
+/** Post an update and notify the campaign's backers (email in the background, plus inbox) */
+export function createCampaignUpdate(
+  author: UpdateAuthor,
+  campaign: Campaign,
+  raw: unknown
+): UpdateResult<{ update: CampaignUpdate; notified: number }> {
+  if (!isCampaignPublic(campaign)) {
+    return { ok: false, error: 'Publish the campaign before posting updates', status: 409 };
+  }
+
+  const validated = validateInput(raw);
+  if (!validated.ok) return validated;
+
+  const update = db.insertRecord<CampaignUpdate>(UPDATES, {
+    ...validated.input,
+    id: randomUUID(),
+    campaignId: campaign.id,
+    authorId: author.id,
+    createdAt: new Date().toISOString(),
+  });
+
+  const backers = db.getCampaignBackers(campaign.id).filter(backer => backer.id !== author.id);
+  for (const backer of backers) sendCampaignUpdateEmail(backer, campaign, update);
+  notifyCampaignUpdate(backers.map(backer => backer.id), campaign, update);
+
+  return { ok: true, update, notified: backers.length };
+}
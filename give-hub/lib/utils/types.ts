@@ -4,7 +4,9 @@ export interface User {
   email: string;
   profilePicture?: string;
   walletAddresses: { chain: string; address: string }[];
-  role: 'user' | 'creator';
+  role: 'user' | 'creator' | 'admin';
+  /** false until the email address is confirmed; absent on older accounts */
+  emailVerified?: boolean;
   createdAt: string; 
   updatedAt: string;
 }
@@ -0,0 +1,63 @@
+/**
+ * FILE: tests/action-tokens.test.ts
+ * PURPOSE: Single-use email-link tokens (lib/auth/action-tokens): a link works once, only for its
+ *          purpose, only while newest, only for the address it was sent to, and not when tampered
+ */
+
+import './helpers/env';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '@/_dev/mock-db/database';
+import { consumeActionToken, issueActionToken } from '@/lib/auth/action-tokens';
+
+let users = 0;
+const newUser = () => {
+  users += 1;
+  return db.createUser({ username: `link_user_${users}`, email: `link${users}@example.com`, password: '', role: 'user' });
+};
+
+describe('single-use action tokens', () => {
+  it('consumes a token exactly once', async () => {
+    const user = newUser();
+    const token = await issueActionToken(user, 'verify_email');
+
+    const first = await consumeActionToken(token, 'verify_email');
+    assert.ok(first.ok);
+    assert.equal(first.user.id, user.id);
+    assert.deepEqual(await consumeActionToken(token, 'verify_email'), { ok: false, error: 'This link has already been used' });
+  });
+
+  it('only works for the purpose it was issued for', async () => {
+    const token = await issueActionToken(newUser(), 'verify_email');
+    assert.deepEqual(await consumeActionToken(token, 'password_reset'), { ok: false, error: 'This link is invalid or has expired' });
+    // The failed attempt did not use it up
+    assert.equal((await consumeActionToken(token, 'verify_email')).ok, true);
+  });
+
+  it('invalidates older links when a new one is issued', async () => {
+    const user = newUser();
+    const older = await issueActionToken(user, 'password_reset');
+    const newer = await issueActionToken(user, 'password_reset');
+
+    assert.equal((await consumeActionToken(older, 'password_reset')).ok, false);
+    assert.equal((await consumeActionToken(newer, 'password_reset')).ok, true);
+  });
+
+  it('stops working when the email address changes', async () => {
+    const user = newUser();
+    const token = await issueActionToken(user, 'verify_email');
+    db.updateUser(user.id, { email: `changed-${user.email}` });
+
+    assert.deepEqual(await consumeActionToken(token, 'verify_email'), { ok: false, error: 'This link is no longer valid' });
+  });
+
+  it('rejects a tampered token', async () => {
+    const token = await issueActionToken(newUser(), 'verify_email');
+    const [header, payload, signature] = token.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const forged = Buffer.from(JSON.stringify({ ...claims, sub: 'user_1' })).toString('base64url');
+
+    assert.deepEqual(await consumeActionToken(`${header}.${forged}.${signature}`, 'verify_email'), { ok: false, error: 'This link is invalid or has expired' });
+    assert.deepEqual(await consumeActionToken('garbage', 'verify_email'), { ok: false, error: 'This link is invalid or has expired' });
+  });
+});
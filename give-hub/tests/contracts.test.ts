@@ -0,0 +1,124 @@
+/**
+ * FILE: tests/contracts.test.ts
+ * PURPOSE: The JSON-RPC fundraiser client (lib/contracts/client) against the real contract on a
+ *          local chain: writes, decoded events, reads, and reverts reported by name
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fundraiserContract } from '@/lib/contracts';
+import type { FundraiserContract } from '@/lib/contracts';
+import { ZERO_ADDRESS, hexToBigInt, type Hex } from '@/lib/evm';
+import { startChain, type LocalChain } from './helpers/chain';
+
+const ETHER = BigInt(10) ** BigInt(18);
+
+describe('fundraiser contract client', () => {
+  let chain: LocalChain;
+  let contract: FundraiserContract;
+  let owner: Hex;
+  let creator: Hex;
+  let donor: Hex;
+
+  const balanceOf = async (address: Hex) =>
+    hexToBigInt(await chain.client.request<string>({ method: 'eth_getBalance', params: [address, 'latest'] }));
+
+  const createCampaign = async (start = 0, end = 0) => {
+    const sent = await contract.createCampaign([ZERO_ADDRESS, BigInt(start), BigInt(end)], { account: creator });
+    assert.ok(sent.ok, sent.ok ? undefined : sent.error.message);
+    const created = sent.value.events.find(event => event.eventName === 'CampaignCreated');
+    assert.ok(created);
+    return created.args.campaignId as bigint;
+  };
+
+  before(async () => {
+    chain = await startChain();
+    [owner, creator, donor] = chain.accounts;
+    const address = await chain.deployFundraiser(owner);
+    contract = fundraiserContract({ client: chain.client, address, wait: { pollIntervalMs: 10 } });
+  });
+
+  after(async () => {
+    await chain.stop();
+  });
+
+  it('creates campaigns and reads them back', async () => {
+    const campaignId = await createCampaign();
+    const read = await contract.campaigns(campaignId);
+    assert.ok(read.ok);
+    assert.equal(read.value.creator, creator);
+    assert.equal(read.value.active, true);
+    assert.equal(read.value.totalDonated, BigInt(0));
+
+    const next = await contract.nextCampaignId();
+    assert.deepEqual(next, { ok: true, value: campaignId });
+    assert.deepEqual(await contract.owner(), { ok: true, value: owner });
+  });
+
+  it('forwards a native donation to the creator and emits Donation', async () => {
+    const campaignId = await createCampaign();
+    const before = await balanceOf(creator);
+    const value = ETHER / BigInt(4);
+
+    const sent = await contract.donate([campaignId, ZERO_ADDRESS, value, 'keep going'], { account: donor, value });
+    assert.ok(sent.ok, sent.ok ? undefined : sent.error.message);
+    assert.equal(sent.value.receipt?.status, 'success');
+    assert.deepEqual(
+      sent.value.events.find(event => event.eventName === 'Donation')?.args,
+      { campaignId, donor, token: ZERO_ADDRESS, amount: value, memo: 'keep going' }
+    );
+
+    assert.equal((await balanceOf(creator)) - before, value);
+    assert.deepEqual(await contract.donatedOf(campaignId, donor, ZERO_ADDRESS), { ok: true, value });
+    const read = await contract.campaigns(campaignId);
+    assert.ok(read.ok);
+    assert.equal(read.value.totalDonated, value);
+  });
+
+  it('reports a msg.value that does not match the amount as ETHAmountMismatch, without sending', async () => {
+    const campaignId = await createCampaign();
+    const nonce = await chain.client.request<string>({ method: 'eth_getTransactionCount', params: [donor, 'latest'] });
+
+    const sent = await contract.donate([campaignId, ZERO_ADDRESS, ETHER, ''], { account: donor, value: ETHER / BigInt(2) });
+    assert.equal(sent.ok, false);
+    assert.equal(sent.ok ? null : sent.error.name, 'ETHAmountMismatch');
+    assert.equal(sent.ok ? null : sent.error.hash, undefined);
+    assert.equal(await chain.client.request<string>({ method: 'eth_getTransactionCount', params: [donor, 'latest'] }), nonce);
+  });
+
+  it('names the other reverts', async () => {
+    const campaignId = await createCampaign();
+
+    const zero = await contract.donate([campaignId, ZERO_ADDRESS, BigInt(0), ''], { account: donor });
+    assert.equal(zero.ok ? null : zero.error.name, 'ZeroAmount');
+
+    const missing = await contract.donate([BigInt(999), ZERO_ADDRESS, BigInt(1), ''], { account: donor, value: BigInt(1) });
+    assert.equal(missing.ok ? null : missing.error.name, 'CampaignDoesNotExist');
+
+    const window = await contract.createCampaign([ZERO_ADDRESS, BigInt(200), BigInt(100)], { account: creator });
+    assert.equal(window.ok ? null : window.error.name, 'InvalidTimeWindow');
+
+    const stranger = await contract.setActive([campaignId, false], { account: donor });
+    assert.equal(stranger.ok ? null : stranger.error.name, 'OwnableUnauthorizedAccount');
+    assert.deepEqual(stranger.ok ? null : stranger.error.args, { account: donor });
+
+    const paused = await contract.setActive([campaignId, false], { account: creator });
+    assert.ok(paused.ok);
+    const inactive = await contract.donate([campaignId, ZERO_ADDRESS, BigInt(1), ''], { account: donor, value: BigInt(1) });
+    assert.equal(inactive.ok ? null : inactive.error.name, 'CampaignInactive');
+    assert.equal(inactive.ok ? null : inactive.error.message, 'This campaign is not accepting donations right now');
+  });
+
+  it('refuses donations outside the campaign window', async () => {
+    const campaignId = await createCampaign(1, 2);
+    const ended = await contract.donate([campaignId, ZERO_ADDRESS, BigInt(1), ''], { account: donor, value: BigInt(1) });
+    assert.equal(ended.ok ? null : ended.error.name, 'CampaignInactive');
+  });
+
+  it('reports an address without the contract', async () => {
+    const empty = fundraiserContract({ client: chain.client, address: donor });
+    const read = await empty.nextCampaignId();
+    assert.equal(read.ok, false);
+    assert.match(read.ok ? '' : read.error.message, /No fundraiser contract/);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * FILE: tests/evm.test.ts
+ * PURPOSE: Known-answer vectors for lib/evm: Keccak-256, ABI encoding/decoding, event and revert
+ *          decoding, and secp256k1 signature recovery
+ * NOTES:
+ * - Selector and encoding vectors are from the Solidity ABI specification; the signatures were
+ *   produced by a separate implementation (ganache's eth_sign) for private keys 0x..01 and 0x..02
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ZERO_ADDRESS,
+  bytesToHex,
+  decodeErrorResult,
+  decodeEventLog,
+  decodeParameters,
+  encodeFunctionData,
+  encodeParameters,
+  eventTopic,
+  functionSelector,
+  hashMessage,
+  keccak256,
+  parseSignature,
+  publicKeyToAddress,
+  recoverMessageAddress,
+  recoverPublicKey,
+  toChecksumAddress,
+  type Hex,
+} from '@/lib/evm';
+import { FORWARD_FUNDRAISER_ABI } from '@/lib/contracts/abi';
+
+const word = (hex: string) => hex.padStart(64, '0');
+
+// Private key 1 is the generator point G
+const KEY_1_ADDRESS = '0x7e5f4552091a69125d5dfcb7b8c2659029395bdf';
+const KEY_1_PUBLIC_KEY =
+  '0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798' +
+  '483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8';
+const KEY_2_ADDRESS = '0x2b5ad5c4795c026514f8317c7a215e218dccd6cf';
+
+// eth_sign("hello world")
+const KEY_1_SIGNATURE =
+  '0xb2f2fc7c6a8cba85f3467fbd736a26661b81912ce0734edc6dbdc5fa08f1fc93' +
+  '4b5844407e3c35ed0f2735b4ccb5660b3452f3738be82fa4ace9873220c43e151c';
+const KEY_2_SIGNATURE =
+  '0xfb27fd9079ed8a52270d80f924bedd669ee4c7288301718f437a135a567a0281' +
+  '17314f759fcadec8c6bb375bfed2993e176721bbd638d0e28835134f5532ae4e1b';
+
+describe('keccak256', () => {
+  it('hashes the empty string and text', () => {
+    assert.equal(keccak256(''), '0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+    assert.equal(keccak256('hello world'), '0x47173285a8d7341e5e972fc677286384f802f8ef42a5ec5f03bbfa254cb01fad');
+  });
+
+  it('derives selectors and event topics', () => {
+    assert.equal(functionSelector('transfer(address,uint256)'), '0xa9059cbb');
+    assert.equal(functionSelector('baz(uint32,bool)'), '0xcdcd77c0');
+    assert.equal(eventTopic('Transfer(address,address,uint256)'), '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef');
+  });
+
+  it('checksums addresses (EIP-55)', () => {
+    assert.equal(toChecksumAddress(KEY_1_ADDRESS), '0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf');
+    assert.equal(toChecksumAddress(KEY_2_ADDRESS), '0x2B5AD5c4795c026514f8317c7a215E218DcCD6cF');
+  });
+});
+
+describe('ABI encoding', () => {
+  it('encodes static arguments', () => {
+    assert.equal(encodeParameters(['uint32', 'bool'], [69, true]), `0x${word('45')}${word('1')}`);
+    assert.equal(encodeParameters(['int8'], [-1]), `0x${'f'.repeat(64)}`);
+    assert.equal(encodeParameters(['address'], [KEY_1_ADDRESS]), `0x${word(KEY_1_ADDRESS.slice(2))}`);
+  });
+
+  it('puts dynamic arguments in the tail behind an offset', () => {
+    const encoded = encodeParameters(['uint256', 'string'], [BigInt(1), 'hi']);
+    assert.equal(encoded, `0x${word('1')}${word('40')}${word('2')}${'6869'.padEnd(64, '0')}`);
+    assert.deepEqual(decodeParameters(['uint256', 'string'], encoded), [BigInt(1), 'hi']);
+  });
+
+  it('round-trips values through decodeParameters', () => {
+    const types = ['uint96', 'int256', 'address', 'bool', 'bytes', 'bytes4', 'string'];
+    const values = [BigInt(2) ** BigInt(96) - BigInt(1), BigInt(-42), KEY_2_ADDRESS, false, '0xdeadbeef', '0xcafebabe', 'gracias ❤'];
+    assert.deepEqual(decodeParameters(types, encodeParameters(types, values)), values);
+  });
+
+  it('refuses values that do not fit the type', () => {
+    assert.throws(() => encodeParameters(['uint8'], [256]), /out of range/);
+    assert.throws(() => encodeParameters(['uint256'], [-1]), /out of range/);
+    assert.throws(() => encodeParameters(['address'], ['0x1234']), /Invalid address/);
+    assert.throws(() => decodeParameters(['uint256'], '0x01'), /too short/);
+  });
+
+  it('encodes donate() calldata with its selector', () => {
+    const data = encodeFunctionData(FORWARD_FUNDRAISER_ABI, 'donate', [BigInt(7), ZERO_ADDRESS, BigInt(1000), 'hi']);
+    assert.equal(data.slice(0, 10), functionSelector('donate(uint256,address,uint256,string)'));
+    assert.equal(
+      data.slice(10),
+      `${word('7')}${word('0')}${word('3e8')}${word('80')}${word('2')}${'6869'.padEnd(64, '0')}`
+    );
+  });
+});
+
+describe('event and revert decoding', () => {
+  it('decodes a Donation log, indexed topics included', () => {
+    const log = {
+      topics: [
+        eventTopic('Donation(uint256,address,address,uint256,string)'),
+        `0x${word('2a')}`,
+        `0x${word(KEY_1_ADDRESS.slice(2))}`,
+        `0x${word('0')}`,
+      ] as Hex[],
+      data: encodeParameters(['uint256', 'string'], [BigInt(5), 'for the library']),
+    };
+    assert.deepEqual(decodeEventLog(FORWARD_FUNDRAISER_ABI, log), {
+      eventName: 'Donation',
+      args: { campaignId: BigInt(42), donor: KEY_1_ADDRESS, token: ZERO_ADDRESS, amount: BigInt(5), memo: 'for the library' },
+    });
+  });
+
+  it('ignores logs of other events', () => {
+    const transfer = { topics: [eventTopic('Transfer(address,address,uint256)')] as Hex[], data: '0x' as Hex };
+    assert.equal(decodeEventLog(FORWARD_FUNDRAISER_ABI, transfer), null);
+  });
+
+  it('names custom errors, require() strings and panics', () => {
+    assert.deepEqual(decodeErrorResult(FORWARD_FUNDRAISER_ABI, functionSelector('ETHAmountMismatch()')), {
+      errorName: 'ETHAmountMismatch',
+      args: {},
+    });
+    const unauthorized = `${functionSelector('OwnableUnauthorizedAccount(address)')}${word(KEY_2_ADDRESS.slice(2))}` as Hex;
+    assert.deepEqual(decodeErrorResult(FORWARD_FUNDRAISER_ABI, unauthorized), {
+      errorName: 'OwnableUnauthorizedAccount',
+      args: { account: KEY_2_ADDRESS },
+    });
+    const reason = `0x08c379a0${encodeParameters(['string'], ['unauthorized']).slice(2)}` as Hex;
+    assert.deepEqual(decodeErrorResult(FORWARD_FUNDRAISER_ABI, reason), { errorName: 'Error', args: { message: 'unauthorized' } });
+    assert.deepEqual(decodeErrorResult(FORWARD_FUNDRAISER_ABI, `0x4e487b71${word('11')}`), {
+      errorName: 'Panic',
+      args: { code: BigInt(17) },
+    });
+    assert.equal(decodeErrorResult(FORWARD_FUNDRAISER_ABI, '0x12345678'), null);
+  });
+});
+
+describe('signature recovery', () => {
+  it('hashes messages with the EIP-191 prefix', () => {
+    assert.equal(bytesToHex(hashMessage('hello world')), '0xd9eba16ed0ecae432b71fe008c98cc872bb4cc214d3220a36f365326cf807d68');
+  });
+
+  it('recovers the signer of eth_sign signatures', () => {
+    assert.equal(recoverMessageAddress('hello world', KEY_1_SIGNATURE), KEY_1_ADDRESS);
+    assert.equal(recoverMessageAddress('hello world', KEY_2_SIGNATURE), KEY_2_ADDRESS);
+  });
+
+  it('recovers the public key', () => {
+    const signature = parseSignature(KEY_1_SIGNATURE);
+    assert.ok(signature);
+    const publicKey = recoverPublicKey(hashMessage('hello world'), signature);
+    assert.ok(publicKey);
+    assert.equal(bytesToHex(publicKey), KEY_1_PUBLIC_KEY);
+    assert.equal(publicKeyToAddress(publicKey), KEY_1_ADDRESS);
+  });
+
+  it('accepts v as 27/28 or 0/1', () => {
+    const parity = (parseInt(KEY_1_SIGNATURE.slice(-2), 16) - 27).toString(16).padStart(2, '0');
+    assert.equal(recoverMessageAddress('hello world', `${KEY_1_SIGNATURE.slice(0, -2)}${parity}`), KEY_1_ADDRESS);
+  });
+
+  it('does not recover the signer for another message or a tampered signature', () => {
+    assert.notEqual(recoverMessageAddress('hello world!', KEY_1_SIGNATURE), KEY_1_ADDRESS);
+    const flipped = `${KEY_1_SIGNATURE.slice(0, 10)}${KEY_1_SIGNATURE[10] === '0' ? '1' : '0'}${KEY_1_SIGNATURE.slice(11)}`;
+    assert.notEqual(recoverMessageAddress('hello world', flipped), KEY_1_ADDRESS);
+  });
+
+  it('rejects malformed signatures', () => {
+    assert.equal(parseSignature('0x1234'), null);
+    assert.equal(parseSignature(`${KEY_1_SIGNATURE.slice(0, -2)}1d`), null);
+    assert.equal(recoverMessageAddress('hello world', `0x${'0'.repeat(128)}1b`), null);
+  });
+});
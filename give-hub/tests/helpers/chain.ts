@@ -0,0 +1,119 @@
+/**
+ * FILE: tests/helpers/chain.ts
+ * PURPOSE: A local EVM for tests: compiles contracts/DirectForwardFundraiser.sol with solc-js and
+ *          deploys it on an in-process ganache node, exposed as a JsonRpcClient
+ * ACCESS: import { startChain } from './helpers/chain'; call `stop()` when the suite is done
+ * NOTES:
+ * - The contract imports `openzeppelin-contracts/...` (Foundry layout); it is remapped onto the
+ *   @openzeppelin/contracts package, where v5 moved ReentrancyGuard from security/ to utils/
+ * - Compiled for shanghai, the newest hardfork ganache runs
+ * - Accounts are unlocked, so writes go through eth_sendTransaction like a browser wallet
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ganache from 'ganache';
+import solc from 'solc';
+import { getTransactionReceipt, type Hex, type JsonRpcClient, type JsonRpcRequest } from '@/lib/evm';
+
+const CONTRACTS_DIR = path.resolve(__dirname, '..', '..', '..', 'contracts');
+const OPENZEPPELIN_DIR = path.dirname(require.resolve('@openzeppelin/contracts/package.json'));
+
+export const CHAIN_ID = 7001;
+const ACCOUNT_BALANCE = '0x3635c9adc5dea00000'; // 1000 ETH
+
+// Fixed keys so addresses are the same on every run
+export const PRIVATE_KEYS: Hex[] = Array.from(
+  { length: 4 },
+  (_, i) => `0x${(i + 1).toString(16).padStart(64, '0')}` as Hex
+);
+
+type SolcOutput = {
+  errors?: { severity: string; formattedMessage: string }[];
+  contracts: Record<string, Record<string, { evm: { bytecode: { object: string } } }>>;
+};
+
+function findImport(unit: string): { contents: string } | { error: string } {
+  const file = unit.startsWith('@openzeppelin/contracts/')
+    ? path.join(OPENZEPPELIN_DIR, unit.slice('@openzeppelin/contracts/'.length))
+    : path.join(CONTRACTS_DIR, unit);
+  try {
+    return { contents: fs.readFileSync(file, 'utf8') };
+  } catch {
+    return { error: `Source not found: ${unit}` };
+  }
+}
+
+let bytecode: Hex | null = null;
+
+/** Creation bytecode of DirectForwardFundraiser (compiled once per process) */
+export function fundraiserBytecode(): Hex {
+  if (bytecode) return bytecode;
+  const input = {
+    language: 'Solidity',
+    sources: { 'DirectForwardFundraiser.sol': { content: fs.readFileSync(path.join(CONTRACTS_DIR, 'DirectForwardFundraiser.sol'), 'utf8') } },
+    settings: {
+      evmVersion: 'shanghai',
+      optimizer: { enabled: true, runs: 200 },
+      remappings: [
+        'openzeppelin-contracts/security/=@openzeppelin/contracts/utils/',
+        'openzeppelin-contracts/=@openzeppelin/contracts/',
+      ],
+      outputSelection: { '*': { '*': ['evm.bytecode.object'] } },
+    },
+  };
+  const output: SolcOutput = JSON.parse(solc.compile(JSON.stringify(input), { import: findImport }));
+  const errors = (output.errors || []).filter(error => error.severity === 'error');
+  if (errors.length) throw new Error(errors.map(error => error.formattedMessage).join('\n'));
+  bytecode = `0x${output.contracts['DirectForwardFundraiser.sol'].DirectForwardFundraiser.evm.bytecode.object}` as Hex;
+  return bytecode;
+}
+
+export type LocalChain = {
+  client: JsonRpcClient;
+  accounts: Hex[];
+  /** Deploys a fresh DirectForwardFundraiser owned by `owner` */
+  deployFundraiser(owner: Hex): Promise<Hex>;
+  /** Mines an empty block (one more confirmation for everything before it) */
+  mine(): Promise<void>;
+  stop(): Promise<void>;
+};
+
+export async function startChain(): Promise<LocalChain> {
+  const provider = ganache.provider({
+    chain: { chainId: CHAIN_ID, hardfork: 'shanghai' },
+    wallet: { accounts: PRIVATE_KEYS.map(secretKey => ({ secretKey, balance: ACCOUNT_BALANCE })) },
+    // Wallets estimate gas for each transaction; ganache would otherwise send 90k
+    miner: { defaultTransactionGasLimit: 'estimate' },
+    logging: { quiet: true },
+  });
+  const client: JsonRpcClient = {
+    // ganache types every method's params; the app's client is untyped JSON-RPC
+    request: <T>({ method, params = [] }: JsonRpcRequest) => provider.request({ method, params: [...params] } as never) as Promise<T>,
+  };
+  const accounts = (await client.request<string[]>({ method: 'eth_accounts' })).map(a => a.toLowerCase() as Hex);
+
+  async function deployFundraiser(owner: Hex): Promise<Hex> {
+    // Constructor args: (initialOwner, zetaSystem); the cross-chain hooks are not exercised here
+    const args = [owner, accounts[accounts.length - 1]].map(a => a.slice(2).padStart(64, '0')).join('');
+    const hash = await client.request<Hex>({
+      method: 'eth_sendTransaction',
+      params: [{ from: owner, data: `${fundraiserBytecode()}${args}`, gas: '0x4c4b40' }],
+    });
+    const receipt = await getTransactionReceipt(client, hash);
+    if (!receipt || receipt.status !== 'success' || !receipt.contractAddress) {
+      throw new Error(`Fundraiser deployment failed (${hash})`);
+    }
+    return receipt.contractAddress;
+  }
+
+  return {
+    client,
+    accounts,
+    deployFundraiser,
+    mine: async () => {
+      await client.request({ method: 'evm_mine' });
+    },
+    stop: () => provider.disconnect(),
+  };
+}
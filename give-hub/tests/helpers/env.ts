@@ -0,0 +1,18 @@
+/**
+ * FILE: tests/helpers/env.ts
+ * PURPOSE: Points the stores tests write to at a throwaway directory: the mock database (SQLite,
+ *          seeded from the JSON files in _dev/mock-db, which stay untouched) and the mail outbox
+ * ACCESS: Import first in test files that touch `db`, before anything that imports it
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'givehub-test-'));
+
+process.env.DB_DRIVER = 'sqlite';
+process.env.SQLITE_PATH = path.join(dir, 'givehub.sqlite');
+process.env.MAIL_OUTBOX_DIR = path.join(dir, 'outbox');
+
+process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
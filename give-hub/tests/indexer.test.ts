@@ -0,0 +1,156 @@
+/**
+ * FILE: tests/indexer.test.ts
+ * PURPOSE: The event indexer (lib/indexer) against the fundraiser contract on a local chain:
+ *          checkpointing, adoption of route-recorded donations, unlinked donations settling once
+ *          their campaign is linked, and reorg rollback (ganache evm_snapshot / evm_revert)
+ * NOTES:
+ * - The ledger runs on a throwaway SQLite database (./helpers/env)
+ * - Tests share one chain and run in order; each works on its own donations
+ */
+
+import './helpers/env';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { db, type Campaign } from '@/_dev/mock-db/database';
+import { POST } from '@/app/api/payments/route';
+import { fundraiserContract, type FundraiserContract } from '@/lib/contracts';
+import { ZERO_ADDRESS, getBlockNumber, type Hex } from '@/lib/evm';
+import { findChainCampaign, runIndexer, type ChainEvent } from '@/lib/indexer';
+import { setOnChainRpcClient } from '@/lib/payments/onchain';
+import { CHAIN_ID, startChain, type LocalChain } from './helpers/chain';
+
+const ETHER = BigInt(10) ** BigInt(18);
+const NATIVE_USD_PRICE = 2;
+
+describe('chain event indexer', () => {
+  let chain: LocalChain;
+  let fundraiser: FundraiserContract;
+  let creator: Hex;
+  let donor: Hex;
+  let campaign: Campaign;
+
+  const raised = (id = campaign.id) => db.findCampaignById(id)?.raised ?? 0;
+  const chainEvent = (txHash: Hex) => db.listRecords<ChainEvent>('chain_events', { txHash })[0];
+  const index = () => runIndexer({ client: chain.client });
+
+  async function donate(onChainCampaignId: bigint, value: bigint): Promise<Hex> {
+    const sent = await fundraiser.donate([onChainCampaignId, ZERO_ADDRESS, value, 'Ada'], { account: donor, value });
+    assert.ok(sent.ok, sent.ok ? undefined : sent.error.message);
+    return sent.value.hash;
+  }
+
+  async function createOnChainCampaign(): Promise<bigint> {
+    const sent = await fundraiser.createCampaign([ZERO_ADDRESS, BigInt(0), BigInt(0)], { account: creator });
+    assert.ok(sent.ok, sent.ok ? undefined : sent.error.message);
+    return sent.value.events.find(event => event.eventName === 'CampaignCreated')?.args.campaignId as bigint;
+  }
+
+  const linkedCampaign = (onChainCampaignId: string, title: string) => db.createCampaign({
+    title,
+    description: 'Indexer test campaign',
+    goal: 1000,
+    raised: 0,
+    chains: ['zetachain'],
+    creatorId: 'indexer-test-creator',
+    status: 'active',
+    contractOwnership: { verified: true, onChainCampaignId, chainId: CHAIN_ID },
+  });
+
+  before(async () => {
+    chain = await startChain();
+    const [owner] = chain.accounts;
+    [, creator, donor] = chain.accounts;
+    const address = await chain.deployFundraiser(owner);
+    fundraiser = fundraiserContract({ client: chain.client, address, wait: { pollIntervalMs: 10 } });
+    assert.equal(await createOnChainCampaign(), BigInt(1));
+    assert.equal(await createOnChainCampaign(), BigInt(2));
+
+    process.env.ZETACHAIN_CHAIN_ID = String(CHAIN_ID);
+    process.env.FUNDRAISER_CONTRACT_ADDRESS = address;
+    process.env.ZETACHAIN_NATIVE_USD_PRICE = String(NATIVE_USD_PRICE);
+    setOnChainRpcClient(chain.client);
+
+    campaign = linkedCampaign('1', 'Books for the village library');
+  });
+
+  after(async () => {
+    setOnChainRpcClient(null);
+    await chain.stop();
+  });
+
+  it('indexes a donation and resumes from its checkpoint', async () => {
+    const hash = await donate(BigInt(1), ETHER);
+
+    const report = await index();
+    assert.equal(report.configured, true);
+    assert.equal(report.donations, 1);
+    assert.equal(report.indexedTo, Number(await getBlockNumber(chain.client)));
+    assert.equal(report.caughtUp, true);
+    assert.equal(raised(), 2);
+    assert.equal(chainEvent(hash)?.status, 'recorded');
+    assert.equal(findChainCampaign('1')?.creator, creator);
+
+    const again = await index();
+    assert.equal(again.events, 0);
+    assert.equal(again.donations, 0);
+    assert.equal(raised(), 2);
+  });
+
+  it('adopts a donation already recorded by /api/payments', async () => {
+    const hash = await donate(BigInt(1), ETHER);
+    const response = await POST(new NextRequest('http://localhost/api/payments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ campaignId: campaign.id, amount: 2, chain: 'zetachain', donorName: 'Ada', txHash: hash }),
+    }));
+    assert.equal(response.status, 200);
+    const before = raised();
+
+    const report = await index();
+    assert.equal(report.adopted, 1);
+    assert.equal(report.donations, 0);
+    assert.equal(raised(), before);
+    const recorded = db.getAllDonations().filter(donation => donation.txId === hash);
+    assert.equal(recorded.length, 1);
+    assert.equal(chainEvent(hash)?.donationId, recorded[0].id);
+  });
+
+  it('records an unlinked donation once its campaign is linked', async () => {
+    const hash = await donate(BigInt(2), ETHER);
+
+    const waiting = await index();
+    assert.equal(waiting.donations, 0);
+    assert.equal(waiting.pending, 1);
+    assert.equal(chainEvent(hash)?.status, 'unlinked');
+
+    const linked = linkedCampaign('2', 'Clean water for the school');
+    const settled = await index();
+    assert.equal(settled.donations, 1);
+    assert.equal(settled.pending, 0);
+    assert.equal(chainEvent(hash)?.status, 'recorded');
+    assert.equal(raised(linked.id), 2);
+  });
+
+  it('rolls back donations from blocks a reorg dropped and indexes the new chain', async () => {
+    const before = raised();
+    const snapshot = await chain.client.request<string>({ method: 'evm_snapshot' });
+    const dropped = await donate(BigInt(1), ETHER);
+    assert.equal((await index()).donations, 1);
+    assert.equal(raised(), before + 2);
+
+    // The donation's block is replaced by one with a smaller donation, plus an empty block
+    assert.equal(await chain.client.request<boolean>({ method: 'evm_revert', params: [snapshot] }), true);
+    const canonical = await donate(BigInt(1), ETHER / BigInt(2));
+    await chain.mine();
+
+    const report = await index();
+    assert.equal(report.reversed, 1);
+    assert.ok(report.reorgAncestor !== undefined);
+    assert.equal(report.donations, 1);
+    assert.equal(raised(), before + 1);
+    assert.equal(chainEvent(dropped), undefined);
+    assert.equal(chainEvent(canonical)?.status, 'recorded');
+    assert.equal(db.getAllDonations().filter(donation => donation.txId === dropped).length, 0);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * FILE: tests/ledger.test.ts
+ * PURPOSE: recordDonation() / reverseDonation(): the donation entry, campaign `raised`, creator
+ *          `totalRaised`, donor totals and the receipt change together or not at all
+ */
+
+import './helpers/env';
+import { afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { db, type Campaign, type Creator } from '@/_dev/mock-db/database';
+import { recordDonation, reverseDonation } from '@/lib/ledger';
+import { findReceipt, listDonorReceipts } from '@/lib/receipts';
+
+const CREATOR_ID = 'creator_1';
+const DONOR_ID = 'user_1754982187749';
+
+describe('donation ledger', () => {
+  let campaign: Campaign;
+
+  const raised = () => db.findCampaignById(campaign.id)?.raised;
+  const totalRaised = () => (db.findUserById(CREATOR_ID) as Creator).totalRaised;
+  const donor = () => db.findUserById(DONOR_ID);
+  const newCampaign = (title: string) => ({
+    title,
+    description: 'Donations for the ledger tests',
+    goal: 1000,
+    raised: 0,
+    chains: ['Ethereum'],
+    creatorId: CREATOR_ID,
+    status: 'active' as const,
+  });
+  const donate = (amount: number, txId?: string) =>
+    recordDonation({ campaignId: campaign.id, amount, chain: 'Ethereum', donorName: 'Ada', donorId: DONOR_ID, txId });
+
+  before(() => {
+    campaign = db.createCampaign(newCampaign('Ledger test campaign'));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('records the donation, every total and a receipt in one unit', () => {
+    const creatorBefore = totalRaised() ?? 0;
+
+    const recorded = donate(25.5);
+    assert.ok(recorded.ok);
+    assert.equal(raised(), 25.5);
+    assert.equal(totalRaised(), creatorBefore + 25.5);
+    assert.equal(donor()?.totalDonated, 25.5);
+    assert.deepEqual(donor()?.donatedCampaigns, [campaign.id]);
+    assert.equal(findReceipt(recorded.receipt.id)?.donationId, recorded.donation.id);
+  });
+
+  it('leaves everything untouched when a write fails part-way', () => {
+    const before = { raised: raised(), totalRaised: totalRaised(), donor: donor(), receipts: listDonorReceipts(DONOR_ID).length };
+    const donations = db.getAllDonations().length;
+    // The donation entry and campaign total are written before the creator's, which fails
+    mock.method(db, 'updateUser', () => {
+      throw new Error('disk full');
+    });
+    mock.method(console, 'error', () => {});
+
+    const recorded = donate(10);
+    assert.deepEqual(recorded, { ok: false, error: 'Failed to record donation', status: 500 });
+    mock.restoreAll();
+
+    assert.equal(db.getAllDonations().length, donations);
+    assert.equal(raised(), before.raised);
+    assert.equal(totalRaised(), before.totalRaised);
+    assert.deepEqual(donor(), before.donor);
+    assert.equal(listDonorReceipts(DONOR_ID).length, before.receipts);
+  });
+
+  it('refuses a transaction hash that is already recorded', () => {
+    assert.ok(donate(5, '0xabc').ok);
+    const before = raised();
+    assert.deepEqual(donate(5, '0xabc'), { ok: false, error: 'This transaction has already been recorded', status: 409 });
+    assert.equal(raised(), before);
+  });
+
+  it('reverses a donation: entry removed, totals decremented, receipt voided', () => {
+    const recorded = donate(40);
+    assert.ok(recorded.ok);
+    const before = { raised: raised() ?? 0, totalRaised: totalRaised() ?? 0, totalDonated: donor()?.totalDonated ?? 0 };
+
+    const reversed = reverseDonation(recorded.donation.id as string, 'Chain reorganization');
+    assert.ok(reversed.ok);
+    assert.equal(raised(), before.raised - 40);
+    assert.equal(totalRaised(), before.totalRaised - 40);
+    assert.equal(donor()?.totalDonated, before.totalDonated - 40);
+    // Earlier donations to the campaign still count, so it stays in the donor's list
+    assert.deepEqual(donor()?.donatedCampaigns, [campaign.id]);
+    assert.equal(db.getAllDonations().some(donation => donation.id === recorded.donation.id), false);
+    const receipt = findReceipt(recorded.receipt.id);
+    assert.ok(receipt?.voidedAt);
+    assert.equal(receipt?.voidReason, 'Chain reorganization');
+
+    assert.equal(reverseDonation(recorded.donation.id as string, 'again').ok, false);
+  });
+
+  it('drops the campaign from the donor\'s list when their last donation to it is reversed', () => {
+    const other = db.createCampaign(newCampaign('Second ledger campaign'));
+    const recorded = recordDonation({ campaignId: other.id, amount: 3, chain: 'Ethereum', donorName: 'Ada', donorId: DONOR_ID });
+    assert.ok(recorded.ok);
+    assert.ok(donor()?.donatedCampaigns?.includes(other.id));
+
+    assert.ok(reverseDonation(recorded.donation.id as string, 'Refunded').ok);
+    assert.equal(donor()?.donatedCampaigns?.includes(other.id), false);
+    assert.equal(db.findCampaignById(other.id)?.raised, 0);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * FILE: tests/lifecycle.test.ts
+ * PURPOSE: planLifecycleChange() transitions that touch the start/end window
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getCampaignStatus, planLifecycleChange } from '@/lib/lifecycle';
+
+const NOW = Date.parse('2026-03-01T12:00:00.000Z');
+const DAY = 24 * 60 * 60 * 1000;
+const iso = (ms: number) => new Date(ms).toISOString();
+
+describe('planLifecycleChange', () => {
+  it('ends an active campaign now', () => {
+    const planned = planLifecycleChange({ status: 'active', startsAt: iso(NOW - DAY) }, { status: 'ended' }, NOW);
+    assert.deepEqual(planned, { ok: true, update: { endsAt: iso(NOW) } });
+  });
+
+  it('ends a paused campaign that has opened', () => {
+    const planned = planLifecycleChange({ status: 'paused', startsAt: iso(NOW - DAY) }, { status: 'ended' }, NOW);
+    assert.deepEqual(planned, { ok: true, update: { endsAt: iso(NOW) } });
+  });
+
+  it('refuses to end a paused campaign before its start', () => {
+    const campaign = { status: 'paused' as const, startsAt: iso(NOW + DAY) };
+    assert.equal(getCampaignStatus(campaign, NOW), 'paused');
+    const planned = planLifecycleChange(campaign, { status: 'ended' }, NOW);
+    assert.deepEqual(planned, { ok: false, error: 'Campaign has not started yet; cancel it instead', status: 409 });
+    assert.deepEqual(planLifecycleChange(campaign, { status: 'cancelled' }, NOW), { ok: true, update: { status: 'cancelled' } });
+  });
+});
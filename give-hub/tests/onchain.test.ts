@@ -0,0 +1,235 @@
+/**
+ * FILE: tests/onchain.test.ts
+ * PURPOSE: Server-side verification of on-chain donations (lib/payments/onchain) end to end:
+ *          donate() on a local chain, then POST /api/payments with the transaction hash
+ * NOTES:
+ * - The ledger runs on a throwaway SQLite database (./helpers/env)
+ */
+
+import './helpers/env';
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { db, type Campaign } from '@/_dev/mock-db/database';
+import { POST } from '@/app/api/payments/route';
+import { FORWARD_FUNDRAISER_ABI, fundraiserContract, type FundraiserContract } from '@/lib/contracts';
+import { ZERO_ADDRESS, encodeFunctionData, toHex, type Hex } from '@/lib/evm';
+import { DONATION_CHAIN, quoteDonation, setOnChainRpcClient, verifyDonationTx } from '@/lib/payments/onchain';
+import { CHAIN_ID, startChain, type LocalChain } from './helpers/chain';
+
+const ETHER = BigInt(10) ** BigInt(18);
+const NATIVE_USD_PRICE = 2;
+
+type PaymentResponse = {
+  status: number;
+  body: { error?: string; txId?: string; donation?: { amount: number; chain: string } };
+};
+
+async function postPayment(payload: Record<string, unknown>): Promise<PaymentResponse> {
+  const request = new NextRequest('http://localhost/api/payments', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  const response = await POST(request);
+  return { status: response.status, body: await response.json() };
+}
+
+describe('on-chain donations', () => {
+  let chain: LocalChain;
+  let contractAddress: Hex;
+  let fundraiser: FundraiserContract;
+  let creator: Hex;
+  let donor: Hex;
+  let campaign: Campaign;
+
+  const raised = () => db.findCampaignById(campaign.id)?.raised;
+
+  // donate() from the donor's wallet through the contract client, as the payment modal does
+  async function donate(onChainCampaignId: bigint, value: bigint, contract = fundraiser): Promise<Hex> {
+    const sent = await contract.donate([onChainCampaignId, ZERO_ADDRESS, value, 'Ada'], { account: donor, value });
+    assert.ok(sent.ok, sent.ok ? undefined : sent.error.message);
+    return sent.value.hash;
+  }
+
+  async function createOnChainCampaign(contract: FundraiserContract): Promise<bigint> {
+    const sent = await contract.createCampaign([ZERO_ADDRESS, BigInt(0), BigInt(0)], { account: creator });
+    assert.ok(sent.ok, sent.ok ? undefined : sent.error.message);
+    return sent.value.events.find(event => event.eventName === 'CampaignCreated')?.args.campaignId as bigint;
+  }
+
+  const payment = (txHash: string, amount = 10) => ({ campaignId: campaign.id, amount, chain: 'zetachain', donorName: 'Ada', txHash });
+
+  before(async () => {
+    chain = await startChain();
+    const [owner] = chain.accounts;
+    [, creator, donor] = chain.accounts;
+    contractAddress = await chain.deployFundraiser(owner);
+    fundraiser = fundraiserContract({ client: chain.client, address: contractAddress, wait: { pollIntervalMs: 10 } });
+    assert.equal(await createOnChainCampaign(fundraiser), BigInt(1));
+    assert.equal(await createOnChainCampaign(fundraiser), BigInt(2));
+
+    process.env.ZETACHAIN_CHAIN_ID = String(CHAIN_ID);
+    process.env.FUNDRAISER_CONTRACT_ADDRESS = contractAddress;
+    process.env.ZETACHAIN_NATIVE_USD_PRICE = String(NATIVE_USD_PRICE);
+    setOnChainRpcClient(chain.client);
+
+    campaign = db.createCampaign({
+      title: 'Books for the village library',
+      description: 'On-chain verification test campaign',
+      goal: 1000,
+      raised: 0,
+      chains: ['zetachain'],
+      creatorId: 'onchain-test-creator',
+      status: 'active',
+      contractOwnership: { verified: true, onChainCampaignId: '1', chainId: CHAIN_ID },
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.ZETACHAIN_CONFIRMATIONS;
+  });
+
+  after(async () => {
+    setOnChainRpcClient(null);
+    await chain.stop();
+  });
+
+  it('quotes donate() for the linked on-chain campaign', () => {
+    const quoted = quoteDonation(campaign, 10);
+    assert.ok(quoted.ok);
+    assert.deepEqual(quoted.quote, {
+      chainId: CHAIN_ID,
+      contractAddress,
+      onChainCampaignId: '1',
+      token: ZERO_ADDRESS,
+      amountUsd: 10,
+      value: (BigInt(5) * ETHER).toString(),
+    });
+  });
+
+  it('records a verified donate() at the amount in its Donation event, not the claimed one', async () => {
+    const quoted = quoteDonation(campaign, 10);
+    assert.ok(quoted.ok);
+    const hash = await donate(BigInt(quoted.quote.onChainCampaignId), BigInt(quoted.quote.value));
+    const before = raised();
+
+    const res = await postPayment(payment(hash, 500));
+    assert.equal(res.status, 200, res.body.error);
+    assert.equal(res.body.txId, hash);
+    assert.equal(res.body.donation?.amount, 10);
+    assert.equal(raised(), (before ?? 0) + 10);
+    assert.equal(db.getAllDonations().filter(donation => donation.txId === hash).length, 1);
+  });
+
+  it('records the indexer\'s chain label, not the one in the request', async () => {
+    const hash = await donate(BigInt(1), ETHER);
+    const res = await postPayment(payment(hash, 2));
+    assert.equal(res.status, 200, res.body.error);
+    assert.equal(res.body.donation?.chain, DONATION_CHAIN);
+    assert.equal(db.getAllDonations().find(donation => donation.txId === hash)?.chain, 'ZetaChain');
+  });
+
+  it('refuses to record the same transaction twice', async () => {
+    const hash = await donate(BigInt(1), ETHER);
+    assert.equal((await postPayment(payment(hash, 2))).status, 200);
+    const before = raised();
+
+    const replay = await postPayment(payment(hash, 2));
+    assert.equal(replay.status, 409);
+    assert.match(replay.body.error ?? '', /already been recorded/);
+    assert.equal(raised(), before);
+  });
+
+  it('refuses a donation to a different on-chain campaign', async () => {
+    const hash = await donate(BigInt(2), ETHER);
+    const res = await postPayment(payment(hash, 2));
+    assert.equal(res.status, 400);
+    assert.match(res.body.error ?? '', /does not contain a donation to this campaign/);
+  });
+
+  it('refuses a donation to a look-alike contract', async () => {
+    const impostor = fundraiserContract({
+      client: chain.client,
+      address: await chain.deployFundraiser(donor),
+      wait: { pollIntervalMs: 10 },
+    });
+    await createOnChainCampaign(impostor);
+    const hash = await donate(BigInt(1), ETHER, impostor);
+
+    const res = await postPayment(payment(hash, 2));
+    assert.equal(res.status, 400);
+    assert.match(res.body.error ?? '', /not sent to the fundraiser contract/);
+  });
+
+  it('refuses a reverted transaction', async () => {
+    // A wallet that skips simulation: donate() with a msg.value below the amount is mined and reverts
+    const hash = await chain.client.request<Hex>({
+      method: 'eth_sendTransaction',
+      params: [{
+        from: donor,
+        to: contractAddress,
+        data: encodeFunctionData(FORWARD_FUNDRAISER_ABI, 'donate', [BigInt(1), ZERO_ADDRESS, ETHER, 'Ada']),
+        value: toHex(ETHER / BigInt(100)),
+        gas: toHex(200_000),
+      }],
+    });
+    const before = raised();
+
+    const res = await postPayment(payment(hash, 2));
+    assert.equal(res.status, 400);
+    assert.match(res.body.error ?? '', /reverted/);
+    assert.equal(raised(), before);
+  });
+
+  it('waits for the configured confirmations', async () => {
+    process.env.ZETACHAIN_CONFIRMATIONS = '2';
+    const hash = await donate(BigInt(1), ETHER);
+
+    const early = await verifyDonationTx(campaign, hash);
+    assert.deepEqual(early, { ok: false, error: 'Transaction is waiting for confirmations', status: 409 });
+
+    await chain.mine();
+    const confirmed = await verifyDonationTx(campaign, hash);
+    assert.ok(confirmed.ok);
+    assert.equal(confirmed.amount, 2);
+    assert.equal(confirmed.donor, donor);
+    assert.equal(confirmed.value, ETHER);
+  });
+
+  it('answers 409 for a hash the chain does not know and 400 for a malformed one', async () => {
+    const unknown = await verifyDonationTx(campaign, `0x${'ab'.repeat(32)}`);
+    assert.deepEqual(unknown, { ok: false, error: 'Transaction is not mined yet', status: 409 });
+    const malformed = await postPayment(payment('0x1234'));
+    assert.equal(malformed.status, 400);
+  });
+
+  it('refuses a payment without a transaction hash to a campaign linked on-chain', async () => {
+    const before = raised();
+    const res = await postPayment({ campaignId: campaign.id, amount: 10, chain: 'zetachain', donorName: 'Ada' });
+    assert.equal(res.status, 400);
+    assert.match(res.body.error ?? '', /on-chain donations only/);
+    assert.equal(raised(), before);
+  });
+
+  it('refuses a payment without a transaction hash under the ZetaChain provider', async () => {
+    const unlinked = db.createCampaign({
+      title: 'Clean water for the school',
+      description: 'Not deployed on-chain',
+      goal: 500,
+      raised: 0,
+      chains: ['zetachain'],
+      creatorId: 'onchain-test-creator',
+      status: 'active',
+    });
+    const mock = { campaignId: unlinked.id, amount: 10, chain: 'zetachain', donorName: 'Ada' };
+    process.env.NEXT_PUBLIC_PAYMENT_PROVIDER = 'zetachain';
+    try {
+      const res = await postPayment(mock);
+      assert.equal(res.status, 400);
+      assert.equal(db.findCampaignById(unlinked.id)?.raised, 0);
+    } finally {
+      delete process.env.NEXT_PUBLIC_PAYMENT_PROVIDER;
+    }
+  });
+});
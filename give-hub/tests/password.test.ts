@@ -0,0 +1,78 @@
+/**
+ * FILE: tests/password.test.ts
+ * PURPOSE: scrypt password hashing (lib/auth/password) and the upgrade of legacy `hashed_`
+ *          values and weaker scrypt parameters on signin
+ */
+
+import './helpers/env';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes, scryptSync } from 'crypto';
+import { db } from '@/_dev/mock-db/database';
+import { authService } from '@/lib/auth';
+import { hashPassword, needsRehash, verifyPassword } from '@/lib/auth/password';
+
+const PASSWORD = 'correct horse 42';
+
+describe('password hashing', () => {
+  it('hashes with scrypt, a fresh salt each time, and verifies', async () => {
+    const first = await hashPassword(PASSWORD);
+    const second = await hashPassword(PASSWORD);
+    assert.match(first, /^scrypt\$16384\$8\$1\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/);
+    assert.notEqual(first, second);
+
+    assert.equal(await verifyPassword(PASSWORD, first), true);
+    assert.equal(await verifyPassword('correct horse 43', first), false);
+    assert.equal(needsRehash(first), false);
+  });
+
+  it('verifies legacy values and flags them for rehashing', async () => {
+    assert.equal(await verifyPassword(PASSWORD, `hashed_${PASSWORD}`), true);
+    assert.equal(await verifyPassword('other', `hashed_${PASSWORD}`), false);
+    assert.equal(needsRehash(`hashed_${PASSWORD}`), true);
+  });
+
+  it('verifies hashes made with weaker parameters and flags them', async () => {
+    const salt = randomBytes(16);
+    const hash = scryptSync(PASSWORD, salt, 64, { N: 1024, r: 8, p: 1 });
+    const weak = ['scrypt', 1024, 8, 1, salt.toString('base64'), hash.toString('base64')].join('$');
+    assert.equal(await verifyPassword(PASSWORD, weak), true);
+    assert.equal(needsRehash(weak), true);
+  });
+
+  it('rejects missing and malformed values', async () => {
+    assert.equal(await verifyPassword(PASSWORD, undefined), false);
+    assert.equal(await verifyPassword(PASSWORD, ''), false);
+    assert.equal(await verifyPassword(PASSWORD, 'scrypt$0$8$1$x$y'), false);
+    assert.equal(await verifyPassword(PASSWORD, PASSWORD), false);
+  });
+});
+
+describe('signin rehash', () => {
+  const legacyUser = (username: string) => db.createUser({
+    username,
+    email: `${username}@example.com`,
+    password: `hashed_${PASSWORD}`,
+    role: 'user',
+  });
+
+  it('replaces a legacy value with a scrypt hash on a successful signin', async () => {
+    const user = legacyUser('legacy_upgrade');
+
+    const result = await authService.signin({ emailOrUsername: user.email, password: PASSWORD });
+    assert.equal(result.success, true);
+    const stored = db.findUserById(user.id)?.password ?? '';
+    assert.match(stored, /^scrypt\$/);
+    assert.equal(await verifyPassword(PASSWORD, stored), true);
+
+    // The upgraded hash keeps working
+    assert.equal((await authService.signin({ emailOrUsername: user.username, password: PASSWORD })).success, true);
+  });
+
+  it('leaves the legacy value alone when the password is wrong', async () => {
+    const user = legacyUser('legacy_wrong');
+    const result = await authService.signin({ emailOrUsername: user.email, password: 'not it 1' });
+    assert.deepEqual(result, { success: false, error: 'Invalid credentials' });
+    assert.equal(db.findUserById(user.id)?.password, `hashed_${PASSWORD}`);
+  });
+});
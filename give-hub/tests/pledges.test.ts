@@ -0,0 +1,172 @@
+/**
+ * FILE: tests/pledges.test.ts
+ * PURPOSE: Recurring pledges: installment dates and the dunning plan (lib/pledges/schedule), the
+ *          pending reservation that stops two concurrent createPledge() calls, and dunning end to end
+ * NOTES:
+ * - Charges go through the mock provider; MOCK_RECURRING_FAILURE_RATE=1 makes them decline
+ */
+
+import './helpers/env';
+import { afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { db, type Campaign } from '@/_dev/mock-db/database';
+import { changePledge, collectInstallment, createPledge, type Pledge } from '@/lib/pledges';
+import {
+  MAX_CHARGE_ATTEMPTS,
+  RETRY_DELAYS_MS,
+  addInterval,
+  monthlyEquivalent,
+  nextDueAfter,
+  retryAt,
+} from '@/lib/pledges/schedule';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('pledge schedule', () => {
+  it('adds a week, a month or a year', () => {
+    assert.equal(addInterval('2026-03-10T09:30:00.000Z', 'weekly', 10), '2026-03-17T09:30:00.000Z');
+    assert.equal(addInterval('2026-03-10T09:30:00.000Z', 'monthly', 10), '2026-04-10T09:30:00.000Z');
+    assert.equal(addInterval('2026-12-10T09:30:00.000Z', 'monthly', 10), '2027-01-10T09:30:00.000Z');
+    assert.equal(addInterval('2026-03-10T09:30:00.000Z', 'yearly', 10), '2027-03-10T09:30:00.000Z');
+  });
+
+  it('clamps to short months and returns to the anchor day after', () => {
+    const feb = addInterval('2026-01-31T12:00:00.000Z', 'monthly', 31);
+    assert.equal(feb, '2026-02-28T12:00:00.000Z');
+    assert.equal(addInterval(feb, 'monthly', 31), '2026-03-31T12:00:00.000Z');
+    assert.equal(addInterval('2028-01-31T12:00:00.000Z', 'monthly', 31), '2028-02-29T12:00:00.000Z');
+    assert.equal(addInterval('2028-02-29T12:00:00.000Z', 'yearly', 29), '2029-02-28T12:00:00.000Z');
+    assert.equal(addInterval('2029-02-28T12:00:00.000Z', 'yearly', 29), '2030-02-28T12:00:00.000Z');
+  });
+
+  it('skips missed installments instead of back-charging them', () => {
+    const now = Date.parse('2026-06-20T00:00:00.000Z');
+    assert.equal(nextDueAfter('2026-01-15T08:00:00.000Z', 'monthly', 15, now), '2026-07-15T08:00:00.000Z');
+    assert.equal(nextDueAfter('2026-06-01T08:00:00.000Z', 'weekly', 1, now), '2026-06-22T08:00:00.000Z');
+  });
+
+  it('retries after 1, 3 and 5 days, then gives up', () => {
+    const now = Date.parse('2026-06-20T00:00:00.000Z');
+    assert.equal(MAX_CHARGE_ATTEMPTS, RETRY_DELAYS_MS.length + 1);
+    assert.equal(retryAt(1, now), new Date(now + DAY).toISOString());
+    assert.equal(retryAt(2, now), new Date(now + 3 * DAY).toISOString());
+    assert.equal(retryAt(3, now), new Date(now + 5 * DAY).toISOString());
+    assert.equal(retryAt(4, now), null);
+  });
+
+  it('normalizes amounts to a month', () => {
+    assert.equal(monthlyEquivalent(12, 'weekly'), 52);
+    assert.equal(monthlyEquivalent(120, 'yearly'), 10);
+  });
+});
+
+describe('createPledge', () => {
+  let campaign: Campaign;
+  let donors = 0;
+  const newDonor = () => {
+    donors += 1;
+    const user = db.createUser({ username: `pledger_${donors}`, email: `pledger${donors}@example.com`, password: '', role: 'user' });
+    return { id: user.id, username: user.username };
+  };
+  const input = { amount: 20, chain: 'Ethereum', interval: 'monthly' };
+  const pledgesOf = (donorId: string) => db.listRecords<Pledge>('pledges', { donorId, campaignId: campaign.id });
+  const donationsOf = (donorId: string) => db.getAllDonations().filter(donation => donation.donorId === donorId);
+
+  before(() => {
+    campaign = db.createCampaign({
+      title: 'Monthly meals',
+      description: 'Pledge test campaign',
+      goal: 1000,
+      raised: 0,
+      chains: ['Ethereum'],
+      creatorId: 'creator_1',
+      status: 'active',
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.MOCK_RECURRING_FAILURE_RATE;
+  });
+
+  it('lets only one of two concurrent requests create the pledge and charge', async () => {
+    const donor = newDonor();
+    const results = await Promise.all([
+      createPledge(donor, { ...input, campaignId: campaign.id }),
+      createPledge(donor, { ...input, campaignId: campaign.id }),
+    ]);
+
+    assert.deepEqual(results.map(result => result.ok).sort(), [false, true]);
+    const refused = results.find(result => !result.ok);
+    assert.equal(refused && !refused.ok ? refused.status : null, 409);
+    assert.equal(pledgesOf(donor.id).length, 1);
+    assert.equal(pledgesOf(donor.id)[0].status, 'active');
+    assert.equal(donationsOf(donor.id).length, 1);
+  });
+
+  it('blocks changes while the first charge is pending', async () => {
+    const donor = newDonor();
+    const pending = createPledge(donor, { ...input, campaignId: campaign.id });
+    const [reserved] = pledgesOf(donor.id);
+    assert.equal(reserved.status, 'pending');
+    assert.deepEqual(changePledge(donor.id, reserved.id, { action: 'cancel' }), { ok: false, error: 'The first payment is still processing', status: 409 });
+
+    assert.ok((await pending).ok);
+  });
+
+  it('drops the reservation when the first charge is declined', async () => {
+    const donor = newDonor();
+    process.env.MOCK_RECURRING_FAILURE_RATE = '1';
+    const declined = await createPledge(donor, { ...input, campaignId: campaign.id });
+    assert.equal(declined.ok, false);
+    assert.deepEqual(pledgesOf(donor.id), []);
+
+    delete process.env.MOCK_RECURRING_FAILURE_RATE;
+    assert.ok((await createPledge(donor, { ...input, campaignId: campaign.id })).ok);
+  });
+
+  it('replaces a reservation left behind by a charge that never finished', async () => {
+    const donor = newDonor();
+    const createdAt = new Date(Date.now() - DAY).toISOString();
+    db.insertRecord<Pledge>('pledges', {
+      id: 'stale-reservation',
+      donorId: donor.id,
+      campaignId: campaign.id,
+      amount: 20,
+      chain: 'Ethereum',
+      interval: 'monthly',
+      donorName: donor.username,
+      status: 'pending',
+      anchorDay: 1,
+      dueAt: createdAt,
+      nextChargeAt: createdAt,
+      failedAttempts: 0,
+      chargeCount: 0,
+      totalCharged: 0,
+      createdAt,
+      updatedAt: createdAt,
+    });
+
+    assert.ok((await createPledge(donor, { ...input, campaignId: campaign.id })).ok);
+    assert.equal(db.findRecord('pledges', 'stale-reservation'), null);
+    assert.equal(pledgesOf(donor.id).length, 1);
+  });
+
+  it('retries a declined installment on the dunning plan, then cancels', async () => {
+    const donor = newDonor();
+    const created = await createPledge(donor, { ...input, campaignId: campaign.id });
+    assert.ok(created.ok);
+    process.env.MOCK_RECURRING_FAILURE_RATE = '1';
+
+    let at = Date.parse(created.pledge.dueAt);
+    for (const delay of RETRY_DELAYS_MS) {
+      assert.equal(await collectInstallment(created.pledge.id, at), 'retrying');
+      const pledge: Pledge | null = db.findRecord<Pledge>('pledges', created.pledge.id);
+      assert.equal(pledge?.status, 'past_due');
+      assert.equal(pledge?.nextChargeAt, new Date(at + delay).toISOString());
+      at += delay;
+    }
+    assert.equal(await collectInstallment(created.pledge.id, at), 'cancelled');
+    assert.equal(db.findRecord<Pledge>('pledges', created.pledge.id)?.status, 'cancelled');
+    assert.equal(donationsOf(donor.id).length, 1);
+  });
+});
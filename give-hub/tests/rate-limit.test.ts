@@ -0,0 +1,71 @@
+/**
+ * FILE: tests/rate-limit.test.ts
+ * PURPOSE: getClientIp() - the connection address stamped by instrumentation, X-Forwarded-For
+ *          behind trusted proxies - and consumeByClientIp() failing open when neither is known
+ */
+
+import { afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { CONNECTION_ADDRESS_HEADER, MemoryTokenBucketLimiter, consumeByClientIp, getClientIp } from '@/lib/rate-limit';
+
+const TOKEN = 'test-connection-token';
+
+function request(headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest('http://localhost/api/auth/signin', { method: 'POST', headers });
+}
+
+const fromPeer = (address: string, extra: Record<string, string> = {}) =>
+  request({ [CONNECTION_ADDRESS_HEADER]: `${TOKEN} ${address}`, ...extra });
+
+describe('getClientIp', () => {
+  before(() => {
+    // What trackConnectionAddress() (instrumentation.ts) sets up at startup
+    (globalThis as typeof globalThis & { __giveHubConnectionToken?: string }).__giveHubConnectionToken = TOKEN;
+  });
+
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXY_HOPS;
+  });
+
+  it('uses the connection address and ignores a client-sent X-Forwarded-For', () => {
+    assert.equal(getClientIp(fromPeer('203.0.113.7')), '203.0.113.7');
+    assert.equal(getClientIp(fromPeer('203.0.113.7', { 'x-forwarded-for': '198.51.100.1' })), '203.0.113.7');
+  });
+
+  it('is unknown when the connection header is missing or forged', () => {
+    assert.equal(getClientIp(request()), null);
+    assert.equal(getClientIp(request({ [CONNECTION_ADDRESS_HEADER]: 'guessed-token 198.51.100.1' })), null);
+    assert.equal(getClientIp(request({ 'x-forwarded-for': '198.51.100.1' })), null);
+  });
+
+  it('takes the entry the outermost trusted proxy appended', () => {
+    const forwarded = { 'x-forwarded-for': '198.51.100.1, 203.0.113.9, 10.0.0.2' };
+    process.env.TRUSTED_PROXY_HOPS = '1';
+    assert.equal(getClientIp(fromPeer('10.0.0.3', forwarded)), '10.0.0.2');
+    process.env.TRUSTED_PROXY_HOPS = '2';
+    assert.equal(getClientIp(fromPeer('10.0.0.3', forwarded)), '203.0.113.9');
+  });
+
+  it('falls back to the nearest address when fewer proxies appended than trusted', () => {
+    process.env.TRUSTED_PROXY_HOPS = '3';
+    assert.equal(getClientIp(fromPeer('10.0.0.3', { 'x-forwarded-for': '203.0.113.9' })), '203.0.113.9');
+    assert.equal(getClientIp(fromPeer('10.0.0.3')), '10.0.0.3');
+  });
+});
+
+describe('consumeByClientIp', () => {
+  it('limits each known client in its own bucket', async () => {
+    const limiter = new MemoryTokenBucketLimiter({ capacity: 1, refillPerMinute: 1 });
+    assert.equal((await consumeByClientIp(limiter, fromPeer('203.0.113.7'))).allowed, true);
+    assert.equal((await consumeByClientIp(limiter, fromPeer('203.0.113.7'))).allowed, false);
+    assert.equal((await consumeByClientIp(limiter, fromPeer('203.0.113.8'))).allowed, true);
+  });
+
+  it('fails open when the client address is unknown', async () => {
+    const limiter = new MemoryTokenBucketLimiter({ capacity: 1, refillPerMinute: 1 });
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await consumeByClientIp(limiter, request())).allowed, true);
+    }
+  });
+});
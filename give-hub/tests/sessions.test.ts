@@ -0,0 +1,85 @@
+/**
+ * FILE: tests/sessions.test.ts
+ * PURPOSE: Refresh-token rotation (lib/auth/sessions): each refresh replaces the token, the
+ *          previous one is honoured only within the grace window, and later reuse revokes the session
+ */
+
+import './helpers/env';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '@/_dev/mock-db/database';
+import {
+  createSession,
+  findActiveSession,
+  revokeSession,
+  rotateRefreshToken,
+  sessionIdFromRefreshToken,
+  type Session,
+} from '@/lib/auth/sessions';
+
+// Moves the last rotation into the past, as if the grace window had run out
+const ageRotation = (sessionId: string) =>
+  db.updateRecord<Session>('sessions', sessionId, { rotatedAt: new Date(Date.now() - 60 * 1000).toISOString() });
+
+describe('refresh-token rotation', () => {
+  it('stores only a hash and replaces the token on every refresh', () => {
+    const { session, refreshToken } = createSession('user_1', { userAgent: 'test', ip: '203.0.113.7' });
+    assert.equal(sessionIdFromRefreshToken(refreshToken), session.id);
+    assert.equal(JSON.stringify(db.findRecord('sessions', session.id)).includes(refreshToken.split('.')[1]), false);
+
+    const first = rotateRefreshToken(refreshToken);
+    assert.ok(first.ok && first.refreshToken);
+    assert.notEqual(first.refreshToken, refreshToken);
+    assert.equal(sessionIdFromRefreshToken(first.refreshToken), session.id);
+
+    const second = rotateRefreshToken(first.refreshToken);
+    assert.ok(second.ok && second.refreshToken);
+    assert.ok(findActiveSession(session.id));
+  });
+
+  it('lets a concurrent request reuse the previous token within the grace window', () => {
+    const { session, refreshToken } = createSession('user_1');
+    const rotated = rotateRefreshToken(refreshToken);
+    assert.ok(rotated.ok && rotated.refreshToken);
+
+    const concurrent = rotateRefreshToken(refreshToken);
+    assert.ok(concurrent.ok);
+    // Access token only: the tab that won the race keeps the new refresh token
+    assert.equal(concurrent.refreshToken, undefined);
+    assert.ok(findActiveSession(session.id));
+  });
+
+  it('revokes the session when a rotated token comes back later', () => {
+    const { session, refreshToken } = createSession('user_1');
+    const rotated = rotateRefreshToken(refreshToken);
+    assert.ok(rotated.ok && rotated.refreshToken);
+    ageRotation(session.id);
+
+    const replay = rotateRefreshToken(refreshToken);
+    assert.deepEqual(replay, { ok: false, error: 'Refresh token reuse detected; please sign in again' });
+    assert.equal(findActiveSession(session.id), null);
+    assert.equal(db.findRecord<Session>('sessions', session.id)?.revokedReason, 'refresh_reuse');
+
+    // The legitimate holder's newer token dies with the session
+    assert.deepEqual(rotateRefreshToken(rotated.refreshToken), { ok: false, error: 'Session expired or revoked' });
+  });
+
+  it('revokes the session for a token older than the previous one', () => {
+    const { session, refreshToken } = createSession('user_1');
+    const first = rotateRefreshToken(refreshToken);
+    assert.ok(first.ok && first.refreshToken);
+    assert.ok(rotateRefreshToken(first.refreshToken).ok);
+
+    assert.equal(rotateRefreshToken(refreshToken).ok, false);
+    assert.equal(findActiveSession(session.id), null);
+  });
+
+  it('refuses malformed tokens and revoked sessions', () => {
+    assert.deepEqual(rotateRefreshToken('not-a-token'), { ok: false, error: 'Invalid refresh token' });
+    assert.deepEqual(rotateRefreshToken('a.b.c'), { ok: false, error: 'Invalid refresh token' });
+
+    const { session, refreshToken } = createSession('user_1');
+    assert.equal(revokeSession(session.id, 'user_1', 'signout'), true);
+    assert.deepEqual(rotateRefreshToken(refreshToken), { ok: false, error: 'Session expired or revoked' });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * FILE: tests/siwe.test.ts
+ * PURPOSE: Sign-In with Ethereum verification (lib/auth/siwe): the message must be for this host,
+ *          carry this browser's unexpired nonce, be signed by its own address, and work only once
+ * NOTES:
+ * - Messages are signed by an in-process ganache wallet; its eth_sign applies the same EIP-191
+ *   prefix as a browser wallet's personal_sign
+ */
+
+import './helpers/env';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '@/_dev/mock-db/database';
+import { issueSiweNonce, verifySiwe } from '@/lib/auth/siwe';
+import { createSiweMessage } from '@/lib/auth/siwe-message';
+import { bytesToHex, type Hex } from '@/lib/evm';
+import { CHAIN_ID, startChain, type LocalChain } from './helpers/chain';
+
+const DOMAIN = 'localhost:3000';
+
+describe('verifySiwe', () => {
+  let chain: LocalChain;
+  let wallet: Hex;
+  let other: Hex;
+
+  const messageFor = (address: Hex, nonce: string, fields: { domain?: string; expirationTime?: string } = {}) =>
+    createSiweMessage({
+      domain: fields.domain ?? DOMAIN,
+      address,
+      statement: 'Sign in to GiveHub',
+      uri: `http://${DOMAIN}`,
+      version: '1',
+      chainId: CHAIN_ID,
+      nonce,
+      issuedAt: new Date().toISOString(),
+      expirationTime: fields.expirationTime,
+    });
+  const sign = (message: string, signer: Hex) =>
+    chain.client.request<Hex>({ method: 'eth_sign', params: [signer, bytesToHex(new TextEncoder().encode(message))] });
+
+  before(async () => {
+    chain = await startChain();
+    [wallet, other] = chain.accounts;
+  });
+
+  after(async () => {
+    await chain.stop();
+  });
+
+  it('signs in once with a fresh nonce from the same browser', async () => {
+    const nonce = issueSiweNonce();
+    const message = messageFor(wallet, nonce);
+    const signature = await sign(message, wallet);
+
+    const verified = verifySiwe({ message, signature }, { domain: DOMAIN, cookieNonce: nonce });
+    assert.ok(verified.ok);
+    assert.equal(verified.address, wallet);
+    assert.equal(verified.chainId, CHAIN_ID);
+
+    // Replaying the same signed message fails: the nonce was burned
+    assert.deepEqual(verifySiwe({ message, signature }, { domain: DOMAIN, cookieNonce: nonce }), {
+      ok: false,
+      error: 'Sign-in request has expired or was already used',
+      status: 401,
+    });
+  });
+
+  it('refuses a message written for another site', async () => {
+    const nonce = issueSiweNonce();
+    const message = messageFor(wallet, nonce, { domain: 'evil.example' });
+    const signature = await sign(message, wallet);
+
+    assert.deepEqual(verifySiwe({ message, signature }, { domain: DOMAIN, cookieNonce: nonce }), {
+      ok: false,
+      error: 'This message was created for evil.example',
+      status: 401,
+    });
+  });
+
+  it('refuses a nonce that was not issued to this browser or by this server', async () => {
+    const nonce = issueSiweNonce();
+    const message = messageFor(wallet, nonce);
+    const signature = await sign(message, wallet);
+    const notFound = { ok: false, error: 'Sign-in request not found; please try again', status: 401 };
+
+    assert.deepEqual(verifySiwe({ message, signature }, { domain: DOMAIN }), notFound);
+    assert.deepEqual(verifySiwe({ message, signature }, { domain: DOMAIN, cookieNonce: issueSiweNonce() }), notFound);
+
+    // Matching cookie, but the nonce never came from GET /api/auth/siwe/nonce
+    const invented = messageFor(wallet, 'a1b2c3d4e5f6a7b8');
+    assert.deepEqual(verifySiwe({ message: invented, signature: await sign(invented, wallet) }, { domain: DOMAIN, cookieNonce: 'a1b2c3d4e5f6a7b8' }), {
+      ok: false,
+      error: 'Sign-in request has expired or was already used',
+      status: 401,
+    });
+  });
+
+  it('refuses an expired nonce or message', async () => {
+    const nonce = issueSiweNonce();
+    db.updateRecord<{ id: string; expiresAt: string }>('siwe_nonces', nonce, { expiresAt: new Date(Date.now() - 1000).toISOString() });
+    const message = messageFor(wallet, nonce);
+    assert.deepEqual(verifySiwe({ message, signature: await sign(message, wallet) }, { domain: DOMAIN, cookieNonce: nonce }), {
+      ok: false,
+      error: 'Sign-in request has expired or was already used',
+      status: 401,
+    });
+
+    const fresh = issueSiweNonce();
+    const expired = messageFor(wallet, fresh, { expirationTime: new Date(Date.now() - 1000).toISOString() });
+    assert.deepEqual(verifySiwe({ message: expired, signature: await sign(expired, wallet) }, { domain: DOMAIN, cookieNonce: fresh }), {
+      ok: false,
+      error: 'Message has expired',
+      status: 401,
+    });
+  });
+
+  it('refuses a signature from a different address and keeps the nonce usable', async () => {
+    const nonce = issueSiweNonce();
+    const message = messageFor(wallet, nonce);
+    const mismatch = { ok: false, error: 'Signature does not match the address', status: 401 };
+
+    assert.deepEqual(verifySiwe({ message, signature: await sign(message, other) }, { domain: DOMAIN, cookieNonce: nonce }), mismatch);
+    assert.deepEqual(verifySiwe({ message, signature: '0x1234' }, { domain: DOMAIN, cookieNonce: nonce }), mismatch);
+
+    assert.equal(verifySiwe({ message, signature: await sign(message, wallet) }, { domain: DOMAIN, cookieNonce: nonce }).ok, true);
+  });
+
+  it('refuses malformed input', () => {
+    assert.deepEqual(verifySiwe({ message: undefined, signature: '0x' }, { domain: DOMAIN }), {
+      ok: false,
+      error: 'message and signature are required',
+      status: 400,
+    });
+    assert.deepEqual(verifySiwe({ message: 'hello', signature: '0x' }, { domain: DOMAIN }), {
+      ok: false,
+      error: 'Not a valid Sign-In with Ethereum message',
+      status: 400,
+    });
+  });
+});
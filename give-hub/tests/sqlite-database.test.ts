@@ -0,0 +1,75 @@
+/**
+ * FILE: tests/sqlite-database.test.ts
+ * PURPOSE: SqliteDatabase.transaction(): every write inside commits together or none does,
+ *          nested calls join the outer transaction, and committed writes survive a reopen
+ */
+
+import './helpers/env';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SqliteDatabase } from '@/_dev/mock-db/sqlite-database';
+import type { CollectionRecord } from '@/_dev/mock-db/database';
+
+type Note = CollectionRecord & { text: string };
+
+const store = new SqliteDatabase(process.env.SQLITE_PATH);
+
+const newCampaign = (title: string) => ({
+  title,
+  description: 'Transaction test campaign',
+  goal: 100,
+  raised: 0,
+  chains: ['Ethereum'],
+  creatorId: 'user_2',
+  status: 'active' as const,
+});
+
+describe('SqliteDatabase transactions', () => {
+  it('commits every write made inside the transaction', () => {
+    const campaign = store.transaction(() => {
+      const created = store.createCampaign(newCampaign('Committed together'));
+      store.updateUser('user_1', { totalDonated: 800 });
+      store.insertRecord<Note>('notes', { id: 'committed', text: created.id });
+      return created;
+    });
+
+    assert.equal(store.findCampaignById(campaign.id)?.title, 'Committed together');
+    assert.equal(store.findUserById('user_1')?.totalDonated, 800);
+    assert.equal(store.findRecord<Note>('notes', 'committed')?.text, campaign.id);
+  });
+
+  it('rolls back every write when the transaction throws', () => {
+    const campaigns = store.getAllCampaigns().length;
+    const totalDonated = store.findUserById('user_1')?.totalDonated;
+
+    assert.throws(() => store.transaction(() => {
+      store.createCampaign(newCampaign('Rolled back'));
+      store.updateUser('user_1', { totalDonated: 9999 });
+      store.insertRecord<Note>('notes', { id: 'rolled-back', text: '' });
+      throw new Error('write failed halfway');
+    }), /write failed halfway/);
+
+    assert.equal(store.getAllCampaigns().length, campaigns);
+    assert.equal(store.findUserById('user_1')?.totalDonated, totalDonated);
+    assert.equal(store.findRecord<Note>('notes', 'rolled-back'), null);
+  });
+
+  it('rolls back a nested transaction with the outer one', () => {
+    assert.throws(() => store.transaction(() => {
+      store.transaction(() => store.insertRecord<Note>('notes', { id: 'nested', text: 'inner' }));
+      throw new Error('outer failed');
+    }), /outer failed/);
+
+    assert.equal(store.findRecord<Note>('notes', 'nested'), null);
+  });
+
+  it('keeps committed writes when the database is reopened', () => {
+    store.transaction(() => store.insertRecord<Note>('notes', { id: 'durable', text: 'kept' }));
+
+    const reopened = new SqliteDatabase(process.env.SQLITE_PATH);
+    assert.equal(reopened.findRecord<Note>('notes', 'durable')?.text, 'kept');
+    assert.equal(reopened.findRecord<Note>('notes', 'rolled-back'), null);
+    // Seeding runs once per file, not on every open
+    assert.equal(reopened.getAllUsers().length, store.getAllUsers().length);
+  });
+});